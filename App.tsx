@@ -1,20 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { ProfileSetup } from './components/ProfileSetup';
 import { DailyCheckIn } from './components/DailyCheckIn';
 import { RecipeDisplay } from './components/RecipeDisplay';
 import { RecipeHistory } from './components/RecipeHistory';
 import { ShoppingList } from './components/ShoppingList';
 import { KitchenManager } from './components/KitchenManager';
+import { MealPlanner } from './components/MealPlanner';
+import { NutritionDashboard } from './components/NutritionDashboard';
 import { AuthPage } from './components/AuthPage';
 import { AccountPage } from './components/AccountPage';
-import { generateRecipe } from './services/geminiService';
-import { verifyDatabaseSchema, getUserProfile, saveUserProfile } from './services/dbService';
+import { streamRecipe, refineRecipe, buildGenerationOptions, buildProfileOptions, getDefaultChefId, AllergenViolationError } from './src/services/chef';
+import type { ChefPersona, RecipeRefinement } from './src/services/chef';
+import { calculateNutritionTargets, getMealTargets } from './src/services/nutrition';
+import { verifyDatabaseSchema, getUserProfile, saveUserProfile, migrateLegacyRecipeContent } from './services/dbService';
 import { useFirebaseSSOAuth } from './hooks/useFirebaseSSOAuth';
 import { getSSOTokenFromUrl } from './services/hub/FirebaseSSO';
 import { auth } from './src/lib/firebase';
 import { onAuthStateChanged } from 'firebase/auth';
-import { UserProfile, DailyContext, TrainerType, Recipe } from './types';
-import { ChefHat, BookOpen, AlertTriangle, Loader2, User, ShoppingCart, Archive } from 'lucide-react';
+import { UserProfile, CookingContext, Recipe } from './types';
+import { ChefHat, BookOpen, AlertTriangle, Loader2, User, ShoppingCart, Archive, RefreshCw, CalendarDays, NotebookPen } from 'lucide-react';
 import { DEFAULT_PROFILE_VALUES } from './constants/defaults';
 
 // DEBUG LOGGING
@@ -22,14 +26,14 @@ console.log('📦 App.tsx module loaded (Multi-Schema Architecture)');
 
 const INITIAL_PROFILE: UserProfile = {
   ...DEFAULT_PROFILE_VALUES,
-  fitnessLevel: 'Intermediate',
+  cookingSkill: 'Intermediate',
   goals: ['Healthy Eating'],
-  injuries: [],
-  medicalConditions: [],
-  preferences: ['Oven', 'Stove']
+  allergies: [],
+  dietaryRestrictions: [],
+  dislikes: []
 };
 
-type View = 'generator' | 'history' | 'active-workout' | 'account' | 'shopping' | 'kitchen';
+type View = 'generator' | 'history' | 'active-workout' | 'account' | 'shopping' | 'kitchen' | 'planner' | 'nutrition';
 type DbStatus = 'checking' | 'connected' | 'error';
 
 const App: React.FC = () => {
@@ -48,10 +52,13 @@ const App: React.FC = () => {
 
   const [profile, setProfile] = useState<UserProfile>(INITIAL_PROFILE);
   const [isProfileLoading, setIsProfileLoading] = useState(false);
+  const dailyTargets = useMemo(() => calculateNutritionTargets(profile).daily, [profile]);
   
   const [recipePlan, setRecipePlan] = useState<Recipe | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const lastGenerateRef = useRef<{ cookingContext: CookingContext; chef: ChefPersona } | null>(null); // for Regenerate
   const [currentView, setCurrentView] = useState<View>('generator');
   const [pendingView, setPendingView] = useState<View | null>(null);
   
@@ -93,7 +100,7 @@ const App: React.FC = () => {
     const viewParam = params.get('view');
     
     // Validate view parameter against View type
-    const validViews: View[] = ['generator', 'history', 'active-workout', 'account', 'shopping', 'kitchen'];
+    const validViews: View[] = ['generator', 'history', 'active-workout', 'account', 'shopping', 'kitchen', 'planner', 'nutrition'];
     if (viewParam && validViews.includes(viewParam as View)) {
       setPendingView(viewParam as View);
       console.log('✅ [DEBUG] App.tsx: View parameter captured:', viewParam);
@@ -126,6 +133,7 @@ const App: React.FC = () => {
       const fetchedProfile = await getUserProfile(uid);
       if (fetchedProfile) setProfile(fetchedProfile);
       else await saveUserProfile(uid, INITIAL_PROFILE);
+      migrateLegacyRecipeContent(uid); // Background; recipes read in either format meanwhile
     } else {
       setDbStatus('error');
       setDbMessage(result.message);
@@ -158,25 +166,50 @@ const App: React.FC = () => {
     await saveUserProfile(currentUserId, updatedProfile);
   };
 
-  const handleGenerate = async (dailyContext: DailyContext, trainer: TrainerType) => {
+  const handleGenerate = async (cookingContext: CookingContext, chef: ChefPersona) => {
+    lastGenerateRef.current = { cookingContext, chef };
     setIsLoading(true);
     setError(null);
     setRecipePlan(null);
     window.scrollTo({ top: 0, behavior: 'smooth' });
 
     try {
-      const plan = await generateRecipe(profile, dailyContext, trainer);
+      // Stream partial recipes into the carousel as sections arrive
+      const plan = await streamRecipe(buildGenerationOptions(profile, cookingContext, chef.id), (partial) => {
+        setIsStreaming(true);
+        setRecipePlan(partial);
+        setCurrentView('active-workout');
+      });
       if (!plan) throw new Error("Received empty recipe plan.");
       setRecipePlan(plan);
       setCurrentView('active-workout');
     } catch (err: any) {
       console.error("Generation failed:", err);
-      setError(err.message || "Failed to generate recipe.");
+      if (err instanceof AllergenViolationError) {
+        setError(`The chef's recipe was blocked because it conflicts with your allergies: ${err.violations.map(v => `${v.ingredient} (${v.group})`).join(', ')}. Try regenerating.`);
+      } else {
+        setError(err.message || "Failed to generate recipe.");
+      }
+      setRecipePlan(null);
+      setCurrentView('generator');
     } finally {
+      setIsStreaming(false);
       setIsLoading(false);
     }
   };
 
+  const handleRegenerate = () => {
+    if (!lastGenerateRef.current || isLoading) return;
+    const { cookingContext, chef } = lastGenerateRef.current;
+    handleGenerate(cookingContext, chef);
+  };
+
+  // Refinements go back to the recipe's own chef; the last selected chef is only a fallback
+  const handleRefineRecipe = (recipe: Recipe, instruction: string): Promise<RecipeRefinement> => {
+    const chefId = lastGenerateRef.current?.chef.id || getDefaultChefId();
+    return refineRecipe(recipe, instruction, buildProfileOptions(profile, chefId, recipe.mealType));
+  };
+
   const handleLoadRecipe = (plan: Recipe) => {
     setRecipePlan(plan);
     setCurrentView('active-workout');
@@ -216,6 +249,8 @@ const App: React.FC = () => {
           <div className="hidden md:flex items-center gap-2">
             <button onClick={() => setCurrentView('shopping')} className={`text-sm font-medium transition-colors flex items-center gap-2 px-3 py-2 rounded-lg ring-offset-white ${currentView === 'shopping' ? 'bg-slate-800 text-[#f0dc7a]' : 'text-slate-400 hover:text-white'}`}><ShoppingCart className="w-4 h-4" /> List</button>
             <button onClick={() => setCurrentView('kitchen')} className={`text-sm font-medium transition-colors flex items-center gap-2 px-3 py-2 rounded-lg ring-offset-white ${currentView === 'kitchen' ? 'bg-slate-800 text-[#f0dc7a]' : 'text-slate-400 hover:text-white'}`}><Archive className="w-4 h-4" /> Kitchen</button>
+            <button onClick={() => setCurrentView('planner')} className={`text-sm font-medium transition-colors flex items-center gap-2 px-3 py-2 rounded-lg ring-offset-white ${currentView === 'planner' ? 'bg-slate-800 text-[#f0dc7a]' : 'text-slate-400 hover:text-white'}`}><CalendarDays className="w-4 h-4" /> Planner</button>
+            <button onClick={() => setCurrentView('nutrition')} className={`text-sm font-medium transition-colors flex items-center gap-2 px-3 py-2 rounded-lg ring-offset-white ${currentView === 'nutrition' ? 'bg-slate-800 text-[#f0dc7a]' : 'text-slate-400 hover:text-white'}`}><NotebookPen className="w-4 h-4" /> Diary</button>
             <button onClick={() => setCurrentView('history')} className={`text-sm font-medium transition-colors flex items-center gap-2 px-3 py-2 rounded-lg ring-offset-white ${currentView === 'history' ? 'bg-slate-800 text-[#f0dc7a]' : 'text-slate-400 hover:text-white'}`}><BookOpen className="w-4 h-4" /> Cookbook</button>
             <button onClick={() => setCurrentView('account')} className={`text-sm font-medium transition-colors flex items-center gap-2 px-3 py-2 rounded-lg ring-offset-white ${currentView === 'account' ? 'bg-slate-800 text-[#f0dc7a]' : 'text-slate-400 hover:text-white'}`}><User className="w-4 h-4" /> Account</button>
           </div>
@@ -239,13 +274,28 @@ const App: React.FC = () => {
           <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
             <ProfileSetup profile={profile} onSave={handleProfileSave} />
             <DailyCheckIn onSubmit={handleGenerate} isLoading={isLoading} />
-            {error && <div className="mt-6 bg-red-500/10 border border-red-500/50 text-red-400 p-4 rounded-xl flex gap-3"><AlertTriangle className="w-5 h-5" /> <div><h4 className="font-bold">Error</h4><p>{error}</p></div></div>}
+            {error && (
+              <div className="mt-6 bg-red-500/10 border border-red-500/50 text-red-400 p-4 rounded-xl flex gap-3">
+                <AlertTriangle className="w-5 h-5 shrink-0" />
+                <div>
+                  <h4 className="font-bold">Error</h4>
+                  <p>{error}</p>
+                  {lastGenerateRef.current && !isLoading && (
+                    <button onClick={handleRegenerate} className="mt-3 flex items-center gap-2 text-sm font-bold text-[#f0dc7a] hover:text-[#f4e59c]">
+                      <RefreshCw className="w-4 h-4" /> Regenerate
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         )}
-        {currentView === 'active-workout' && recipePlan && <RecipeDisplay plan={recipePlan} units={profile.units} userId={currentUserId!} />}
+        {currentView === 'active-workout' && recipePlan && <RecipeDisplay plan={recipePlan} units={profile.units} userId={currentUserId!} isStreaming={isStreaming} onRegenerate={handleRegenerate} onRefine={handleRefineRecipe} onAcceptRefinement={handleLoadRecipe} targets={getMealTargets(dailyTargets, recipePlan.mealType)} />}
         {currentView === 'history' && <RecipeHistory userId={currentUserId!} onLoadWorkout={handleLoadRecipe} />}
-        {currentView === 'shopping' && <ShoppingList userId={currentUserId!} />}
+        {currentView === 'shopping' && <ShoppingList userId={currentUserId!} units={profile.units.system} />}
         {currentView === 'kitchen' && <KitchenManager userId={currentUserId!} />}
+        {currentView === 'planner' && <MealPlanner userId={currentUserId!} profile={profile} onLoadRecipe={handleLoadRecipe} />}
+        {currentView === 'nutrition' && <NutritionDashboard userId={currentUserId!} targets={dailyTargets} />}
       </main>
 
       {/* Mobile Bottom Bar */}
@@ -259,6 +309,12 @@ const App: React.FC = () => {
         <button onClick={() => setCurrentView('kitchen')} className={`p-2 rounded-lg flex flex-col items-center gap-1 ${currentView === 'kitchen' ? 'text-[#f0dc7a]' : 'text-slate-500'}`}>
           <Archive className="w-5 h-5" /> <span className="text-[10px]">Kitchen</span>
         </button>
+        <button onClick={() => setCurrentView('planner')} className={`p-2 rounded-lg flex flex-col items-center gap-1 ${currentView === 'planner' ? 'text-[#f0dc7a]' : 'text-slate-500'}`}>
+          <CalendarDays className="w-5 h-5" /> <span className="text-[10px]">Plan</span>
+        </button>
+        <button onClick={() => setCurrentView('nutrition')} className={`p-2 rounded-lg flex flex-col items-center gap-1 ${currentView === 'nutrition' ? 'text-[#f0dc7a]' : 'text-slate-500'}`}>
+          <NotebookPen className="w-5 h-5" /> <span className="text-[10px]">Diary</span>
+        </button>
         <button onClick={() => setCurrentView('history')} className={`p-2 rounded-lg flex flex-col items-center gap-1 ${currentView === 'history' ? 'text-[#f0dc7a]' : 'text-slate-500'}`}>
           <BookOpen className="w-5 h-5" /> <span className="text-[10px]">Book</span>
         </button>
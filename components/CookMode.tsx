@@ -0,0 +1,229 @@
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Recipe } from '../types';
+import { useCookTimers } from '../hooks/useCookTimers';
+import { useWakeLock } from '../hooks/useWakeLock';
+import { parseTimerDuration, formatCountdown } from '../utils/timerParser';
+import { X, ChevronLeft, ChevronRight, Timer, Pause, Play, BellRing, Activity, CheckCircle2 } from 'lucide-react';
+
+interface Props {
+  recipe: Recipe; // Already scaled/converted for display
+  initialStep?: number;
+  onExit: () => void;
+}
+
+const KEYBOARD_HINTS = 'Space / → next · ← back · T timer · P pause · D dismiss · 1-9 jump · Esc exit';
+
+export const CookMode: React.FC<Props> = ({ recipe, initialStep = 0, onExit }) => {
+  const steps = recipe.sections.filter(s => s.type === 'Instructions');
+  const [stepIndex, setStepIndex] = useState(Math.min(initialStep, Math.max(0, steps.length - 1)));
+  const { timers, startTimer, togglePause, dismissTimer, unlockAudio } = useCookTimers();
+
+  useWakeLock(true);
+
+  const step = steps[stepIndex];
+  const stepSeconds = parseTimerDuration(step?.metadata?.timer);
+  const stepTimer = timers.find(t => t.stepIndex === stepIndex && t.status !== 'done');
+  const isLastStep = stepIndex === steps.length - 1;
+
+  const goNext = useCallback(() => setStepIndex(prev => Math.min(prev + 1, steps.length - 1)), [steps.length]);
+  const goPrev = useCallback(() => setStepIndex(prev => Math.max(prev - 1, 0)), []);
+
+  const startStepTimer = useCallback(() => {
+    if (!step || stepSeconds === null || stepTimer) return;
+    startTimer(step.title, stepIndex, stepSeconds);
+  }, [step, stepSeconds, stepTimer, startTimer, stepIndex]);
+
+  // Pause/resume the timer on this step, or the most recently started one
+  const toggleLatestTimer = useCallback(() => {
+    const target = stepTimer ?? [...timers].reverse().find(t => t.status !== 'done');
+    if (target) togglePause(target.id);
+  }, [stepTimer, timers, togglePause]);
+
+  const dismissFinished = useCallback(() => {
+    timers.filter(t => t.status === 'done').forEach(t => dismissTimer(t.id));
+  }, [timers, dismissTimer]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (document.activeElement?.tagName === 'INPUT') return;
+      unlockAudio();
+
+      switch (e.key) {
+        case 'ArrowRight':
+        case 'ArrowDown':
+        case 'PageDown':
+        case ' ':
+        case 'Enter':
+        case 'n':
+          e.preventDefault();
+          goNext();
+          break;
+        case 'ArrowLeft':
+        case 'ArrowUp':
+        case 'PageUp':
+        case 'Backspace':
+        case 'b':
+          e.preventDefault();
+          goPrev();
+          break;
+        case 'Home':
+          setStepIndex(0);
+          break;
+        case 'End':
+          setStepIndex(Math.max(0, steps.length - 1));
+          break;
+        case 't':
+          startStepTimer();
+          break;
+        case 'p':
+          toggleLatestTimer();
+          break;
+        case 'd':
+          dismissFinished();
+          break;
+        case 'Escape':
+          onExit();
+          break;
+        default:
+          if (/^[1-9]$/.test(e.key) && parseInt(e.key, 10) <= steps.length) {
+            setStepIndex(parseInt(e.key, 10) - 1);
+          }
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [goNext, goPrev, startStepTimer, toggleLatestTimer, dismissFinished, onExit, unlockAudio, steps.length]);
+
+  // Every tap also unlocks audio, since browsers only allow sound after a gesture
+  const withAudio = (action: () => void) => () => {
+    unlockAudio();
+    action();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-950 text-white flex flex-col animate-in fade-in duration-300" onPointerDown={unlockAudio}>
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4 px-4 md:px-8 py-4 border-b border-slate-800 shrink-0">
+        <div className="min-w-0">
+          <span className="text-xs text-[#f0dc7a] font-bold uppercase tracking-wider">Cook Mode</span>
+          <h1 className="text-lg md:text-xl font-bold truncate">{recipe.title}</h1>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-slate-400 font-mono text-lg">{steps.length ? `${stepIndex + 1} / ${steps.length}` : '0 / 0'}</span>
+          <button
+            onClick={onExit}
+            className="p-4 rounded-2xl bg-slate-800 hover:bg-slate-700 border border-slate-700 transition-colors"
+            title="Exit cook mode (Esc)"
+          >
+            <X className="w-8 h-8" />
+          </button>
+        </div>
+      </div>
+
+      {/* Progress */}
+      <div className="h-1.5 bg-slate-900 w-full flex shrink-0">
+        {steps.map((_, idx) => (
+          <div key={idx} className={`h-full flex-1 ${idx <= stepIndex ? 'bg-[#f0dc7a]' : 'bg-slate-800'} ${idx > 0 ? 'border-l border-slate-950' : ''}`} />
+        ))}
+      </div>
+
+      {/* Running timers */}
+      {timers.length > 0 && (
+        <div className="flex gap-3 px-4 md:px-8 py-3 overflow-x-auto border-b border-slate-800 shrink-0">
+          {timers.map(timer => (
+            <div
+              key={timer.id}
+              className={`flex items-center gap-3 pl-4 pr-2 py-2 rounded-2xl border shrink-0 ${
+                timer.status === 'done'
+                  ? 'bg-red-500/20 border-red-500 animate-pulse'
+                  : 'bg-slate-900 border-slate-700'
+              }`}
+            >
+              {timer.status === 'done' ? <BellRing className="w-6 h-6 text-red-400" /> : <Timer className="w-6 h-6 text-[#f0dc7a]" />}
+              <button onClick={withAudio(() => setStepIndex(timer.stepIndex))} className="text-left">
+                <span className="block text-[10px] uppercase font-bold text-slate-400 max-w-[10rem] truncate">{timer.label}</span>
+                <span className="block text-2xl font-mono font-bold">
+                  {timer.status === 'done' ? 'Done!' : formatCountdown(timer.remainingSeconds)}
+                </span>
+              </button>
+              {timer.status !== 'done' && (
+                <button
+                  onClick={withAudio(() => togglePause(timer.id))}
+                  className="p-3 rounded-xl bg-slate-800 hover:bg-slate-700"
+                  title={timer.status === 'running' ? 'Pause (P)' : 'Resume (P)'}
+                >
+                  {timer.status === 'running' ? <Pause className="w-6 h-6" /> : <Play className="w-6 h-6" />}
+                </button>
+              )}
+              <button
+                onClick={withAudio(() => dismissTimer(timer.id))}
+                className="p-3 rounded-xl bg-slate-800 hover:bg-slate-700"
+                title="Dismiss (D)"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Step */}
+      <div className="flex-grow overflow-y-auto px-6 md:px-16 py-8 flex flex-col">
+        {step ? (
+          <>
+            <h2 className="text-2xl md:text-4xl font-black text-[#f0dc7a] mb-6 leading-tight">{step.title}</h2>
+            <p className="text-2xl md:text-4xl leading-relaxed font-medium text-slate-100">{step.items[0]}</p>
+            {step.items.slice(1).map((extra, i) => (
+              <p key={i} className="mt-4 text-xl md:text-2xl text-slate-400">{extra}</p>
+            ))}
+
+            <div className="mt-auto pt-8 flex flex-wrap gap-4">
+              {step.metadata?.technique && (
+                <div className="flex items-center gap-3 bg-slate-900 px-5 py-4 rounded-2xl border border-slate-800">
+                  <Activity className="w-7 h-7 text-orange-500" />
+                  <span className="text-xl font-bold">{step.metadata.technique}</span>
+                </div>
+              )}
+              {stepSeconds !== null && !stepTimer && (
+                <button
+                  onClick={withAudio(startStepTimer)}
+                  className="flex items-center gap-3 bg-[#f0dc7a] text-slate-900 px-6 py-4 rounded-2xl font-black text-xl hover:bg-[#f4e59c] transition-colors"
+                  title="Start timer (T)"
+                >
+                  <Timer className="w-7 h-7" /> Start {formatCountdown(stepSeconds)} timer
+                </button>
+              )}
+              {stepTimer && (
+                <div className="flex items-center gap-3 bg-slate-900 px-5 py-4 rounded-2xl border border-[#f0dc7a]/50">
+                  <Timer className="w-7 h-7 text-[#f0dc7a]" />
+                  <span className="text-2xl font-mono font-bold">{formatCountdown(stepTimer.remainingSeconds)}</span>
+                </div>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="m-auto text-slate-500 text-xl">This recipe has no instruction steps.</div>
+        )}
+      </div>
+
+      {/* Large touch targets */}
+      <div className="grid grid-cols-2 gap-3 p-3 border-t border-slate-800 shrink-0">
+        <button
+          onClick={withAudio(goPrev)}
+          disabled={stepIndex === 0}
+          className="h-24 md:h-28 rounded-3xl bg-slate-800 hover:bg-slate-700 disabled:opacity-30 flex items-center justify-center gap-2 text-2xl font-bold transition-colors"
+        >
+          <ChevronLeft className="w-10 h-10" /> Back
+        </button>
+        <button
+          onClick={withAudio(isLastStep ? onExit : goNext)}
+          className="h-24 md:h-28 rounded-3xl bg-[#f0dc7a] text-slate-900 hover:bg-[#f4e59c] flex items-center justify-center gap-2 text-2xl font-black transition-colors"
+        >
+          {isLastStep ? <>Finish <CheckCircle2 className="w-10 h-10" /></> : <>Next <ChevronRight className="w-10 h-10" /></>}
+        </button>
+      </div>
+      <p className="hidden md:block text-center text-xs text-slate-600 pb-3">{KEYBOARD_HINTS}</p>
+    </div>
+  );
+};
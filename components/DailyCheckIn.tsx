@@ -1,51 +1,49 @@
 
-import React, { useState, useEffect } from 'react';
-import { DailyContext, TrainerType, TRAINER_FOCUS_OPTIONS } from '../types';
-import { Battery, Clock, Zap, PlayCircle, Loader2, Target, ChefHat, Utensils, XCircle, Dumbbell } from 'lucide-react';
-import { getRecentWorkouts } from '../services/dbService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { CookingContext, WorkoutSummary, InventoryItem, MealSlot } from '../types';
+import { Battery, Clock, Zap, PlayCircle, Loader2, Target, ChefHat, Utensils, XCircle, Dumbbell, Archive, Pin, Minus, Plus, Hourglass } from 'lucide-react';
+import { getRecentWorkouts, getUserInventory } from '../services/dbService';
+import { DEFAULT_PANTRY_STAPLES } from '../constants/defaults';
+import { getExpiringItems, getDaysUntilExpiry } from '../src/services/inventory';
+import { MEAL_SLOTS, MEAL_SLOT_LABELS } from '../src/services/mealPlan';
 import { auth } from '../src/lib/firebase';
+import { chefRegistry, getDefaultChefId } from '../src/services/chef';
+import type { ChefPersona } from '../src/services/chef';
+import { ChefSelector } from '../src/components/chef';
 
 interface Props {
-  onSubmit: (data: DailyContext, trainer: TrainerType) => void;
+  onSubmit: (data: CookingContext, chef: ChefPersona) => void;
   isLoading: boolean;
 }
 
-const TRAINER_DETAILS: Record<TrainerType, { description: string; activeClass: string; borderClass: string }> = {
-  [TrainerType.FUNCTIONAL]: {
-    description: "Balanced, whole foods for everyday health",
-    activeClass: "bg-green-500/20 border-green-500",
-    borderClass: "border-l-4 border-l-green-500"
-  },
-  [TrainerType.HYPERTROPHY]: {
-    description: "Maximize protein for muscle growth",
-    activeClass: "bg-red-500/20 border-red-500",
-    borderClass: "border-l-4 border-l-red-500"
-  },
-  [TrainerType.POWERLIFTING]: {
-    description: "Hearty, filling, comfort meals",
-    activeClass: "bg-blue-500/20 border-blue-500",
-    borderClass: "border-l-4 border-l-blue-500"
-  },
-  [TrainerType.YOGA]: {
-    description: "Plant-focused, light, and organic",
-    activeClass: "bg-purple-500/20 border-purple-500",
-    borderClass: "border-l-4 border-l-purple-500"
-  },
-  [TrainerType.HIIT]: {
-    description: "Quick, efficient, high-energy meals",
-    activeClass: "bg-orange-500/20 border-orange-500",
-    borderClass: "border-l-4 border-l-orange-500"
-  },
-  [TrainerType.REHAB]: {
-    description: "Gut-friendly, anti-inflammatory",
-    activeClass: "bg-cyan-500/20 border-cyan-500",
-    borderClass: "border-l-4 border-l-cyan-500"
+const MAX_PANTRY_EXTRAS = 5;
+
+const describeExpiry = (expiresAt: string): string => {
+  const days = getDaysUntilExpiry(expiresAt);
+  if (days < 0) return 'expired';
+  if (days === 0) return 'today';
+  return days === 1 ? 'tomorrow' : `${days} days`;
+};
+
+const formatCalories = (workout: WorkoutSummary): string =>
+  `${workout.caloriesEstimated ? '~' : ''}${workout.caloriesBurned} kcal`;
+
+// The meal this check-in is most likely for, from the time of day
+const getCurrentMealSlot = (hour: number = new Date().getHours()): MealSlot =>
+  hour < 11 ? 'breakfast' : hour < 16 ? 'lunch' : 'dinner';
+
+const getInitialChef = (): ChefPersona | undefined => {
+  try {
+    return chefRegistry.getChef(getDefaultChefId());
+  } catch {
+    return undefined; // No chefs registered (model provider not configured)
   }
 };
 
 export const DailyCheckIn: React.FC<Props> = ({ onSubmit, isLoading }) => {
-  const [trainer, setTrainer] = useState<TrainerType>(TrainerType.FUNCTIONAL);
-  const [selectedFocus, setSelectedFocus] = useState<string>(TRAINER_FOCUS_OPTIONS[TrainerType.FUNCTIONAL][0]);
+  const [chef, setChef] = useState<ChefPersona | undefined>(getInitialChef);
+  const [selectedFocus, setSelectedFocus] = useState<string>(chef?.focusOptions[0] || '');
+  const [mealType, setMealType] = useState<MealSlot>(getCurrentMealSlot);
   
   const [duration, setDuration] = useState(45);
   const [hunger, setHunger] = useState(7);
@@ -55,18 +53,32 @@ export const DailyCheckIn: React.FC<Props> = ({ onSubmit, isLoading }) => {
   
   // Workout Import State
   const [showImportModal, setShowImportModal] = useState(false);
-  const [recentWorkouts, setRecentWorkouts] = useState<any[]>([]);
-  const [importedContext, setImportedContext] = useState<string | null>(null);
+  const [recentWorkouts, setRecentWorkouts] = useState<WorkoutSummary[]>([]);
+  const [importedWorkout, setImportedWorkout] = useState<WorkoutSummary | null>(null);
+  const [isFetchingWorkouts, setIsFetchingWorkouts] = useState(false);
+
+  // Pantry Mode State
+  const [pantryMode, setPantryMode] = useState(false);
+  const [inventory, setInventory] = useState<InventoryItem[] | null>(null);
+  const [isFetchingInventory, setIsFetchingInventory] = useState(false);
+  const [pinned, setPinned] = useState<string[]>([]);
+  const [staples, setStaples] = useState(DEFAULT_PANTRY_STAPLES.join(', '));
+  const [maxExtras, setMaxExtras] = useState(0);
+  const inStock = useMemo(() => Array.from(new Set<string>((inventory || []).map(i => i.name))), [inventory]);
+
+  // Use It Up State (defaults to everything expiring soon)
+  const expiring = useMemo(() => getExpiringItems(inventory || []), [inventory]);
+  const [useUp, setUseUp] = useState<string[]>([]);
 
   // Dynamic loading state
   const [loadingMessage, setLoadingMessage] = useState("Firing up the stove...");
 
-  // Update focus options when trainer changes
+  // Update focus options when chef changes
   useEffect(() => {
-    if (TRAINER_FOCUS_OPTIONS[trainer]) {
-        setSelectedFocus(TRAINER_FOCUS_OPTIONS[trainer][0]);
+    if (chef?.focusOptions.length) {
+        setSelectedFocus(chef.focusOptions[0]);
     }
-  }, [trainer]);
+  }, [chef]);
 
   useEffect(() => {
     if (!isLoading) return;
@@ -74,7 +86,7 @@ export const DailyCheckIn: React.FC<Props> = ({ onSubmit, isLoading }) => {
     const messages = [
       "Checking your allergies...",
       "Consulting the Chef...",
-      `Applying ${trainer} philosophy...`,
+      `Applying ${chef?.name || 'Chef'} philosophy...`,
       `Designing a ${selectedFocus} dish...`,
       "Balancing the flavors...",
       "Calculating cooking times...",
@@ -92,14 +104,16 @@ export const DailyCheckIn: React.FC<Props> = ({ onSubmit, isLoading }) => {
     }, 3500);
 
     return () => clearInterval(intervalId);
-  }, [isLoading, trainer, selectedFocus]);
+  }, [isLoading, chef, selectedFocus]);
 
   const handleFetchWorkouts = async () => {
     // Get current user from Firebase auth
     const userId = auth.currentUser?.uid;
     
     if (userId) {
+      setIsFetchingWorkouts(true);
       const workouts = await getRecentWorkouts(userId);
+      setIsFetchingWorkouts(false);
       setRecentWorkouts(workouts);
       setShowImportModal(true);
     } else {
@@ -107,39 +121,58 @@ export const DailyCheckIn: React.FC<Props> = ({ onSubmit, isLoading }) => {
     }
   };
 
-  const handleImportWorkout = (workout: any) => {
-    // 1. Set Duration based on workout length + cooking time (assuming 30-45 mins needed)
-    setDuration(45); 
-
-    // 2. Set Context in Cravings/Pantry to guide AI
-    setImportedContext(`Recovery Meal for: ${workout.title} (${workout.total_duration}m)`);
-    setCravings(`Post-Workout Recovery: ${workout.title}`);
-    
-    // 3. Auto-select Chef based on workout type if mapped
-    if (workout.trainer_type) {
-        // Try to match, otherwise keep default
-        // This relies on trainer_type strings matching partially or exactly
-        // For now, we will just inform the user
-    }
-    
+  const handleImportWorkout = (workout: WorkoutSummary) => {
+    setImportedWorkout(workout);
     setShowImportModal(false);
   };
 
+  // Inventory feeds both the Use It Up panel and pantry mode
+  useEffect(() => {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return;
+
+    const loadInventory = async () => {
+      setIsFetchingInventory(true);
+      const items = await getUserInventory(userId);
+      setIsFetchingInventory(false);
+      const stocked = items.filter(i => i.inStock);
+      setInventory(stocked);
+      setUseUp(Array.from(new Set(getExpiringItems(stocked).map(i => i.name))));
+    };
+    loadInventory();
+  }, []);
+
+  const toggleUseUp = (name: string) => {
+    setUseUp(prev => prev.includes(name) ? prev.filter(p => p !== name) : [...prev, name]);
+  };
+
+  const togglePinned = (name: string) => {
+    setPinned(prev => prev.includes(name) ? prev.filter(p => p !== name) : [...prev, name]);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (isLoading) return; // Prevent double submit
-
-    const context: DailyContext = {
-      duration,
-      sleepQuality: hunger, 
-      energyLevel: mood,
-      soreness: cravings ? cravings.split(',').map(s => s.trim()) : [], 
-      targetMuscleGroups: pantry ? pantry.split(',').map(s => s.trim()) : ['Whatever is fresh'],
-      equipmentAvailable: importedContext ? [importedContext] : [], // Pass workout context via unused field
-      workoutType: 'Recipe',
-      selectedFocus: selectedFocus
+    if (isLoading || !chef) return; // Prevent double submit
+
+    const usePantry = pantryMode && inStock.length > 0;
+    const context: CookingContext = {
+      timeAvailable: duration,
+      hungerLevel: hunger,
+      moodLevel: mood,
+      cravings: cravings ? cravings.split(',').map(s => s.trim()) : [],
+      ingredientsOnHand: usePantry ? pinned : pantry ? pantry.split(',').map(s => s.trim()) : ['Whatever is fresh'],
+      cuisine: selectedFocus,
+      mealType,
+      recoveryWorkout: importedWorkout || undefined,
+      expiringIngredients: useUp.length > 0 ? useUp : undefined,
+      pantry: usePantry ? {
+        inventory: inStock,
+        pinned,
+        staples: staples.split(',').map(s => s.trim()).filter(Boolean),
+        maxExtras
+      } : undefined
     };
-    onSubmit(context, trainer);
+    onSubmit(context, chef);
   };
 
   return (
@@ -154,18 +187,19 @@ export const DailyCheckIn: React.FC<Props> = ({ onSubmit, isLoading }) => {
         <button 
             type="button"
             onClick={handleFetchWorkouts}
-            className="flex items-center gap-2 text-xs bg-slate-800 hover:bg-slate-700 border border-slate-600 px-3 py-2 rounded-lg transition-colors text-slate-300"
+            disabled={isFetchingWorkouts}
+            className="flex items-center gap-2 text-xs bg-slate-800 hover:bg-slate-700 border border-slate-600 px-3 py-2 rounded-lg transition-colors text-slate-300 disabled:opacity-50"
         >
-            <Dumbbell className="w-4 h-4 text-[#f0dc7a]" /> Import Workout
+            {isFetchingWorkouts ? <Loader2 className="w-4 h-4 animate-spin text-[#f0dc7a]" /> : <Dumbbell className="w-4 h-4 text-[#f0dc7a]" />} Import Workout
         </button>
       </div>
       
-      {importedContext && (
+      {importedWorkout && (
          <div className="bg-[#f0dc7a]/10 border-b border-[#f0dc7a]/20 px-6 py-2 flex items-center justify-between">
              <span className="text-xs text-[#f0dc7a] font-bold flex items-center gap-2">
-                 <Dumbbell className="w-3 h-3" /> Context: {importedContext}
+                 <Dumbbell className="w-3 h-3" /> Recovery meal for: {importedWorkout.title} ({importedWorkout.type}, {importedWorkout.durationMinutes}m, {formatCalories(importedWorkout)})
              </span>
-             <button onClick={() => { setImportedContext(null); setCravings(''); }} className="text-slate-500 hover:text-white"><XCircle className="w-4 h-4" /></button>
+             <button onClick={() => setImportedWorkout(null)} className="text-slate-500 hover:text-white"><XCircle className="w-4 h-4" /></button>
          </div>
       )}
 
@@ -190,7 +224,7 @@ export const DailyCheckIn: React.FC<Props> = ({ onSubmit, isLoading }) => {
                         >
                             <div>
                                 <div className="font-bold text-white group-hover:text-[#f0dc7a] transition-colors">{w.title}</div>
-                                <div className="text-xs text-slate-500 mt-1">{new Date(w.created_at).toLocaleDateString()} • {w.total_duration} mins</div>
+                                <div className="text-xs text-slate-500 mt-1">{new Date(w.completedAt).toLocaleDateString()} • {w.type} • {w.durationMinutes} mins • {formatCalories(w)}</div>
                             </div>
                             <span className="text-xs bg-slate-900 px-2 py-1 rounded text-slate-400 border border-slate-800">Select</span>
                         </button>
@@ -201,36 +235,8 @@ export const DailyCheckIn: React.FC<Props> = ({ onSubmit, isLoading }) => {
       )}
       
       <form onSubmit={handleSubmit} className="p-6 space-y-8 bg-[#7d6f54]">
-        {/* Trainer Selector */}
-        <div>
-          <label className="block text-slate-300 font-medium mb-3">Choose Your Chef</label>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-            {Object.values(TrainerType).map((t) => {
-              const details = TRAINER_DETAILS[t];
-              const isSelected = trainer === t;
-              
-              return (
-                <button
-                  key={t}
-                  type="button"
-                  onClick={() => setTrainer(t)}
-                  className={`p-4 rounded-lg text-left transition-all border relative overflow-hidden group ${
-                    isSelected 
-                      ? `${details.activeClass} border text-white shadow-lg` 
-                      : `bg-slate-900 border-slate-700 hover:border-slate-600 ${details.borderClass}`
-                  }`}
-                >
-                  <div className="relative z-10">
-                    <div className="font-bold text-sm mb-1 text-[#f0dc7a]">{t}</div>
-                    <div className={`text-xs ${isSelected ? 'text-slate-200' : 'text-slate-500'}`}>
-                      {details.description}
-                    </div>
-                  </div>
-                </button>
-              );
-            })}
-          </div>
-        </div>
+        {/* Chef Selector */}
+        <ChefSelector onSelectChef={setChef} selectedChefId={chef?.id} />
 
         {/* Focus Selector */}
         <div className="bg-slate-900/50 p-6 rounded-xl border border-slate-700">
@@ -239,7 +245,7 @@ export const DailyCheckIn: React.FC<Props> = ({ onSubmit, isLoading }) => {
              Cuisine / Style
            </label>
            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
-              {TRAINER_FOCUS_OPTIONS[trainer]?.map((option) => (
+              {chef?.focusOptions.map((option) => (
                 <button
                   key={option}
                   type="button"
@@ -256,6 +262,30 @@ export const DailyCheckIn: React.FC<Props> = ({ onSubmit, isLoading }) => {
            </div>
         </div>
 
+        {/* Meal Selector - sets the calorie and macro targets for the recipe */}
+        <div className="bg-slate-900/50 p-6 rounded-xl border border-slate-700">
+           <label className="block text-[#f0dc7a] font-bold mb-3 flex items-center gap-2">
+             <Target className="w-5 h-5" />
+             Meal
+           </label>
+           <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {MEAL_SLOTS.map((slot) => (
+                <button
+                  key={slot}
+                  type="button"
+                  onClick={() => setMealType(slot)}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                    mealType === slot
+                      ? 'bg-[#f0dc7a] text-slate-900 shadow-md'
+                      : 'bg-slate-800 text-slate-400 hover:text-white hover:bg-slate-700'
+                  }`}
+                >
+                  {MEAL_SLOT_LABELS[slot]}
+                </button>
+              ))}
+           </div>
+        </div>
+
         {/* Sliders Grid */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="bg-slate-900 p-4 rounded-lg border border-slate-700">
@@ -313,14 +343,119 @@ export const DailyCheckIn: React.FC<Props> = ({ onSubmit, isLoading }) => {
               type="text" 
               value={pantry}
               onChange={(e) => setPantry(e.target.value)}
-              placeholder="e.g. Chicken thighs, Spinach"
-              className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg p-3 focus:border-[#f0dc7a] outline-none"
+              disabled={pantryMode}
+              placeholder={pantryMode ? 'Pin items from your kitchen below' : 'e.g. Chicken thighs, Spinach'}
+              className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg p-3 focus:border-[#f0dc7a] outline-none disabled:opacity-50"
             />
           </div>
         </div>
 
+        {/* Use It Up */}
+        {expiring.length > 0 && (
+          <div className="bg-orange-500/10 p-6 rounded-xl border border-orange-500/40 space-y-3">
+             <div>
+               <span className="block text-orange-300 font-bold flex items-center gap-2">
+                 <Hourglass className="w-5 h-5" /> Expiring Soon
+               </span>
+               <span className="text-slate-400 text-xs">Selected items are used first so nothing goes to waste</span>
+             </div>
+             <div className="flex flex-wrap gap-2">
+               {expiring.map(item => (
+                 <button
+                   key={item.id}
+                   type="button"
+                   onClick={() => toggleUseUp(item.name)}
+                   className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${
+                     useUp.includes(item.name)
+                       ? 'bg-orange-400 text-slate-900 border-orange-400'
+                       : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'
+                   }`}
+                 >
+                   {item.name} <span className="font-normal opacity-75">· {describeExpiry(item.expiresAt!)}</span>
+                 </button>
+               ))}
+             </div>
+          </div>
+        )}
+
+        {/* Pantry Mode */}
+        <div className="bg-slate-900/50 p-6 rounded-xl border border-slate-700 space-y-4">
+           <div className="flex items-center justify-between gap-4">
+              <div>
+                <span className="block text-[#f0dc7a] font-bold flex items-center gap-2">
+                  <Archive className="w-5 h-5" /> Cook From My Kitchen
+                </span>
+                <span className="text-slate-400 text-xs">Only use what's in stock, plus a few staples</span>
+              </div>
+              <button
+                type="button"
+                onClick={() => setPantryMode(prev => !prev)}
+                className={`px-4 py-2 rounded-lg text-sm font-bold border transition-all ${
+                  pantryMode
+                    ? 'bg-[#f0dc7a] text-slate-900 border-[#f0dc7a]'
+                    : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'
+                }`}
+              >
+                {pantryMode ? 'On' : 'Off'}
+              </button>
+           </div>
+
+           {pantryMode && (
+             isFetchingInventory ? (
+               <div className="flex items-center gap-2 text-slate-400 text-sm"><Loader2 className="w-4 h-4 animate-spin text-[#f0dc7a]" /> Checking your kitchen...</div>
+             ) : inStock.length === 0 ? (
+               <p className="text-slate-500 text-sm">Nothing is marked in stock. Add items in the Kitchen tab first.</p>
+             ) : (
+               <>
+                 <div>
+                   <span className="block text-slate-400 text-xs uppercase mb-2">In stock <span className="normal-case">(tap to pin must-use items)</span></span>
+                   <div className="flex flex-wrap gap-2">
+                     {inStock.map(name => (
+                       <button
+                         key={name}
+                         type="button"
+                         onClick={() => togglePinned(name)}
+                         className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all flex items-center gap-1 ${
+                           pinned.includes(name)
+                             ? 'bg-[#f0dc7a] text-slate-900 border-[#f0dc7a]'
+                             : 'bg-slate-800 text-slate-300 border-slate-700 hover:text-white'
+                         }`}
+                       >
+                         {pinned.includes(name) && <Pin className="w-3 h-3" />} {name}
+                       </button>
+                     ))}
+                   </div>
+                 </div>
+                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                   <div>
+                     <label className="block text-slate-400 text-xs uppercase mb-1">Staples you always have</label>
+                     <input
+                       type="text"
+                       value={staples}
+                       onChange={(e) => setStaples(e.target.value)}
+                       className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg p-3 focus:border-[#f0dc7a] outline-none"
+                     />
+                   </div>
+                   <div>
+                     <label className="block text-slate-400 text-xs uppercase mb-1">Items I'm willing to buy</label>
+                     <div className="flex items-center gap-3 bg-slate-900 border border-slate-700 rounded-lg p-2">
+                       <button type="button" onClick={() => setMaxExtras(prev => Math.max(0, prev - 1))} className="p-1.5 rounded-lg bg-slate-800 text-slate-300 hover:text-[#f0dc7a]">
+                         <Minus className="w-4 h-4" />
+                       </button>
+                       <span className="text-white font-bold flex-grow text-center">{maxExtras === 0 ? 'None' : maxExtras}</span>
+                       <button type="button" onClick={() => setMaxExtras(prev => Math.min(MAX_PANTRY_EXTRAS, prev + 1))} className="p-1.5 rounded-lg bg-slate-800 text-slate-300 hover:text-[#f0dc7a]">
+                         <Plus className="w-4 h-4" />
+                       </button>
+                     </div>
+                   </div>
+                 </div>
+               </>
+             )
+           )}
+        </div>
+
         <button 
-          disabled={isLoading}
+          disabled={isLoading || !chef}
           type="submit"
           className="w-full bg-gradient-to-r from-[#f0dc7a] to-[#d4c469] hover:from-[#f4e59c] hover:to-[#e6d185] text-slate-900 font-bold py-4 rounded-xl shadow-lg transform transition-all hover:scale-[1.01] flex items-center justify-center gap-2 disabled:opacity-90 disabled:cursor-wait"
         >
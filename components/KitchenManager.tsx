@@ -1,13 +1,24 @@
 
 import React, { useEffect, useState } from 'react';
 import { InventoryItem, Location } from '../types';
-import { getUserInventory, updateInventoryStatus, getUserLocations, updateInventoryLocation } from '../services/dbService';
-import { Archive, Refrigerator, Box, Flame, Search, ToggleLeft, ToggleRight, Loader2, Plus, AlertCircle, IceCream } from 'lucide-react';
+import { getUserInventory, updateInventoryStatus, getUserLocations, updateInventoryLocation, updateInventoryQuantity, updateInventoryThreshold, updateInventoryExpiry } from '../services/dbService';
+import { isLowStock, getExpiringItems, getDaysUntilExpiry, EXPIRING_SOON_DAYS } from '../src/services/inventory';
+import { Archive, Refrigerator, Box, Flame, Search, ToggleLeft, ToggleRight, Loader2, Plus, AlertCircle, IceCream, Hourglass, RotateCcw } from 'lucide-react';
 
 interface Props {
   userId: string;
 }
 
+// YYYY-MM-DD in local time, for date inputs
+const toDateInput = (iso?: string) => (iso ? new Date(iso).toLocaleDateString('en-CA') : '');
+
+const describeExpiry = (expiresAt: string): string => {
+  const days = getDaysUntilExpiry(expiresAt);
+  if (days < 0) return `Expired ${-days}d ago`;
+  if (days === 0) return 'Expires today';
+  return `${days}d left`;
+};
+
 export const KitchenManager: React.FC<Props> = ({ userId }) => {
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
@@ -78,15 +89,51 @@ export const KitchenManager: React.FC<Props> = ({ userId }) => {
     // Update in database
     const success = await updateInventoryLocation(itemId, newLocationId || null);
     
+    // Reload either way - a successful move re-estimates the expiry
+    await loadInventory();
     if (!success) {
-      // Revert on failure
-      await loadInventory();
       alert("Failed to update location. Please try again.");
     }
     
     setProcessingId(null);
   };
 
+  // Empty input clears the value; unchanged values are skipped
+  const parseAmount = (value: string): number | null => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+  };
+
+  const handleQuantityChange = async (item: InventoryItem, value: string) => {
+    const quantity = parseAmount(value);
+    if (quantity === (item.quantity ?? null)) return;
+    setProcessingId(item.id);
+    const success = await updateInventoryQuantity(userId, item, quantity);
+    if (!success) alert("Failed to update quantity. Please try again.");
+    await loadInventory(); // Stock status and the shopping list may have changed
+    setProcessingId(null);
+  };
+
+  const handleThresholdChange = async (item: InventoryItem, value: string) => {
+    const threshold = parseAmount(value);
+    if (threshold === (item.lowStockThreshold ?? null)) return;
+    setProcessingId(item.id);
+    const success = await updateInventoryThreshold(userId, item, threshold);
+    if (!success) alert("Failed to update the low-stock level. Please try again.");
+    await loadInventory();
+    setProcessingId(null);
+  };
+
+  // Empty date goes back to the estimate
+  const handleExpiryChange = async (item: InventoryItem, value: string) => {
+    if (value && value === toDateInput(item.expiresAt)) return;
+    setProcessingId(item.id);
+    const success = await updateInventoryExpiry(item, value ? new Date(`${value}T12:00:00`).toISOString() : null);
+    if (!success) alert("Failed to update expiry date. Please try again.");
+    await loadInventory();
+    setProcessingId(null);
+  };
+
   const getIconForLocation = (name: string) => {
     const n = name.toLowerCase();
     if (n.includes('fridge')) return <Refrigerator className="w-5 h-5 text-cyan-400" />;
@@ -106,6 +153,7 @@ export const KitchenManager: React.FC<Props> = ({ userId }) => {
     });
 
   const sortedLocations = Object.keys(groupedItems).sort();
+  const expiringItems = getExpiringItems(items);
 
   if (loading) return <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 animate-spin text-[#f0dc7a]" /></div>;
 
@@ -116,7 +164,7 @@ export const KitchenManager: React.FC<Props> = ({ userId }) => {
                <h2 className="text-3xl font-bold text-white flex items-center gap-2">
                    <Archive className="w-8 h-8 text-[#f0dc7a]" /> Kitchen Staples
                </h2>
-               <p className="text-slate-400">Track what you have. Depleting an item adds it to your Shopping List.</p>
+               <p className="text-slate-400">Track what you have. Items that run low are added to your Shopping List.</p>
            </div>
            
            <div className="relative w-full md:w-64">
@@ -131,6 +179,19 @@ export const KitchenManager: React.FC<Props> = ({ userId }) => {
            </div>
        </div>
 
+       {expiringItems.length > 0 && (
+           <div className="mb-6 bg-orange-500/10 border border-orange-500/40 rounded-2xl p-4 flex gap-3">
+               <Hourglass className="w-5 h-5 shrink-0 text-orange-400 mt-0.5" />
+               <div>
+                   <h4 className="font-bold text-orange-300">Use it up: {expiringItems.length} item{expiringItems.length === 1 ? '' : 's'} expiring within {EXPIRING_SOON_DAYS} days</h4>
+                   <p className="text-sm text-slate-300 mt-1">
+                       {expiringItems.map(i => `${i.name} (${describeExpiry(i.expiresAt!)})`).join(', ')}
+                   </p>
+                   <p className="text-xs text-slate-500 mt-1">The chef will build your next recipe around these first.</p>
+               </div>
+           </div>
+       )}
+
        {items.length === 0 ? (
            <div className="text-center py-20 border border-dashed border-slate-700 rounded-2xl">
                <Box className="w-16 h-16 text-slate-700 mx-auto mb-4" />
@@ -158,7 +219,62 @@ export const KitchenManager: React.FC<Props> = ({ userId }) => {
                                        <p className={`font-medium transition-colors ${item.inStock ? 'text-slate-200 group-hover:text-white' : 'text-slate-500 group-hover:text-slate-300'}`}>
                                            {item.name}
                                        </p>
-                                       <p className="text-xs text-slate-500">{item.category || 'General'}</p>
+                                       <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-slate-500">
+                                           <span>{item.category || 'General'}</span>
+                                           <label className="flex items-center gap-1" title="Amount on hand">
+                                               <input
+                                                   key={`qty-${item.id}-${item.quantity ?? ''}`}
+                                                   type="number"
+                                                   min={0}
+                                                   step="any"
+                                                   defaultValue={item.quantity ?? ''}
+                                                   placeholder="Qty"
+                                                   onBlur={(e) => handleQuantityChange(item, e.target.value)}
+                                                   disabled={processingId === item.id}
+                                                   className={`w-16 bg-slate-800 border rounded px-1.5 py-0.5 text-slate-200 outline-none focus:border-[#f0dc7a] ${isLowStock(item) ? 'border-orange-500/60' : 'border-slate-700'}`}
+                                               />
+                                               {item.unit && <span>{item.unit}</span>}
+                                           </label>
+                                           <label className="flex items-center gap-1" title="Restock when the amount drops below this">
+                                               <span>Low at</span>
+                                               <input
+                                                   key={`low-${item.id}-${item.lowStockThreshold ?? ''}`}
+                                                   type="number"
+                                                   min={0}
+                                                   step="any"
+                                                   defaultValue={item.lowStockThreshold ?? ''}
+                                                   placeholder="-"
+                                                   onBlur={(e) => handleThresholdChange(item, e.target.value)}
+                                                   disabled={processingId === item.id}
+                                                   className="w-14 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 outline-none focus:border-[#f0dc7a]"
+                                               />
+                                           </label>
+                                           <label className="flex items-center gap-1" title={item.expiryOverridden ? 'Expiry set by hand' : 'Estimated from the item and where it is stored'}>
+                                               <input
+                                                   key={`exp-${item.id}-${item.expiresAt ?? ''}`}
+                                                   type="date"
+                                                   defaultValue={toDateInput(item.expiresAt)}
+                                                   onChange={(e) => handleExpiryChange(item, e.target.value)}
+                                                   disabled={processingId === item.id}
+                                                   className="bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 outline-none focus:border-[#f0dc7a]"
+                                               />
+                                               {item.expiresAt && item.inStock && (
+                                                   <span className={getDaysUntilExpiry(item.expiresAt) <= EXPIRING_SOON_DAYS ? 'text-orange-400 font-bold' : ''}>
+                                                       {describeExpiry(item.expiresAt)}{!item.expiryOverridden && ' (est.)'}
+                                                   </span>
+                                               )}
+                                               {item.expiryOverridden && (
+                                                   <button
+                                                       onClick={() => handleExpiryChange(item, '')}
+                                                       disabled={processingId === item.id}
+                                                       className="text-slate-500 hover:text-[#f0dc7a]"
+                                                       title="Go back to the estimated date"
+                                                   >
+                                                       <RotateCcw className="w-3 h-3" />
+                                                   </button>
+                                               )}
+                                           </label>
+                                       </div>
                                    </div>
                                    
                                    <div className="flex items-center gap-2 sm:gap-3">
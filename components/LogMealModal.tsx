@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Recipe, FoodLogEntry, MealSlot } from '../types';
+import { createFoodLogEntry, guessMealSlot } from '../src/services/nutrition';
+import { MEAL_SLOTS, MEAL_SLOT_LABELS } from '../src/services/mealPlan';
+import { logFoodEntry, depleteInventoryForRecipe } from '../services/dbService';
+import { NotebookPen, X, Loader2, Minus, Plus, ChefHat, Utensils, Archive } from 'lucide-react';
+
+interface Props {
+  recipe: Recipe; // Scaled to the servings cooked - its ingredients come out of the kitchen
+  userId: string;
+  onClose: () => void;
+  onLogged?: (entry: FoodLogEntry) => void;
+}
+
+const SERVING_STEP = 0.5;
+
+export const LogMealModal: React.FC<Props> = ({ recipe, userId, onClose, onLogged }) => {
+  const [servings, setServings] = useState(1);
+  const [mealType, setMealType] = useState<MealSlot>(() => guessMealSlot(recipe, new Date()));
+  const [cooked, setCooked] = useState(true);
+  const [deplete, setDeplete] = useState(true);
+  const [isLogging, setIsLogging] = useState(false);
+
+  const preview = createFoodLogEntry(recipe, servings, { mealType, cooked });
+
+  const handleLog = async () => {
+    setIsLogging(true);
+    // Stamp the time on submit, not when the modal opened
+    const entry = createFoodLogEntry(recipe, servings, { mealType, cooked });
+    const id = await logFoodEntry(userId, entry);
+    if (!id) {
+      setIsLogging(false);
+      alert("Failed to log this meal. Please try again.");
+      return;
+    }
+
+    if (cooked && deplete) {
+      const result = await depleteInventoryForRecipe(userId, recipe);
+      if (result && result.lowStock.length > 0) {
+        alert(`Running low on ${result.lowStock.join(', ')} - added to your shopping list.`);
+      }
+    }
+    setIsLogging(false);
+    onLogged?.({ ...entry, id });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-slate-900 w-full max-w-md rounded-2xl border border-slate-700 shadow-2xl overflow-hidden" onClick={(e) => e.stopPropagation()}>
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <NotebookPen className="w-6 h-6 text-[#f0dc7a]" /> Log Meal
+            </h2>
+            <p className="text-slate-400 text-sm mt-1 truncate">{recipe.title}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            {[
+              { value: true, label: 'Cooked it', icon: ChefHat },
+              { value: false, label: 'Ate leftovers', icon: Utensils }
+            ].map(option => (
+              <button
+                key={option.label}
+                onClick={() => setCooked(option.value)}
+                className={`flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-bold border transition-all ${
+                  cooked === option.value
+                    ? 'bg-[#f0dc7a] text-slate-900 border-[#f0dc7a]'
+                    : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'
+                }`}
+              >
+                <option.icon className="w-4 h-4" /> {option.label}
+              </button>
+            ))}
+          </div>
+
+          {cooked && (
+            <label className="flex items-center gap-3 text-sm text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={deplete}
+                onChange={(e) => setDeplete(e.target.checked)}
+                className="accent-[#f0dc7a] w-4 h-4"
+              />
+              <Archive className="w-4 h-4 text-[#f0dc7a]" />
+              Take the ingredients out of my kitchen
+            </label>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-slate-400 text-xs uppercase font-bold">Servings eaten</span>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setServings(prev => Math.max(SERVING_STEP, prev - SERVING_STEP))}
+                className="p-1.5 rounded-lg bg-slate-800 border border-slate-700 text-slate-300 hover:text-[#f0dc7a] transition-colors"
+              >
+                <Minus className="w-4 h-4" />
+              </button>
+              <span className="text-xl font-bold text-white w-10 text-center">{servings}</span>
+              <button
+                onClick={() => setServings(prev => prev + SERVING_STEP)}
+                className="p-1.5 rounded-lg bg-slate-800 border border-slate-700 text-slate-300 hover:text-[#f0dc7a] transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-slate-400 text-xs uppercase font-bold">Meal</span>
+            <select
+              value={mealType}
+              onChange={(e) => setMealType(e.target.value as MealSlot)}
+              className="bg-slate-800 border border-slate-700 text-white text-sm rounded-lg px-3 py-2 outline-none focus:border-[#f0dc7a]"
+            >
+              {MEAL_SLOTS.map(slot => <option key={slot} value={slot}>{MEAL_SLOT_LABELS[slot]}</option>)}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2 text-center">
+            {[
+              { label: 'kcal', value: preview.calories },
+              { label: 'Protein', value: `${preview.protein}g` },
+              { label: 'Carbs', value: `${preview.carbs}g` },
+              { label: 'Fat', value: `${preview.fat}g` }
+            ].map(macro => (
+              <div key={macro.label} className="bg-slate-800 p-2 rounded-lg border border-slate-700">
+                <span className="block text-white font-bold">{macro.value}</span>
+                <span className="block text-slate-500 text-[10px] font-bold uppercase">{macro.label}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer Actions */}
+        <div className="p-6 border-t border-slate-800">
+          <button
+            onClick={handleLog}
+            disabled={isLogging}
+            className="w-full bg-[#f0dc7a] hover:bg-[#f4e59c] disabled:opacity-50 text-slate-900 font-bold py-3.5 rounded-xl shadow-lg flex items-center justify-center gap-2 transition-all"
+          >
+            {isLogging ? <><Loader2 className="w-5 h-5 animate-spin" /> Logging...</> : <><NotebookPen className="w-5 h-5" /> Add to Food Log</>}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,373 @@
+import React, { useEffect, useState } from 'react';
+import { MealPlan, MealPlanMeal, MealSlot, MacroTargets, Recipe, UserProfile } from '../types';
+import { CHEF_PERSONAS, buildProfileOptions } from '../src/services/chef';
+import { generateMealPlan, getDayTotals, MEAL_SLOTS, MEAL_SLOT_LABELS } from '../src/services/mealPlan';
+import { getMealPlans, saveMealPlan, deleteMealPlan, getRecipeById } from '../services/dbService';
+import { calculateNutritionTargets } from '../src/services/nutrition';
+import { ShoppingListBuilderModal } from './ShoppingListBuilderModal';
+import { CalendarDays, Loader2, Sparkles, CloudUpload, CheckCircle2, Trash2, AlertTriangle, Flame, ArrowRight, Leaf, ShoppingCart } from 'lucide-react';
+
+interface Props {
+  userId: string;
+  profile: UserProfile;
+  onLoadRecipe: (recipe: Recipe) => void;
+}
+
+const DEFAULT_CHEF_ID = 'gemini-meal-prep';
+const MACRO_FIELDS: Array<{ key: keyof MacroTargets; label: string; unit: string }> = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+];
+
+const today = () => new Date().toLocaleDateString('en-CA'); // YYYY-MM-DD in local time
+
+const formatDay = (isoDate: string) =>
+  new Date(`${isoDate}T00:00:00`).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' });
+
+export const MealPlanner: React.FC<Props> = ({ userId, profile, onLoadRecipe }) => {
+  const [plans, setPlans] = useState<MealPlan[]>([]);
+  const [plan, setPlan] = useState<MealPlan | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const [weekStart, setWeekStart] = useState(today());
+  const [mealTypes, setMealTypes] = useState<MealSlot[]>(['lunch', 'dinner']);
+  const [targets, setTargets] = useState<MacroTargets>(() => calculateNutritionTargets(profile).daily);
+  const [chefId, setChefId] = useState(DEFAULT_CHEF_ID);
+
+  const [progress, setProgress] = useState<{ completed: number; total: number; current: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [openingMeal, setOpeningMeal] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [shoppingRecipes, setShoppingRecipes] = useState<Recipe[] | null>(null);
+  const [loadingShopping, setLoadingShopping] = useState(false);
+
+  // Profile edits (weight, goals, activity) reset the targets to the newly derived ones
+  useEffect(() => {
+    setTargets(calculateNutritionTargets(profile).daily);
+  }, [profile]);
+
+  useEffect(() => {
+    const loadPlans = async () => {
+      setLoading(true);
+      const saved = await getMealPlans(userId);
+      setPlans(saved);
+      setPlan(prev => prev ?? saved[0] ?? null);
+      setLoading(false);
+    };
+    loadPlans();
+  }, [userId]);
+
+  const toggleSlot = (slot: MealSlot) => {
+    setMealTypes(prev => prev.includes(slot) ? prev.filter(s => s !== slot) : MEAL_SLOTS.filter(s => s === slot || prev.includes(s)));
+  };
+
+  const handleGenerate = async () => {
+    setError(null);
+    setProgress({ completed: 0, total: 1, current: 'Outlining the week...' });
+    try {
+      const generated = await generateMealPlan(
+        { base: buildProfileOptions(profile, chefId), weekStart, mealTypes, targets },
+        (completed, total, current) => setProgress({ completed, total, current })
+      );
+      setPlan(generated);
+    } catch (err: any) {
+      console.error("Meal plan generation failed:", err);
+      setError(err.message || "Failed to generate meal plan.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!plan) return;
+    setIsSaving(true);
+    const id = await saveMealPlan(plan, userId);
+    setIsSaving(false);
+    if (id) {
+      const saved = { ...plan, id };
+      setPlan(saved);
+      setPlans(prev => [saved, ...prev.filter(p => p.id !== id)].sort((a, b) => b.weekStart.localeCompare(a.weekStart)));
+    } else {
+      setError("Couldn't save the meal plan. Please try again.");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!plan?.id || !window.confirm("Delete this meal plan? Its recipes stay in your cookbook.")) return;
+    const success = await deleteMealPlan(plan.id);
+    if (success) {
+      const remaining = plans.filter(p => p.id !== plan.id);
+      setPlans(remaining);
+      setPlan(remaining[0] ?? null);
+    }
+  };
+
+  const openMeal = async (meal: MealPlanMeal, key: string) => {
+    if (meal.recipe) {
+      onLoadRecipe(meal.recipe);
+      return;
+    }
+    if (!meal.recipeId) return;
+    setOpeningMeal(key);
+    const recipe = await getRecipeById(meal.recipeId, true);
+    setOpeningMeal(null);
+    if (recipe) onLoadRecipe(recipe);
+    else setError("That recipe is no longer in your cookbook.");
+  };
+
+  // Saved plans only hold recipe ids, so fetch the ingredients before building the list
+  const openShoppingList = async () => {
+    if (!plan) return;
+    setLoadingShopping(true);
+    const meals = plan.days.flatMap(d => d.meals);
+    const recipes = await Promise.all(
+      meals.map(m => (m.recipe ? Promise.resolve(m.recipe) : m.recipeId ? getRecipeById(m.recipeId, false) : Promise.resolve(null)))
+    );
+    setLoadingShopping(false);
+    setShoppingRecipes(recipes.filter((r): r is Recipe => r !== null));
+  };
+
+  const isGenerating = progress !== null;
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-8">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-white">Meal Planner</h2>
+          <p className="text-slate-400">A coordinated week of meals that share ingredients.</p>
+        </div>
+        {plans.length > 0 && (
+          <div className="flex items-center gap-2 bg-slate-900 p-2 rounded-lg border border-slate-700">
+            <span className="text-xs font-bold text-slate-500 uppercase px-2">Week:</span>
+            <select
+              value={plan?.id || ''}
+              onChange={(e) => setPlan(plans.find(p => p.id === e.target.value) ?? null)}
+              className="bg-transparent text-white text-sm outline-none cursor-pointer pr-4"
+            >
+              {!plan?.id && <option value="">{plan ? 'Unsaved plan' : 'Select a plan'}</option>}
+              {plans.map(p => (
+                <option key={p.id} value={p.id}>{p.weekStart} - {p.title}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {/* Generator */}
+      <div className="bg-slate-900 rounded-2xl border border-slate-700 p-6 space-y-5">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase">Week starting</span>
+            <input
+              type="date"
+              value={weekStart}
+              onChange={(e) => setWeekStart(e.target.value)}
+              className="mt-1 w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white outline-none focus:border-[#f0dc7a]"
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase">Chef</span>
+            <select
+              value={chefId}
+              onChange={(e) => setChefId(e.target.value)}
+              className="mt-1 w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white outline-none focus:border-[#f0dc7a]"
+            >
+              {CHEF_PERSONAS.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div>
+          <span className="text-xs font-bold text-slate-500 uppercase">Meals each day</span>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {MEAL_SLOTS.map(slot => (
+              <button
+                key={slot}
+                onClick={() => toggleSlot(slot)}
+                className={`px-4 py-2 rounded-lg text-sm font-bold border transition-all ${
+                  mealTypes.includes(slot)
+                    ? 'bg-[#f0dc7a] text-slate-900 border-[#f0dc7a]'
+                    : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'
+                }`}
+              >
+                {MEAL_SLOT_LABELS[slot]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <span className="text-xs font-bold text-slate-500 uppercase">Daily targets <span className="normal-case font-normal">(from your profile)</span></span>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-2">
+            {MACRO_FIELDS.map(({ key, label, unit }) => (
+              <label key={key} className="bg-slate-800 rounded-lg border border-slate-700 px-3 py-2">
+                <span className="block text-[10px] text-slate-500 font-bold uppercase">{label} ({unit})</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={targets[key]}
+                  onChange={(e) => setTargets(prev => ({ ...prev, [key]: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                  className="w-full bg-transparent text-white font-bold outline-none"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating || mealTypes.length === 0 || !weekStart}
+          className="w-full bg-[#f0dc7a] hover:bg-[#f4e59c] disabled:opacity-50 disabled:cursor-not-allowed text-slate-900 font-bold py-3.5 rounded-xl shadow-lg flex items-center justify-center gap-2 transition-all"
+        >
+          {isGenerating ? <><Loader2 className="w-5 h-5 animate-spin" /> Planning...</> : <><Sparkles className="w-5 h-5" /> Generate Week</>}
+        </button>
+
+        {progress && (
+          <div>
+            <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-[#f0dc7a] transition-all duration-500"
+                style={{ width: `${Math.round((progress.completed / Math.max(1, progress.total)) * 100)}%` }}
+              />
+            </div>
+            <p className="text-xs text-slate-400 mt-2">
+              {progress.total > 1 ? `${progress.completed}/${progress.total} - ` : ''}{progress.current}
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/50 text-red-400 p-4 rounded-xl flex gap-3 text-sm">
+            <AlertTriangle className="w-5 h-5 shrink-0" />
+            <p>{error}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Plan */}
+      {loading ? (
+        <div className="flex flex-col items-center justify-center py-10 text-slate-400">
+          <Loader2 className="w-8 h-8 animate-spin text-[#f0dc7a] mb-3" />
+          <p>Loading meal plans...</p>
+        </div>
+      ) : plan ? (
+        <div className="space-y-4">
+          <div className="flex flex-col md:flex-row justify-between md:items-center gap-3">
+            <div>
+              <h3 className="text-2xl font-bold text-white">{plan.title}</h3>
+              <p className="text-slate-400 text-sm">
+                Week of {formatDay(plan.weekStart)}{plan.chefPersona ? ` · ${plan.chefPersona}` : ''}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={openShoppingList}
+                disabled={loadingShopping}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm bg-slate-900/50 text-[#f0dc7a] border border-slate-700 hover:border-[#f0dc7a]/50 disabled:opacity-50 transition-colors"
+              >
+                {loadingShopping ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShoppingCart className="w-4 h-4" />} Shopping List
+              </button>
+              {plan.id ? (
+                <>
+                  <span className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm bg-slate-900/50 text-[#f0dc7a] border border-[#f0dc7a]/50">
+                    Saved <CheckCircle2 className="w-4 h-4" />
+                  </span>
+                  <button
+                    onClick={handleDelete}
+                    className="p-2 rounded-lg bg-slate-900/50 text-slate-400 hover:text-red-400 border border-slate-700 transition-colors"
+                    title="Delete plan"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm bg-[#f0dc7a] text-slate-900 hover:bg-[#f4e59c] disabled:opacity-50 shadow-lg transition-all"
+                >
+                  {isSaving ? 'Saving...' : 'Save Plan'} <CloudUpload className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+
+          {plan.sharedIngredients.length > 0 && (
+            <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-4">
+              <span className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase mb-2">
+                <Leaf className="w-4 h-4 text-green-500" /> Shared across meals
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {plan.sharedIngredients.map(name => (
+                  <span key={name} className="text-xs px-2 py-1 rounded bg-[#807048]/30 text-[#f0dc7a] border border-[#9c8c53]/50">{name}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 gap-4">
+            {plan.days.map((day, dayIndex) => {
+              const totals = getDayTotals(day);
+              const overTarget = plan.targetMacros.calories > 0 && totals.calories > plan.targetMacros.calories * 1.1;
+              return (
+                <div key={day.date} className="bg-slate-800 rounded-xl border border-slate-700 p-5">
+                  <div className="flex justify-between items-center mb-3">
+                    <h4 className="font-bold text-white flex items-center gap-2">
+                      <CalendarDays className="w-4 h-4 text-[#f0dc7a]" /> {formatDay(day.date)}
+                    </h4>
+                    <span className={`text-xs font-mono ${overTarget ? 'text-orange-400' : 'text-slate-400'}`}>
+                      {totals.calories} / {plan.targetMacros.calories} kcal · P {totals.protein}g · C {totals.carbs}g · F {totals.fat}g
+                    </span>
+                  </div>
+                  <div className="space-y-2">
+                    {day.meals.length > 0 ? day.meals.map((meal, mealIndex) => {
+                      const key = `${dayIndex}-${mealIndex}`;
+                      return (
+                        <button
+                          key={key}
+                          onClick={() => openMeal(meal, key)}
+                          disabled={!meal.recipe && !meal.recipeId}
+                          className="w-full flex items-center justify-between gap-3 p-3 rounded-lg bg-slate-900/60 border border-slate-700 hover:border-[#f0dc7a]/50 text-left transition-all group"
+                        >
+                          <div className="min-w-0">
+                            <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{MEAL_SLOT_LABELS[meal.mealType]}</span>
+                            <p className="text-white font-medium truncate group-hover:text-[#f0dc7a] transition-colors">{meal.title}</p>
+                          </div>
+                          <div className="flex items-center gap-3 shrink-0 text-xs text-slate-400">
+                            <span className="flex items-center gap-1"><Flame className="w-3 h-3 text-orange-500" /> {meal.calories}</span>
+                            {openingMeal === key ? <Loader2 className="w-4 h-4 animate-spin text-[#f0dc7a]" /> : <ArrowRight className="w-4 h-4" />}
+                          </div>
+                        </button>
+                      );
+                    }) : (
+                      <p className="text-sm text-slate-500">No meals planned for this day.</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="text-center py-16 bg-slate-900/50 rounded-2xl border border-slate-800">
+          <CalendarDays className="w-16 h-16 text-slate-700 mx-auto mb-4" />
+          <h3 className="text-xl font-bold text-white mb-2">No Meal Plans Yet</h3>
+          <p className="text-slate-400">Generate a week to get started.</p>
+        </div>
+      )}
+
+      {shoppingRecipes && (
+        <ShoppingListBuilderModal
+          userId={userId}
+          system={profile.units.system}
+          recipes={shoppingRecipes}
+          onClose={() => setShoppingRecipes(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FoodLogEntry, MacroTargets } from '../types';
+import { summarizeFoodLogByDay, sumFoodLog, toLocalDate } from '../src/services/nutrition';
+import { MEAL_SLOT_LABELS } from '../src/services/mealPlan';
+import { getFoodLog, deleteFoodLogEntry } from '../services/dbService';
+import { NotebookPen, Loader2, Trash2, Flame, ChefHat, Utensils } from 'lucide-react';
+
+interface Props {
+  userId: string;
+  targets: MacroTargets; // Daily targets
+}
+
+const WEEK_DAYS = 7;
+const MACRO_FIELDS: Array<{ key: keyof MacroTargets; label: string; unit: string }> = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+];
+
+const startOfDay = (offsetDays: number) => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + offsetDays);
+};
+
+const percentOf = (value: number, target: number) => (target > 0 ? Math.round((value / target) * 100) : 0);
+
+const ProgressBar: React.FC<{ value: number; target: number }> = ({ value, target }) => {
+  const pct = percentOf(value, target);
+  return (
+    <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+      <div
+        className={`h-full rounded-full transition-all ${pct > 110 ? 'bg-orange-500' : 'bg-[#f0dc7a]'}`}
+        style={{ width: `${Math.min(100, pct)}%` }}
+      />
+    </div>
+  );
+};
+
+export const NutritionDashboard: React.FC<Props> = ({ userId, targets }) => {
+  const [entries, setEntries] = useState<FoodLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadLog = async () => {
+      setLoading(true);
+      const log = await getFoodLog(userId, startOfDay(-(WEEK_DAYS - 1)), startOfDay(1));
+      setEntries(log);
+      setLoading(false);
+    };
+    loadLog();
+  }, [userId]);
+
+  const week = useMemo(() => summarizeFoodLogByDay(entries, startOfDay(-(WEEK_DAYS - 1)), WEEK_DAYS), [entries]);
+  const today = week[week.length - 1];
+  const weekTotals = useMemo(() => sumFoodLog(entries), [entries]);
+  const loggedDays = week.filter(d => d.entries.length > 0).length;
+  const chartMax = Math.max(targets.calories, ...week.map(d => d.totals.calories)) || 1;
+
+  const handleDelete = async (entryId: string) => {
+    if (!window.confirm("Remove this meal from your log?")) return;
+    setDeletingId(entryId);
+    const success = await deleteFoodLogEntry(entryId);
+    if (success) {
+      setEntries(prev => prev.filter(e => e.id !== entryId));
+    } else {
+      alert("Failed to remove this entry.");
+    }
+    setDeletingId(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <Loader2 className="w-10 h-10 text-[#f0dc7a] animate-spin mb-4" />
+        <p className="text-slate-400">Loading your food log...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-white">Food Diary</h2>
+        <p className="text-slate-400">What you've eaten against your daily targets</p>
+      </div>
+
+      {/* Today */}
+      <div className="bg-slate-900 rounded-2xl border border-slate-700 p-6 space-y-5">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <Flame className="w-5 h-5 text-orange-500" /> Today
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {MACRO_FIELDS.map(({ key, label, unit }) => (
+            <div key={key} className="space-y-1.5">
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-400 font-bold">{label}</span>
+                <span className="text-white font-bold">
+                  {today.totals[key]} <span className="text-slate-500 font-normal">/ {targets[key]} {unit}</span>
+                </span>
+              </div>
+              <ProgressBar value={today.totals[key]} target={targets[key]} />
+            </div>
+          ))}
+        </div>
+
+        {today.entries.length === 0 ? (
+          <p className="text-slate-500 text-sm">Nothing logged yet today. Use "Log Meal" on a recipe after you eat.</p>
+        ) : (
+          <div className="space-y-2">
+            {today.entries.map(entry => (
+              <div key={entry.id} className="flex items-center gap-3 bg-slate-800 border border-slate-700 rounded-lg px-4 py-3">
+                {entry.cooked ? <ChefHat className="w-4 h-4 text-[#f0dc7a] shrink-0" /> : <Utensils className="w-4 h-4 text-slate-500 shrink-0" />}
+                <div className="min-w-0 flex-grow">
+                  <p className="text-white font-bold truncate">{entry.title}</p>
+                  <p className="text-xs text-slate-500">
+                    {entry.mealType ? MEAL_SLOT_LABELS[entry.mealType] : 'Meal'} · {entry.servings} serving{entry.servings === 1 ? '' : 's'} · {new Date(entry.loggedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                  </p>
+                </div>
+                <span className="text-xs text-slate-400 font-mono shrink-0">{entry.calories} kcal · P {entry.protein}g</span>
+                <button
+                  onClick={() => entry.id && handleDelete(entry.id)}
+                  disabled={deletingId === entry.id}
+                  className="p-2 text-slate-600 hover:text-red-400 hover:bg-slate-900 rounded-lg transition-colors"
+                  title="Remove entry"
+                >
+                  {deletingId === entry.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Last 7 days */}
+      <div className="bg-slate-900 rounded-2xl border border-slate-700 p-6 space-y-5">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <NotebookPen className="w-5 h-5 text-[#f0dc7a]" /> Last 7 Days
+        </h3>
+
+        <div className="flex items-end gap-2 h-40 relative">
+          <div
+            className="absolute left-0 right-0 border-t border-dashed border-[#f0dc7a]/40"
+            style={{ bottom: `${(targets.calories / chartMax) * 100}%` }}
+            title={`Target: ${targets.calories} kcal`}
+          />
+          {week.map(day => (
+            <div key={day.date} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+              <span className="text-[10px] text-slate-500 font-mono">{day.totals.calories || ''}</span>
+              <div
+                className={`w-full rounded-t-md ${day.date === toLocalDate(new Date()) ? 'bg-[#f0dc7a]' : 'bg-slate-600'}`}
+                style={{ height: `${(day.totals.calories / chartMax) * 100}%` }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {week.map(day => (
+            <span key={day.date} className="flex-1 text-center text-[10px] text-slate-500 font-bold uppercase">
+              {new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short' })}
+            </span>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {MACRO_FIELDS.map(({ key, label, unit }) => (
+            <div key={key} className="bg-slate-800 rounded-lg border border-slate-700 px-3 py-2 space-y-1.5">
+              <span className="block text-[10px] text-slate-500 font-bold uppercase">{label} ({unit})</span>
+              <span className="block text-white font-bold">
+                {weekTotals[key]} <span className="text-slate-500 font-normal text-xs">/ {targets[key] * WEEK_DAYS}</span>
+              </span>
+              <span className="block text-xs text-slate-400">
+                Avg {loggedDays > 0 ? Math.round(weekTotals[key] / loggedDays) : 0}/day ({percentOf(weekTotals[key], targets[key] * WEEK_DAYS)}%)
+              </span>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">Averages cover the {loggedDays} day{loggedDays === 1 ? '' : 's'} with logged meals.</p>
+      </div>
+    </div>
+  );
+};
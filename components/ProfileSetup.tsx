@@ -1,6 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { UserProfile } from '../types';
+import { calculateNutritionTargets } from '../src/services/nutrition';
 import { User, ChefHat, AlertCircle, Save, Scale, UtensilsCrossed, Settings } from 'lucide-react';
 
 interface Props {
@@ -12,9 +13,9 @@ export const ProfileSetup: React.FC<Props> = ({ profile, onSave }) => {
   const [localProfile, setLocalProfile] = useState<UserProfile>(profile);
   // Maintain raw string state for array inputs
   const [rawGoals, setRawGoals] = useState(profile.goals.join(', '));
-  const [rawInjuries, setRawInjuries] = useState(profile.injuries.join(', '));
-  const [rawMedical, setRawMedical] = useState(profile.medicalConditions.join(', '));
-  const [rawPreferences, setRawPreferences] = useState(profile.preferences.join(', '));
+  const [rawAllergies, setRawAllergies] = useState(profile.allergies.join(', '));
+  const [rawRestrictions, setRawRestrictions] = useState(profile.dietaryRestrictions.join(', '));
+  const [rawDislikes, setRawDislikes] = useState(profile.dislikes.join(', '));
   
   const [isOpen, setIsOpen] = useState(false);
 
@@ -22,11 +23,16 @@ export const ProfileSetup: React.FC<Props> = ({ profile, onSave }) => {
   useEffect(() => {
     setLocalProfile(profile);
     setRawGoals(profile.goals.join(', '));
-    setRawInjuries(profile.injuries.join(', '));
-    setRawMedical(profile.medicalConditions.join(', '));
-    setRawPreferences(profile.preferences.join(', '));
+    setRawAllergies(profile.allergies.join(', '));
+    setRawRestrictions(profile.dietaryRestrictions.join(', '));
+    setRawDislikes(profile.dislikes.join(', '));
   }, [profile]);
 
+  const targets = calculateNutritionTargets({
+    ...localProfile,
+    goals: rawGoals.split(',').map(s => s.trim()).filter(s => s.length > 0)
+  });
+
   const handleChange = (field: keyof UserProfile, value: any) => {
     setLocalProfile(prev => ({ ...prev, [field]: value }));
   };
@@ -36,9 +42,9 @@ export const ProfileSetup: React.FC<Props> = ({ profile, onSave }) => {
     const finalProfile: UserProfile = {
       ...localProfile,
       goals: rawGoals.split(',').map(s => s.trim()).filter(s => s.length > 0),
-      injuries: rawInjuries.split(',').map(s => s.trim()).filter(s => s.length > 0),
-      medicalConditions: rawMedical.split(',').map(s => s.trim()).filter(s => s.length > 0),
-      preferences: rawPreferences.split(',').map(s => s.trim()).filter(s => s.length > 0)
+      allergies: rawAllergies.split(',').map(s => s.trim()).filter(s => s.length > 0),
+      dietaryRestrictions: rawRestrictions.split(',').map(s => s.trim()).filter(s => s.length > 0),
+      dislikes: rawDislikes.split(',').map(s => s.trim()).filter(s => s.length > 0)
     };
     onSave(finalProfile);
     setIsOpen(false);
@@ -93,7 +99,7 @@ export const ProfileSetup: React.FC<Props> = ({ profile, onSave }) => {
           <div>
             <h3 className="font-bold text-white">Diner Profile</h3>
             <p className="text-slate-900 text-sm">
-                {localProfile.age}yo • {localProfile.fitnessLevel} Cook
+                {localProfile.age}yo • {localProfile.cookingSkill} Cook
             </p>
           </div>
         </div>
@@ -211,17 +217,52 @@ export const ProfileSetup: React.FC<Props> = ({ profile, onSave }) => {
       <div className="mb-4">
           <label className="block text-slate-400 text-xs uppercase mb-1">Cooking Skill Level</label>
           <select 
-            value={localProfile.fitnessLevel}
-            onChange={(e) => handleChange('fitnessLevel', e.target.value)}
+            value={localProfile.cookingSkill}
+            onChange={(e) => handleChange('cookingSkill', e.target.value)}
             className="w-full bg-slate-900 border border-slate-600 text-white rounded p-2 focus:border-[#f0dc7a] outline-none"
           >
-            <option>Beginner (Toast is hard)</option>
-            <option>Intermediate (Can follow recipes)</option>
-            <option>Advanced (Comfortable improvising)</option>
-            <option>Elite (Professional Chef)</option>
+            <option value="Beginner">Beginner (Toast is hard)</option>
+            <option value="Intermediate">Intermediate (Can follow recipes)</option>
+            <option value="Advanced">Advanced (Comfortable improvising)</option>
+            <option value="Elite">Elite (Professional Chef)</option>
           </select>
       </div>
 
+      <div className="mb-4">
+          <label className="block text-slate-400 text-xs uppercase mb-1">Activity Level</label>
+          <select 
+            value={localProfile.activityLevel || 'moderate'}
+            onChange={(e) => handleChange('activityLevel', e.target.value)}
+            className="w-full bg-slate-900 border border-slate-600 text-white rounded p-2 focus:border-[#f0dc7a] outline-none"
+          >
+            <option value="sedentary">Sedentary (Desk job, little exercise)</option>
+            <option value="light">Light (Exercise 1-3 days/week)</option>
+            <option value="moderate">Moderate (Exercise 3-5 days/week)</option>
+            <option value="active">Active (Hard exercise 6-7 days/week)</option>
+            <option value="very-active">Very Active (Physical job or twice-daily training)</option>
+          </select>
+      </div>
+
+      <div className="mb-4 bg-slate-900 rounded-lg border border-slate-700 p-3">
+          <span className="block text-slate-400 text-xs uppercase mb-2">Daily Targets</span>
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2 text-center">
+              {[
+                  { label: 'BMR', value: `${targets.bmr}` },
+                  { label: 'TDEE', value: `${targets.tdee}` },
+                  { label: 'kcal', value: `${targets.daily.calories}` },
+                  { label: 'Protein', value: `${targets.daily.protein}g` },
+                  { label: 'Carbs', value: `${targets.daily.carbs}g` },
+                  { label: 'Fat', value: `${targets.daily.fat}g` }
+              ].map(stat => (
+                  <div key={stat.label}>
+                      <span className="block text-white font-bold">{stat.value}</span>
+                      <span className="block text-slate-500 text-[10px] font-bold uppercase">{stat.label}</span>
+                  </div>
+              ))}
+          </div>
+          <p className="text-slate-500 text-xs mt-2">Each recipe aims for its share of these, based on your weight, activity and goals.</p>
+      </div>
+
       {/* Array Inputs */}
       <div className="space-y-4">
           <div>
@@ -243,8 +284,8 @@ export const ProfileSetup: React.FC<Props> = ({ profile, onSave }) => {
             </label>
             <input 
               type="text" 
-              value={rawInjuries} 
-              onChange={(e) => setRawInjuries(e.target.value)}
+              value={rawAllergies} 
+              onChange={(e) => setRawAllergies(e.target.value)}
               className="w-full bg-slate-900 border border-red-900/50 text-white rounded p-2 focus:border-red-500 outline-none placeholder-slate-600"
               placeholder="e.g. Peanuts, Shellfish, Gluten"
             />
@@ -256,8 +297,8 @@ export const ProfileSetup: React.FC<Props> = ({ profile, onSave }) => {
             </label>
             <input 
               type="text" 
-              value={rawMedical} 
-              onChange={(e) => setRawMedical(e.target.value)}
+              value={rawRestrictions} 
+              onChange={(e) => setRawRestrictions(e.target.value)}
               className="w-full bg-slate-900 border border-slate-600 text-white rounded p-2 focus:border-[#f0dc7a] outline-none"
               placeholder="e.g. Vegan, Keto, Paleo"
             />
@@ -269,8 +310,8 @@ export const ProfileSetup: React.FC<Props> = ({ profile, onSave }) => {
             </label>
             <input 
               type="text" 
-              value={rawPreferences} 
-              onChange={(e) => setRawPreferences(e.target.value)}
+              value={rawDislikes} 
+              onChange={(e) => setRawDislikes(e.target.value)}
               className="w-full bg-slate-900 border border-slate-600 text-white rounded p-2 focus:border-[#f0dc7a] outline-none"
               placeholder="e.g. No Cilantro, Air Fryer, Blender"
             />
@@ -283,9 +324,9 @@ export const ProfileSetup: React.FC<Props> = ({ profile, onSave }) => {
               setIsOpen(false);
               setLocalProfile(profile);
               setRawGoals(profile.goals.join(', '));
-              setRawInjuries(profile.injuries.join(', '));
-              setRawMedical(profile.medicalConditions.join(', '));
-              setRawPreferences(profile.preferences.join(', '));
+              setRawAllergies(profile.allergies.join(', '));
+              setRawRestrictions(profile.dietaryRestrictions.join(', '));
+              setRawDislikes(profile.dislikes.join(', '));
           }}
           className="px-4 py-2 text-slate-300 hover:text-white transition-colors"
         >
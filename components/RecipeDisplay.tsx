@@ -1,15 +1,27 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Recipe, RecipeSection, UnitSystem, Ingredient } from '../types';
-import { saveRecipeToDb } from '../services/dbService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Recipe, RecipeSection, UnitSystem, Ingredient, MacroTargets } from '../types';
+import { saveRecipeToDb, createRecipeSaveKey } from '../services/dbService';
 import { generateDishImage } from '../services/geminiService';
 import { ShoppingAuditModal } from './ShoppingAuditModal';
-import { Clock, Flame, CheckCircle2, ChefHat, Timer, AlertTriangle, ChevronLeft, ChevronRight, Activity, CloudUpload, Utensils, RefreshCw, Loader2, ShoppingCart } from 'lucide-react';
+import { CookMode } from './CookMode';
+import { RefineRecipeModal } from './RefineRecipeModal';
+import { LogMealModal } from './LogMealModal';
+import { RecipeEditorModal } from './RecipeEditorModal';
+import { RecipeHistoryModal } from './RecipeHistoryModal';
+import type { RecipeRefinement } from '../src/services/chef';
+import { convertRecipeUnits, scaleRecipe, getRecipeServings } from '../src/services/units';
+import { Clock, Flame, CheckCircle2, ChefHat, Timer, AlertTriangle, ChevronLeft, ChevronRight, Activity, CloudUpload, Utensils, RefreshCw, Loader2, ShoppingCart, Scale, Minus, Plus, CopyPlus, Play, Wand2, NotebookPen, Pencil, History } from 'lucide-react';
 
 interface Props {
   plan: Recipe;
   units: UnitSystem;
   userId: string;
+  isStreaming?: boolean; // True while the chef is still writing sections
+  onRegenerate?: () => void; // Offered when the recipe conflicts with dietary restrictions
+  onRefine?: (recipe: Recipe, instruction: string) => Promise<RecipeRefinement>;
+  onAcceptRefinement?: (recipe: Recipe) => void; // Replaces the shown recipe with the refined version
+  targets?: MacroTargets; // Per-serving goals from the profile, shown beside the recipe's macros
 }
 
 // Flattened Step for the Carousel
@@ -27,26 +39,51 @@ const SECTION_ORDER = {
   UNKNOWN: 99, // Fallback for unknown section types
 } as const;
 
-export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
+export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId, isStreaming = false, onRegenerate, onRefine, onAcceptRefinement, targets }) => {
   const [localRecipe, setLocalRecipe] = useState<Recipe>(plan);
   const [currentStepIndex, setCurrentStepIndex] = useState<number>(0);
   const [isSaving, setIsSaving] = useState(false);
   const [hasSaved, setHasSaved] = useState(!!plan.id);
+  // One key per save action, so a double-click can't write the recipe twice
+  const [saveKey, setSaveKey] = useState(createRecipeSaveKey);
+  const [variantSaveKey, setVariantSaveKey] = useState(createRecipeSaveKey);
   
   const [dishImage, setDishImage] = useState<string | null>(localRecipe.imageUrl || null);
   const [isImageLoading, setIsImageLoading] = useState(false);
   const recipeImagesGeneratedRef = useRef<Set<string>>(new Set());
   const newRecipeKeyRef = useRef<string | null>(null); // unique key for unsaved recipes
+  const wasStreamingRef = useRef(false); // later plans from the same stream keep carousel position
 
   // Audit State
   const [showAudit, setShowAudit] = useState(false);
+  const [isCookMode, setIsCookMode] = useState(false);
+  const [showRefine, setShowRefine] = useState(false);
+  const [showLogMeal, setShowLogMeal] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Per-recipe unit toggle; starts from the profile's system
+  const [displaySystem, setDisplaySystem] = useState<UnitSystem['system']>(units?.system || 'imperial');
+
+  // Servings scaler; null shows the recipe as written
+  const [servingsOverride, setServingsOverride] = useState<number | null>(null);
+  const [isSavingVariant, setIsSavingVariant] = useState(false);
+  const baseServings = getRecipeServings(localRecipe);
+  const currentServings = servingsOverride ?? baseServings;
+  const isScaled = currentServings !== baseServings;
+
+  const scaledRecipe = useMemo(
+    () => (servingsOverride === null ? localRecipe : scaleRecipe(localRecipe, servingsOverride)),
+    [localRecipe, servingsOverride]
+  );
+  const displayRecipe = useMemo(() => convertRecipeUnits(scaledRecipe, displaySystem), [scaledRecipe, displaySystem]);
 
   // Flatten the Recipe Sections into a linear flow for the carousel
   const displaySteps: DisplayStep[] = [];
   
-  if (localRecipe.sections) {
+  if (displayRecipe.sections) {
       // Sort sections: Overview first, then Ingredients, then Instructions
-      const sortedSections = [...localRecipe.sections].sort((a, b) => {
+      const sortedSections = [...displayRecipe.sections].sort((a, b) => {
           const order: Record<string, number> = { 
               'Overview': SECTION_ORDER.OVERVIEW, 
               'Ingredients': SECTION_ORDER.INGREDIENTS, 
@@ -64,15 +101,32 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
       });
   }
 
+  // While streaming, show the title card before the Overview section itself has arrived
+  if (isStreaming && localRecipe.title && !displaySteps.some(s => s.type === 'Overview')) {
+      displaySteps.unshift({
+          type: 'Overview',
+          data: { type: 'Overview', title: 'Info', items: [], metadata: {} },
+          index: -1
+      });
+  }
+
   useEffect(() => {
     console.log('🔄 [Phase 2] RecipeDisplay plan prop changed:', {
       recipeId: plan.id,
       planImageUrl: plan.imageUrl ? plan.imageUrl.substring(0, 100) + '...' : null,
       planImageUrlType: plan.imageUrl ? (plan.imageUrl.startsWith('data:') ? 'base64' : 'storage') : 'none'
     });
+    const continuingStream = wasStreamingRef.current;
+    wasStreamingRef.current = isStreaming;
     setLocalRecipe(plan);
+    if (continuingStream) return;
+
     setHasSaved(!!plan.id);
+    setSaveKey(createRecipeSaveKey());
+    setVariantSaveKey(createRecipeSaveKey());
     setCurrentStepIndex(0);
+    setDisplaySystem(units?.system || 'imperial');
+    setServingsOverride(null);
 
     // Explicitly set image from plan
     setDishImage(plan.imageUrl || null);
@@ -106,6 +160,9 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
 
   useEffect(() => {
     const fetchImage = async () => {
+      // Wait for the final title and description before plating
+      if (isStreaming) return;
+
       const recipeKey = localRecipe.id || newRecipeKeyRef.current!;
       console.log('🔄 [Phase 2] fetchImage useEffect triggered:', {
         recipeKey,
@@ -165,7 +222,7 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
       }
     };
     fetchImage();
-  }, [localRecipe.title, localRecipe.description, dishImage, isImageLoading, localRecipe.id, localRecipe.imageUrl]);
+  }, [localRecipe.title, localRecipe.description, dishImage, isImageLoading, localRecipe.id, localRecipe.imageUrl, isStreaming]);
 
   const handleNext = useCallback(() => {
     if (currentStepIndex < displaySteps.length - 1) setCurrentStepIndex(prev => prev + 1);
@@ -184,10 +241,11 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
         userId
       });
       setIsSaving(true);
-      const newId = await saveRecipeToDb(localRecipe, userId);
+      const newId = await saveRecipeToDb(localRecipe, userId, { idempotencyKey: saveKey });
       setIsSaving(false);
       if (newId) {
           console.log('✅ [Phase 2] Recipe saved with ID:', newId);
+          setSaveKey(createRecipeSaveKey());
           setLocalRecipe(prev => ({ ...prev, id: newId }));
           setHasSaved(true);
           alert("Recipe saved to cookbook!"); 
@@ -196,21 +254,43 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
       }
   };
 
+  // Saves the rescaled recipe as a new cookbook entry linked to the original
+  const handleSaveVariant = async () => {
+      setIsSavingVariant(true);
+      const variant: Recipe = {
+          ...scaledRecipe,
+          id: undefined,
+          createdAt: undefined,
+          isFavorite: false,
+          title: `${localRecipe.title} (Serves ${currentServings})`,
+          variantOf: localRecipe.id
+      };
+      const newId = await saveRecipeToDb(variant, userId, { idempotencyKey: variantSaveKey });
+      setIsSavingVariant(false);
+      if (newId) {
+          setVariantSaveKey(createRecipeSaveKey());
+          console.log('✅ Recipe variant saved with ID:', newId);
+          alert(`Saved a ${currentServings}-serving variant to your cookbook!`);
+      } else {
+          console.error('❌ Recipe variant save failed - no ID returned');
+      }
+  };
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (document.activeElement?.tagName === 'INPUT') return;
+      if (isCookMode || showRefine || showLogMeal || showEditor || showHistory) return; // Cook mode has its own shortcuts
       if (e.key === 'ArrowRight') handleNext();
       if (e.key === 'ArrowLeft') handlePrev();
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleNext, handlePrev]);
+  }, [handleNext, handlePrev, isCookMode, showRefine, showLogMeal, showEditor, showHistory]);
 
-  // Helper to extract all ingredients for the audit
+  // Helper to extract all ingredients for the audit (at the selected servings)
   const getAllIngredients = (): Ingredient[] => {
       const all: Ingredient[] = [];
-      localRecipe.sections.forEach(s => {
+      scaledRecipe.sections.forEach(s => {
           if (s.ingredients) all.push(...s.ingredients);
       });
       return all;
@@ -218,6 +298,9 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
 
   const activeStep = displaySteps[currentStepIndex];
 
+  // Open cook mode on the instruction currently shown in the carousel (or the first one)
+  const cookModeStartStep = Math.max(0, displaySteps.slice(0, currentStepIndex + 1).filter(s => s.type === 'Instructions').length - 1);
+
   const renderCardContent = (step: DisplayStep) => {
       const { data } = step;
 
@@ -293,7 +376,12 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
                   </div>
 
                   <div className="p-6 flex flex-col items-center justify-center flex-grow text-center">
-                      <div className="text-slate-400 mb-8 max-w-md text-sm md:text-base">{localRecipe.description || ''}</div>
+                      <div className="text-slate-400 mb-8 max-w-md text-sm md:text-base">{displayRecipe.description || ''}</div>
+                      {localRecipe.allergens && localRecipe.allergens.length > 0 && (
+                          <div className="-mt-6 mb-6 text-xs uppercase tracking-wider text-slate-500">
+                              Contains: <span className="text-orange-400 font-bold">{localRecipe.allergens.join(', ')}</span>
+                          </div>
+                      )}
                       
                       <div className="grid grid-cols-2 gap-4 w-full max-w-md">
                           {prep && (
@@ -308,14 +396,32 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
                                   <span className="text-xl md:text-2xl font-bold text-white">{cook}</span>
                               </div>
                           )}
-                          {serves && (
+                          {(serves || !isStreaming) && (
                               <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 col-span-2 flex justify-between items-center px-6">
                                   <span className="text-slate-500 text-xs font-bold uppercase">Serves</span>
-                                  <span className="text-xl font-bold text-[#f0dc7a]">{serves}</span>
+                                  <div className="flex items-center gap-3">
+                                      <button
+                                        onClick={() => setServingsOverride(Math.max(1, currentServings - 1))}
+                                        disabled={isStreaming || currentServings <= 1}
+                                        className="p-1.5 rounded-lg bg-slate-900 border border-slate-700 text-slate-300 hover:text-[#f0dc7a] disabled:opacity-30 transition-colors"
+                                        title="Fewer servings"
+                                      >
+                                          <Minus className="w-4 h-4" />
+                                      </button>
+                                      <span className="text-xl font-bold text-[#f0dc7a] min-w-[2ch] text-center">{currentServings}</span>
+                                      <button
+                                        onClick={() => setServingsOverride(currentServings + 1)}
+                                        disabled={isStreaming}
+                                        className="p-1.5 rounded-lg bg-slate-900 border border-slate-700 text-slate-300 hover:text-[#f0dc7a] disabled:opacity-30 transition-colors"
+                                        title="More servings"
+                                      >
+                                          <Plus className="w-4 h-4" />
+                                      </button>
+                                  </div>
                               </div>
                           )}
                           {/* Fallback to original metrics if Overview items are not available */}
-                          {!prep && !cook && !serves && (
+                          {!prep && !cook && (
                               <>
                                   <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
                                       <span className="block text-slate-500 text-xs font-bold uppercase mb-1">Total Time</span>
@@ -332,6 +438,30 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
                               </>
                           )}
                       </div>
+
+                      {(localRecipe.protein ?? 0) + (localRecipe.carbs ?? 0) + (localRecipe.fat ?? 0) > 0 && (
+                          <div className="grid grid-cols-4 gap-2 w-full max-w-md mt-4 text-center">
+                              {[
+                                  { label: 'kcal', value: localRecipe.calories, target: targets?.calories, unit: '' },
+                                  { label: 'Protein', value: localRecipe.protein ?? 0, target: targets?.protein, unit: 'g' },
+                                  { label: 'Carbs', value: localRecipe.carbs ?? 0, target: targets?.carbs, unit: 'g' },
+                                  { label: 'Fat', value: localRecipe.fat ?? 0, target: targets?.fat, unit: 'g' }
+                              ].map(macro => {
+                                  const offTarget = macro.target ? Math.abs(macro.value - macro.target) > macro.target * 0.15 : false;
+                                  return (
+                                      <div key={macro.label} className="bg-slate-900 p-2 rounded-lg border border-slate-800">
+                                          <span className="block text-white font-bold">{macro.value}{macro.unit}</span>
+                                          {macro.target !== undefined && (
+                                              <span className={`block text-[10px] font-medium ${offTarget ? 'text-orange-400' : 'text-[#f0dc7a]'}`}>
+                                                  / {macro.target}{macro.unit} goal
+                                              </span>
+                                          )}
+                                          <span className="block text-slate-500 text-[10px] font-bold uppercase">{macro.label}</span>
+                                      </div>
+                                  );
+                              })}
+                          </div>
+                      )}
                   </div>
               </div>
           );
@@ -354,7 +484,8 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
                       {/* Add To Shopping List Button */}
                       <button 
                         onClick={() => setShowAudit(true)}
-                        className="bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-[#f0dc7a] border border-slate-700 p-3 rounded-xl transition-all shadow-sm"
+                        disabled={isStreaming}
+                        className="bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-[#f0dc7a] border border-slate-700 p-3 rounded-xl transition-all shadow-sm disabled:opacity-30"
                         title="Add to Shopping List"
                       >
                           <ShoppingCart className="w-6 h-6" />
@@ -442,6 +573,60 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
 
   return (
     <div className="animate-in slide-in-from-bottom-8 duration-700 pb-20 pt-4">
+      {isCookMode && (
+          <CookMode
+            recipe={displayRecipe}
+            initialStep={cookModeStartStep}
+            onExit={() => setIsCookMode(false)}
+          />
+      )}
+
+      {showRefine && onRefine && onAcceptRefinement && (
+          <RefineRecipeModal
+            recipe={localRecipe}
+            onRefine={onRefine}
+            onAccept={(refined) => {
+                setShowRefine(false);
+                onAcceptRefinement(refined);
+            }}
+            onClose={() => setShowRefine(false)}
+          />
+      )}
+
+      {showLogMeal && (
+          <LogMealModal
+            recipe={scaledRecipe}
+            userId={userId}
+            onClose={() => setShowLogMeal(false)}
+          />
+      )}
+
+      {showEditor && (
+          <RecipeEditorModal
+            recipe={localRecipe}
+            userId={userId}
+            onClose={() => setShowEditor(false)}
+            onSaved={(edited) => {
+                setLocalRecipe(edited);
+                setServingsOverride(null);
+                setCurrentStepIndex(0);
+            }}
+          />
+      )}
+
+      {showHistory && (
+          <RecipeHistoryModal
+            recipe={localRecipe}
+            userId={userId}
+            onClose={() => setShowHistory(false)}
+            onRestored={(restored) => {
+                setLocalRecipe(restored);
+                setServingsOverride(null);
+                setCurrentStepIndex(0);
+            }}
+          />
+      )}
+
       {showAudit && (
           <ShoppingAuditModal 
             userId={userId}
@@ -451,19 +636,127 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
           />
       )}
 
+      {!isStreaming && localRecipe.safetyFlags && localRecipe.safetyFlags.length > 0 && (
+          <div className="mb-6 bg-orange-500/10 border border-orange-500/50 text-orange-300 p-4 rounded-xl flex gap-3">
+              <AlertTriangle className="w-5 h-5 shrink-0 text-orange-500" />
+              <div className="flex-grow">
+                  <h4 className="font-bold">Doesn't fit your dietary restrictions</h4>
+                  <ul className="text-sm mt-1 space-y-0.5">
+                      {localRecipe.safetyFlags.map((flag, i) => (
+                          <li key={i}>{flag.ingredient} contains {flag.group} ({flag.rule})</li>
+                      ))}
+                  </ul>
+                  {onRegenerate && (
+                      <button onClick={onRegenerate} className="mt-3 flex items-center gap-2 text-sm font-bold text-[#f0dc7a] hover:text-[#f4e59c]">
+                          <RefreshCw className="w-4 h-4" /> Regenerate
+                      </button>
+                  )}
+              </div>
+          </div>
+      )}
+
+      {!isStreaming && localRecipe.missingIngredients && (
+          localRecipe.missingIngredients.length === 0 ? (
+              <div className="mb-6 bg-green-500/10 border border-green-500/40 text-green-300 p-4 rounded-xl flex gap-3 items-center">
+                  <CheckCircle2 className="w-5 h-5 shrink-0 text-green-500" />
+                  <span className="font-bold text-sm">Everything for this recipe is already in your kitchen</span>
+              </div>
+          ) : (
+              <div className="mb-6 bg-[#f0dc7a]/10 border border-[#f0dc7a]/40 text-[#f0dc7a] p-4 rounded-xl flex gap-3">
+                  <ShoppingCart className="w-5 h-5 shrink-0" />
+                  <div className="flex-grow">
+                      <h4 className="font-bold">Still need to buy</h4>
+                      <p className="text-sm mt-1 text-slate-300">{localRecipe.missingIngredients.join(', ')}</p>
+                  </div>
+              </div>
+          )
+      )}
+
       <div className="flex justify-between items-center mb-6">
+           <button
+              onClick={() => setDisplaySystem(prev => prev === 'metric' ? 'imperial' : 'metric')}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold uppercase tracking-wider bg-slate-900/50 text-slate-400 hover:text-[#f0dc7a] border border-slate-700 transition-all"
+              title="Switch measurement units for this recipe"
+           >
+              <Scale className="w-4 h-4" />
+              <span className={displaySystem === 'imperial' ? 'text-[#f0dc7a]' : ''}>Imperial</span>
+              <span className="text-slate-600">/</span>
+              <span className={displaySystem === 'metric' ? 'text-[#f0dc7a]' : ''}>Metric</span>
+           </button>
            <button 
               onClick={handleFullSave}
-              disabled={isSaving}
+              disabled={isSaving || isStreaming}
               className={`flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm transition-all shadow-lg ml-auto ${
                   hasSaved 
                   ? 'bg-slate-900/50 text-[#f0dc7a] border border-[#f0dc7a]/50' 
                   : 'bg-[#f0dc7a] text-slate-900 hover:bg-[#f4e59c]'
               }`}
            >
-              {isSaving ? 'Saving...' : hasSaved ? 'Saved to Cookbook' : 'Save Recipe'}
+              {isStreaming ? 'Chef is writing...' : isSaving ? 'Saving...' : hasSaved ? 'Saved to Cookbook' : 'Save Recipe'}
               {hasSaved ? <CheckCircle2 className="w-4 h-4" /> : <CloudUpload className="w-4 h-4" />}
            </button>
+           <button
+              onClick={() => setIsCookMode(true)}
+              disabled={isStreaming || !displaySteps.some(s => s.type === 'Instructions')}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm transition-all shadow-lg ml-2 bg-slate-900/50 text-[#f0dc7a] border border-[#f0dc7a]/50 hover:bg-[#f0dc7a] hover:text-slate-900 disabled:opacity-30 disabled:pointer-events-none"
+              title="Hands-free cooking with step timers"
+           >
+              Cook Mode
+              <Play className="w-4 h-4" />
+           </button>
+           {onRefine && onAcceptRefinement && (
+               <button
+                  onClick={() => setShowRefine(true)}
+                  disabled={isStreaming}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm transition-all shadow-lg ml-2 bg-slate-900/50 text-slate-300 hover:text-[#f0dc7a] border border-slate-700 disabled:opacity-30 disabled:pointer-events-none"
+                  title="Ask the chef to change this recipe"
+               >
+                  Refine
+                  <Wand2 className="w-4 h-4" />
+               </button>
+           )}
+           <button
+              onClick={() => setShowLogMeal(true)}
+              disabled={isStreaming}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm transition-all shadow-lg ml-2 bg-slate-900/50 text-slate-300 hover:text-[#f0dc7a] border border-slate-700 disabled:opacity-30 disabled:pointer-events-none"
+              title="Add this meal to your food log"
+           >
+              Log Meal
+              <NotebookPen className="w-4 h-4" />
+           </button>
+           {hasSaved && localRecipe.id && (
+               <button
+                  onClick={() => setShowEditor(true)}
+                  disabled={isStreaming}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm transition-all shadow-lg ml-2 bg-slate-900/50 text-slate-300 hover:text-[#f0dc7a] border border-slate-700 disabled:opacity-30 disabled:pointer-events-none"
+                  title="Fix quantities, steps and notes"
+               >
+                  Edit
+                  <Pencil className="w-4 h-4" />
+               </button>
+           )}
+           {hasSaved && localRecipe.id && (
+               <button
+                  onClick={() => setShowHistory(true)}
+                  disabled={isStreaming}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm transition-all shadow-lg ml-2 bg-slate-900/50 text-slate-300 hover:text-[#f0dc7a] border border-slate-700 disabled:opacity-30 disabled:pointer-events-none"
+                  title="See earlier versions and restore one"
+               >
+                  History
+                  <History className="w-4 h-4" />
+               </button>
+           )}
+           {isScaled && !isStreaming && (
+               <button
+                  onClick={handleSaveVariant}
+                  disabled={isSavingVariant}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm transition-all shadow-lg ml-2 bg-slate-900/50 text-slate-300 hover:text-[#f0dc7a] border border-slate-700"
+                  title="Save these amounts as a separate recipe"
+               >
+                  {isSavingVariant ? 'Saving...' : `Save ${currentServings}-Serving Variant`}
+                  <CopyPlus className="w-4 h-4" />
+               </button>
+           )}
       </div>
 
       <div className="flex items-center justify-center gap-4 h-[75vh]">
@@ -485,10 +778,18 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
                            className={`h-full flex-1 transition-all duration-300 ${idx <= currentStepIndex ? 'bg-[#f0dc7a]' : 'bg-slate-800'} ${idx > 0 ? 'border-l border-slate-950' : ''}`}
                          />
                      ))}
+                     {isStreaming && (
+                         <div className="h-full flex-1 bg-slate-800 animate-pulse border-l border-slate-950" />
+                     )}
                  </div>
 
                  <div className="flex-grow relative overflow-hidden flex flex-col">
-                     {activeStep ? renderCardContent(activeStep) : (
+                     {activeStep ? renderCardContent(activeStep) : isStreaming ? (
+                         <div className="flex flex-col items-center justify-center h-full text-slate-500 p-8 text-center">
+                            <Loader2 className="w-10 h-10 mb-4 animate-spin text-[#f0dc7a]" />
+                            <p>Chef is writing the recipe...</p>
+                         </div>
+                     ) : (
                          <div className="flex flex-col items-center justify-center h-full text-slate-500 p-8 text-center">
                             <AlertTriangle className="w-12 h-12 mb-4 text-orange-500" />
                             <p>Recipe content incomplete.</p>
@@ -498,6 +799,12 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
                          </div>
                      )}
                  </div>
+
+                 {isStreaming && activeStep && currentStepIndex === displaySteps.length - 1 && (
+                     <div className="flex items-center justify-center gap-2 py-3 text-xs font-medium uppercase tracking-widest text-[#f0dc7a]/80 border-t border-slate-900 shrink-0">
+                         <Loader2 className="w-4 h-4 animate-spin" /> Chef is writing the next step...
+                     </div>
+                 )}
              </div>
           </div>
 
@@ -511,7 +818,7 @@ export const RecipeDisplay: React.FC<Props> = ({ plan, units, userId }) => {
       </div>
       
       <div className="mt-8 text-center text-slate-500 text-sm">
-         <p>"{localRecipe.chefNote}"</p>
+         <p>"{displayRecipe.chefNote}"</p>
          <p className="mt-2 text-xs uppercase tracking-widest">- {localRecipe.chefPersona}</p>
       </div>
     </div>
@@ -0,0 +1,375 @@
+import React, { useState } from 'react';
+import { Recipe, RecipeSection, Ingredient, RecipeStepMeta } from '../types';
+import { saveRecipeToDb, createRecipeSaveKey } from '../services/dbService';
+import { applyNutrition } from '../src/services/nutrition';
+import { moveItem, createRecipeDraft, prepareEditedRecipe, validateEditedRecipe } from '../src/services/chef';
+import type { RecipeFieldError } from '../src/services/chef';
+import { Pencil, X, Loader2, Save, Plus, Trash2, ArrowUp, ArrowDown, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  recipe: Recipe; // Saved cookbook entry - edits go through the update path
+  userId: string;
+  onClose: () => void;
+  onSaved: (recipe: Recipe) => void;
+}
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'];
+const MEAL_TYPES = ['', 'Breakfast', 'Lunch', 'Dinner', 'Snack', 'Pre Workout', 'Post Workout'];
+const SECTION_TYPES: RecipeSection['type'][] = ['Overview', 'Ingredients', 'Instructions'];
+const EMPTY_INGREDIENT: Ingredient = { item: '', quantity: '', unit: '', prep: '' };
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:border-[#f0dc7a] outline-none';
+const labelClass = 'text-slate-400 text-xs uppercase font-bold mb-1 block';
+
+const parseNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+// Sections with structured rows (or nothing yet) edit rows; older text-only sections edit their lines
+const hasIngredientRows = (section: RecipeSection): boolean =>
+  section.type === 'Ingredients' && ((section.ingredients?.length ?? 0) > 0 || section.items.length === 0);
+
+// Stored difficulty is lowercase ("easy"); the select shows the display form
+const toDifficultyOption = (difficulty: string): string =>
+  DIFFICULTIES.find(d => d.toLowerCase() === (difficulty || '').toLowerCase()) || 'Medium';
+
+const toMealTypeOption = (mealType?: string): string =>
+  MEAL_TYPES.find(m => m.toLowerCase().replace(/\s+/g, '_') === (mealType || '').toLowerCase().replace(/\s+/g, '_')) || '';
+
+export const RecipeEditorModal: React.FC<Props> = ({ recipe, userId, onClose, onSaved }) => {
+  const [draft, setDraft] = useState<Recipe>(() => {
+    const copy = createRecipeDraft(recipe);
+    return { ...copy, difficulty: toDifficultyOption(copy.difficulty), mealType: toMealTypeOption(copy.mealType) };
+  });
+  const [tagsText, setTagsText] = useState((recipe.dietaryTags || []).join(', '));
+  const [errors, setErrors] = useState<RecipeFieldError[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveKey] = useState(createRecipeSaveKey); // Repeated clicks on Save write once
+
+  const update = (changes: Partial<Recipe>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateSection = (index: number, changes: Partial<RecipeSection>) =>
+    setDraft(prev => ({
+      ...prev,
+      sections: prev.sections.map((section, i) => (i === index ? { ...section, ...changes } : section))
+    }));
+
+  const updateMeta = (index: number, key: keyof RecipeStepMeta, value: string) =>
+    updateSection(index, { metadata: { ...draft.sections[index].metadata, [key]: value } });
+
+  const updateIngredient = (sectionIndex: number, ingredientIndex: number, changes: Partial<Ingredient>) =>
+    updateSection(sectionIndex, {
+      ingredients: (draft.sections[sectionIndex].ingredients || []).map((ingredient, i) =>
+        i === ingredientIndex ? { ...ingredient, ...changes } : ingredient
+      )
+    });
+
+  const addIngredient = (sectionIndex: number) =>
+    updateSection(sectionIndex, { ingredients: [...(draft.sections[sectionIndex].ingredients || []), { ...EMPTY_INGREDIENT }] });
+
+  const removeIngredient = (sectionIndex: number, ingredientIndex: number) =>
+    updateSection(sectionIndex, {
+      ingredients: (draft.sections[sectionIndex].ingredients || []).filter((_, i) => i !== ingredientIndex)
+    });
+
+  const moveSection = (from: number, to: number) =>
+    setDraft(prev => ({ ...prev, sections: moveItem(prev.sections, from, to) }));
+
+  const removeSection = (index: number) =>
+    setDraft(prev => ({ ...prev, sections: prev.sections.filter((_, i) => i !== index) }));
+
+  const addSection = () =>
+    setDraft(prev => ({
+      ...prev,
+      sections: [...prev.sections, { type: 'Instructions', title: 'New Step', items: [''], metadata: {} }]
+    }));
+
+  const handleSave = async () => {
+    const edited = prepareEditedRecipe({
+      ...draft,
+      dietaryTags: tagsText.split(',')
+    });
+    const problems = validateEditedRecipe(edited);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setIsSaving(true);
+    const id = await saveRecipeToDb({ ...edited, id: recipe.id }, userId, { idempotencyKey: saveKey });
+    setIsSaving(false);
+    if (!id) {
+      alert("Failed to save your changes. Please try again.");
+      return;
+    }
+    // Same recalculation the save path stores, so the open view matches the cookbook
+    onSaved(applyNutrition({ ...edited, id }));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-slate-900 w-full max-w-3xl max-h-[90vh] rounded-2xl border border-slate-700 shadow-2xl overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Pencil className="w-6 h-6 text-[#f0dc7a]" /> Edit Recipe
+            </h2>
+            <p className="text-slate-400 text-sm mt-1 truncate">{recipe.title}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {errors.length > 0 && (
+            <div className="bg-red-500/10 border border-red-500/50 text-red-300 p-4 rounded-xl flex gap-3">
+              <AlertTriangle className="w-5 h-5 shrink-0 text-red-500" />
+              <ul className="text-sm space-y-0.5">
+                {errors.map((error, i) => (
+                  <li key={i}><span className="font-mono text-red-400">{error.path || 'recipe'}</span> {error.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div>
+              <label className={labelClass}>Title</label>
+              <input value={draft.title} onChange={(e) => update({ title: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Description</label>
+              <textarea value={draft.description} onChange={(e) => update({ description: e.target.value })} rows={2} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Notes</label>
+              <textarea
+                value={draft.chefNote}
+                onChange={(e) => update({ chefNote: e.target.value })}
+                rows={2}
+                placeholder="What you'd change next time..."
+                className={inputClass}
+              />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <label className={labelClass}>Servings</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.servings ?? ''}
+                  onChange={(e) => update({ servings: parseNumber(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Prep (min)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.prepTime ?? ''}
+                  onChange={(e) => update({ prepTime: parseNumber(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Cook (min)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.cookTime ?? ''}
+                  onChange={(e) => update({ cookTime: parseNumber(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Total (min)</label>
+                <input
+                  type="number"
+                  value={prepareEditedRecipe(draft).totalTime}
+                  disabled
+                  title="Prep + cook"
+                  className={`${inputClass} disabled:opacity-50`}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className={labelClass}>Difficulty</label>
+                <select value={draft.difficulty} onChange={(e) => update({ difficulty: e.target.value })} className={inputClass}>
+                  {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Meal Type</label>
+                <select value={draft.mealType || ''} onChange={(e) => update({ mealType: e.target.value })} className={inputClass}>
+                  {MEAL_TYPES.map(m => <option key={m} value={m}>{m || 'Any'}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Cuisine</label>
+                <input value={draft.cuisine} onChange={(e) => update({ cuisine: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Tags</label>
+              <input
+                value={tagsText}
+                onChange={(e) => setTagsText(e.target.value)}
+                placeholder="gluten-free, high-protein"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* Sections */}
+          <div className="space-y-4">
+            {draft.sections.map((section, sectionIndex) => (
+              <div key={sectionIndex} className="bg-slate-950/60 border border-slate-800 rounded-xl p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <select
+                    value={section.type}
+                    onChange={(e) => updateSection(sectionIndex, { type: e.target.value as RecipeSection['type'] })}
+                    className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-xs font-bold uppercase text-[#f0dc7a] outline-none"
+                  >
+                    {SECTION_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                  </select>
+                  <input
+                    value={section.title}
+                    onChange={(e) => updateSection(sectionIndex, { title: e.target.value })}
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => moveSection(sectionIndex, sectionIndex - 1)}
+                    disabled={sectionIndex === 0}
+                    className="p-2 text-slate-500 hover:text-[#f0dc7a] disabled:opacity-30 transition-colors"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveSection(sectionIndex, sectionIndex + 1)}
+                    disabled={sectionIndex === draft.sections.length - 1}
+                    className="p-2 text-slate-500 hover:text-[#f0dc7a] disabled:opacity-30 transition-colors"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => removeSection(sectionIndex)}
+                    className="p-2 text-slate-500 hover:text-red-400 transition-colors"
+                    title="Delete section"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {hasIngredientRows(section) && (
+                  <div className="space-y-2">
+                    {(section.ingredients || []).map((ingredient, ingredientIndex) => (
+                      <div key={ingredientIndex} className="grid grid-cols-[4rem_5rem_1fr_1fr_auto] gap-2">
+                        <input
+                          value={ingredient.quantity}
+                          onChange={(e) => updateIngredient(sectionIndex, ingredientIndex, { quantity: e.target.value })}
+                          placeholder="Qty"
+                          className={inputClass}
+                        />
+                        <input
+                          value={ingredient.unit}
+                          onChange={(e) => updateIngredient(sectionIndex, ingredientIndex, { unit: e.target.value })}
+                          placeholder="Unit"
+                          className={inputClass}
+                        />
+                        <input
+                          value={ingredient.item}
+                          onChange={(e) => updateIngredient(sectionIndex, ingredientIndex, { item: e.target.value })}
+                          placeholder="Ingredient"
+                          className={inputClass}
+                        />
+                        <input
+                          value={ingredient.prep}
+                          onChange={(e) => updateIngredient(sectionIndex, ingredientIndex, { prep: e.target.value })}
+                          placeholder="Prep"
+                          className={inputClass}
+                        />
+                        <button
+                          onClick={() => removeIngredient(sectionIndex, ingredientIndex)}
+                          className="p-2 text-slate-500 hover:text-red-400 transition-colors"
+                          title="Remove ingredient"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => addIngredient(sectionIndex)}
+                      className="flex items-center gap-1 text-xs font-bold text-[#f0dc7a] hover:text-[#f4e59c]"
+                    >
+                      <Plus className="w-3 h-3" /> Add ingredient
+                    </button>
+                  </div>
+                )}
+
+                {!hasIngredientRows(section) && (
+                  <div>
+                    <label className={labelClass}>
+                      {section.type === 'Instructions' ? 'Steps (one per line)' : section.type === 'Ingredients' ? 'Ingredient lines' : 'Lines'}
+                    </label>
+                    <textarea
+                      value={section.items.join('\n')}
+                      onChange={(e) => updateSection(sectionIndex, { items: e.target.value.split('\n') })}
+                      rows={Math.max(2, section.items.length)}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+
+                {section.type === 'Instructions' && (
+                  <div className="grid grid-cols-3 gap-2">
+                    {(['timer', 'technique', 'quantity'] as const).map(key => (
+                      <div key={key}>
+                        <label className={labelClass}>{key}</label>
+                        <input
+                          value={section.metadata?.[key] || ''}
+                          onChange={(e) => updateMeta(sectionIndex, key, e.target.value)}
+                          placeholder={key === 'timer' ? '10 mins' : key === 'technique' ? 'Sear' : '2 cups'}
+                          className={inputClass}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={addSection}
+              className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-dashed border-slate-700 text-sm font-bold text-slate-400 hover:text-[#f0dc7a] hover:border-[#f0dc7a]/50 transition-colors"
+            >
+              <Plus className="w-4 h-4" /> Add Section
+            </button>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-slate-800 flex justify-end gap-3 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-bold text-slate-400 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm bg-[#f0dc7a] text-slate-900 hover:bg-[#f4e59c] disabled:opacity-50 transition-all"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            {isSaving ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,24 @@
 
-import React, { useEffect, useState, useRef, useCallback } from 'react';
-import { Recipe, TrainerType } from '../types';
-import { getSavedRecipes, getRecipeById, deleteRecipe, getRecipeImageUrls } from '../services/dbService';
-import { Calendar, Clock, Flame, BookOpen, Trash2, ArrowRight, AlertCircle, Loader2, Utensils } from 'lucide-react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
+import { Recipe } from '../types';
+import { buildRecipeIndex, searchRecipes, parseSearchQuery, getSearchFacets, hasActiveFilters, EMPTY_SEARCH_FILTERS, MEAL_TYPE_FACETS, DIFFICULTY_FACETS } from '../src/services/search';
+import type { RecipeSearchFilters } from '../src/services/search';
+import { getRecipeSummaries, getRecipeById, deleteRecipe, getRecipeImageUrls, setRecipeFavorite } from '../services/dbService';
+import type { RecipePageCursor } from '../services/dbService';
+import { LogMealModal } from './LogMealModal';
+import { Calendar, Clock, Flame, BookOpen, Trash2, ArrowRight, AlertCircle, Loader2, Utensils, NotebookPen, Search, Heart, X } from 'lucide-react';
 
 interface Props {
   onLoadWorkout: (plan: Recipe) => void;
   userId: string;
 }
 
+const TIME_LIMITS = [15, 30, 45, 60, 90];
+// Pages a search loads on its own before asking - keeps a search from pulling in the whole cookbook
+const SEARCH_AUTO_LOAD_PAGES = 3;
+
+const facetLabel = (value: string) => value.replace(/[_-]+/g, ' ');
+
 // Image cache shared across component instances
 const imageCache = new Map<string, string>();
 const loadingRecipes = new Set<string>();
@@ -16,21 +26,20 @@ const loadingRecipes = new Set<string>();
 export const RecipeHistory: React.FC<Props> = ({ onLoadWorkout, userId }) => {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filterCuisine, setFilterCuisine] = useState<string>('All');
-  const [filterChef, setFilterChef] = useState<string>('All');
+  const [searchText, setSearchText] = useState('');
+  const [filters, setFilters] = useState<RecipeSearchFilters>(EMPTY_SEARCH_FILTERS);
   const [loadedImages, setLoadedImages] = useState<Map<string, string>>(new Map());
+  const [loggingRecipe, setLoggingRecipe] = useState<Recipe | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [searchPagesLoaded, setSearchPagesLoaded] = useState(0);
+  const [openingId, setOpeningId] = useState<string | null>(null);
   const observerRef = useRef<IntersectionObserver | null>(null);
   const cardRefs = useRef<Map<string, HTMLDivElement>>(new Map());
-
-  // Static chef persona options (keeps filter stable even if only one chef is present in data)
-  const CHEF_PERSONA_OPTIONS: string[] = [
-    TrainerType.FUNCTIONAL,
-    TrainerType.HYPERTROPHY,
-    TrainerType.POWERLIFTING,
-    TrainerType.YOGA,
-    TrainerType.HIIT,
-    TrainerType.REHAB,
-  ];
+  const cursorRef = useRef<RecipePageCursor | null>(null);
+  const loadingMoreRef = useRef(false); // Observer callbacks can fire again before state updates
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const isSearching = searchText.trim() !== '' || hasActiveFilters(filters);
 
   useEffect(() => {
     loadData();
@@ -93,31 +102,78 @@ export const RecipeHistory: React.FC<Props> = ({ onLoadWorkout, userId }) => {
     }
   }, []);
 
-  const loadData = async () => {
-    setLoading(true);
-    // Exclude images when loading history to speed up query and prevent timeouts
-    // Images will be loaded lazily as cards come into view
-    const data = await getSavedRecipes(userId, false);
-    
-    // Check cache for any images we already have
+  // Summaries with any images we already have cached
+  const withCachedImages = (data: Recipe[]): Recipe[] =>
+    data.map(recipe => ({
+      ...recipe,
+      imageUrl: (recipe.id && imageCache.get(recipe.id)) || recipe.imageUrl || ''
+    }));
+
+  const cachedImagesFor = (data: Recipe[]): Map<string, string> => {
     const cachedImages = new Map<string, string>();
     data.forEach(recipe => {
       if (recipe.id && imageCache.has(recipe.id)) {
         cachedImages.set(recipe.id, imageCache.get(recipe.id)!);
       }
     });
-    
-    // Initialize recipes with cached images
-    const recipesWithCachedImages = data.map(recipe => ({
-      ...recipe,
-      imageUrl: (recipe.id && cachedImages.get(recipe.id)) || recipe.imageUrl || ''
-    }));
-    
-    setRecipes(recipesWithCachedImages);
-    setLoadedImages(cachedImages);
+    return cachedImages;
+  };
+
+  const loadData = async () => {
+    setLoading(true);
+    // Only the first page of summaries - sections load when a card is opened,
+    // images as cards come into view, and more pages as the list is scrolled
+    cursorRef.current = null;
+    const page = await getRecipeSummaries(userId);
+    cursorRef.current = page.cursor;
+
+    setRecipes(withCachedImages(page.recipes));
+    setLoadedImages(cachedImagesFor(page.recipes));
+    setHasMore(page.hasMore);
     setLoading(false);
   };
 
+  const loadMore = useCallback(async () => {
+    if (loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    const page = await getRecipeSummaries(userId, cursorRef.current);
+    cursorRef.current = page.cursor;
+    setRecipes(prev => {
+      const seen = new Set(prev.map(r => r.id));
+      return [...prev, ...withCachedImages(page.recipes).filter(r => !seen.has(r.id))];
+    });
+    setLoadedImages(prev => new Map([...prev, ...cachedImagesFor(page.recipes)]));
+    setHasMore(page.hasMore);
+
+    setLoadingMore(false);
+    loadingMoreRef.current = false;
+  }, [userId]);
+
+  // Infinite scroll: fetch the next page when the end of the list comes into view (not while searching -
+  // short result lists keep the end in view, so search results page on request instead)
+  useEffect(() => {
+    if (loading || !hasMore || isSearching || !sentinelRef.current) return;
+    const sentinelObserver = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) loadMore();
+      },
+      { rootMargin: '400px' }
+    );
+    sentinelObserver.observe(sentinelRef.current);
+    return () => sentinelObserver.disconnect();
+  }, [loading, hasMore, isSearching, loadMore, recipes.length]);
+
+  // Full recipe (sections and image) for a summary card
+  const loadFullRecipe = async (recipeId: string): Promise<Recipe | null> => {
+    setOpeningId(recipeId);
+    const fullRecipe = await getRecipeById(recipeId, true);
+    setOpeningId(null);
+    if (!fullRecipe) alert("Couldn't open this recipe. Please try again.");
+    return fullRecipe;
+  };
+
   // Set up Intersection Observer for lazy loading
   useEffect(() => {
     if (loading) return;
@@ -168,13 +224,71 @@ export const RecipeHistory: React.FC<Props> = ({ onLoadWorkout, userId }) => {
     }
   };
 
-  const cuisinesFound = Array.from(new Set(recipes.map(r => r.cuisine || 'General'))).sort();
-  
-  const filteredRecipes = recipes.filter(r => {
-    const chefMatch = filterChef === 'All' || (r.chefPersona || 'Other') === filterChef;
-    const cuisineMatch = filterCuisine === 'All' || (r.cuisine || 'General') === filterCuisine;
-    return chefMatch && cuisineMatch;
-  });
+  const handleToggleFavorite = async (recipe: Recipe, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const isFavorite = !recipe.isFavorite;
+    setRecipes(prev => prev.map(r => (r.id === recipe.id ? { ...r, isFavorite } : r)));
+    const success = await setRecipeFavorite(recipe.id!, isFavorite);
+    if (!success) {
+      setRecipes(prev => prev.map(r => (r.id === recipe.id ? { ...r, isFavorite: !isFavorite } : r)));
+    }
+  };
+
+  const toggleFacet = (key: 'mealTypes' | 'difficulties' | 'dietaryTags', value: string) => {
+    setFilters(prev => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter(v => v !== value) : [...prev[key], value]
+    }));
+  };
+
+  const toNumber = (value: string): number | undefined => (value === '' ? undefined : Math.max(0, Number(value)));
+
+  const clearSearch = () => {
+    setSearchText('');
+    setFilters(EMPTY_SEARCH_FILTERS);
+  };
+
+  const searchIndex = useMemo(() => buildRecipeIndex(recipes), [recipes]);
+  const facets = useMemo(() => getSearchFacets(searchIndex), [searchIndex]);
+  const parsedQuery = useMemo(() => parseSearchQuery(searchText, searchIndex.tags), [searchText, searchIndex]);
+  const filteredRecipes = useMemo(
+    () => (isSearching ? searchRecipes(searchIndex, searchText, filters).map(result => result.recipe) : recipes),
+    [isSearching, searchIndex, searchText, filters, recipes]
+  );
+
+  // What the query text was read as, shown under the search box
+  const queryChips = [
+    ...parsedQuery.filters.mealTypes.map(facetLabel),
+    ...parsedQuery.filters.difficulties,
+    ...parsedQuery.filters.dietaryTags.map(facetLabel),
+    ...(parsedQuery.filters.maxTotalTime !== undefined ? [`≤ ${parsedQuery.filters.maxTotalTime} min`] : []),
+    ...(parsedQuery.filters.minCalories !== undefined ? [`≥ ${parsedQuery.filters.minCalories} kcal`] : []),
+    ...(parsedQuery.filters.maxCalories !== undefined ? [`≤ ${parsedQuery.filters.maxCalories} kcal`] : []),
+    ...(parsedQuery.filters.favoritesOnly ? ['favorites'] : []),
+    ...parsedQuery.excludedTerms.map(term => `no ${term}`)
+  ];
+
+  // A search pulls in a few more pages on its own; past that, "Load more results" fetches the next page
+  useEffect(() => {
+    if (!isSearching) {
+      setSearchPagesLoaded(0);
+      return;
+    }
+    if (hasMore && !loadingMore && searchPagesLoaded < SEARCH_AUTO_LOAD_PAGES) {
+      setSearchPagesLoaded(pages => pages + 1);
+      loadMore();
+    }
+  }, [isSearching, hasMore, loadingMore, searchPagesLoaded, loadMore]);
+
+  const facetChip = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs font-bold border capitalize transition-all ${
+      active
+        ? 'bg-[#f0dc7a] text-slate-900 border-[#f0dc7a]'
+        : 'bg-slate-900 text-slate-400 border-slate-700 hover:text-white'
+    }`;
+
+  const mealTypeCounts = new Map(facets.mealTypes.map(f => [f.value, f.count]));
+  const difficultyCounts = new Map(facets.difficulties.map(f => [f.value, f.count]));
 
   if (loading) {
     return (
@@ -197,41 +311,110 @@ export const RecipeHistory: React.FC<Props> = ({ onLoadWorkout, userId }) => {
 
   return (
     <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-      <div className="flex flex-col md:flex-row justify-between items-center mb-8 gap-4">
-        <div>
+      <div className="mb-6">
            <h2 className="text-3xl font-bold text-white">Your Cookbook</h2>
            <p className="text-slate-400">Revisit your favorite generated meals.</p>
+      </div>
+
+      <div className="mb-8 space-y-3">
+        <div className="flex items-center gap-2 bg-slate-900 p-3 rounded-xl border border-slate-700 focus-within:border-[#f0dc7a]/50">
+          <Search className="w-5 h-5 text-slate-500 shrink-0" />
+          <input
+            type="text"
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder='Search recipes, e.g. "chicken under 30 minutes, gluten-free"'
+            className="flex-1 bg-transparent text-white text-sm outline-none placeholder:text-slate-600"
+          />
+          {isSearching && (
+            <button onClick={clearSearch} className="text-slate-500 hover:text-white transition-colors" title="Clear search">
+              <X className="w-4 h-4" />
+            </button>
+          )}
         </div>
-        
+
+        {queryChips.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-slate-500">Filtering by:</span>
+            {queryChips.map(chip => (
+              <span key={chip} className="px-2 py-0.5 rounded bg-[#807048]/30 text-[#f0dc7a] border border-[#9c8c53]/50 capitalize">{chip}</span>
+            ))}
+          </div>
+        )}
+
         <div className="flex flex-wrap gap-2">
-           <div className="flex items-center gap-2 bg-slate-900 p-2 rounded-lg border border-slate-700">
-                <span className="text-xs font-bold text-slate-500 uppercase px-2">Chef:</span>
-                <select 
-                    value={filterChef}
-                    onChange={(e) => setFilterChef(e.target.value)}
-                    className="bg-transparent text-white text-sm outline-none cursor-pointer pr-4"
-                >
-                    <option value="All">All</option>
-                    {CHEF_PERSONA_OPTIONS.map(c => (
-                        <option key={c} value={c}>{c}</option>
-                    ))}
-                </select>
-           </div>
-           
-           <div className="flex items-center gap-2 bg-slate-900 p-2 rounded-lg border border-slate-700">
-                <span className="text-xs font-bold text-slate-500 uppercase px-2">Cuisine:</span>
-                <select 
-                    value={filterCuisine}
-                    onChange={(e) => setFilterCuisine(e.target.value)}
-                    className="bg-transparent text-white text-sm outline-none cursor-pointer pr-4"
-                >
-                    <option value="All">All</option>
-                    {cuisinesFound.map(c => (
-                        <option key={c} value={c}>{c}</option>
-                    ))}
-                </select>
-           </div>
+          {MEAL_TYPE_FACETS.filter(value => mealTypeCounts.has(value)).map(value => (
+            <button key={value} onClick={() => toggleFacet('mealTypes', value)} className={facetChip(filters.mealTypes.includes(value))}>
+              {facetLabel(value)} <span className="opacity-60">{mealTypeCounts.get(value)}</span>
+            </button>
+          ))}
+          {DIFFICULTY_FACETS.filter(value => difficultyCounts.has(value)).map(value => (
+            <button key={value} onClick={() => toggleFacet('difficulties', value)} className={facetChip(filters.difficulties.includes(value))}>
+              {value} <span className="opacity-60">{difficultyCounts.get(value)}</span>
+            </button>
+          ))}
+          {facets.dietaryTags.map(({ value, count }) => (
+            <button key={value} onClick={() => toggleFacet('dietaryTags', value)} className={facetChip(filters.dietaryTags.includes(value))}>
+              {facetLabel(value)} <span className="opacity-60">{count}</span>
+            </button>
+          ))}
         </div>
+
+        <div className="flex flex-wrap gap-2">
+          <div className="flex items-center gap-2 bg-slate-900 p-2 rounded-lg border border-slate-700">
+            <span className="text-xs font-bold text-slate-500 uppercase px-2">Time:</span>
+            <select
+              value={filters.maxTotalTime ?? ''}
+              onChange={(e) => setFilters(prev => ({ ...prev, maxTotalTime: toNumber(e.target.value) }))}
+              className="bg-transparent text-white text-sm outline-none cursor-pointer pr-4"
+            >
+              <option value="">Any</option>
+              {TIME_LIMITS.map(minutes => (
+                <option key={minutes} value={minutes}>≤ {minutes} min</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center gap-2 bg-slate-900 p-2 rounded-lg border border-slate-700">
+            <span className="text-xs font-bold text-slate-500 uppercase px-2">Kcal:</span>
+            <input
+              type="number"
+              min={0}
+              value={filters.minCalories ?? ''}
+              onChange={(e) => setFilters(prev => ({ ...prev, minCalories: toNumber(e.target.value) }))}
+              placeholder="Min"
+              className="w-16 bg-transparent text-white text-sm outline-none placeholder:text-slate-600"
+            />
+            <span className="text-slate-600">–</span>
+            <input
+              type="number"
+              min={0}
+              value={filters.maxCalories ?? ''}
+              onChange={(e) => setFilters(prev => ({ ...prev, maxCalories: toNumber(e.target.value) }))}
+              placeholder="Max"
+              className="w-16 bg-transparent text-white text-sm outline-none placeholder:text-slate-600"
+            />
+          </div>
+
+          <button
+            onClick={() => setFilters(prev => ({ ...prev, favoritesOnly: !prev.favoritesOnly }))}
+            className={`flex items-center gap-2 px-3 rounded-lg border text-sm font-bold transition-all ${
+              filters.favoritesOnly
+                ? 'bg-[#f0dc7a] text-slate-900 border-[#f0dc7a]'
+                : 'bg-slate-900 text-slate-400 border-slate-700 hover:text-white'
+            }`}
+          >
+            <Heart className={`w-4 h-4 ${filters.favoritesOnly ? 'fill-current' : ''}`} /> Favorites
+          </button>
+        </div>
+
+        {isSearching && (
+          <p className="text-xs text-slate-500">
+            {loadingMore
+              ? 'Searching more of your cookbook...'
+              : `${filteredRecipes.length} of ${recipes.length} recipe${recipes.length === 1 ? '' : 's'}${hasMore ? ' searched so far' : ''}`}
+          </p>
+        )}
       </div>
 
       <div className="grid grid-cols-1 gap-4">
@@ -251,17 +434,10 @@ export const RecipeHistory: React.FC<Props> = ({ onLoadWorkout, userId }) => {
                 }}
                 data-recipe-id={recipeId}
                 onClick={async () => {
-                    // If the recipe already has an image, use it. Otherwise fetch with images.
-                    if (displayImageUrl) {
-                        onLoadWorkout(recipe);
-                        return;
-                    }
-                    // Ensure we have the full recipe with image before navigating
-                    if (!displayImageUrl) {
-                      await loadImageForRecipe(recipeId);
-                    }
-                    const fullRecipe = await getRecipeById(recipeId, true);
-                    onLoadWorkout(fullRecipe || recipe);
+                    if (openingId) return;
+                    // Cards are summaries - fetch the sections before opening
+                    const fullRecipe = await loadFullRecipe(recipeId);
+                    if (fullRecipe) onLoadWorkout(fullRecipe);
                 }}
                 className="bg-slate-800 hover:bg-slate-750 border border-slate-700 hover:border-[#f0dc7a]/50 rounded-xl p-5 cursor-pointer transition-all hover:shadow-lg hover:shadow-[#807048]/10 group relative"
             >
@@ -347,9 +523,18 @@ export const RecipeHistory: React.FC<Props> = ({ onLoadWorkout, userId }) => {
                                 <span className="font-bold">{recipe.calories} kcal</span>
                             </div>
                         </div>
+                        {(recipe.protein ?? 0) > 0 && (
+                            <div className="flex items-center justify-center gap-3 text-xs text-slate-500 font-mono">
+                                <span>P {recipe.protein}g</span>
+                                <span>C {recipe.carbs}g</span>
+                                <span>F {recipe.fat}g</span>
+                            </div>
+                        )}
                         
                         <div className="hidden md:flex items-center justify-center w-full py-2 rounded-lg bg-slate-700/30 group-hover:bg-[#f0dc7a] group-hover:text-slate-900 transition-all font-bold text-xs uppercase tracking-wide mt-auto">
-                            View Recipe <ArrowRight className="w-4 h-4 ml-1" />
+                            {openingId === recipeId
+                                ? <>Opening <Loader2 className="w-4 h-4 ml-1 animate-spin" /></>
+                                : <>View Recipe <ArrowRight className="w-4 h-4 ml-1" /></>}
                         </div>
                     </div>
                 </div>
@@ -361,16 +546,49 @@ export const RecipeHistory: React.FC<Props> = ({ onLoadWorkout, userId }) => {
                 >
                     <Trash2 className="w-4 h-4" />
                 </button>
+                <button 
+                   onClick={(e) => handleToggleFavorite(recipe, e)}
+                   className={`absolute top-4 right-24 p-2 hover:bg-slate-900 rounded-lg transition-colors z-10 ${
+                     recipe.isFavorite ? 'text-[#f0dc7a]' : 'text-slate-600 hover:text-[#f0dc7a] opacity-0 group-hover:opacity-100'
+                   }`}
+                   title={recipe.isFavorite ? 'Remove from Favorites' : 'Add to Favorites'}
+                >
+                    <Heart className={`w-4 h-4 ${recipe.isFavorite ? 'fill-current' : ''}`} />
+                </button>
+                <button 
+                   onClick={async (e) => {
+                       e.stopPropagation();
+                       // Logging takes ingredients out of the kitchen, so it needs the sections too
+                       const fullRecipe = await loadFullRecipe(recipeId);
+                       if (fullRecipe) setLoggingRecipe(fullRecipe);
+                   }}
+                   className="absolute top-4 right-14 p-2 text-slate-600 hover:text-[#f0dc7a] hover:bg-slate-900 rounded-lg transition-colors opacity-0 group-hover:opacity-100 z-10"
+                   title="Log Meal"
+                >
+                    <NotebookPen className="w-4 h-4" />
+                </button>
             </div>
           );
         })}
         
-        {filteredRecipes.length === 0 && (
+        {hasMore && (
+            <div ref={sentinelRef} className="flex justify-center py-6 text-slate-500">
+                {loadingMore ? (
+                  <Loader2 className="w-6 h-6 animate-spin text-[#f0dc7a]" />
+                ) : isSearching && (
+                  <button onClick={loadMore} className="text-[#f0dc7a] text-sm hover:underline">
+                    Load more results
+                  </button>
+                )}
+            </div>
+        )}
+
+        {filteredRecipes.length === 0 && !hasMore && (
             <div className="text-center py-10 border border-dashed border-slate-700 rounded-xl">
                 <AlertCircle className="w-8 h-8 text-slate-600 mx-auto mb-2" />
                 <p className="text-slate-500">No recipes found matching these filters.</p>
                 <button 
-                  onClick={() => { setFilterCuisine('All'); setFilterChef('All'); }}
+                  onClick={clearSearch}
                   className="mt-4 text-[#f0dc7a] text-sm hover:underline"
                 >
                   Clear Filters
@@ -378,6 +596,14 @@ export const RecipeHistory: React.FC<Props> = ({ onLoadWorkout, userId }) => {
             </div>
         )}
       </div>
+
+      {loggingRecipe && (
+          <LogMealModal
+            recipe={loggingRecipe}
+            userId={userId}
+            onClose={() => setLoggingRecipe(null)}
+          />
+      )}
     </div>
   );
 };
@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Recipe, RecipeRevision } from '../types';
+import { getRecipeRevisions, restoreRecipeRevision } from '../services/dbService';
+import { diffRecipeRevisions } from '../src/services/chef';
+import type { ChangeType } from '../src/services/chef';
+import { History, X, Loader2, RotateCcw } from 'lucide-react';
+
+interface Props {
+  recipe: Recipe; // Saved cookbook entry
+  userId: string;
+  onClose: () => void;
+  onRestored: (recipe: Recipe) => void;
+}
+
+type CompareMode = 'previous' | 'latest';
+
+const CHANGE_STYLES: Record<ChangeType, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-900/30 text-green-400' },
+  removed: { label: 'Removed', className: 'bg-red-900/30 text-red-400' },
+  changed: { label: 'Changed', className: 'bg-[#807048]/20 text-[#f0dc7a]' },
+};
+
+const formatAmount = (quantity?: string, unit?: string) => [quantity, unit].filter(Boolean).join(' ');
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export const RecipeHistoryModal: React.FC<Props> = ({ recipe, userId, onClose, onRestored }) => {
+  const [revisions, setRevisions] = useState<RecipeRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const data = await getRecipeRevisions(userId, recipe.id!);
+      setRevisions(data);
+      setSelected(data[0]?.revision ?? null);
+      setIsLoading(false);
+    };
+    load();
+  }, [userId, recipe.id]);
+
+  const selectedIndex = revisions.findIndex(r => r.revision === selected);
+  const selectedRevision = revisions[selectedIndex];
+  const isLatest = selectedIndex === 0;
+
+  // Newest first: the previous revision is the next entry in the list
+  const diff = useMemo(() => {
+    if (!selectedRevision) return null;
+    if (compareMode === 'latest') return isLatest ? null : diffRecipeRevisions(selectedRevision.recipe, revisions[0].recipe);
+    const previous = revisions[selectedIndex + 1];
+    return previous ? diffRecipeRevisions(previous.recipe, selectedRevision.recipe) : null;
+  }, [revisions, selectedRevision, selectedIndex, compareMode, isLatest]);
+
+  const handleRestore = async () => {
+    if (!selectedRevision || isLatest) return;
+    if (!confirm(`Restore version ${selectedRevision.revision}? Your current version stays in the history.`)) return;
+    setIsRestoring(true);
+    const restored = await restoreRecipeRevision(userId, recipe.id!, selectedRevision.revision);
+    setIsRestoring(false);
+    if (!restored) {
+      alert("Failed to restore this version. Please try again.");
+      return;
+    }
+    onRestored(restored);
+    onClose();
+  };
+
+  const ChangeBadge = ({ type }: { type: ChangeType }) => (
+    <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded shrink-0 ${CHANGE_STYLES[type].className}`}>
+      {CHANGE_STYLES[type].label}
+    </span>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-slate-900 w-full max-w-3xl max-h-[85vh] rounded-2xl border border-slate-700 shadow-2xl overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <History className="w-6 h-6 text-[#f0dc7a]" /> Version History
+            </h2>
+            <p className="text-slate-400 text-sm mt-1 truncate">{recipe.title}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="p-12 flex justify-center">
+            <Loader2 className="w-8 h-8 text-[#f0dc7a] animate-spin" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="p-12 text-slate-400 text-center text-sm">No saved versions yet - history starts with the next save.</p>
+        ) : (
+          <div className="flex flex-col md:flex-row min-h-0 flex-1">
+            {/* Revision list */}
+            <div className="md:w-56 shrink-0 border-b md:border-b-0 md:border-r border-slate-800 overflow-y-auto p-3 space-y-1 max-h-48 md:max-h-none">
+              {revisions.map((revision, idx) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelected(revision.revision)}
+                  className={`w-full text-left p-3 rounded-xl border transition-all ${
+                    revision.revision === selected
+                      ? 'bg-[#f0dc7a]/10 border-[#f0dc7a]/50'
+                      : 'bg-slate-800/30 border-transparent hover:border-slate-700'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-bold text-white text-sm">Version {revision.revision}</span>
+                    {idx === 0 && <span className="text-[10px] font-bold uppercase text-[#f0dc7a]">Current</span>}
+                  </div>
+                  <p className="text-xs text-slate-500">{formatDate(revision.createdAt)}</p>
+                  {revision.authorName && <p className="text-xs text-slate-500 truncate">{revision.authorName}</p>}
+                  {revision.restoredFrom && <p className="text-xs text-slate-400">Restored from v{revision.restoredFrom}</p>}
+                </button>
+              ))}
+            </div>
+
+            {/* Diff */}
+            <div className="flex-1 overflow-y-auto p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  { value: 'previous', label: 'Changes in this version' },
+                  { value: 'latest', label: 'Compare with current' }
+                ] as const).map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setCompareMode(option.value)}
+                    className={`py-2 rounded-lg text-xs font-bold border transition-all ${
+                      compareMode === option.value
+                        ? 'bg-[#f0dc7a] text-slate-900 border-[#f0dc7a]'
+                        : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-white'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              {!diff ? (
+                <p className="text-slate-400 text-center text-sm py-4">
+                  {compareMode === 'latest' ? 'This is the current version.' : 'This is the first saved version.'}
+                </p>
+              ) : !diff.hasChanges ? (
+                <p className="text-slate-400 text-center text-sm py-4">No differences.</p>
+              ) : (
+                <>
+                  {(diff.title || diff.fields.length > 0) && (
+                    <div>
+                      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Details</h3>
+                      <div className="space-y-2">
+                        {diff.title && (
+                          <div className="bg-slate-800/50 p-3 rounded-xl border border-slate-700">
+                            <span className="text-[10px] text-slate-500 font-bold uppercase">Title</span>
+                            <p className="text-xs text-slate-500 line-through">{diff.title.before}</p>
+                            <p className="text-sm text-white">{diff.title.after}</p>
+                          </div>
+                        )}
+                        {diff.fields.map(change => (
+                          <div key={change.field} className="bg-slate-800/50 p-3 rounded-xl border border-slate-700">
+                            <span className="text-[10px] text-slate-500 font-bold uppercase">{change.field}</span>
+                            {change.before && <p className="text-xs text-slate-500 line-through">{change.before}</p>}
+                            {change.after && <p className="text-sm text-white">{change.after}</p>}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {diff.sections.length > 0 && (
+                    <div>
+                      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Sections</h3>
+                      <div className="space-y-2">
+                        {diff.sections.map((change, idx) => (
+                          <div key={idx} className="flex items-center justify-between gap-3 bg-slate-800/50 p-3 rounded-xl border border-slate-700">
+                            <div className="min-w-0">
+                              <p className={`text-sm font-bold truncate ${change.type === 'removed' ? 'text-slate-500 line-through' : 'text-white'}`}>{change.title}</p>
+                              <p className="text-xs text-slate-500">{change.sectionType}</p>
+                            </div>
+                            <ChangeBadge type={change.type} />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {diff.ingredients.length > 0 && (
+                    <div>
+                      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Ingredients</h3>
+                      <div className="space-y-2">
+                        {diff.ingredients.map((change, idx) => (
+                          <div key={idx} className="flex items-start justify-between gap-3 bg-slate-800/50 p-3 rounded-xl border border-slate-700">
+                            <div className="min-w-0">
+                              <p className={`font-medium ${change.type === 'removed' ? 'text-slate-500 line-through' : 'text-white'}`}>{change.item}</p>
+                              <p className="text-xs text-slate-500">
+                                {change.type === 'changed'
+                                  ? `${formatAmount(change.before?.quantity, change.before?.unit)} → ${formatAmount(change.after?.quantity, change.after?.unit)}`
+                                  : formatAmount((change.after || change.before)?.quantity, (change.after || change.before)?.unit)}
+                              </p>
+                            </div>
+                            <ChangeBadge type={change.type} />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {diff.steps.length > 0 && (
+                    <div>
+                      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Steps</h3>
+                      <div className="space-y-2">
+                        {diff.steps.map((change, idx) => (
+                          <div key={idx} className="bg-slate-800/50 p-3 rounded-xl border border-slate-700">
+                            <div className="flex items-center justify-between gap-3 mb-1">
+                              <p className="text-sm font-bold text-white truncate">{change.title}</p>
+                              <ChangeBadge type={change.type} />
+                            </div>
+                            {change.before && change.type !== 'added' && (
+                              <p className="text-xs text-slate-500 line-through">{change.before}</p>
+                            )}
+                            {change.after && <p className="text-sm text-slate-300">{change.after}</p>}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        {selectedRevision && !isLatest && (
+          <div className="p-6 border-t border-slate-800 flex justify-end shrink-0">
+            <button
+              onClick={handleRestore}
+              disabled={isRestoring}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm bg-[#f0dc7a] text-slate-900 hover:bg-[#f4e59c] disabled:opacity-50 transition-all"
+            >
+              {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+              {isRestoring ? 'Restoring...' : `Restore Version ${selectedRevision.revision}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
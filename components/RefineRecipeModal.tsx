@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { Recipe } from '../types';
+import type { RecipeRefinement, ChangeType } from '../src/services/chef';
+import { Wand2, X, Loader2, AlertTriangle, Check, Undo2 } from 'lucide-react';
+
+interface Props {
+  recipe: Recipe;
+  onRefine: (recipe: Recipe, instruction: string) => Promise<RecipeRefinement>;
+  onAccept: (recipe: Recipe) => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = ['Make it dairy-free', 'Swap chicken for tofu', 'Make it spicier', 'Make it quicker', 'Lower the calories'];
+
+const CHANGE_STYLES: Record<ChangeType, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-900/30 text-green-400' },
+  removed: { label: 'Removed', className: 'bg-red-900/30 text-red-400' },
+  changed: { label: 'Changed', className: 'bg-[#807048]/20 text-[#f0dc7a]' },
+};
+
+const formatAmount = (quantity?: string, unit?: string) => [quantity, unit].filter(Boolean).join(' ');
+
+export const RefineRecipeModal: React.FC<Props> = ({ recipe, onRefine, onAccept, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<RecipeRefinement | null>(null);
+
+  const handleRefine = async (text: string) => {
+    const request = text.trim();
+    if (!request || isRefining) return;
+    setInstruction(request);
+    setIsRefining(true);
+    setError(null);
+    setResult(null);
+    try {
+      setResult(await onRefine(recipe, request));
+    } catch (err: any) {
+      console.error("Refinement failed:", err);
+      setError(err.message || "The chef couldn't refine this recipe.");
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const ChangeBadge = ({ type }: { type: ChangeType }) => (
+    <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded shrink-0 ${CHANGE_STYLES[type].className}`}>
+      {CHANGE_STYLES[type].label}
+    </span>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 w-full max-w-lg rounded-2xl border border-slate-700 shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-800 bg-slate-900 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Wand2 className="w-6 h-6 text-[#f0dc7a]" /> Refine Recipe
+            </h2>
+            <p className="text-slate-400 text-sm mt-1">Tell the chef what to change.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-grow overflow-y-auto p-4 custom-scrollbar bg-slate-950/30 space-y-4">
+          <form
+            onSubmit={(e) => { e.preventDefault(); handleRefine(instruction); }}
+            className="flex gap-2"
+          >
+            <input
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="e.g. make it dairy-free"
+              disabled={isRefining}
+              className="flex-grow bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-[#f0dc7a]"
+            />
+            <button
+              type="submit"
+              disabled={isRefining || !instruction.trim()}
+              className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-[#f0dc7a] px-4 rounded-xl border border-slate-700 transition-colors"
+            >
+              {isRefining ? <Loader2 className="w-5 h-5 animate-spin" /> : <Wand2 className="w-5 h-5" />}
+            </button>
+          </form>
+
+          {!result && !isRefining && (
+            <div className="flex flex-wrap gap-2">
+              {SUGGESTIONS.map(s => (
+                <button
+                  key={s}
+                  onClick={() => handleRefine(s)}
+                  className="text-xs px-3 py-1.5 rounded-full bg-slate-800 border border-slate-700 text-slate-300 hover:border-[#f0dc7a]/50 hover:text-white transition-colors"
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {isRefining && (
+            <div className="flex flex-col items-center justify-center py-10 text-slate-500 gap-3">
+              <Loader2 className="w-8 h-8 animate-spin text-[#f0dc7a]" />
+              <p className="text-sm">The chef is reworking the recipe...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/50 text-red-400 p-4 rounded-xl flex gap-3 text-sm">
+              <AlertTriangle className="w-5 h-5 shrink-0" />
+              <p>{error}</p>
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-4">
+              {result.diff.title && (
+                <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700">
+                  <span className="text-[10px] text-slate-500 font-bold uppercase">New Title</span>
+                  <p className="text-white font-bold">{result.diff.title.after}</p>
+                </div>
+              )}
+
+              {result.diff.ingredients.length > 0 && (
+                <div>
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Ingredients</h3>
+                  <div className="space-y-2">
+                    {result.diff.ingredients.map((change, idx) => (
+                      <div key={idx} className="flex items-start justify-between gap-3 bg-slate-800/50 p-3 rounded-xl border border-slate-700">
+                        <div className="min-w-0">
+                          <p className={`font-medium ${change.type === 'removed' ? 'text-slate-500 line-through' : 'text-white'}`}>{change.item}</p>
+                          <p className="text-xs text-slate-500">
+                            {change.type === 'changed'
+                              ? `${formatAmount(change.before?.quantity, change.before?.unit)} → ${formatAmount(change.after?.quantity, change.after?.unit)}`
+                              : formatAmount((change.after || change.before)?.quantity, (change.after || change.before)?.unit)}
+                          </p>
+                        </div>
+                        <ChangeBadge type={change.type} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {result.diff.steps.length > 0 && (
+                <div>
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Steps</h3>
+                  <div className="space-y-2">
+                    {result.diff.steps.map((change, idx) => (
+                      <div key={idx} className="bg-slate-800/50 p-3 rounded-xl border border-slate-700">
+                        <div className="flex items-center justify-between gap-3 mb-1">
+                          <p className="text-sm font-bold text-white truncate">{change.title}</p>
+                          <ChangeBadge type={change.type} />
+                        </div>
+                        {change.before && change.type !== 'added' && (
+                          <p className="text-xs text-slate-500 line-through">{change.before}</p>
+                        )}
+                        {change.after && <p className="text-sm text-slate-300">{change.after}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {!result.diff.hasChanges && (
+                <p className="text-slate-400 text-center text-sm py-4">No ingredient or step changes - see the chef's note.</p>
+              )}
+
+              {result.recipe.safetyFlags && result.recipe.safetyFlags.length > 0 && (
+                <p className="text-xs text-orange-400 flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 shrink-0" /> This version still conflicts with some of your dietary restrictions.
+                </p>
+              )}
+
+              {!recipe.id && (
+                <p className="text-xs text-slate-500">Save the original first if you want the refined version linked to it.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer Actions */}
+        {result && (
+          <div className="p-6 border-t border-slate-800 bg-slate-900 grid grid-cols-2 gap-3">
+            <button
+              onClick={() => { setResult(null); setInstruction(''); }}
+              className="bg-slate-800 hover:bg-slate-700 text-white font-bold py-3.5 rounded-xl border border-slate-700 flex items-center justify-center gap-2 transition-all"
+            >
+              <Undo2 className="w-5 h-5" /> Discard
+            </button>
+            <button
+              onClick={() => onAccept(result.recipe)}
+              className="bg-[#f0dc7a] hover:bg-[#f4e59c] text-slate-900 font-bold py-3.5 rounded-xl shadow-lg flex items-center justify-center gap-2 transition-all"
+            >
+              <Check className="w-5 h-5" /> Use This Version
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
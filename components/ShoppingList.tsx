@@ -2,16 +2,19 @@
 import React, { useState, useEffect } from 'react';
 import { getShoppingList, toggleShoppingItem, getUserLocations, moveShoppingToInventory } from '../services/dbService';
 import { categorizeGroceries } from '../services/geminiService';
-import { ShoppingListItem, Location } from '../types';
-import { ShoppingCart, Check, Loader2, MapPin, ArrowRight, AlertCircle, RefreshCw, Layers } from 'lucide-react';
+import { ShoppingListItem, Location, UnitSystem } from '../types';
+import { ShoppingListBuilderModal, formatShoppingQuantity } from './ShoppingListBuilderModal';
+import { ShoppingCart, Check, Loader2, MapPin, ArrowRight, AlertCircle, RefreshCw, Layers, CalendarDays } from 'lucide-react';
 
 interface Props {
   userId: string;
+  units?: UnitSystem['system'];
 }
 
-export const ShoppingList: React.FC<Props> = ({ userId }) => {
+export const ShoppingList: React.FC<Props> = ({ userId, units = 'imperial' }) => {
   const [items, setItems] = useState<ShoppingListItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const [showBuilder, setShowBuilder] = useState(false);
   
   // Checkout / Sorting State
   const [isCheckingOut, setIsCheckingOut] = useState(false);
@@ -189,21 +192,38 @@ export const ShoppingList: React.FC<Props> = ({ userId }) => {
            <p className="text-slate-400">Check items off as you shop.</p>
         </div>
         
-        {items.some(i => i.isChecked) && (
-            <button 
-               onClick={handleCheckoutStart}
-               className="bg-[#f0dc7a] hover:bg-[#f4e59c] text-slate-900 px-4 py-2 rounded-xl font-bold flex items-center gap-2 shadow-lg hover:scale-105 transition-all"
-            >
-               Done Shopping <ArrowRight className="w-4 h-4" />
-            </button>
-        )}
+        <div className="flex items-center gap-2">
+          <button
+             onClick={() => setShowBuilder(true)}
+             className="bg-slate-800 hover:bg-slate-700 text-[#f0dc7a] px-4 py-2 rounded-xl font-bold flex items-center gap-2 border border-slate-700 transition-all"
+          >
+             <CalendarDays className="w-4 h-4" /> From Meal Plan
+          </button>
+          {items.some(i => i.isChecked) && (
+              <button 
+                 onClick={handleCheckoutStart}
+                 className="bg-[#f0dc7a] hover:bg-[#f4e59c] text-slate-900 px-4 py-2 rounded-xl font-bold flex items-center gap-2 shadow-lg hover:scale-105 transition-all"
+              >
+                 Done Shopping <ArrowRight className="w-4 h-4" />
+              </button>
+          )}
+        </div>
       </div>
 
+      {showBuilder && (
+          <ShoppingListBuilderModal
+            userId={userId}
+            system={units}
+            onClose={() => setShowBuilder(false)}
+            onCommitted={loadData}
+          />
+      )}
+
       {items.length === 0 ? (
           <div className="text-center py-20 border border-dashed border-slate-700 rounded-2xl">
               <AlertCircle className="w-12 h-12 text-slate-600 mx-auto mb-3" />
               <h3 className="text-xl font-bold text-white">List is Empty</h3>
-              <p className="text-slate-500">Add ingredients from recipes to get started.</p>
+              <p className="text-slate-500">Add ingredients from recipes or build a list from your meal plan.</p>
           </div>
       ) : (
           <div className="space-y-2">
@@ -225,9 +245,14 @@ export const ShoppingList: React.FC<Props> = ({ userId }) => {
                          {item.isChecked && <Check className="w-4 h-4 text-slate-900" />}
                      </div>
                      
-                     <span className={`text-lg ${item.isChecked ? 'text-slate-500 line-through' : 'text-white'}`}>
+                     <span className={`text-lg flex-grow ${item.isChecked ? 'text-slate-500 line-through' : 'text-white'}`}>
                          {item.name}
                      </span>
+                     {item.quantity !== undefined && (
+                         <span className={`text-sm font-medium ${item.isChecked ? 'text-slate-600' : 'text-slate-400'}`}>
+                             {formatShoppingQuantity(item.quantity, item.unit)}
+                         </span>
+                     )}
                   </div>
               ))}
           </div>
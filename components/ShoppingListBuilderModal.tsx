@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { Recipe, UnitSystem } from '../types';
+import { buildShoppingList } from '../src/services/shopping';
+import type { ShoppingListBuild } from '../src/services/shopping';
+import { getUnitDefinition, formatFraction } from '../src/services/units';
+import { getPlannedRecipes, getUserInventory, commitShoppingListBuild } from '../services/dbService';
+import { addDays } from '../src/services/mealPlan';
+import { ShoppingCart, X, Loader2, ListChecks, CheckCircle2 } from 'lucide-react';
+
+interface Props {
+  userId: string;
+  system: UnitSystem['system'];
+  recipes?: Recipe[];                      // Build from these instead of a date range
+  onClose: () => void;
+  onCommitted?: () => void;
+}
+
+const today = () => new Date().toLocaleDateString('en-CA'); // YYYY-MM-DD in local time
+
+/**
+ * Displays an aggregated amount ("1 1/2 cup", "250 g", "3")
+ */
+export const formatShoppingQuantity = (quantity: number | null | undefined, unit?: string): string => {
+  if (quantity === null || quantity === undefined) return unit || '';
+  const metric = getUnitDefinition(unit || '')?.system === 'metric';
+  const amount = metric ? String(Number(quantity.toFixed(2))) : formatFraction(quantity);
+  return `${amount} ${unit || ''}`.trim();
+};
+
+export const ShoppingListBuilderModal: React.FC<Props> = ({ userId, system, recipes, onClose, onCommitted }) => {
+  const [from, setFrom] = useState(today());
+  const [to, setTo] = useState(addDays(today(), 6));
+  const [build, setBuild] = useState<ShoppingListBuild | null>(null);
+  const [recipeCount, setRecipeCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [committing, setCommitting] = useState(false);
+
+  const runBuild = async () => {
+    setLoading(true);
+    const [source, inventory] = await Promise.all([
+      recipes ? Promise.resolve(recipes) : getPlannedRecipes(userId, from, to),
+      getUserInventory(userId)
+    ]);
+    setRecipeCount(source.length);
+    setBuild(buildShoppingList(source, { system, inventory }));
+    setLoading(false);
+  };
+
+  // Recipes passed in directly can be previewed straight away
+  useEffect(() => {
+    if (recipes) runBuild();
+  }, [recipes]);
+
+  const handleCommit = async () => {
+    if (!build) return;
+    setCommitting(true);
+    const success = await commitShoppingListBuild(userId, build.toBuy);
+    setCommitting(false);
+    if (success) {
+      onCommitted?.();
+      onClose();
+      alert(`Added ${build.toBuy.length} items to your shopping list.`);
+    } else {
+      alert("Failed to update the shopping list. Please try again.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-950/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-slate-900 w-full max-w-lg rounded-2xl border border-slate-700 shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+
+        {/* Header */}
+        <div className="p-6 border-b border-slate-800 bg-slate-900 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <ListChecks className="w-6 h-6 text-[#f0dc7a]" /> Build Shopping List
+            </h2>
+            <p className="text-slate-400 text-sm mt-1">
+              {recipes ? 'Everything this plan needs, minus what you have.' : 'Combine your planned meals, minus what you have.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-grow overflow-y-auto p-4 custom-scrollbar bg-slate-950/30 space-y-4">
+          {!recipes && (
+            <div className="flex items-end gap-2">
+              <label className="flex-1">
+                <span className="text-[10px] font-bold text-slate-500 uppercase">From</span>
+                <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="mt-1 w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white outline-none focus:border-[#f0dc7a]" />
+              </label>
+              <label className="flex-1">
+                <span className="text-[10px] font-bold text-slate-500 uppercase">To</span>
+                <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="mt-1 w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white outline-none focus:border-[#f0dc7a]" />
+              </label>
+              <button
+                onClick={runBuild}
+                disabled={loading || !from || !to || from > to}
+                className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-[#f0dc7a] font-bold px-4 py-2 rounded-lg border border-slate-700 transition-colors"
+              >
+                Preview
+              </button>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex flex-col items-center justify-center py-10 text-slate-500 gap-3">
+              <Loader2 className="w-8 h-8 animate-spin text-[#f0dc7a]" />
+              <p className="text-sm">Adding up ingredients...</p>
+            </div>
+          ) : build && (
+            <>
+              <p className="text-xs text-slate-500">{recipeCount} planned {recipeCount === 1 ? 'meal' : 'meals'}</p>
+              <div className="space-y-2">
+                {build.toBuy.length > 0 ? build.toBuy.map((need, idx) => (
+                  <div key={`${need.key}-${need.unit}-${idx}`} className="flex items-center justify-between p-3 rounded-xl bg-slate-800 border border-slate-700">
+                    <div className="min-w-0">
+                      <p className="font-medium text-white">{need.name}</p>
+                      <p className="text-xs text-slate-500 truncate">
+                        {need.recipes.join(', ')}{need.onHand ? ` · have ${need.onHand}` : ''}
+                      </p>
+                    </div>
+                    <span className="text-sm font-bold text-orange-400 shrink-0 ml-3">
+                      {formatShoppingQuantity(need.quantity, need.unit) || 'As needed'}
+                    </span>
+                  </div>
+                )) : (
+                  <p className="text-slate-400 text-center py-6">You already have everything.</p>
+                )}
+              </div>
+
+              {build.inStock.length > 0 && (
+                <div>
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-2">
+                    <CheckCircle2 className="w-4 h-4 text-[#f0dc7a]" /> Already in your kitchen
+                  </h3>
+                  <p className="text-sm text-slate-500">{Array.from(new Set(build.inStock.map(n => n.name))).join(', ')}</p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer Actions */}
+        <div className="p-6 border-t border-slate-800 bg-slate-900">
+          <button
+            onClick={handleCommit}
+            disabled={!build || build.toBuy.length === 0 || committing}
+            className="w-full bg-[#f0dc7a] hover:bg-[#f4e59c] disabled:opacity-50 disabled:cursor-not-allowed text-slate-900 font-bold py-3.5 rounded-xl shadow-lg flex items-center justify-center gap-2 transition-all"
+          >
+            {committing ? (
+              <><Loader2 className="w-5 h-5 animate-spin" /> Updating List...</>
+            ) : (
+              <><ShoppingCart className="w-5 h-5" /> Add {build?.toBuy.length || 0} Items to List</>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -46,9 +46,20 @@ export const DEFAULT_PROFILE_VALUES = {
   height: 70,
   units: DEFAULT_UNITS,
   goals: [] as string[],
-  medicalConditions: [] as string[],
-  injuries: [] as string[],
-  preferences: [] as string[],
-  fitnessLevel: 'Intermediate' as const
+  dietaryRestrictions: [] as string[],
+  allergies: [] as string[],
+  dislikes: [] as string[],
+  cookingSkill: 'Intermediate' as const
 };
 
+/**
+ * Staples pantry mode assumes are on hand even when they aren't in the inventory
+ */
+export const DEFAULT_PANTRY_STAPLES = [
+  'salt',
+  'black pepper',
+  'water',
+  'olive oil',
+  'vegetable oil',
+  'cooking spray'
+];
@@ -0,0 +1,131 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+export interface CookTimer {
+  id: string;
+  label: string;        // Step title the timer belongs to
+  stepIndex: number;
+  durationSeconds: number;
+  remainingSeconds: number;
+  endsAt: number | null; // Epoch ms while running, null while paused
+  status: 'running' | 'paused' | 'done';
+}
+
+interface UseCookTimersResult {
+  timers: CookTimer[];
+  startTimer: (label: string, stepIndex: number, durationSeconds: number) => void;
+  togglePause: (id: string) => void;
+  dismissTimer: (id: string) => void;
+  /**
+   * Call from user gestures (taps, key presses) so browsers allow the alarm to play
+   */
+  unlockAudio: () => void;
+}
+
+const TICK_MS = 250;
+
+/**
+ * Plays a short three-beep alarm through Web Audio and vibrates where supported
+ */
+const playAlarm = (ctx: AudioContext | null) => {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+    navigator.vibrate([300, 150, 300, 150, 300]);
+  }
+  if (!ctx) return;
+
+  [0, 0.45, 0.9].forEach(offset => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = 'square';
+    osc.frequency.value = 880;
+    gain.gain.setValueAtTime(0.0001, ctx.currentTime + offset);
+    gain.gain.exponentialRampToValueAtTime(0.3, ctx.currentTime + offset + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, ctx.currentTime + offset + 0.35);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(ctx.currentTime + offset);
+    osc.stop(ctx.currentTime + offset + 0.4);
+  });
+};
+
+/**
+ * Runs any number of concurrent countdowns with an audible alert when each finishes
+ */
+export function useCookTimers(): UseCookTimersResult {
+  const [timers, setTimers] = useState<CookTimer[]>([]);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+
+  const unlockAudio = useCallback(() => {
+    if (typeof window === 'undefined') return;
+    if (!audioCtxRef.current) {
+      const AudioCtor = window.AudioContext || (window as any).webkitAudioContext;
+      if (AudioCtor) audioCtxRef.current = new AudioCtor();
+    }
+    if (audioCtxRef.current?.state === 'suspended') {
+      audioCtxRef.current.resume().catch(() => undefined);
+    }
+  }, []);
+
+  const timersRef = useRef<CookTimer[]>([]);
+  timersRef.current = timers;
+
+  const hasRunning = timers.some(t => t.status === 'running');
+
+  useEffect(() => {
+    if (!hasRunning) return;
+    const interval = window.setInterval(() => {
+      const now = Date.now();
+      let finished = false;
+      const next = timersRef.current.map((t): CookTimer => {
+        if (t.status !== 'running' || t.endsAt === null) return t;
+        const remainingSeconds = Math.max(0, (t.endsAt - now) / 1000);
+        if (remainingSeconds === 0) {
+          finished = true;
+          console.log(`⏰ Timer finished: ${t.label}`);
+          return { ...t, remainingSeconds: 0, endsAt: null, status: 'done' };
+        }
+        return { ...t, remainingSeconds };
+      });
+      timersRef.current = next;
+      setTimers(next);
+      if (finished) playAlarm(audioCtxRef.current);
+    }, TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [hasRunning]);
+
+  // Release the audio context when the cook session ends
+  useEffect(() => () => {
+    audioCtxRef.current?.close().catch(() => undefined);
+    audioCtxRef.current = null;
+  }, []);
+
+  const startTimer = useCallback((label: string, stepIndex: number, durationSeconds: number) => {
+    const id = `${stepIndex}-${Date.now()}`;
+    setTimers(prev => [
+      ...prev,
+      {
+        id,
+        label,
+        stepIndex,
+        durationSeconds,
+        remainingSeconds: durationSeconds,
+        endsAt: Date.now() + durationSeconds * 1000,
+        status: 'running'
+      }
+    ]);
+  }, []);
+
+  const togglePause = useCallback((id: string) => {
+    setTimers(prev => prev.map(t => {
+      if (t.id !== id || t.status === 'done') return t;
+      if (t.status === 'running') {
+        return { ...t, status: 'paused', endsAt: null, remainingSeconds: Math.max(0, ((t.endsAt ?? Date.now()) - Date.now()) / 1000) };
+      }
+      return { ...t, status: 'running', endsAt: Date.now() + t.remainingSeconds * 1000 };
+    }));
+  }, []);
+
+  const dismissTimer = useCallback((id: string) => {
+    setTimers(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  return { timers, startTimer, togglePause, dismissTimer, unlockAudio };
+}
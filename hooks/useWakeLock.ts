@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+
+/**
+ * Keeps the screen awake while `active` is true (Screen Wake Lock API).
+ * The browser drops the lock when the tab is hidden, so it is re-acquired on return.
+ */
+export function useWakeLock(active: boolean): void {
+  useEffect(() => {
+    if (!active || typeof navigator === 'undefined' || !('wakeLock' in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const acquire = async () => {
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (cancelled) {
+          lock.release().catch(() => undefined);
+          return;
+        }
+        sentinel = lock;
+        console.log('🔆 Screen wake lock acquired');
+      } catch (error) {
+        console.warn('⚠️ Screen wake lock unavailable:', error);
+      }
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible' && (!sentinel || sentinel.released)) acquire();
+    };
+
+    acquire();
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleVisibility);
+      sentinel?.release().catch(() => undefined);
+      sentinel = null;
+    };
+  }, [active]);
+}
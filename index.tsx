@@ -5,12 +5,13 @@ import App from './App';
 // Import chef registration
 import { chefRegistry } from './src/services/chef/ChefRegistry';
 import { CHEF_PERSONAS } from './src/services/chef/chefPersonas';
+import { getModelProvider } from './services/llm';
 
-// Check for Gemini API key
-const geminiApiKey = import.meta.env.VITE_GEMINI_API_KEY;
+// Check that the configured model provider can serve requests (Gemini needs an API key)
+const modelProvider = getModelProvider();
 
-if (geminiApiKey) {
-  console.log('🔑 Gemini API key found, registering AI chefs...');
+if (modelProvider.isConfigured()) {
+  console.log(`🔑 Model provider "${modelProvider.id}" ready, registering AI chefs...`);
   
   // Register all chef personas
   CHEF_PERSONAS.forEach((chef) => {
@@ -25,7 +26,7 @@ if (geminiApiKey) {
     console.log(`   - ${chef.name} (ID: ${chef.id})`);
   });
 } else {
-  console.warn('⚠️ Gemini API key not found. AI chefs will not be available.');
+  console.warn(`⚠️ Model provider "${modelProvider.id}" not configured. AI chefs will not be available.`);
 }
 
 const rootElement = document.getElementById('root');
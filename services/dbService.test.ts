@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import type { Recipe } from '../types';
+
+// In-memory stand-in for the Firestore calls the recipe save makes
+const fake = vi.hoisted(() => {
+  const store = new Map<string, Record<string, any>>();
+  const hooks: { beforeTransaction?: () => void } = {};
+  const deletedByBatch: string[][] = [];
+  let nextId = 0;
+
+  const ref = (path: string) => ({ id: path.split('/').pop()!, path });
+  const snapshot = (path: string) => ({
+    id: ref(path).id,
+    ref: ref(path),
+    exists: () => store.has(path),
+    data: () => store.get(path)
+  });
+
+  const firestore = {
+    collection: (_db: unknown, ...segments: string[]) => ({ path: segments.join('/') }),
+    doc: (parent: any, ...segments: string[]) =>
+      segments.length === 0 ? ref(`${parent.path}/auto${++nextId}`) : ref(segments.join('/')),
+    where: (field: string, op: string, value: unknown) => ({ field, op, value }),
+    orderBy: (field: string) => ({ orderBy: field }),
+    query: (collection: { path: string }, ...constraints: any[]) => ({ collection, filters: constraints.filter(c => c.op) }),
+    getDoc: async (docRef: { path: string }) => snapshot(docRef.path),
+    getDocs: async (source: any) => {
+      const { collection, filters } = source.collection ? source : { collection: source, filters: [] };
+      const docs = Array.from(store.keys())
+        .filter(path => path.startsWith(`${collection.path}/`) && !path.slice(collection.path.length + 1).includes('/'))
+        .filter(path => filters.every((f: any) => {
+          const value = store.get(path)![f.field];
+          return f.op === 'in' ? f.value.includes(value) : value === f.value;
+        }))
+        .map(snapshot);
+      return { docs, empty: docs.length === 0, size: docs.length, forEach: (fn: any) => docs.forEach(fn) };
+    },
+    runTransaction: async (_db: unknown, run: (transaction: any) => Promise<unknown>) => {
+      hooks.beforeTransaction?.();
+      const writes: Array<() => void> = [];
+      const result = await run({
+        get: async (docRef: { path: string }) => snapshot(docRef.path),
+        set: (docRef: { path: string }, data: any) => writes.push(() => store.set(docRef.path, data)),
+        update: (docRef: { path: string }, data: any) => writes.push(() => store.set(docRef.path, { ...store.get(docRef.path), ...data })),
+        delete: (docRef: { path: string }) => writes.push(() => store.delete(docRef.path))
+      });
+      writes.forEach(write => write());
+      return result;
+    },
+    writeBatch: () => {
+      const writes: Array<() => void> = [];
+      const deleted: string[] = [];
+      return {
+        set: (docRef: { path: string }, data: any) => writes.push(() => store.set(docRef.path, data)),
+        update: (docRef: { path: string }, data: any) => writes.push(() => store.set(docRef.path, { ...store.get(docRef.path), ...data })),
+        delete: (docRef: { path: string }) => {
+          deleted.push(docRef.path);
+          writes.push(() => store.delete(docRef.path));
+        },
+        commit: async () => {
+          writes.forEach(write => write());
+          if (deleted.length > 0) deletedByBatch.push(deleted);
+        }
+      };
+    },
+    serverTimestamp: () => 'server-timestamp',
+    Timestamp: { fromDate: (date: Date) => ({ toDate: () => date }) }
+  };
+
+  return { store, hooks, deletedByBatch, firestore };
+});
+
+vi.mock('firebase/firestore', () => fake.firestore);
+vi.mock('../src/lib/firebase', () => ({
+  db: {},
+  storage: {},
+  auth: { currentUser: { uid: 'user-1', displayName: 'Test Cook', email: null } }
+}));
+vi.mock('./imageService', () => ({
+  uploadRecipeImageToStorage: vi.fn(async () => 'https://firebasestorage.example/recipe.png'),
+  deleteRecipeImage: vi.fn(async () => true),
+  isBase64DataUrl: (url: string) => url.startsWith('data:'),
+  isStorageUrl: (url: string) => url.includes('firebasestorage')
+}));
+
+import { saveRecipeToDb, deleteRecipe } from './dbService';
+import { deleteRecipeImage } from './imageService';
+import { FIXTURE_RECIPE } from './llm/fixtures';
+
+const fixture = { ...FIXTURE_RECIPE, chefPersona: '', cuisine: '' } as Recipe;
+const withImage = { ...fixture, imageUrl: 'data:image/png;base64,iVBORw0KGgo=' };
+const uploadedUrl = 'https://firebasestorage.example/recipe.png';
+
+const pathsIn = (collection: string): string[] =>
+  Array.from(fake.store.keys())
+    .filter(path => path.startsWith(`${collection}/`) && !path.slice(collection.length + 1).includes('/'))
+    .sort();
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.stubGlobal('alert', vi.fn());
+});
+
+beforeEach(() => {
+  fake.store.clear();
+  fake.deletedByBatch.length = 0;
+  fake.hooks.beforeTransaction = undefined;
+  vi.mocked(deleteRecipeImage).mockClear();
+});
+
+describe('saveRecipeToDb', () => {
+  it('writes a new recipe under its idempotency key with its content, links and first revision', async () => {
+    const id = await saveRecipeToDb(fixture, 'user-1', { idempotencyKey: 'save-1' });
+
+    expect(id).toBe('save-1');
+    expect(fake.store.get('recipes/save-1')).toMatchObject({ name: fixture.title, current_revision: 1, last_save_key: 'save-1' });
+    expect(pathsIn('recipes/save-1/sections')).toHaveLength(fixture.sections.length);
+    expect(pathsIn('recipe_ingredients')).toHaveLength(fixture.sections[1].ingredients!.length);
+    expect(pathsIn('recipe_revisions')).toEqual(['recipe_revisions/save-1_r1']);
+  });
+
+  it('never writes twice for the same key, whether repeated or concurrent', async () => {
+    const [first, second] = await Promise.all([
+      saveRecipeToDb(fixture, 'user-1', { idempotencyKey: 'save-1' }),
+      saveRecipeToDb(fixture, 'user-1', { idempotencyKey: 'save-1' })
+    ]);
+    const retried = await saveRecipeToDb({ ...fixture, id: 'save-1' }, 'user-1', { idempotencyKey: 'save-1' });
+
+    expect([first, second, retried]).toEqual(['save-1', 'save-1', 'save-1']);
+    expect(pathsIn('recipe_revisions')).toEqual(['recipe_revisions/save-1_r1']);
+  });
+
+  it('adds a revision and drops sections the new version no longer has', async () => {
+    await saveRecipeToDb(fixture, 'user-1', { idempotencyKey: 'save-1' });
+    const shorter = { ...fixture, id: 'save-1', title: 'Lemon Chicken', sections: fixture.sections.slice(0, 2) };
+    await saveRecipeToDb(shorter, 'user-1', { idempotencyKey: 'save-2' });
+
+    expect(fake.store.get('recipes/save-1')).toMatchObject({ name: 'Lemon Chicken', current_revision: 2, last_save_key: 'save-2' });
+    expect(pathsIn('recipes/save-1/sections')).toHaveLength(2);
+    expect(pathsIn('recipe_revisions')).toEqual(['recipe_revisions/save-1_r1', 'recipe_revisions/save-1_r2']);
+  });
+
+  it('keeps the uploaded image when the save lands', async () => {
+    await saveRecipeToDb(withImage, 'user-1', { idempotencyKey: 'save-1' });
+
+    expect(fake.store.get('recipes/save-1')!.image_url).toBe(uploadedUrl);
+    expect(deleteRecipeImage).not.toHaveBeenCalled();
+  });
+
+  it('deletes the uploaded image when the save fails', async () => {
+    fake.hooks.beforeTransaction = () => { throw new Error('network error'); };
+    const id = await saveRecipeToDb(withImage, 'user-1', { idempotencyKey: 'save-1' });
+
+    expect(id).toBeNull();
+    expect(fake.store.has('recipes/save-1')).toBe(false);
+    expect(deleteRecipeImage).toHaveBeenCalledWith(uploadedUrl);
+  });
+
+  it('deletes the uploaded image when a concurrent save with the same key landed first', async () => {
+    fake.hooks.beforeTransaction = () => {
+      fake.store.set('recipes/save-1', { user_id: 'user-1', last_save_key: 'save-1', current_revision: 1 });
+    };
+    const id = await saveRecipeToDb(withImage, 'user-1', { idempotencyKey: 'save-1' });
+
+    expect(id).toBe('save-1');
+    expect(deleteRecipeImage).toHaveBeenCalledWith(uploadedUrl);
+  });
+});
+
+describe('deleteRecipe', () => {
+  it('deletes the children and then the recipe in one batch', async () => {
+    await saveRecipeToDb(fixture, 'user-1', { idempotencyKey: 'save-1' });
+    fake.deletedByBatch.length = 0;
+
+    expect(await deleteRecipe('save-1')).toBe(true);
+    expect(Array.from(fake.store.keys()).filter(path => !path.startsWith('canonical_ingredients/'))).toEqual([]);
+    expect(fake.deletedByBatch).toHaveLength(1);
+    expect(fake.deletedByBatch[0].at(-1)).toBe('recipes/save-1');
+  });
+});
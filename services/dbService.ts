@@ -16,16 +16,37 @@ import {
   where, 
   orderBy, 
   limit,
+  startAfter,
   Timestamp,
   serverTimestamp,
   writeBatch,
+  runTransaction,
   addDoc,
   arrayUnion,
   arrayRemove
 } from 'firebase/firestore';
-import { Recipe, RecipeSection, UserProfile, AuditItem, Ingredient, ShoppingListItem, Location, InventoryItem } from '../types';
-import { DEFAULT_UNITS, DEFAULT_PROFILE_VALUES } from '../constants/defaults';
-import { uploadRecipeImageToStorage, isBase64DataUrl, isStorageUrl } from './imageService';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import { Recipe, RecipeRevision, RecipeSection, UserProfile, AuditItem, Ingredient, ShoppingListItem, Location, InventoryItem, MealPlan, MealSlot, WorkoutSummary, FoodLogEntry } from '../types';
+import { DEFAULT_PROFILE_VALUES } from '../constants/defaults';
+import { uploadRecipeImageToStorage, deleteRecipeImage, isBase64DataUrl, isStorageUrl } from './imageService';
+import { applyNutrition } from '../src/services/nutrition';
+import { getRecipeServings, parseQuantity } from '../src/services/units';
+import { addShoppingQuantities, canonicalIngredientName } from '../src/services/shopping';
+import { getIngredientNames } from '../src/services/search';
+import type { ShoppingNeed } from '../src/services/shopping';
+import { planInventoryDepletion, isLowStock, estimateExpiryDate } from '../src/services/inventory';
+import { getWorkoutSource } from './hub/workouts';
+import { fromProfileDoc, toProfileDoc, getProfileSchemaVersion, PROFILE_SCHEMA_VERSION } from '../src/services/profile';
+import {
+  toRevisionSnapshot,
+  restoreRevision,
+  toSectionDoc,
+  readSectionDocs,
+  getRecipeContentSchemaVersion,
+  readOverviewTimes,
+  mergeDerivedDietaryTags,
+  RECIPE_CONTENT_SCHEMA_VERSION
+} from '../src/services/chef';
 
 /**
  * Helper to extract meaningful error messages
@@ -145,7 +166,8 @@ export const verifyDatabaseSchema = async (): Promise<{ success: boolean; messag
 };
 
 /**
- * Retrieves the user profile from Firestore
+ * Retrieves the user profile from Firestore.
+ * Profiles stored in an older schema are upgraded in place on first read.
  */
 export const getUserProfile = async (userId: string): Promise<UserProfile | null> => {
   try {
@@ -158,26 +180,20 @@ export const getUserProfile = async (userId: string): Promise<UserProfile | null
     }
 
     const data = profileSnap.data();
-    const fitnessGoals = data.fitness_goals || {};
-    const preferredUnits = (data.preferred_units || {}) as Record<string, string>;
+    const profile = fromProfileDoc(data);
 
-    return {
-      age: data.age ?? 30,
-      gender: data.gender ?? 'Other',
-      weight: Number(data.weight) ?? 170,
-      height: Number(data.height) ?? 70,
-      units: {
-        system: (preferredUnits.system || DEFAULT_UNITS.system) as 'imperial' | 'metric',
-        weight: (preferredUnits.weight || DEFAULT_UNITS.weight) as 'lbs' | 'kg',
-        height: (preferredUnits.height || DEFAULT_UNITS.height) as 'inches' | 'cm',
-        distance: (preferredUnits.distance || DEFAULT_UNITS.distance) as 'miles' | 'km'
-      },
-      goals: fitnessGoals.goals || [],
-      medicalConditions: fitnessGoals.dietary_restrictions || [],
-      injuries: fitnessGoals.allergies || [],
-      preferences: fitnessGoals.dislikes || [],
-      fitnessLevel: (fitnessGoals.cooking_skill || 'Intermediate') as 'Beginner' | 'Intermediate' | 'Advanced' | 'Elite'
-    };
+    const version = getProfileSchemaVersion(data);
+    if (version < PROFILE_SCHEMA_VERSION) {
+      try {
+        await setDoc(profileRef, { ...toProfileDoc(userId, profile), updated_at: serverTimestamp() }, { merge: true });
+        console.log(`🔄 Migrated profile ${userId} from schema v${version} to v${PROFILE_SCHEMA_VERSION}`);
+      } catch (migrationError) {
+        // Still usable - the next read will retry
+        console.warn("⚠️ Profile migration failed:", extractErrorMessage(migrationError));
+      }
+    }
+
+    return profile;
   } catch (e) {
     console.error("Error fetching profile:", e);
     return DEFAULT_PROFILE_VALUES;
@@ -185,30 +201,13 @@ export const getUserProfile = async (userId: string): Promise<UserProfile | null
 };
 
 /**
- * Saves/Updates the user profile in Firestore
+ * Saves/Updates the user profile in Firestore (always in the current schema)
  */
 export const saveUserProfile = async (userId: string, profile: UserProfile): Promise<boolean> => {
   try {
     const profileRef = doc(db, 'profiles', userId);
     const payload = {
-      id: userId,
-      age: profile.age,
-      gender: profile.gender,
-      weight: profile.weight,
-      height: profile.height,
-      preferred_units: {
-        system: profile.units?.system || DEFAULT_UNITS.system,
-        weight: profile.units?.weight || DEFAULT_UNITS.weight,
-        height: profile.units?.height || DEFAULT_UNITS.height,
-        distance: profile.units?.distance || DEFAULT_UNITS.distance
-      },
-      fitness_goals: {
-        goals: profile.goals || [],
-        dietary_restrictions: profile.medicalConditions || [],
-        allergies: profile.injuries || [],
-        dislikes: profile.preferences || [],
-        cooking_skill: profile.fitnessLevel || 'Intermediate'
-      },
+      ...toProfileDoc(userId, profile),
       updated_at: serverTimestamp()
     };
 
@@ -221,85 +220,146 @@ export const saveUserProfile = async (userId: string, profile: UserProfile): Pro
 };
 
 /**
- * Helper: Processes ingredient list to Match/Create Canonical Ingredients and Link them.
+ * Helper: Matches recipe ingredients to Canonical Ingredients, creating any that are missing.
+ * Canonical ingredients are shared across recipes, so this runs after the recipe save commits.
  */
-const processRecipeIngredients = async (recipeId: string, sections: RecipeSection[]) => {
-  // Extract all structured ingredients from all sections
-  const allIngredients: Ingredient[] = [];
-  sections.forEach(s => {
-    if (s.ingredients) allIngredients.push(...s.ingredients);
-  });
-
-  if (allIngredients.length === 0) return;
+const ensureCanonicalIngredients = async (sections: RecipeSection[]) => {
+  const names = Array.from(new Set(
+    sections.flatMap(s => s.ingredients || []).map(i => i.item.trim()).filter(Boolean)
+  ));
+  if (names.length === 0) return;
 
   try {
-    // 1. Get all names
-    const names = allIngredients.map(i => i.item.trim());
-    
-    // 2. Fetch existing canonical ingredients
     // Firestore 'in' queries are limited to 10 items, so batch if needed
     const canonicalRef = collection(db, 'canonical_ingredients');
-    const existingMap = new Map<string, string>();
-    
-    if (names.length > 0) {
-      const batchSize = 10;
-      for (let i = 0; i < names.length; i += batchSize) {
-        const batch = names.slice(i, i + batchSize);
-        const canonicalQuery = query(canonicalRef, where('name', 'in', batch));
-        const canonicalSnapshot = await getDocs(canonicalQuery);
-        
-        canonicalSnapshot.docs.forEach(doc => {
-          const data = doc.data();
-          existingMap.set(data.name.toLowerCase(), doc.id);
-        });
-      }
+    const existing = new Set<string>();
+    const batchSize = 10;
+    for (let i = 0; i < names.length; i += batchSize) {
+      const batch = names.slice(i, i + batchSize);
+      const canonicalSnapshot = await getDocs(query(canonicalRef, where('name', 'in', batch)));
+      canonicalSnapshot.docs.forEach(doc => existing.add(doc.data().name.toLowerCase()));
     }
 
-    // 3. Identify new ingredients to create
-    const newIngredients = names.filter(n => !existingMap.has(n.toLowerCase()));
-    const uniqueNew = Array.from(new Set(newIngredients));
-    
-    // 4. Create new canonical ingredients
+    const uniqueNew = names.filter(n => !existing.has(n.toLowerCase()));
     if (uniqueNew.length > 0) {
       const batch = writeBatch(db);
       uniqueNew.forEach(name => {
-        const newIngredientRef = doc(collection(db, 'canonical_ingredients'));
-        batch.set(newIngredientRef, { name, category: 'General' });
-        existingMap.set(name.toLowerCase(), newIngredientRef.id);
+        batch.set(doc(collection(db, 'canonical_ingredients')), { name, category: 'General' });
       });
       await batch.commit();
     }
+  } catch (error) {
+    console.warn("Skipping canonical ingredient processing:", error);
+  }
+};
 
-    // 5. Create links in recipe_ingredients
-    const linksToCreate = allIngredients.map(ing => ({
+/**
+ * Helper: Links from a recipe to each of its structured ingredients (recipe_ingredients rows)
+ */
+const buildIngredientLinks = (recipeId: string, sections: RecipeSection[]) =>
+  sections
+    .flatMap(s => s.ingredients || [])
+    .map(ing => ({
       recipe_id: recipeId,
       ingredient_name: ing.item.trim(),
-      quantity: parseFloat(ing.quantity) || null,
+      quantity: parseQuantity(ing.quantity) || null,
       unit: ing.unit || null,
       notes: ing.prep || null
     }));
 
-    if (linksToCreate.length > 0) {
-      const batch = writeBatch(db);
-      linksToCreate.forEach(link => {
-        const linkRef = doc(collection(db, 'recipe_ingredients'));
-        batch.set(linkRef, link);
-      });
-      await batch.commit();
-    }
-  } catch (error) {
-    console.warn("Skipping ingredient processing:", error);
+// Section documents sort by ID as well as order_index
+const sectionDocId = (index: number): string => String(index).padStart(3, '0');
+
+/**
+ * Helper: Reads a recipe's sections from whichever content schema it is stored in
+ */
+const getRecipeSections = async (recipeId: string, recipeRow: Record<string, any>): Promise<RecipeSection[]> => {
+  const version = getRecipeContentSchemaVersion(recipeRow);
+  const snapshot = version >= 2
+    ? await getDocs(query(collection(db, 'recipes', recipeId, 'sections'), orderBy('order_index', 'asc')))
+    : await getDocs(query(collection(db, 'recipe_content'), where('recipe_id', '==', recipeId), orderBy('order_index', 'asc')));
+  return readSectionDocs(snapshot.docs.map(d => d.data()), version);
+};
+
+/**
+ * Helper: Prep, cook and total minutes to store. Generated recipes often state prep and cook
+ * only in their Overview lines, and their totalTime can't be rebuilt from fields they lack.
+ */
+const getRecipeTimes = (recipe: Recipe): { prepTime: number | null; cookTime: number | null; totalTime: number | null } => {
+  const overview = readOverviewTimes(recipe.sections || []);
+  const prepTime = recipe.prepTime || overview.prepTime || null;
+  const cookTime = recipe.cookTime || overview.cookTime || null;
+  return { prepTime, cookTime, totalTime: recipe.totalTime || (prepTime || 0) + (cookTime || 0) || null };
+};
+
+// Saves in flight, by idempotency key, so a repeated call joins the first instead of writing again
+const pendingRecipeSaves = new Map<string, Promise<string | null>>();
+
+/**
+ * New idempotency key for saveRecipeToDb. Create one per save action (not per attempt):
+ * repeating a save with the same key never writes twice.
+ */
+export const createRecipeSaveKey = (): string => doc(collection(db, 'recipes')).id;
+
+// Unsaved refinement originals already written, so saving the revision again reuses them
+const savedRemixSources = new WeakMap<Recipe, string>();
+
+/**
+ * ID of the recipe a refinement came from. An unsaved original (remixSource) is saved first;
+ * with a save key, a retry reuses it instead of writing the original twice.
+ */
+const resolveRemixOf = async (recipe: Recipe, userId: string, saveKey: string | null): Promise<string | null> => {
+  if (recipe.remixOf) return recipe.remixOf;
+  const source = recipe.remixSource;
+  if (!source) return null;
+  const knownId = source.id || savedRemixSources.get(source);
+  if (knownId) return knownId;
+
+  console.log('🔗 Saving the original of this refinement first:', source.title);
+  const sourceId = await saveRecipeToDb(source, userId, saveKey ? { idempotencyKey: `${saveKey}-source` } : {});
+  if (!sourceId) {
+    console.warn('⚠️ Could not save the original - the refinement is saved without its lineage');
+    return null;
   }
+  savedRemixSources.set(source, sourceId);
+  return sourceId;
 };
 
 /**
- * Saves a Recipe to Firestore
+ * Saves a Recipe to Firestore.
+ * The recipe document, its content, its ingredient links and the new revision are written in one
+ * transaction, so a failure leaves the previous version intact. With an idempotencyKey, a new
+ * recipe takes the key as its ID and a repeated save with the same key returns the first result.
  */
-export const saveRecipeToDb = async (recipe: Recipe, userId: string): Promise<string | null> => {
+export const saveRecipeToDb = (
+  recipe: Recipe,
+  userId: string,
+  options: { restoredFrom?: number; idempotencyKey?: string } = {}
+): Promise<string | null> => {
+  const { idempotencyKey } = options;
+  if (!idempotencyKey) return commitRecipeSave(recipe, userId, options);
+
+  const pending = pendingRecipeSaves.get(idempotencyKey);
+  if (pending) {
+    console.log('⏳ Recipe save already in progress for this key - waiting for it');
+    return pending;
+  }
+  const save = commitRecipeSave(recipe, userId, options).finally(() => pendingRecipeSaves.delete(idempotencyKey));
+  pendingRecipeSaves.set(idempotencyKey, save);
+  return save;
+};
+
+const commitRecipeSave = async (
+  recipe: Recipe,
+  userId: string,
+  options: { restoredFrom?: number; idempotencyKey?: string }
+): Promise<string | null> => {
   console.log("Saving recipe to DB...", recipe.title);
   console.log("📊 Recipe save - userId:", userId);
 
   let recipeId: string | undefined = recipe.id; // Declare outside try block for error handling
+  let uploadedImageUrl: string | null = null; // Image this save uploaded - deleted again if the save doesn't land
+  const saveKey = options.idempotencyKey || null;
 
   try {
     // Verify user is authenticated by checking Firebase Auth
@@ -313,8 +373,6 @@ export const saveRecipeToDb = async (recipe: Recipe, userId: string): Promise<st
       userId = currentUser.uid;
     }
     console.log("✅ Auth verified - uid:", currentUser.uid);
-    
-    recipeId = recipe.id;
 
     // Normalize difficulty
     const normalizeDifficulty = (diff: string): string | null => {
@@ -337,22 +395,24 @@ export const saveRecipeToDb = async (recipe: Recipe, userId: string): Promise<st
       return null;
     };
     
-    // 1. Get or create recipe ID
-    let recipeRef: any;
-    let isNewRecipe = false;
-    let existingRecipeSnap: any = null;
-    
-    if (recipeId) {
-      // Existing recipe - get reference and check if it exists
-      recipeRef = doc(db, 'recipes', recipeId);
-      existingRecipeSnap = await getDoc(recipeRef);
-      isNewRecipe = !existingRecipeSnap.exists();
-    } else {
-      // New recipe - create reference with auto-generated ID
-      recipeRef = doc(collection(db, 'recipes'));
-      recipeId = recipeRef.id;
-      isNewRecipe = true;
+    // 1. Get or create recipe ID - a new recipe saved with a key uses the key, so a retry finds it
+    recipeId = recipe.id || saveKey || doc(collection(db, 'recipes')).id;
+    const recipeRef = doc(db, 'recipes', recipeId);
+    const existingRecipeSnap = await getDoc(recipeRef);
+
+    if (existingRecipeSnap.exists()) {
+      const existing = existingRecipeSnap.data();
+      if (existing.user_id !== currentUser.uid) {
+        throw new Error(`Permission denied: Recipe belongs to user ${existing.user_id}, but you are ${currentUser.uid}`);
+      }
+      if (saveKey && existing.last_save_key === saveKey) {
+        console.log(`↩️ Recipe ${recipeId} already saved with this key - skipping duplicate save`);
+        return recipeId;
+      }
     }
+    const remixOf = await resolveRemixOf(recipe, userId, saveKey);
+    const expectedRevision: number = existingRecipeSnap.exists() ? existingRecipeSnap.data().current_revision || 0 : 0;
+    const expectedSchema = existingRecipeSnap.exists() ? getRecipeContentSchemaVersion(existingRecipeSnap.data()) : RECIPE_CONTENT_SCHEMA_VERSION;
 
     // 2. Process and upload image to Storage if it's a base64 data URL
     // Wrap in try-catch to ensure image upload failure doesn't block recipe save
@@ -364,9 +424,10 @@ export const saveRecipeToDb = async (recipe: Recipe, userId: string): Promise<st
       recipeImageUrlPreview: recipe.imageUrl ? recipe.imageUrl.substring(0, 100) + '...' : null
     });
     
-    if (recipe.imageUrl && recipeId) {
+    if (recipe.imageUrl) {
       try {
         imageUrl = await processImageUrl(recipe.imageUrl, recipeId, userId);
+        if (imageUrl && imageUrl !== recipe.imageUrl) uploadedImageUrl = imageUrl;
         console.log('✅ [Phase 4] Image processing result:', {
           imageUrl: imageUrl ? imageUrl.substring(0, 100) + '...' : null,
           imageUrlType: imageUrl ? (imageUrl.includes('firebasestorage') ? 'storage' : 'other') : 'null'
@@ -381,163 +442,134 @@ export const saveRecipeToDb = async (recipe: Recipe, userId: string): Promise<st
         imageUrl = null; // Ensure we don't save a failed URL
       }
     } else {
-      if (!recipe.imageUrl) {
-        console.log('⚠️ [Phase 4] No recipe.imageUrl provided');
-      }
-      if (!recipeId) {
-        console.log('⚠️ [Phase 4] No recipeId available for image upload');
-      }
+      console.log('⚠️ [Phase 4] No recipe.imageUrl provided');
     }
 
+    // 3. Find the sections (either format) and ingredient links this save replaces.
+    // Transactions can't run queries, so they're looked up first; the revision check below
+    // makes the transaction fail if another save or a migration changed them in between.
+    const staleRefs = existingRecipeSnap.exists()
+      ? (await Promise.all([
+          getDocs(collection(db, 'recipes', recipeId, 'sections')),
+          getDocs(query(collection(db, 'recipe_content'), where('recipe_id', '==', recipeId))),
+          getDocs(query(collection(db, 'recipe_ingredients'), where('recipe_id', '==', recipeId)))
+        ])).flatMap(snapshot => snapshot.docs.map(d => d.ref))
+      : [];
+
+    // Per-serving nutrition computed locally from the structured ingredients
+    const nutrition = applyNutrition(recipe);
+    const times = getRecipeTimes(recipe);
+
     const recipePayload: any = {
       user_id: userId,
       name: recipe.title,
       description: recipe.description || null,
       meal_type: normalizeMealType(recipe.mealType),
       cuisine_type: recipe.cuisine || null,
-      servings: recipe.servings || 1,
-      prep_time_minutes: recipe.prepTime || null,
-      cook_time_minutes: recipe.cookTime || null,
+      servings: getRecipeServings(recipe),
+      prep_time_minutes: times.prepTime,
+      cook_time_minutes: times.cookTime,
+      total_time_minutes: times.totalTime,
       difficulty_level: normalizeDifficulty(recipe.difficulty),
-      dietary_tags: recipe.dietaryTags || [],
+      dietary_tags: mergeDerivedDietaryTags(recipe),
       allergens: recipe.allergens || [],
+      ingredient_names: getIngredientNames(recipe.sections),
+      calories: nutrition.calories || 0,
+      protein: nutrition.protein || 0,
+      carbs: nutrition.carbs || 0,
+      fat: nutrition.fat || 0,
       chef_note: recipe.chefNote || null,
       chef_persona: recipe.chefPersona || null,
       image_url: imageUrl,
       is_favorite: recipe.isFavorite || false,
       is_public: recipe.isPublic || false,
+      variant_of: recipe.variantOf || null,
+      remix_of: remixOf,
+      remix_instruction: recipe.remixInstruction || null,
+      last_save_key: saveKey,
+      content_schema_version: RECIPE_CONTENT_SCHEMA_VERSION,
       updated_at: serverTimestamp()
     };
-    
+    const sectionDocs = recipe.sections.map(toSectionDoc);
+    const ingredientLinks = buildIngredientLinks(recipeId, recipe.sections);
+
     console.log('📝 [Phase 4] Recipe payload created:', {
       recipeId,
       userId,
       hasImageUrl: !!recipePayload.image_url,
       imageUrl: recipePayload.image_url ? recipePayload.image_url.substring(0, 100) + '...' : null,
-      imageUrlType: recipePayload.image_url ? (recipePayload.image_url.includes('firebasestorage') ? 'storage' : 'other') : 'null',
-      payloadKeys: Object.keys(recipePayload)
+      sections: sectionDocs.length,
+      ingredientLinks: ingredientLinks.length
     });
 
-    // Handle created_at based on whether this is a new or existing recipe
-    if (isNewRecipe) {
-      // New recipe - set created_at
-      if (recipe.createdAt) {
-        recipePayload.created_at = isoToTimestamp(recipe.createdAt);
-      } else {
-        recipePayload.created_at = serverTimestamp();
-      }
-      // Use setDoc for new recipes (CREATE operation - matches Firestore rules)
-      console.log("📝 [Phase 4] Creating new recipe with payload:", {
-        recipeId,
-        userId,
-        authUid: currentUser.uid,
-        user_id: recipePayload.user_id,
-        hasImage: !!recipePayload.image_url,
-        image_url: recipePayload.image_url ? recipePayload.image_url.substring(0, 100) + '...' : null
-      });
-      await setDoc(recipeRef, recipePayload);
-      console.log("✅ [Phase 4] Recipe document created in Firestore:", {
-        recipeId,
-        image_url_saved: !!recipePayload.image_url
-      });
-    } else {
-      // Existing recipe - verify ownership before updating
-      // Reuse the document snapshot we already fetched
-      if (!existingRecipeSnap || !existingRecipeSnap.exists()) {
-        // Document was deleted or doesn't exist - treat as new
-        console.log("⚠️ Recipe document doesn't exist, creating new one");
-        recipePayload.created_at = serverTimestamp();
-        await setDoc(recipeRef, recipePayload);
-      } else {
-        const existingUserId = existingRecipeSnap.data()?.user_id;
-        if (existingUserId !== currentUser.uid) {
-          throw new Error(`Permission denied: Recipe belongs to user ${existingUserId}, but you are ${currentUser.uid}`);
+    // 4. Write everything in one transaction
+    const savedId = recipeId;
+    const saved = await runTransaction(db, async (transaction) => {
+      const currentSnap = await transaction.get(recipeRef);
+      const current = currentSnap.exists() ? currentSnap.data() : null;
+
+      if (current) {
+        if (current.user_id !== currentUser.uid) {
+          throw new Error(`Permission denied: Recipe belongs to user ${current.user_id}, but you are ${currentUser.uid}`);
         }
-        // Existing recipe - don't update created_at, use updateDoc (UPDATE operation)
-        console.log("🔄 [Phase 4] Updating existing recipe with payload:", {
-          recipeId,
-          userId,
-          authUid: currentUser.uid,
-          user_id: recipePayload.user_id,
-          existing_user_id: existingUserId,
-          hasImage: !!recipePayload.image_url,
-          image_url: recipePayload.image_url ? recipePayload.image_url.substring(0, 100) + '...' : null
-        });
-        await updateDoc(recipeRef, recipePayload);
-        console.log("✅ [Phase 4] Recipe document updated in Firestore:", {
-          recipeId,
-          image_url_saved: !!recipePayload.image_url
-        });
+        // A concurrent save with the same key already landed
+        if (saveKey && current.last_save_key === saveKey) return false;
+      }
+      const changedSchema = current && getRecipeContentSchemaVersion(current) !== expectedSchema;
+      if ((current?.current_revision || 0) !== expectedRevision || changedSchema) {
+        throw new Error('This recipe was changed by another save. Reload it and try again.');
       }
-    }
 
-    // 3. Delete existing content
-    const contentRef = collection(db, 'recipe_content');
-    const contentQuery = query(contentRef, where('recipe_id', '==', recipeId));
-    const contentSnapshot = await getDocs(contentQuery);
-    
-    const batch = writeBatch(db);
-    contentSnapshot.docs.forEach(doc => {
-      batch.delete(doc.ref);
-    });
-    await batch.commit();
+      // Every save is a new revision; recipes saved before revisions existed start at 1
+      const revision = expectedRevision + 1;
+      if (current) {
+        transaction.update(recipeRef, { ...recipePayload, current_revision: revision });
+      } else {
+        // New recipe (or one deleted since it was opened) - set created_at
+        const createdAt = recipe.createdAt ? isoToTimestamp(recipe.createdAt) : null;
+        transaction.set(recipeRef, { ...recipePayload, current_revision: revision, created_at: createdAt || serverTimestamp() });
+      }
 
-    // 4. Insert new content
-    const contentToInsert = recipe.sections.map((section, index) => {
-      let sectionType = 'notes';
-      const typeLower = section.type.toLowerCase();
-      if (typeLower.includes('instruction') || typeLower.includes('step')) sectionType = 'instructions';
-      else if (typeLower.includes('ingredient')) sectionType = 'notes';
-      else if (typeLower.includes('overview') || typeLower.includes('info')) sectionType = 'tips';
-      else if (typeLower.includes('tip')) sectionType = 'tips';
-      else if (typeLower.includes('nutrition')) sectionType = 'nutrition';
-      
-      const contentData = {
-        title: section.title,
-        items: section.items || [],
-        ingredients: section.ingredients || [],
-        metadata: section.metadata || {}
-      };
-      
-      return {
-        recipe_id: recipeId,
-        section_type: sectionType,
-        content: JSON.stringify(contentData),
-        order_index: index
-      };
+      // Sections and links get IDs from their position, so a replaced row is overwritten rather than deleted and re-added
+      const sectionRefs = sectionDocs.map((_, i) => doc(db, 'recipes', savedId, 'sections', sectionDocId(i)));
+      const linkRefs = ingredientLinks.map((_, i) => doc(db, 'recipe_ingredients', `${savedId}_i${i}`));
+      const keptPaths = new Set([...sectionRefs, ...linkRefs].map(ref => ref.path));
+      staleRefs.filter(ref => !keptPaths.has(ref.path)).forEach(ref => transaction.delete(ref));
+      sectionDocs.forEach((sectionDoc, i) => transaction.set(sectionRefs[i], sectionDoc));
+      ingredientLinks.forEach((link, i) => transaction.set(linkRefs[i], link));
+
+      // Immutable snapshot of this save (the ID makes a second write of the same revision fail)
+      transaction.set(doc(db, 'recipe_revisions', `${savedId}_r${revision}`), {
+        recipe_id: savedId,
+        user_id: userId,
+        revision,
+        author_name: currentUser.displayName || currentUser.email || null,
+        restored_from: options.restoredFrom ?? null,
+        snapshot: JSON.stringify(toRevisionSnapshot(nutrition)),
+        created_at: serverTimestamp()
+      });
+      return true;
     });
 
-    if (contentToInsert.length > 0) {
-      const contentBatch = writeBatch(db);
-      contentToInsert.forEach(content => {
-        const contentRef = doc(collection(db, 'recipe_content'));
-        contentBatch.set(contentRef, content);
-      });
-      await contentBatch.commit();
+    if (!saved) {
+      console.log(`↩️ Recipe ${recipeId} was saved by a concurrent request with this key`);
+      if (uploadedImageUrl) await deleteRecipeImage(uploadedImageUrl);
+      return recipeId;
     }
+    console.log(`✅ [Phase 4] Recipe ${existingRecipeSnap.exists() ? 'updated' : 'created'} in one transaction:`, {
+      recipeId,
+      image_url_saved: !!recipePayload.image_url
+    });
 
-    // 5. Process ingredients (non-critical)
-    try {
-      // Delete existing recipe_ingredients
-      const recipeIngredientsRef = collection(db, 'recipe_ingredients');
-      const recipeIngredientsQuery = query(recipeIngredientsRef, where('recipe_id', '==', recipeId));
-      const recipeIngredientsSnapshot = await getDocs(recipeIngredientsQuery);
-      const deleteBatch = writeBatch(db);
-      recipeIngredientsSnapshot.docs.forEach(doc => {
-        deleteBatch.delete(doc.ref);
-      });
-      await deleteBatch.commit();
-
-      await processRecipeIngredients(recipeId, recipe.sections);
-    } catch (ingError) {
-      console.warn("Secondary ingredient processing failed (non-critical):", ingError);
-    }
+    // 5. Canonical ingredients (shared, non-critical)
+    await ensureCanonicalIngredients(recipe.sections);
 
     console.log("✅ Recipe saved. ID:", recipeId);
     return recipeId;
 
   } catch (error: any) {
     console.error("Critical error saving recipe:", error);
+    if (uploadedImageUrl) await deleteRecipeImage(uploadedImageUrl);
     console.error("Error details:", {
       code: error?.code,
       message: error?.message,
@@ -562,6 +594,83 @@ export const saveRecipeToDb = async (recipe: Recipe, userId: string): Promise<st
   }
 };
 
+export const RECIPE_PAGE_SIZE = 20;
+
+// Opaque position in the cookbook, returned by getRecipeSummaries
+export type RecipePageCursor = QueryDocumentSnapshot;
+
+export interface RecipePage {
+  recipes: Recipe[];
+  cursor: RecipePageCursor | null;
+  hasMore: boolean;
+}
+
+/**
+ * Helper: Maps a recipes document (with sections read separately) to a Recipe
+ */
+const fromRecipeDoc = (id: string, r: Record<string, any>, sections: RecipeSection[], includeImages: boolean): Recipe => ({
+  id,
+  title: r.name || '',
+  description: r.description || '',
+  difficulty: r.difficulty_level || '',
+  chefNote: r.chef_note || '',
+  chefPersona: r.chef_persona || '',
+  totalTime: r.total_time_minutes || (r.prep_time_minutes || 0) + (r.cook_time_minutes || 0),
+  prepTime: r.prep_time_minutes || 0,
+  cookTime: r.cook_time_minutes || 0,
+  calories: r.calories || 0,
+  protein: r.protein || 0,
+  carbs: r.carbs || 0,
+  fat: r.fat || 0,
+  mealType: r.meal_type || '',
+  cuisine: r.cuisine_type || '',
+  servings: r.servings || 1,
+  dietaryTags: r.dietary_tags || [],
+  allergens: r.allergens || [],
+  ingredientNames: r.ingredient_names || [],
+  imageUrl: includeImages ? (r.image_url || '') : '',
+  isFavorite: r.is_favorite || false,
+  isPublic: r.is_public || false,
+  variantOf: r.variant_of || undefined,
+  remixOf: r.remix_of || undefined,
+  remixInstruction: r.remix_instruction || undefined,
+  revision: r.current_revision || undefined,
+  createdAt: timestampToISO(r.created_at),
+  sections
+});
+
+/**
+ * One page of a user's cookbook, newest first. Only the recipe documents are read:
+ * recipes come back as summaries (no sections, no image) - open one with getRecipeById.
+ * Pass the returned cursor to get the next page.
+ */
+export const getRecipeSummaries = async (
+  userId: string,
+  cursor: RecipePageCursor | null = null,
+  pageSize: number = RECIPE_PAGE_SIZE
+): Promise<RecipePage> => {
+  try {
+    const constraints = [
+      where('user_id', '==', userId),
+      orderBy('created_at', 'desc'),
+      ...(cursor ? [startAfter(cursor)] : []),
+      limit(pageSize + 1) // One extra tells us whether there's another page
+    ];
+    const snapshot = await getDocs(query(collection(db, 'recipes'), ...constraints));
+    const pageDocs = snapshot.docs.slice(0, pageSize);
+
+    console.log(`📖 Loaded ${pageDocs.length} recipe summaries${cursor ? ' (next page)' : ''}`);
+    return {
+      recipes: pageDocs.map(recipeDoc => ({ ...fromRecipeDoc(recipeDoc.id, recipeDoc.data(), [], false), isSummary: true })),
+      cursor: pageDocs.length > 0 ? pageDocs[pageDocs.length - 1] : cursor,
+      hasMore: snapshot.docs.length > pageSize
+    };
+  } catch (e) {
+    console.error("Error fetching recipe summaries:", extractErrorMessage(e));
+    return { recipes: [], cursor, hasMore: false };
+  }
+};
+
 /**
  * Fetches all recipes for a user
  */
@@ -584,16 +693,25 @@ export const getSavedRecipes = async (userId: string, includeImages: boolean = f
     const recipeIds = recipesSnapshot.docs.map(doc => doc.id);
     console.log('📖 [Phase 5] Found recipes:', { count: recipeIds.length, recipeIds });
     
-    // Fetch content for all recipes
+    // Fetch content for all recipes: migrated recipes read their sections subcollection,
+    // legacy ones share batched recipe_content queries
+    const legacyIds = recipesSnapshot.docs
+      .filter(doc => getRecipeContentSchemaVersion(doc.data()) < 2)
+      .map(doc => doc.id);
+    const sectionsMap = new Map<string, RecipeSection[]>();
+    await Promise.all(recipesSnapshot.docs
+      .filter(doc => getRecipeContentSchemaVersion(doc.data()) >= 2)
+      .map(async doc => sectionsMap.set(doc.id, await getRecipeSections(doc.id, doc.data()))));
+
     // Firestore 'in' queries are limited to 10 items, so batch if needed
     const contentRef = collection(db, 'recipe_content');
     const contentMap = new Map<string, any[]>();
     
-    if (recipeIds.length > 0) {
+    if (legacyIds.length > 0) {
       // Process in batches of 10
       const batchSize = 10;
-      for (let i = 0; i < recipeIds.length; i += batchSize) {
-        const batch = recipeIds.slice(i, i + batchSize);
+      for (let i = 0; i < legacyIds.length; i += batchSize) {
+        const batch = legacyIds.slice(i, i + batchSize);
         const contentQuery = query(contentRef, where('recipe_id', 'in', batch));
         const contentSnapshot = await getDocs(contentQuery);
         
@@ -611,55 +729,9 @@ export const getSavedRecipes = async (userId: string, includeImages: boolean = f
     // Map to Recipe interface
     const fullRecipes: Recipe[] = recipesSnapshot.docs.map(doc => {
       const r = doc.data();
-      const thisContent = (contentMap.get(doc.id) || []).sort((a: any, b: any) => (a.order_index || 0) - (b.order_index || 0));
-      
-      const sections: RecipeSection[] = thisContent.map((c: any) => {
-        let parsedContent: any = {};
-        try {
-          parsedContent = JSON.parse(c.content || '{}');
-        } catch (e) {
-          console.warn('Failed to parse recipe content JSON:', e);
-        }
-        
-        let type: 'Overview' | 'Ingredients' | 'Instructions' = 'Instructions';
-        if (c.section_type === 'instructions') type = 'Instructions';
-        else if (c.section_type === 'notes') type = 'Ingredients';
-        else if (c.section_type === 'tips') type = 'Overview';
-        
-        return {
-          type: type,
-          title: parsedContent.title || '',
-          items: parsedContent.items || [],
-          ingredients: parsedContent.ingredients || [],
-          metadata: parsedContent.metadata || {}
-        };
-      });
+      const sections = sectionsMap.get(doc.id) || readSectionDocs(contentMap.get(doc.id) || [], 1);
 
-      return {
-        id: doc.id,
-        title: r.name || '',
-        description: r.description || '',
-        difficulty: r.difficulty_level || '',
-        chefNote: r.chef_note || '',
-        totalTime: (r.prep_time_minutes || 0) + (r.cook_time_minutes || 0),
-        prepTime: r.prep_time_minutes || 0,
-        cookTime: r.cook_time_minutes || 0,
-        calories: 0,
-        protein: 0,
-        carbs: 0,
-        fat: 0,
-        mealType: r.meal_type || '',
-        cuisine: r.cuisine_type || '',
-        servings: r.servings || 1,
-        dietaryTags: r.dietary_tags || [],
-        allergens: r.allergens || [],
-        chefPersona: r.chef_persona || '',
-        imageUrl: includeImages ? (r.image_url || '') : '',
-        isFavorite: r.is_favorite || false,
-        isPublic: r.is_public || false,
-        createdAt: timestampToISO(r.created_at),
-        sections: sections
-      };
+      return applyNutrition(fromRecipeDoc(doc.id, r, sections, includeImages));
     });
 
     console.log('✅ [Phase 5] getSavedRecipes completed:', {
@@ -697,63 +769,9 @@ export const getRecipeById = async (recipeId: string, includeImages: boolean = t
       includeImages
     });
 
-    // Fetch content
-    const contentRef = collection(db, 'recipe_content');
-    const contentQuery = query(
-      contentRef,
-      where('recipe_id', '==', recipeId),
-      orderBy('order_index', 'asc')
-    );
-    const contentSnapshot = await getDocs(contentQuery);
-
-    const sections: RecipeSection[] = contentSnapshot.docs.map(doc => {
-      const c = doc.data();
-      let parsedContent: any = {};
-      try {
-        parsedContent = JSON.parse(c.content || '{}');
-      } catch (e) {
-        console.warn('Failed to parse recipe content JSON:', e);
-      }
+    const sections = await getRecipeSections(recipeId, recipeRow);
 
-      let type: 'Overview' | 'Ingredients' | 'Instructions' = 'Instructions';
-      if (c.section_type === 'instructions') type = 'Instructions';
-      else if (c.section_type === 'notes') type = 'Ingredients';
-      else if (c.section_type === 'tips') type = 'Overview';
-
-      return {
-        type,
-        title: parsedContent.title || '',
-        items: parsedContent.items || [],
-        ingredients: parsedContent.ingredients || [],
-        metadata: parsedContent.metadata || {}
-      };
-    });
-
-    const result = {
-      id: recipeSnap.id,
-      title: recipeRow.name || '',
-      description: recipeRow.description || '',
-      difficulty: recipeRow.difficulty_level || '',
-      chefNote: recipeRow.chef_note || '',
-      chefPersona: recipeRow.chef_persona || '',
-      totalTime: (recipeRow.prep_time_minutes || 0) + (recipeRow.cook_time_minutes || 0),
-      prepTime: recipeRow.prep_time_minutes || 0,
-      cookTime: recipeRow.cook_time_minutes || 0,
-      calories: 0,
-      protein: 0,
-      carbs: 0,
-      fat: 0,
-      mealType: recipeRow.meal_type || '',
-      cuisine: recipeRow.cuisine_type || '',
-      servings: recipeRow.servings || 1,
-      dietaryTags: recipeRow.dietary_tags || [],
-      allergens: recipeRow.allergens || [],
-      imageUrl: includeImages ? (recipeRow.image_url || '') : '',
-      isFavorite: recipeRow.is_favorite || false,
-      isPublic: recipeRow.is_public || false,
-      createdAt: timestampToISO(recipeRow.created_at),
-      sections
-    };
+    const result = applyNutrition(fromRecipeDoc(recipeSnap.id, recipeRow, sections, includeImages));
     
     console.log('✅ [Phase 5] getRecipeById completed:', {
       recipeId,
@@ -826,56 +844,425 @@ export const getRecipeImageUrls = async (recipeIds: string[]): Promise<Map<strin
   }
 };
 
+// Firestore's limit on writes in one batch
+const MAX_BATCH_WRITES = 500;
+
+/**
+ * Deletes a recipe with its sections, legacy content, ingredient links and revisions
+ */
 export const deleteRecipe = async (recipeId: string): Promise<boolean> => {
   try {
-    // Delete recipe
     const recipeRef = doc(db, 'recipes', recipeId);
-    await deleteDoc(recipeRef);
+    const ownerId = auth.currentUser?.uid;
+    const childSnapshots = await Promise.all([
+      getDocs(collection(db, 'recipes', recipeId, 'sections')),
+      getDocs(query(collection(db, 'recipe_content'), where('recipe_id', '==', recipeId))),
+      getDocs(query(collection(db, 'recipe_ingredients'), where('recipe_id', '==', recipeId))),
+      // Revision history (its rules only allow listing the owner's revisions)
+      ...(ownerId
+        ? [getDocs(query(collection(db, 'recipe_revisions'), where('user_id', '==', ownerId), where('recipe_id', '==', recipeId)))]
+        : [])
+    ]);
+
+    // Children first and the recipe last - section rules check ownership through the recipe document,
+    // and a delete that fails part-way leaves the recipe in place to retry. One batch when it fits.
+    const refs = [...childSnapshots.flatMap(snapshot => snapshot.docs.map(d => d.ref)), recipeRef];
+    for (let i = 0; i < refs.length; i += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      refs.slice(i, i + MAX_BATCH_WRITES).forEach(ref => batch.delete(ref));
+      await batch.commit();
+    }
 
-    // Delete related content
-    const contentRef = collection(db, 'recipe_content');
-    const contentQuery = query(contentRef, where('recipe_id', '==', recipeId));
-    const contentSnapshot = await getDocs(contentQuery);
-    
-    const batch = writeBatch(db);
-    contentSnapshot.docs.forEach(doc => {
-      batch.delete(doc.ref);
+    return true;
+  } catch (error) {
+    console.error("Error deleting recipe:", error);
+    return false;
+  }
+};
+
+/**
+ * Moves one recipe's sections from recipe_content into its sections subcollection.
+ * Runs as a transaction that gives up if the recipe was saved or migrated meanwhile.
+ */
+const migrateRecipeSections = async (recipeId: string): Promise<boolean> => {
+  const recipeRef = doc(db, 'recipes', recipeId);
+  const legacySnapshot = await getDocs(query(collection(db, 'recipe_content'), where('recipe_id', '==', recipeId)));
+  const sections = readSectionDocs(legacySnapshot.docs.map(d => d.data()), 1);
+
+  return runTransaction(db, async (transaction) => {
+    const recipeSnap = await transaction.get(recipeRef);
+    if (!recipeSnap.exists() || getRecipeContentSchemaVersion(recipeSnap.data()) >= RECIPE_CONTENT_SCHEMA_VERSION) return false;
+
+    sections.forEach((section, i) => {
+      transaction.set(doc(db, 'recipes', recipeId, 'sections', sectionDocId(i)), toSectionDoc(section, i));
     });
-    await batch.commit();
+    legacySnapshot.docs.forEach(d => transaction.delete(d.ref));
+    transaction.update(recipeRef, {
+      content_schema_version: RECIPE_CONTENT_SCHEMA_VERSION,
+      ingredient_names: getIngredientNames(sections) // Lets the summary be searched
+    });
+    return true;
+  });
+};
+
+/**
+ * One-time migration of a user's recipes from JSON recipe_content documents to typed
+ * sections subcollections, plus a backfill of the fields summaries are searched by
+ * (ingredient names, total time and derived dietary tags).
+ * Safe to run repeatedly; returns how many recipes moved.
+ */
+export const migrateLegacyRecipeContent = async (userId: string): Promise<number> => {
+  try {
+    const recipesSnapshot = await getDocs(query(collection(db, 'recipes'), where('user_id', '==', userId)));
+    const legacyIds = recipesSnapshot.docs
+      .filter(recipeDoc => getRecipeContentSchemaVersion(recipeDoc.data()) < RECIPE_CONTENT_SCHEMA_VERSION)
+      .map(recipeDoc => recipeDoc.id);
+
+    let migrated = 0;
+    for (const recipeId of legacyIds) {
+      try {
+        if (await migrateRecipeSections(recipeId)) migrated++;
+      } catch (e) {
+        // Still readable in the old format - the next run retries
+        console.warn(`⚠️ Recipe ${recipeId} content migration failed:`, extractErrorMessage(e));
+      }
+    }
+    if (migrated > 0) {
+      console.log(`🔄 Migrated ${migrated} recipe(s) to content schema v${RECIPE_CONTENT_SCHEMA_VERSION}`);
+    }
+
+    // Recipes saved before summaries carried their search fields, so cookbook search can find them
+    const unindexed = recipesSnapshot.docs.filter(recipeDoc =>
+      getRecipeContentSchemaVersion(recipeDoc.data()) >= RECIPE_CONTENT_SCHEMA_VERSION &&
+      (!Array.isArray(recipeDoc.data().ingredient_names) || recipeDoc.data().total_time_minutes === undefined)
+    );
+    for (const recipeDoc of unindexed) {
+      try {
+        const sections = await getRecipeSections(recipeDoc.id, recipeDoc.data());
+        const recipe = fromRecipeDoc(recipeDoc.id, recipeDoc.data(), sections, false);
+        const times = getRecipeTimes(recipe);
+        await updateDoc(recipeDoc.ref, {
+          ingredient_names: getIngredientNames(sections),
+          prep_time_minutes: times.prepTime,
+          cook_time_minutes: times.cookTime,
+          total_time_minutes: times.totalTime,
+          dietary_tags: mergeDerivedDietaryTags(recipe)
+        });
+      } catch (e) {
+        console.warn(`⚠️ Recipe ${recipeDoc.id} search fields backfill failed:`, extractErrorMessage(e));
+      }
+    }
+    return migrated;
+  } catch (e) {
+    console.error("Error migrating recipe content:", extractErrorMessage(e));
+    return 0;
+  }
+};
+
+const toRecipeRevision = (id: string, data: any): RecipeRevision => {
+  let snapshot: any = {};
+  try {
+    snapshot = JSON.parse(data.snapshot || '{}');
+  } catch (e) {
+    console.warn('Failed to parse recipe revision snapshot:', e);
+  }
+  return {
+    id,
+    recipeId: data.recipe_id,
+    revision: data.revision || 0,
+    authorId: data.user_id,
+    authorName: data.author_name || undefined,
+    createdAt: timestampToISO(data.created_at),
+    restoredFrom: data.restored_from ?? undefined,
+    recipe: { ...snapshot, sections: snapshot.sections || [] }
+  };
+};
 
-    // Delete recipe ingredients
-    const recipeIngredientsRef = collection(db, 'recipe_ingredients');
-    const recipeIngredientsQuery = query(recipeIngredientsRef, where('recipe_id', '==', recipeId));
-    const recipeIngredientsSnapshot = await getDocs(recipeIngredientsQuery);
-    const ingredientsBatch = writeBatch(db);
-    recipeIngredientsSnapshot.docs.forEach(doc => {
-      ingredientsBatch.delete(doc.ref);
+/**
+ * Saved revisions of a recipe, newest first
+ */
+export const getRecipeRevisions = async (userId: string, recipeId: string): Promise<RecipeRevision[]> => {
+  try {
+    const q = query(
+      collection(db, 'recipe_revisions'),
+      where('user_id', '==', userId),
+      where('recipe_id', '==', recipeId),
+      orderBy('revision', 'desc')
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(revisionDoc => toRecipeRevision(revisionDoc.id, revisionDoc.data()));
+  } catch (e) {
+    console.error("Error fetching recipe revisions:", extractErrorMessage(e));
+    return [];
+  }
+};
+
+/**
+ * Puts an older revision's content back. The restore is saved as a new revision,
+ * so nothing in the history is overwritten. Returns the restored recipe.
+ */
+export const restoreRecipeRevision = async (userId: string, recipeId: string, revision: number): Promise<Recipe | null> => {
+  try {
+    const revisionSnap = await getDoc(doc(db, 'recipe_revisions', `${recipeId}_r${revision}`));
+    if (!revisionSnap.exists()) {
+      console.warn(`⚠️ Revision ${revision} of recipe ${recipeId} not found`);
+      return null;
+    }
+    const current = await getRecipeById(recipeId);
+    if (!current) return null;
+
+    const restored = restoreRevision(current, toRecipeRevision(revisionSnap.id, revisionSnap.data()).recipe);
+    const savedId = await saveRecipeToDb(restored, userId, { restoredFrom: revision });
+    if (!savedId) return null;
+
+    console.log(`⏪ Restored recipe ${recipeId} to revision ${revision}`);
+    return applyNutrition({ ...restored, id: savedId, revision: (current.revision || 0) + 1 });
+  } catch (e) {
+    console.error("Error restoring recipe revision:", extractErrorMessage(e));
+    return null;
+  }
+};
+
+/**
+ * Saves a meal plan to the meal_plans collection.
+ * Unsaved recipes go to the cookbook first and the plan stores their IDs with a
+ * macro summary per meal. recipeId is written back onto each meal as its recipe
+ * saves, so retrying after a failure doesn't duplicate recipes.
+ */
+export const saveMealPlan = async (plan: MealPlan, userId: string): Promise<string | null> => {
+  try {
+    for (const day of plan.days) {
+      for (const meal of day.meals) {
+        if (meal.recipeId || !meal.recipe) continue;
+        const recipeId = await saveRecipeToDb(meal.recipe, userId);
+        if (!recipeId) throw new Error(`Failed to save recipe "${meal.title}"`);
+        meal.recipeId = recipeId;
+        meal.recipe = { ...meal.recipe, id: recipeId };
+      }
+    }
+
+    const payload = {
+      user_id: userId,
+      title: plan.title,
+      week_start: plan.weekStart,
+      target_macros: plan.targetMacros,
+      shared_ingredients: plan.sharedIngredients || [],
+      chef_persona: plan.chefPersona || null,
+      days: plan.days.map(day => ({
+        date: day.date,
+        meals: day.meals.map(meal => ({
+          meal_type: meal.mealType,
+          recipe_id: meal.recipeId || null,
+          title: meal.title,
+          calories: meal.calories || 0,
+          protein: meal.protein || 0,
+          carbs: meal.carbs || 0,
+          fat: meal.fat || 0
+        }))
+      })),
+      updated_at: serverTimestamp()
+    };
+
+    if (plan.id) {
+      await updateDoc(doc(db, 'meal_plans', plan.id), payload);
+      console.log('✅ Meal plan updated:', plan.id);
+      return plan.id;
+    }
+
+    const planRef = await addDoc(collection(db, 'meal_plans'), { ...payload, created_at: serverTimestamp() });
+    console.log('✅ Meal plan saved:', planRef.id);
+    return planRef.id;
+  } catch (e) {
+    console.error("Error saving meal plan:", extractErrorMessage(e));
+    return null;
+  }
+};
+
+/**
+ * Fetches the user's meal plans, newest week first.
+ * Meals carry their recipe ID and macro summary; load full recipes with getRecipeById.
+ */
+export const getMealPlans = async (userId: string): Promise<MealPlan[]> => {
+  try {
+    const q = query(
+      collection(db, 'meal_plans'),
+      where('user_id', '==', userId),
+      orderBy('week_start', 'desc')
+    );
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map(planDoc => {
+      const data = planDoc.data();
+      return {
+        id: planDoc.id,
+        userId: data.user_id,
+        title: data.title || 'Meal Plan',
+        weekStart: data.week_start,
+        targetMacros: data.target_macros || { calories: 0, protein: 0, carbs: 0, fat: 0 },
+        sharedIngredients: data.shared_ingredients || [],
+        chefPersona: data.chef_persona || undefined,
+        createdAt: timestampToISO(data.created_at),
+        days: (data.days || []).map((day: any) => ({
+          date: day.date,
+          meals: (day.meals || []).map((meal: any) => ({
+            mealType: meal.meal_type as MealSlot,
+            recipeId: meal.recipe_id || undefined,
+            title: meal.title || '',
+            calories: meal.calories || 0,
+            protein: meal.protein || 0,
+            carbs: meal.carbs || 0,
+            fat: meal.fat || 0
+          }))
+        }))
+      };
+    });
+  } catch (e) {
+    console.error("Error fetching meal plans:", extractErrorMessage(e));
+    return [];
+  }
+};
+
+/**
+ * Loads the full recipes planned between two dates (inclusive, YYYY-MM-DD) across all meal plans.
+ * A recipe planned twice is returned twice so shopping quantities add up.
+ */
+export const getPlannedRecipes = async (userId: string, fromDate: string, toDate: string): Promise<Recipe[]> => {
+  try {
+    const plans = await getMealPlans(userId);
+    const recipeIds: string[] = [];
+    plans.forEach(plan => plan.days
+      .filter(day => day.date >= fromDate && day.date <= toDate)
+      .forEach(day => day.meals.forEach(meal => {
+        if (meal.recipeId) recipeIds.push(meal.recipeId);
+      }))
+    );
+
+    const uniqueIds = Array.from(new Set(recipeIds));
+    const loaded = await Promise.all(uniqueIds.map(id => getRecipeById(id, false)));
+    const byId = new Map<string, Recipe>();
+    loaded.forEach((recipe, i) => {
+      if (recipe) byId.set(uniqueIds[i], recipe);
     });
-    await ingredientsBatch.commit();
 
+    return recipeIds.map(id => byId.get(id)).filter((r): r is Recipe => !!r);
+  } catch (e) {
+    console.error("Error loading planned recipes:", extractErrorMessage(e));
+    return [];
+  }
+};
+
+/**
+ * Deletes a meal plan; its recipes stay in the cookbook
+ */
+export const deleteMealPlan = async (planId: string): Promise<boolean> => {
+  try {
+    await deleteDoc(doc(db, 'meal_plans', planId));
     return true;
-  } catch (error) {
-    console.error("Error deleting recipe:", error);
+  } catch (e) {
+    console.error("Error deleting meal plan:", e);
     return false;
   }
 };
 
 /**
- * Fetches recent workouts - Stubbed out (was using Supabase RPC)
- * TODO: Re-implement if workout context is needed
+ * Fetches the user's most recent workouts from the Hub
+ */
+export const getRecentWorkouts = async (userId: string, max: number = 10): Promise<WorkoutSummary[]> => {
+  try {
+    return await getWorkoutSource().getRecentWorkouts(userId, { limit: max });
+  } catch (e) {
+    console.error("Error fetching workouts:", extractErrorMessage(e));
+    return [];
+  }
+};
+
+/**
+ * Workouts completed in the last `hoursBack` hours, for recovery-aware meal planning
+ */
+export const getWorkoutContextForMealPlanning = async (userId: string, hoursBack: number = 24): Promise<WorkoutSummary[]> => {
+  try {
+    const since = new Date(Date.now() - hoursBack * 60 * 60 * 1000);
+    return await getWorkoutSource().getRecentWorkouts(userId, { since });
+  } catch (e) {
+    console.error("Error fetching workout context:", extractErrorMessage(e));
+    return [];
+  }
+};
+
+/**
+ * Records a meal the user ate. Returns the new entry ID.
  */
-export const getRecentWorkouts = async (userId: string): Promise<any[]> => {
-  console.warn("getRecentWorkouts: Not implemented in Firestore migration");
-  return [];
+export const logFoodEntry = async (userId: string, entry: FoodLogEntry): Promise<string | null> => {
+  try {
+    const ref = await addDoc(collection(db, 'food_log'), {
+      user_id: userId,
+      recipe_id: entry.recipeId || null,
+      title: entry.title,
+      meal_type: entry.mealType || null,
+      servings: entry.servings,
+      calories: entry.calories,
+      protein: entry.protein,
+      carbs: entry.carbs,
+      fat: entry.fat,
+      cooked: entry.cooked,
+      logged_at: isoToTimestamp(entry.loggedAt) || serverTimestamp()
+    });
+    console.log(`🍽️ Logged ${entry.servings} serving(s) of "${entry.title}"`);
+    return ref.id;
+  } catch (e) {
+    console.error("Error logging food entry:", extractErrorMessage(e));
+    return null;
+  }
 };
 
 /**
- * Get workout context for meal planning - Stubbed out (was using Supabase RPC)
- * TODO: Re-implement if workout context is needed
+ * Food log entries logged between `from` (inclusive) and `to` (exclusive), oldest first
  */
-export const getWorkoutContextForMealPlanning = async (userId: string, hoursBack: number = 24): Promise<any[]> => {
-  console.warn("getWorkoutContextForMealPlanning: Not implemented in Firestore migration");
-  return [];
+export const getFoodLog = async (userId: string, from: Date, to: Date): Promise<FoodLogEntry[]> => {
+  try {
+    const q = query(
+      collection(db, 'food_log'),
+      where('user_id', '==', userId),
+      where('logged_at', '>=', Timestamp.fromDate(from)),
+      where('logged_at', '<', Timestamp.fromDate(to)),
+      orderBy('logged_at', 'asc')
+    );
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map(entryDoc => {
+      const data = entryDoc.data();
+      return {
+        id: entryDoc.id,
+        userId: data.user_id,
+        recipeId: data.recipe_id || undefined,
+        title: data.title || 'Meal',
+        mealType: (data.meal_type as MealSlot) || undefined,
+        servings: data.servings || 1,
+        calories: data.calories || 0,
+        protein: data.protein || 0,
+        carbs: data.carbs || 0,
+        fat: data.fat || 0,
+        cooked: !!data.cooked,
+        loggedAt: timestampToISO(data.logged_at)
+      };
+    });
+  } catch (e) {
+    console.error("Error fetching food log:", extractErrorMessage(e));
+    return [];
+  }
+};
+
+/**
+ * Removes a food log entry
+ */
+export const deleteFoodLogEntry = async (entryId: string): Promise<boolean> => {
+  try {
+    await deleteDoc(doc(db, 'food_log', entryId));
+    return true;
+  } catch (e) {
+    console.error("Error deleting food log entry:", e);
+    return false;
+  }
 };
 
 /**
@@ -1014,23 +1401,19 @@ export const commitShoppingAudit = async (userId: string, auditItems: AuditItem[
       for (const item of toBuyItems) {
         const existingItem = existingMap.get(item.name.toLowerCase());
         
-        if (existingItem && existingItem.unit === item.unit) {
-          // Update existing
+        // Sum into the existing row when the units convert (cups + tbsp); otherwise add a separate row
+        const merged = existingItem
+          ? addShoppingQuantities(
+              { quantity: existingItem.quantity ?? null, unit: existingItem.unit || '' },
+              { quantity: parseQuantity(item.qty), unit: item.unit || '' }
+            )
+          : null;
+
+        if (existingItem && merged) {
           const existingRef = doc(db, 'shopping_list', existingItem.id);
           shoppingBatch.update(existingRef, {
-            quantity: (existingItem.quantity || 0) + (parseFloat(item.qty) || 0),
-            recipe_id: null
-          });
-        } else if (existingItem && existingItem.unit !== item.unit) {
-          // Merge units
-          const existingQty = existingItem.quantity ? `${existingItem.quantity} ${existingItem.unit || ''}`.trim() : '';
-          const newQty = item.qty ? `${item.qty} ${item.unit || ''}`.trim() : '';
-          const combinedQty = existingQty && newQty ? `${existingQty} + ${newQty}` : (newQty || existingQty);
-          
-          const existingRef = doc(db, 'shopping_list', existingItem.id);
-          shoppingBatch.update(existingRef, {
-            quantity: null,
-            unit: combinedQty,
+            quantity: merged.quantity,
+            unit: merged.unit || null,
             recipe_id: null
           });
         } else {
@@ -1041,7 +1424,7 @@ export const commitShoppingAudit = async (userId: string, auditItems: AuditItem[
             ingredient_name: item.name,
             recipe_id: recipeId || null,
             is_purchased: false,
-            quantity: parseFloat(item.qty) || null,
+            quantity: parseQuantity(item.qty) || null,
             unit: item.unit || null
           });
         }
@@ -1057,6 +1440,64 @@ export const commitShoppingAudit = async (userId: string, auditItems: AuditItem[
   }
 };
 
+/**
+ * Writes an aggregated shopping list (see buildShoppingList) in a single batch.
+ * Needs merge into unpurchased rows for the same ingredient when the units convert;
+ * anything else becomes a new row.
+ */
+export const commitShoppingListBuild = async (userId: string, needs: ShoppingNeed[]): Promise<boolean> => {
+  try {
+    if (needs.length === 0) return true;
+
+    const existingQuery = query(
+      collection(db, 'shopping_list'),
+      where('user_id', '==', userId),
+      where('is_purchased', '==', false)
+    );
+    const existingSnapshot = await getDocs(existingQuery);
+
+    const existingByKey = new Map<string, Array<{ id: string; quantity: number | null; unit: string }>>();
+    existingSnapshot.docs.forEach(row => {
+      const data = row.data();
+      const key = canonicalIngredientName(data.ingredient_name || '');
+      existingByKey.set(key, [...(existingByKey.get(key) || []), { id: row.id, quantity: data.quantity ?? null, unit: data.unit || '' }]);
+    });
+
+    const batch = writeBatch(db);
+    needs.forEach(need => {
+      const rows = existingByKey.get(need.key) || [];
+      for (const row of rows) {
+        const merged = addShoppingQuantities(row, need);
+        if (!merged) continue;
+        batch.update(doc(db, 'shopping_list', row.id), { quantity: merged.quantity, unit: merged.unit || null, recipe_id: null });
+        // Later needs for the same row build on the merged amount
+        row.quantity = merged.quantity;
+        row.unit = merged.unit;
+        return;
+      }
+
+      const newRef = doc(collection(db, 'shopping_list'));
+      const newRow = { id: newRef.id, quantity: need.quantity, unit: need.unit };
+      existingByKey.set(need.key, [...rows, newRow]);
+      batch.set(newRef, {
+        user_id: userId,
+        ingredient_name: need.name,
+        recipe_id: null,
+        is_purchased: false,
+        quantity: need.quantity,
+        unit: need.unit || null
+      });
+    });
+
+    await batch.commit();
+    console.log(`✅ Shopping list updated with ${needs.length} aggregated items`);
+    return true;
+  } catch (error) {
+    console.error("Error committing shopping list:", extractErrorMessage(error));
+    return false;
+  }
+};
+
 /**
  * Get Shopping List
  */
@@ -1076,6 +1517,8 @@ export const getShoppingList = async (userId: string): Promise<ShoppingListItem[
         id: doc.id,
         ingredientId: d.ingredient_name || '',
         name: d.ingredient_name || 'Unknown Item',
+        quantity: d.quantity ?? undefined,
+        unit: d.unit || undefined,
         isChecked: d.is_purchased || false
       };
     });
@@ -1085,6 +1528,19 @@ export const getShoppingList = async (userId: string): Promise<ShoppingListItem[
   }
 };
 
+/**
+ * Toggle Recipe Favorite
+ */
+export const setRecipeFavorite = async (recipeId: string, isFavorite: boolean): Promise<boolean> => {
+  try {
+    await updateDoc(doc(db, 'recipes', recipeId), { is_favorite: isFavorite });
+    return true;
+  } catch (error) {
+    console.error("Error updating recipe favorite:", error);
+    return false;
+  }
+};
+
 /**
  * Toggle Shopping Item
  */
@@ -1142,6 +1598,9 @@ export const getUserLocations = async (userId: string): Promise<Location[]> => {
 
 /**
  * Move Shopping to Inventory
+ * Purchased amounts are added to the stock already on hand (converted into its unit);
+ * when the units don't convert, the purchase replaces the old amount. Each purchase is
+ * stamped with today's date and an expiry estimated from the item and its location.
  */
 export const moveShoppingToInventory = async (
   userId: string, 
@@ -1150,14 +1609,29 @@ export const moveShoppingToInventory = async (
 ): Promise<{ success: boolean; message?: string }> => {
   try {
     const uniqueItems = new Map<string, any>();
+    const purchasedAt = new Date();
+    const locationNames = new Map((await getUserLocations(userId)).map(l => [l.id, l.name]));
 
     itemsToMove.forEach(item => {
       const locId = locationMap[item.name];
-      uniqueItems.set(item.name.toLowerCase(), {
+      const expiresAt = estimateExpiryDate(purchasedAt, item.name, locationNames.get(locId));
+      const key = item.name.toLowerCase();
+      const purchased = { quantity: item.quantity ?? null, unit: item.unit || '' };
+      const previous = uniqueItems.get(key);
+      // The same ingredient can sit on the list more than once (e.g. cups and tbsp)
+      const amount = previous
+        ? addShoppingQuantities({ quantity: previous.quantity, unit: previous.unit || '' }, purchased) || previous
+        : purchased;
+      uniqueItems.set(key, {
         user_id: userId,
         ingredient_name: item.name,
         location_id: locId,
-        in_stock: true
+        in_stock: true,
+        quantity: amount.quantity,
+        unit: amount.unit || null,
+        purchased_at: Timestamp.fromDate(purchasedAt),
+        expires_at: isoToTimestamp(expiresAt),
+        expiry_overridden: false
       });
     });
 
@@ -1192,11 +1666,26 @@ export const moveShoppingToInventory = async (
       const existing = existingInventoryMap.get(key);
       
       if (existing) {
-        // Update existing
+        // Update existing, adding the purchase to what's left
         const existingRef = doc(db, 'user_inventory', existing.id);
+        const onHand = { quantity: typeof existing.quantity === 'number' ? existing.quantity : null, unit: existing.unit || '' };
+        const purchased = { quantity: item.quantity, unit: item.unit || '' };
+        const stock = item.quantity === null
+          ? onHand
+          : addShoppingQuantities(onHand, purchased) || purchased;
+        // Leftover stock goes off first, so keep its earlier expiry while any of it remains
+        const previousExpiry = existing.in_stock && existing.quantity !== 0 && existing.expires_at?.toMillis
+          ? existing.expires_at
+          : null;
+        const keepsExpiry = previousExpiry && item.expires_at && previousExpiry.toMillis() < item.expires_at.toMillis();
         batch.update(existingRef, {
           location_id: item.location_id,
-          in_stock: true
+          in_stock: true,
+          quantity: stock.quantity,
+          unit: stock.unit || null,
+          purchased_at: item.purchased_at,
+          expires_at: keepsExpiry ? previousExpiry : item.expires_at,
+          expiry_overridden: keepsExpiry ? existing.expiry_overridden === true : false
         });
       } else {
         // Create new
@@ -1265,7 +1754,11 @@ export const getUserInventory = async (userId: string): Promise<InventoryItem[]>
         unit: row.unit,
         locationId: row.location_id,
         locationName: location?.name || 'Unsorted',
-        inStock: row.in_stock ?? true
+        inStock: row.in_stock ?? true,
+        lowStockThreshold: typeof row.low_stock_threshold === 'number' ? row.low_stock_threshold : undefined,
+        purchasedAt: row.purchased_at ? timestampToISO(row.purchased_at) : undefined,
+        expiresAt: row.expires_at ? timestampToISO(row.expires_at) : undefined,
+        expiryOverridden: row.expiry_overridden === true
       };
     });
   } catch (e) {
@@ -1304,8 +1797,8 @@ export const updateInventoryStatus = async (
           user_id: userId,
           ingredient_name: inventoryItem.name,
           is_purchased: false,
-          quantity: inventoryItem.quantity,
-          unit: inventoryItem.unit
+          quantity: inventoryItem.quantity ?? null,
+          unit: inventoryItem.unit ?? null
         });
       }
     }
@@ -1317,8 +1810,120 @@ export const updateInventoryStatus = async (
   }
 };
 
+/**
+ * Update Inventory Quantity
+ * Sets the amount on hand; dropping below the item's threshold flips it out of stock
+ * (and onto the shopping list), while topping it back up restocks it.
+ */
+export const updateInventoryQuantity = async (
+  userId: string,
+  inventoryItem: InventoryItem,
+  quantity: number | null,
+  unit?: string
+): Promise<boolean> => {
+  try {
+    const itemRef = doc(db, 'user_inventory', inventoryItem.id);
+    const updated = { ...inventoryItem, quantity: quantity ?? undefined, unit: unit ?? inventoryItem.unit };
+    await updateDoc(itemRef, { quantity, unit: updated.unit ?? null });
+
+    const lowStock = isLowStock(updated);
+    if (lowStock && inventoryItem.inStock) return updateInventoryStatus(userId, updated, false);
+    if (!lowStock && !inventoryItem.inStock && quantity !== null && quantity > 0) {
+      return updateInventoryStatus(userId, updated, true);
+    }
+    return true;
+  } catch (e) {
+    console.error("Error updating inventory quantity:", e);
+    return false;
+  }
+};
+
+/**
+ * Update Inventory Threshold
+ * Null clears the threshold (the item then only runs low when used up)
+ */
+export const updateInventoryThreshold = async (
+  userId: string,
+  inventoryItem: InventoryItem,
+  threshold: number | null
+): Promise<boolean> => {
+  try {
+    const itemRef = doc(db, 'user_inventory', inventoryItem.id);
+    await updateDoc(itemRef, { low_stock_threshold: threshold });
+
+    const updated = { ...inventoryItem, lowStockThreshold: threshold ?? undefined };
+    if (inventoryItem.inStock && isLowStock(updated)) return updateInventoryStatus(userId, updated, false);
+    return true;
+  } catch (e) {
+    console.error("Error updating inventory threshold:", e);
+    return false;
+  }
+};
+
+/**
+ * Deplete Inventory for a Cooked Recipe
+ * Subtracts the recipe's ingredient amounts (pass it scaled to the servings cooked) from the
+ * matching in-stock items. Items that fall below their threshold go out of stock and onto the
+ * shopping list for the amount this recipe used.
+ */
+export const depleteInventoryForRecipe = async (
+  userId: string,
+  recipe: Recipe
+): Promise<{ updated: number; lowStock: string[] } | null> => {
+  try {
+    const inventory = await getUserInventory(userId);
+    const { changes, unconverted } = planInventoryDepletion(recipe, inventory);
+    if (unconverted.length > 0) {
+      console.warn(`⚠️ Couldn't convert amounts for: ${unconverted.join(', ')}`);
+    }
+    if (changes.length === 0) return { updated: 0, lowStock: [] };
+
+    const batch = writeBatch(db);
+    changes.forEach(change => {
+      batch.update(doc(db, 'user_inventory', change.item.id), { quantity: change.remaining });
+    });
+    await batch.commit();
+
+    const lowStock = changes.filter(change => change.lowStock);
+    for (const change of lowStock) {
+      await updateInventoryStatus(userId, { ...change.item, quantity: change.used }, false);
+    }
+
+    console.log(`✅ Took ${changes.length} items out of the kitchen for "${recipe.title}" (${lowStock.length} now low)`);
+    return { updated: changes.length, lowStock: lowStock.map(change => change.item.name) };
+  } catch (e) {
+    console.error("Error depleting inventory:", extractErrorMessage(e));
+    return null;
+  }
+};
+
+/**
+ * Update Inventory Expiry
+ * A date overrides the estimate; null goes back to estimating from the purchase date and location
+ */
+export const updateInventoryExpiry = async (
+  inventoryItem: InventoryItem,
+  expiresAt: string | null
+): Promise<boolean> => {
+  try {
+    const itemRef = doc(db, 'user_inventory', inventoryItem.id);
+    if (expiresAt) {
+      await updateDoc(itemRef, { expires_at: isoToTimestamp(expiresAt), expiry_overridden: true });
+    } else {
+      const purchasedAt = inventoryItem.purchasedAt ? new Date(inventoryItem.purchasedAt) : new Date();
+      const estimate = estimateExpiryDate(purchasedAt, inventoryItem.name, inventoryItem.locationName, inventoryItem.category);
+      await updateDoc(itemRef, { expires_at: isoToTimestamp(estimate), expiry_overridden: false });
+    }
+    return true;
+  } catch (e) {
+    console.error("Error updating inventory expiry:", e);
+    return false;
+  }
+};
+
 /**
  * Update Inventory Location
+ * Moving a dated item (e.g. Fridge -> Freezer) re-estimates its expiry unless it was set by hand
  */
 export const updateInventoryLocation = async (
   inventoryItemId: string,
@@ -1326,7 +1931,17 @@ export const updateInventoryLocation = async (
 ): Promise<boolean> => {
   try {
     const itemRef = doc(db, 'user_inventory', inventoryItemId);
-    await updateDoc(itemRef, { location_id: newLocationId });
+    const itemSnap = await getDoc(itemRef);
+    const row = itemSnap.exists() ? itemSnap.data() : null;
+
+    if (row?.purchased_at && !row.expiry_overridden) {
+      const locationSnap = newLocationId ? await getDoc(doc(db, 'locations', newLocationId)) : null;
+      const locationName = locationSnap?.exists() ? locationSnap.data().name : undefined;
+      const estimate = estimateExpiryDate(new Date(timestampToISO(row.purchased_at)), row.ingredient_name || '', locationName);
+      await updateDoc(itemRef, { location_id: newLocationId, expires_at: isoToTimestamp(estimate) });
+    } else {
+      await updateDoc(itemRef, { location_id: newLocationId });
+    }
     return true;
   } catch (e) {
     console.error("Error updating inventory location:", e);
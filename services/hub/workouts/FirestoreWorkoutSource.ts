@@ -0,0 +1,71 @@
+/**
+ * Firestore Workout Source
+ * Reads the Hub's shared `workouts` collection (written by the Trainer app).
+ * Documents use the Hub's snake_case fields; the Supabase-era names
+ * (total_duration, trainer_type) are still accepted as fallbacks.
+ */
+
+import { collection, getDocs, query, where, orderBy, limit, Timestamp } from 'firebase/firestore';
+import { db } from '../../../src/lib/firebase';
+import { estimateWorkoutCalories } from './WorkoutSource';
+import type { WorkoutSource, WorkoutQuery } from './WorkoutSource';
+import type { WorkoutSummary, WorkoutIntensity } from '../../../types';
+
+const DEFAULT_LIMIT = 10;
+const INTENSITIES: WorkoutIntensity[] = ['low', 'moderate', 'high'];
+
+const toIso = (value: any): string | null => {
+  if (!value) return null;
+  if (typeof value.toDate === 'function') return value.toDate().toISOString();
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const toNumber = (value: any): number | null => {
+  const n = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+/**
+ * Maps a Hub workout document onto a WorkoutSummary.
+ * Returns null for documents without a completion time or duration.
+ */
+export const toWorkoutSummary = (id: string, data: Record<string, any>): WorkoutSummary | null => {
+  const completedAt = toIso(data.completed_at ?? data.created_at);
+  const durationMinutes = toNumber(data.duration_minutes ?? data.total_duration);
+  if (!completedAt || !durationMinutes) return null;
+
+  const type = String(data.workout_type || data.trainer_type || 'Workout');
+  const intensity = INTENSITIES.find(i => i === String(data.intensity || '').toLowerCase());
+  const calories = toNumber(data.calories_burned);
+
+  return {
+    id,
+    title: String(data.title || data.name || type),
+    type,
+    completedAt,
+    durationMinutes: Math.round(durationMinutes),
+    caloriesBurned: calories !== null ? Math.round(calories) : estimateWorkoutCalories(type, durationMinutes, intensity),
+    caloriesEstimated: calories === null,
+    intensity,
+    muscleGroups: Array.isArray(data.muscle_groups) ? data.muscle_groups.map(String) : undefined
+  };
+};
+
+export class FirestoreWorkoutSource implements WorkoutSource {
+  readonly id = 'firestore';
+
+  async getRecentWorkouts(userId: string, options: WorkoutQuery = {}): Promise<WorkoutSummary[]> {
+    const constraints = [
+      where('user_id', '==', userId),
+      ...(options.since ? [where('completed_at', '>=', Timestamp.fromDate(options.since))] : []),
+      orderBy('completed_at', 'desc'),
+      limit(options.limit || DEFAULT_LIMIT)
+    ];
+    const snapshot = await getDocs(query(collection(db, 'workouts'), ...constraints));
+
+    return snapshot.docs
+      .map(d => toWorkoutSummary(d.id, d.data()))
+      .filter((w): w is WorkoutSummary => w !== null);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Local Workout Source
+ * Deterministic, network-free stand-in for the Hub.
+ * Used for offline development and tests; select it with VITE_WORKOUT_SOURCE=local.
+ */
+
+import { estimateWorkoutCalories } from './WorkoutSource';
+import type { WorkoutSource, WorkoutQuery } from './WorkoutSource';
+import type { WorkoutSummary } from '../../../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Completed hoursAgo before "now", so recent-window queries always have something to return
+const FIXTURE_WORKOUTS: Array<Omit<WorkoutSummary, 'completedAt'> & { hoursAgo: number }> = [
+  { id: 'local-workout-1', title: 'Upper Body Push', type: 'Strength', hoursAgo: 2, durationMinutes: 55, caloriesBurned: 320, caloriesEstimated: false, intensity: 'high', muscleGroups: ['Chest', 'Shoulders', 'Triceps'] },
+  { id: 'local-workout-2', title: 'Easy 5K', type: 'Running', hoursAgo: 26, durationMinutes: 32, caloriesBurned: estimateWorkoutCalories('Running', 32, 'moderate'), caloriesEstimated: true, intensity: 'moderate' },
+  { id: 'local-workout-3', title: 'Mobility Flow', type: 'Yoga', hoursAgo: 50, durationMinutes: 30, caloriesBurned: estimateWorkoutCalories('Yoga', 30, 'low'), caloriesEstimated: true, intensity: 'low' }
+];
+
+export class LocalWorkoutSource implements WorkoutSource {
+  readonly id = 'local';
+
+  /**
+   * @param now - Clock the fixture times are relative to (fixed in tests)
+   */
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  async getRecentWorkouts(_userId: string, options: WorkoutQuery = {}): Promise<WorkoutSummary[]> {
+    const now = this.now().getTime();
+    const workouts = FIXTURE_WORKOUTS.map(({ hoursAgo, ...workout }) => ({
+      ...workout,
+      completedAt: new Date(now - hoursAgo * HOUR_MS).toISOString()
+    }));
+
+    return workouts
+      .filter(w => !options.since || new Date(w.completedAt) >= options.since)
+      .slice(0, options.limit || workouts.length);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Workout Source
+ * Contract for reading completed workouts from the Hub so the app never depends
+ * on how the Trainer app stores them
+ */
+
+import type { WorkoutSummary, WorkoutIntensity } from '../../../types';
+
+export interface WorkoutQuery {
+  since?: Date;   // Only workouts completed at or after this time
+  limit?: number; // Most recent first
+}
+
+export interface WorkoutSource {
+  /** Stable identifier used in configuration (e.g. "firestore", "local") */
+  readonly id: string;
+
+  /** Returns the user's completed workouts, most recent first */
+  getRecentWorkouts(userId: string, query?: WorkoutQuery): Promise<WorkoutSummary[]>;
+}
+
+// Rough metabolic equivalents per workout type, used when the Hub has no calorie reading
+const MET_BY_TYPE: Array<{ pattern: RegExp; met: number }> = [
+  { pattern: /hiit|interval|crossfit|circuit/i, met: 8 },
+  { pattern: /run|jog|sprint/i, met: 9.8 },
+  { pattern: /cycl|bike|spin/i, met: 7.5 },
+  { pattern: /swim|row/i, met: 7 },
+  { pattern: /strength|weight|lift|resistance|push|pull|leg/i, met: 5 },
+  { pattern: /walk|hike/i, met: 3.8 },
+  { pattern: /yoga|pilates|stretch|mobility|recovery/i, met: 2.8 }
+];
+const DEFAULT_MET = 5;
+const INTENSITY_FACTOR: Record<WorkoutIntensity, number> = { low: 0.8, moderate: 1, high: 1.2 };
+const DEFAULT_BODY_WEIGHT_KG = 70;
+
+/**
+ * Estimates energy expenditure (kcal) as MET x body weight (kg) x hours
+ */
+export const estimateWorkoutCalories = (
+  type: string,
+  durationMinutes: number,
+  intensity?: WorkoutIntensity,
+  bodyWeightKg: number = DEFAULT_BODY_WEIGHT_KG
+): number => {
+  const met = MET_BY_TYPE.find(m => m.pattern.test(type))?.met ?? DEFAULT_MET;
+  const factor = intensity ? INTENSITY_FACTOR[intensity] : 1;
+  return Math.round(met * factor * bodyWeightKg * (durationMinutes / 60));
+};
@@ -0,0 +1,51 @@
+/**
+ * Hub Workout Layer
+ * Central access point for the configured WorkoutSource.
+ *
+ * Selection (first match wins):
+ * 1. setWorkoutSource() - tests inject a source directly
+ * 2. VITE_WORKOUT_SOURCE env var - "firestore" (default) or "local"
+ */
+
+import type { WorkoutSource } from './WorkoutSource';
+import { FirestoreWorkoutSource } from './FirestoreWorkoutSource';
+import { LocalWorkoutSource } from './LocalWorkoutSource';
+
+export type { WorkoutSource, WorkoutQuery } from './WorkoutSource';
+export { estimateWorkoutCalories } from './WorkoutSource';
+export { FirestoreWorkoutSource, toWorkoutSummary } from './FirestoreWorkoutSource';
+export { LocalWorkoutSource } from './LocalWorkoutSource';
+
+export type WorkoutSourceId = 'firestore' | 'local';
+
+let activeSource: WorkoutSource | null = null;
+
+/**
+ * Reads the source id from configuration, defaulting to the Hub's Firestore collection
+ */
+export const getConfiguredWorkoutSourceId = (): WorkoutSourceId => {
+  const configured = import.meta.env?.VITE_WORKOUT_SOURCE?.toLowerCase();
+  if (configured === 'local') return 'local';
+  if (configured && configured !== 'firestore') {
+    console.warn(`⚠️ Unknown VITE_WORKOUT_SOURCE "${configured}", falling back to firestore`);
+  }
+  return 'firestore';
+};
+
+/**
+ * Returns the active source, creating it from configuration on first use
+ */
+export const getWorkoutSource = (): WorkoutSource => {
+  if (!activeSource) {
+    activeSource = getConfiguredWorkoutSourceId() === 'local' ? new LocalWorkoutSource() : new FirestoreWorkoutSource();
+    console.log(`💪 Workout source: ${activeSource.id}`);
+  }
+  return activeSource;
+};
+
+/**
+ * Overrides the active source (pass null to go back to configuration)
+ */
+export const setWorkoutSource = (source: WorkoutSource | null): void => {
+  activeSource = source;
+};
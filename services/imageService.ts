@@ -3,7 +3,7 @@
  */
 
 import { storage } from '../src/lib/firebase';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
 import { resizeImage } from '../utils/imageResizer';
 
 const MAX_IMAGE_WIDTH = 1920;
@@ -115,6 +115,23 @@ export async function uploadRecipeImage(
   }
 }
 
+/**
+ * Deletes an uploaded recipe image from Firebase Storage, e.g. when the save it was uploaded for fails
+ * @param imageUrl - Download URL returned by uploadRecipeImage
+ * @returns true if the image was deleted
+ */
+export async function deleteRecipeImage(imageUrl: string): Promise<boolean> {
+  if (!isStorageUrl(imageUrl)) return false;
+  try {
+    await deleteObject(ref(storage, imageUrl));
+    console.log('🗑️ [Phase 3] Deleted unused recipe image from Storage');
+    return true;
+  } catch (error: any) {
+    console.warn('⚠️ [Phase 3] Could not delete recipe image:', error?.message || String(error));
+    return false;
+  }
+}
+
 /**
  * Legacy support for existing code that uses uploadRecipeImageToStorage
  */
@@ -0,0 +1,89 @@
+/**
+ * Gemini Provider
+ * Google Gemini implementation of RecipeModelProvider (via @google/genai)
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import type { ModelRequest, RecipeModelProvider } from './RecipeModelProvider';
+
+const STORAGE_KEY = 'GEMINI_API_KEY';
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+// Get API key from environment
+const getDefaultKey = (): string => {
+  try {
+    if (typeof import.meta !== 'undefined' && import.meta.env?.VITE_GEMINI_API_KEY) {
+      return import.meta.env.VITE_GEMINI_API_KEY;
+    }
+  } catch (e) { /* ignore */ }
+  return '';
+};
+
+export class GeminiProvider implements RecipeModelProvider {
+  readonly id = 'gemini';
+  private apiKey: string;
+
+  constructor(apiKey?: string) {
+    this.apiKey = apiKey
+      ?? (typeof window !== 'undefined' ? localStorage.getItem(STORAGE_KEY) || getDefaultKey() : getDefaultKey());
+  }
+
+  /**
+   * Update the API key (persisted to localStorage in the browser)
+   */
+  setApiKey(key: string): void {
+    this.apiKey = key;
+    if (typeof window !== 'undefined') localStorage.setItem(STORAGE_KEY, key);
+  }
+
+  getApiKey(): string {
+    return this.apiKey;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  private buildTextParams(request: ModelRequest) {
+    return {
+      model: TEXT_MODEL,
+      contents: request.prompt,
+      config: {
+        systemInstruction: request.systemInstruction,
+        responseMimeType: request.responseMimeType,
+        responseSchema: request.responseSchema,
+        temperature: request.temperature,
+      },
+    };
+  }
+
+  async generateText(request: ModelRequest): Promise<string> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    const response = await ai.models.generateContent(this.buildTextParams(request));
+    return response.text || '';
+  }
+
+  async *streamText(request: ModelRequest): AsyncIterable<string> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    const stream = await ai.models.generateContentStream(this.buildTextParams(request));
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+
+  async generateImage(prompt: string): Promise<string | null> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    const response = await ai.models.generateContent({
+      model: IMAGE_MODEL,
+      contents: { parts: [{ text: prompt }] },
+      config: { imageConfig: { aspectRatio: "16:9" } }
+    });
+
+    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+    if (!part?.inlineData?.data) return null;
+
+    const mimeType = part.inlineData.mimeType || 'image/png';
+    return `data:${mimeType};base64,${part.inlineData.data}`;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Local Fixture Provider
+ * Deterministic, network-free implementation of RecipeModelProvider.
+ * Used for offline development and tests; select it with VITE_MODEL_PROVIDER=local.
+ */
+
+import type { ModelRequest, RecipeModelProvider } from './RecipeModelProvider';
+import { FIXTURE_RECIPE, categorizeFixtureGroceries, refineFixtureRecipe, buildFixtureMealPlanOutline } from './fixtures';
+import type { Recipe, MealSlot } from '../../types';
+
+// Size of each streamed chunk, roughly what a model emits per token batch
+const STREAM_CHUNK_SIZE = 48;
+
+export class LocalFixtureProvider implements RecipeModelProvider {
+  readonly id = 'local';
+
+  /**
+   * @param streamDelayMs - Pause between streamed chunks (0 keeps tests instant; raise it to demo streaming UI)
+   */
+  constructor(private readonly streamDelayMs: number = 0) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generateText(request: ModelRequest): Promise<string> {
+    switch (request.task) {
+      case 'recipe':
+      case 'recipe-repair':
+        return JSON.stringify(FIXTURE_RECIPE);
+      case 'recipe-refine': {
+        const recipe = (request.variables?.recipe as Recipe | undefined) || (FIXTURE_RECIPE as Recipe);
+        const instruction = (request.variables?.instruction as string | undefined) || '';
+        return JSON.stringify(refineFixtureRecipe(recipe, instruction));
+      }
+      case 'meal-plan-outline': {
+        const days = (request.variables?.days as number | undefined) || 7;
+        const mealTypes = (request.variables?.mealTypes as MealSlot[] | undefined) || ['lunch', 'dinner'];
+        return JSON.stringify(buildFixtureMealPlanOutline(days, mealTypes));
+      }
+      case 'grocery-categorization': {
+        const items = (request.variables?.items as string[] | undefined) || [];
+        const locations = (request.variables?.locations as string[] | undefined) || [];
+        return JSON.stringify(categorizeFixtureGroceries(items, locations));
+      }
+      default:
+        throw new Error(`LocalFixtureProvider has no fixture for task: ${request.task}`);
+    }
+  }
+
+  async *streamText(request: ModelRequest): AsyncIterable<string> {
+    const text = await this.generateText(request);
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      if (this.streamDelayMs > 0) await new Promise(resolve => setTimeout(resolve, this.streamDelayMs));
+      yield text.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+  }
+
+  async generateImage(_prompt: string): Promise<string | null> {
+    // No bundled imagery - the UI already handles recipes without an image
+    return null;
+  }
+}
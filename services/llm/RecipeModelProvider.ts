@@ -0,0 +1,43 @@
+/**
+ * Recipe Model Provider
+ * Contract every LLM backend implements so the app never talks to an SDK directly
+ */
+
+import type { Schema } from '@google/genai';
+
+/**
+ * The kinds of requests the app sends to a model.
+ * Offline providers use this to decide which fixture to answer with.
+ */
+export type ModelTask = 'recipe' | 'recipe-repair' | 'recipe-refine' | 'meal-plan-outline' | 'grocery-categorization';
+
+export interface ModelRequest {
+  task: ModelTask;
+  prompt: string;
+  systemInstruction?: string;
+  responseSchema?: Schema; // Only honored by providers that support constrained JSON output
+  responseMimeType?: 'application/json' | 'text/plain';
+  temperature?: number;
+  /**
+   * Structured inputs the prompt was built from.
+   * Lets offline providers answer deterministically without parsing prose.
+   */
+  variables?: Record<string, unknown>;
+}
+
+export interface RecipeModelProvider {
+  /** Stable identifier used in configuration (e.g. "gemini", "local") */
+  readonly id: string;
+
+  /** True when the provider has everything it needs (API key, etc.) to serve requests */
+  isConfigured(): boolean;
+
+  /** Returns the raw text of the model response */
+  generateText(request: ModelRequest): Promise<string>;
+
+  /** Yields the model response as text chunks, in order, as they are produced */
+  streamText(request: ModelRequest): AsyncIterable<string>;
+
+  /** Returns an image as a data URL, or null if the provider cannot produce one */
+  generateImage(prompt: string): Promise<string | null>;
+}
@@ -0,0 +1,174 @@
+/**
+ * Model Fixtures
+ * Canned responses served by the local provider for offline development and tests
+ */
+
+import type { Recipe, MealSlot } from '../../types';
+
+/**
+ * A complete, schema-valid recipe in the exact shape Gemini is asked to return.
+ * chefPersona and cuisine are hydrated by the caller, as with real responses.
+ */
+export const FIXTURE_RECIPE: Omit<Recipe, 'chefPersona' | 'cuisine'> = {
+  title: "Lemon Herb Chicken with Garlic Greens",
+  description: "Pan-seared chicken thighs finished with lemon and thyme, served over wilted garlicky spinach.",
+  difficulty: "Easy",
+  chefNote: "Let the chicken rest for five minutes before slicing so the juices stay put.",
+  totalTime: 35,
+  calories: 420,
+  sections: [
+    {
+      type: "Overview",
+      title: "Info",
+      items: ["Prep: 10 min", "Cook: 25 min", "Serves: 2"],
+      metadata: {}
+    },
+    {
+      type: "Ingredients",
+      title: "Mise en Place",
+      items: [
+        "4 boneless chicken thighs",
+        "1 lemon, zested and juiced",
+        "2 tbsp olive oil",
+        "3 cloves garlic, sliced",
+        "6 cups baby spinach",
+        "1 tsp fresh thyme leaves"
+      ],
+      ingredients: [
+        { item: "Chicken Thigh", quantity: "4", unit: "count", prep: "boneless, skinless" },
+        { item: "Lemon", quantity: "1", unit: "whole", prep: "zested and juiced" },
+        { item: "Olive Oil", quantity: "2", unit: "tbsp", prep: "divided" },
+        { item: "Garlic", quantity: "3", unit: "cloves", prep: "thinly sliced" },
+        { item: "Baby Spinach", quantity: "6", unit: "cups", prep: "washed" },
+        { item: "Thyme", quantity: "1", unit: "tsp", prep: "leaves picked" }
+      ],
+      metadata: {}
+    },
+    {
+      type: "Instructions",
+      title: "Step 1: Season",
+      items: ["Pat the chicken dry and season both sides with salt, pepper, lemon zest and thyme."],
+      metadata: { timer: "5 mins", technique: "Dry Brine" }
+    },
+    {
+      type: "Instructions",
+      title: "Step 2: Sear",
+      items: ["Heat 1 tbsp olive oil in a skillet over medium-high heat and sear the chicken until golden and cooked through."],
+      metadata: { timer: "12 mins", technique: "High Heat" }
+    },
+    {
+      type: "Instructions",
+      title: "Step 3: Wilt the Greens",
+      items: ["Lower the heat, add the remaining oil and garlic, then toss the spinach until just wilted. Finish with lemon juice and serve with the chicken."],
+      metadata: { timer: "4 mins", technique: "Sauté" }
+    }
+  ]
+};
+
+// Rotating dishes for the meal plan outline, all built from FIXTURE_SHARED_INGREDIENTS
+const FIXTURE_SHARED_INGREDIENTS = ['Chicken Thigh', 'Baby Spinach', 'Lemon', 'Garlic', 'Olive Oil', 'Brown Rice', 'Greek Yogurt'];
+const FIXTURE_PLAN_DISHES: Record<MealSlot, Array<{ title: string; keyIngredients: string[] }>> = {
+  breakfast: [
+    { title: 'Lemon Yogurt Bowl', keyIngredients: ['Greek Yogurt', 'Lemon'] },
+    { title: 'Spinach Scramble', keyIngredients: ['Baby Spinach', 'Garlic', 'Olive Oil'] },
+  ],
+  lunch: [
+    { title: 'Chicken Rice Bowl', keyIngredients: ['Chicken Thigh', 'Brown Rice', 'Baby Spinach'] },
+    { title: 'Garlic Spinach Grain Salad', keyIngredients: ['Brown Rice', 'Baby Spinach', 'Lemon'] },
+  ],
+  dinner: [
+    { title: 'Lemon Herb Chicken', keyIngredients: ['Chicken Thigh', 'Lemon', 'Garlic'] },
+    { title: 'Chicken and Greens Skillet', keyIngredients: ['Chicken Thigh', 'Baby Spinach', 'Olive Oil'] },
+  ],
+  snack: [
+    { title: 'Garlic Yogurt Dip', keyIngredients: ['Greek Yogurt', 'Garlic'] },
+  ],
+};
+
+/**
+ * Deterministic week outline: rotates a few dishes per slot around one shared ingredient list
+ */
+export const buildFixtureMealPlanOutline = (days: number, mealTypes: MealSlot[]) => ({
+  title: 'Lemon & Greens Prep Week',
+  sharedIngredients: FIXTURE_SHARED_INGREDIENTS,
+  meals: Array.from({ length: days }, (_, day) =>
+    mealTypes.map(mealType => {
+      const dishes = FIXTURE_PLAN_DISHES[mealType];
+      return { day, mealType, ...dishes[day % dishes.length] };
+    })
+  ).flat()
+});
+
+// Keyword hints used to sort groceries without a model
+const LOCATION_HINTS: Array<{ location: string; keywords: string[] }> = [
+  { location: 'Freezer', keywords: ['frozen', 'ice cream', 'peas'] },
+  { location: 'Fridge', keywords: ['milk', 'cheese', 'yogurt', 'butter', 'egg', 'chicken', 'beef', 'pork', 'fish', 'salmon', 'spinach', 'lettuce', 'lemon', 'cream', 'tofu'] },
+  { location: 'Spice Rack', keywords: ['pepper', 'salt', 'cumin', 'paprika', 'thyme', 'oregano', 'cinnamon', 'spice', 'chili'] },
+];
+
+/**
+ * Deterministic grocery categorization: keyword match, falling back to Pantry (or the first location)
+ */
+export const categorizeFixtureGroceries = (items: string[], locations: string[]): Record<string, string> => {
+  const fallback = locations.find(l => l.toLowerCase() === 'pantry') || locations[0] || 'Pantry';
+  const result: Record<string, string> = {};
+
+  items.forEach(item => {
+    const lower = item.toLowerCase();
+    const hint = LOCATION_HINTS.find(h =>
+      locations.some(l => l.toLowerCase() === h.location.toLowerCase()) &&
+      h.keywords.some(k => lower.includes(k))
+    );
+    result[item] = hint ? locations.find(l => l.toLowerCase() === hint.location.toLowerCase())! : fallback;
+  });
+
+  return result;
+};
+
+const SWAP_PATTERNS = [
+  /(?:swap|switch|substitute)\s+(?:the\s+)?(.+?)\s+(?:for|with|to)\s+(.+)/i,
+  /replace\s+(?:the\s+)?(.+?)\s+with\s+(.+)/i,
+  /use\s+(.+?)\s+instead\s+of\s+(?:the\s+)?(.+)/i,
+];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Deterministic refinement: applies "swap X for Y" style requests as a text substitution,
+ * otherwise records the request in the chef's note
+ */
+export const refineFixtureRecipe = (recipe: Recipe, instruction: string): Recipe => {
+  const text = instruction.trim().replace(/[.!]+$/, '');
+
+  let swap: { from: string; to: string } | null = null;
+  for (const pattern of SWAP_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    // "use Y instead of X" captures the pair in reverse order
+    swap = pattern === SWAP_PATTERNS[2] ? { from: match[2], to: match[1] } : { from: match[1], to: match[2] };
+    break;
+  }
+
+  if (!swap) {
+    return { ...recipe, chefNote: `${recipe.chefNote ? `${recipe.chefNote} ` : ''}Adjusted: ${text}.` };
+  }
+
+  const from = new RegExp(escapeRegExp(swap.from.trim()), 'gi');
+  const to = swap.to.trim();
+  // Keep the capitalization of the word being replaced ("Chicken Thigh" -> "Tofu Thigh")
+  const replace = (value: string): string => value.replace(from, match =>
+    match[0] === match[0].toUpperCase() ? to.charAt(0).toUpperCase() + to.slice(1) : to
+  );
+
+  return {
+    ...recipe,
+    title: replace(recipe.title),
+    description: replace(recipe.description),
+    sections: recipe.sections.map(section => ({
+      ...section,
+      title: replace(section.title),
+      items: section.items.map(replace),
+      ...(section.ingredients ? { ingredients: section.ingredients.map(i => ({ ...i, item: replace(i.item) })) } : {})
+    }))
+  };
+};
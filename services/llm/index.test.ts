@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getConfiguredProviderId, getModelProvider, setModelProvider, GeminiProvider, LocalFixtureProvider } from './index';
+import { FIXTURE_RECIPE } from './fixtures';
+
+describe('model provider selection', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    setModelProvider(null);
+  });
+
+  it('defaults to gemini when VITE_MODEL_PROVIDER is unset', () => {
+    vi.stubEnv('VITE_MODEL_PROVIDER', '');
+    expect(getConfiguredProviderId()).toBe('gemini');
+  });
+
+  it('selects the local provider from configuration', () => {
+    vi.stubEnv('VITE_MODEL_PROVIDER', 'LOCAL');
+    expect(getConfiguredProviderId()).toBe('local');
+    expect(getModelProvider()).toBeInstanceOf(LocalFixtureProvider);
+  });
+
+  it('falls back to gemini for unknown providers', () => {
+    vi.stubEnv('VITE_MODEL_PROVIDER', 'openai');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(getConfiguredProviderId()).toBe('gemini');
+    expect(getModelProvider()).toBeInstanceOf(GeminiProvider);
+  });
+
+  it('prefers an injected provider over configuration', () => {
+    vi.stubEnv('VITE_MODEL_PROVIDER', 'gemini');
+    const injected = new LocalFixtureProvider();
+    setModelProvider(injected);
+    expect(getModelProvider()).toBe(injected);
+  });
+});
+
+describe('LocalFixtureProvider', () => {
+  const provider = new LocalFixtureProvider();
+
+  it('answers recipe requests with the fixture recipe', async () => {
+    const text = await provider.generateText({ task: 'recipe', prompt: '' });
+    expect(JSON.parse(text)).toEqual(FIXTURE_RECIPE);
+  });
+
+  it('streams the same text it generates', async () => {
+    let streamed = '';
+    for await (const chunk of provider.streamText({ task: 'recipe', prompt: '' })) streamed += chunk;
+    expect(streamed).toBe(await provider.generateText({ task: 'recipe', prompt: '' }));
+  });
+
+  it('applies swap requests when refining', async () => {
+    const text = await provider.generateText({
+      task: 'recipe-refine',
+      prompt: '',
+      variables: { recipe: FIXTURE_RECIPE, instruction: 'swap chicken for tofu' }
+    });
+    const refined = JSON.parse(text);
+    expect(refined.title).toBe('Lemon Herb Tofu with Garlic Greens');
+    expect(refined.sections[1].ingredients[0].item).toBe('Tofu Thigh');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * LLM Provider Layer
+ * Central access point for the configured RecipeModelProvider.
+ *
+ * Selection (first match wins):
+ * 1. setModelProvider() - tests inject a provider directly
+ * 2. VITE_MODEL_PROVIDER env var - "gemini" (default) or "local"
+ */
+
+import type { RecipeModelProvider } from './RecipeModelProvider';
+import { GeminiProvider } from './GeminiProvider';
+import { LocalFixtureProvider } from './LocalFixtureProvider';
+
+export type { RecipeModelProvider, ModelRequest, ModelTask } from './RecipeModelProvider';
+export { GeminiProvider } from './GeminiProvider';
+export { LocalFixtureProvider } from './LocalFixtureProvider';
+
+export type ModelProviderId = 'gemini' | 'local';
+
+let geminiProvider: GeminiProvider | null = null;
+let activeProvider: RecipeModelProvider | null = null;
+
+/**
+ * Shared Gemini instance (API key state lives here)
+ */
+export const getGeminiProvider = (): GeminiProvider => {
+  if (!geminiProvider) geminiProvider = new GeminiProvider();
+  return geminiProvider;
+};
+
+/**
+ * Reads the provider id from configuration, defaulting to Gemini
+ */
+export const getConfiguredProviderId = (): ModelProviderId => {
+  const configured = import.meta.env?.VITE_MODEL_PROVIDER?.toLowerCase();
+  if (configured === 'local') return 'local';
+  if (configured && configured !== 'gemini') {
+    console.warn(`⚠️ Unknown VITE_MODEL_PROVIDER "${configured}", falling back to gemini`);
+  }
+  return 'gemini';
+};
+
+const createProvider = (id: ModelProviderId): RecipeModelProvider => {
+  if (id === 'local') return new LocalFixtureProvider();
+  return getGeminiProvider();
+};
+
+/**
+ * Returns the active provider, creating it from configuration on first use
+ */
+export const getModelProvider = (): RecipeModelProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(getConfiguredProviderId());
+    console.log(`🤖 Model provider: ${activeProvider.id}`);
+  }
+  return activeProvider;
+};
+
+/**
+ * Overrides the active provider (pass null to go back to configuration)
+ */
+export const setModelProvider = (provider: RecipeModelProvider | null): void => {
+  activeProvider = provider;
+};
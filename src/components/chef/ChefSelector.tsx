@@ -14,7 +14,7 @@ export function ChefSelector({ onSelectChef, selectedChefId }: ChefSelectorProps
     return (
       <div className="bg-[#f0dc7a]/10 border border-[#f0dc7a]/20 rounded-lg p-4">
         <p className="text-[#f0dc7a] text-sm">
-          ⚠️ No AI chefs available. Check that VITE_GEMINI_API_KEY is configured.
+          ⚠️ No AI chefs available. Check that VITE_GEMINI_API_KEY is configured or set VITE_MODEL_PROVIDER=local.
         </p>
       </div>
     );
@@ -31,6 +31,7 @@ export function ChefSelector({ onSelectChef, selectedChefId }: ChefSelectorProps
         {chefs.map((chef) => (
           <button
             key={chef.id}
+            type="button"
             onClick={() => onSelectChef(chef)}
             className={`
               p-4 rounded-lg border-2 text-left transition-all
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { checkRecipeAllergens, detectAllergens, deriveDietaryTags, mergeDerivedDietaryTags } from './allergenGuard';
+import { FIXTURE_RECIPE } from '../../../services/llm/fixtures';
+import type { Recipe } from '../../../types';
+
+const fixture = { ...FIXTURE_RECIPE, chefPersona: '', cuisine: '' } as Recipe;
+
+const withIngredients = (items: string[], dietaryTags?: string[]): Recipe => ({
+  ...fixture,
+  dietaryTags,
+  sections: [{
+    type: 'Ingredients',
+    title: 'Ingredients',
+    items: [],
+    ingredients: items.map(item => ({ item, quantity: '1', unit: '', prep: '' })),
+    metadata: {}
+  }]
+});
+
+const flagged = (items: string[], rules: Parameters<typeof checkRecipeAllergens>[1]): string[] =>
+  checkRecipeAllergens(withIngredients(items), rules).violations.map(v => v.ingredient);
+
+describe('checkRecipeAllergens: allergy wording', () => {
+  it('resolves entries that mention a group among other words', () => {
+    expect(flagged(['Tahini', 'Toasted sesame oil', 'Lemon'], { allergies: ['Sesame seeds'] })).toEqual(['Tahini', 'Toasted sesame oil']);
+    expect(flagged(['Whole wheat pasta', 'All-purpose flour', 'Rice'], { allergies: ['Celiac disease'] }))
+      .toEqual(['Whole wheat pasta', 'All-purpose flour']);
+  });
+
+  it('reads "tree nut allergy" as tree nuts only, not peanuts', () => {
+    const result = checkRecipeAllergens(withIngredients(['Almonds', 'Peanut sauce']), { allergies: ['tree nut allergy'] });
+    expect(result.violations.map(v => [v.ingredient, v.group])).toEqual([['Almonds', 'tree nut']]);
+  });
+
+  it('falls back to a literal match only when no group matches', () => {
+    expect(flagged(['Kiwi slices', 'Mango'], { allergies: ['Kiwi allergy'] })).toEqual(['Kiwi slices']);
+  });
+
+  it('honors exceptions such as peanut butter for dairy', () => {
+    expect(flagged(['Peanut butter', 'Coconut milk', 'Butter'], { allergies: ['Dairy'] })).toEqual(['Butter']);
+  });
+});
+
+describe('checkRecipeAllergens: safe qualifiers', () => {
+  it('never clears an allergy', () => {
+    expect(flagged(['Vegan butter', 'Dairy-free cheese'], { allergies: ['Milk'] })).toEqual(['Vegan butter', 'Dairy-free cheese']);
+    expect(flagged(['Gluten-free flour'], { allergies: ['Gluten'] })).toEqual(['Gluten-free flour']);
+  });
+
+  it('clears a restriction only for the term the qualifier modifies', () => {
+    expect(flagged(['Vegan butter', 'Plant-based mayo'], { dietaryRestrictions: ['Vegan'] })).toEqual([]);
+    expect(flagged(['Vegan-style parmesan (contains milk)'], { dietaryRestrictions: ['Vegan'] }))
+      .toEqual(['Vegan-style parmesan (contains milk)']);
+  });
+
+  it('does not let "-free" on one word clear the rest of the line', () => {
+    expect(flagged(['Gluten-free flour'], { dietaryRestrictions: ['Gluten-free'] })).toEqual([]);
+    expect(flagged(['Gluten-free oats with wheat flour'], { dietaryRestrictions: ['Gluten-free'] }))
+      .toEqual(['Gluten-free oats with wheat flour']);
+  });
+
+  it('skips restrictions that are not ingredient rules', () => {
+    expect(checkRecipeAllergens(fixture, { dietaryRestrictions: ['Keto'] }).safe).toBe(true);
+  });
+});
+
+describe('detectAllergens', () => {
+  it('lists allergen groups but not diet-only groups', () => {
+    expect(detectAllergens(withIngredients(['Chicken thigh', 'Parmesan', 'Soy sauce']))).toEqual(['dairy', 'soy', 'gluten']);
+    expect(detectAllergens(withIngredients(['Vegan butter']))).toEqual(['dairy']);
+  });
+});
+
+describe('dietary tags', () => {
+  it('derives the tags the ingredients support', () => {
+    const tags = deriveDietaryTags(fixture);
+    expect(tags).toContain('gluten-free');
+    expect(tags).toContain('dairy-free');
+    expect(tags).not.toContain('vegetarian');
+  });
+
+  it('accepts qualified terms for diet tags but not allergen tags', () => {
+    const tags = deriveDietaryTags(withIngredients(['Vegan butter', 'Rice']));
+    expect(tags).toContain('vegan');
+    expect(tags).not.toContain('dairy-free');
+  });
+
+  it('replaces stale derived tags and keeps custom ones', () => {
+    const recipe = withIngredients(['Rice', 'Cheddar'], ['High-Protein', 'Dairy-Free']);
+    const tags = mergeDerivedDietaryTags(recipe);
+    expect(tags).toContain('High-Protein');
+    expect(tags).not.toContain('Dairy-Free');
+    expect(tags).not.toContain('dairy-free');
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Allergen Guard
+ * Post-checks generated recipes against the profile's allergies and dietary restrictions.
+ * Ingredients are matched against a synonym/derivative table (e.g. "whey" -> dairy,
+ * "tahini" -> sesame), so conflicts are caught even when the model never names the allergen.
+ */
+
+import type { Recipe, AllergenViolation } from '../../../types';
+
+interface FoodGroup {
+  id: string;
+  isAllergen: boolean;        // Reported in Recipe.allergens (meat/poultry/etc. are diet-only groups)
+  aliases: string[];          // How users write the group in their profile
+  terms: string[];            // Ingredient words, synonyms and derivatives that contain the group
+  exceptions?: string[];      // Phrases that look like a match but are safe, e.g. "peanut butter" for dairy
+  safeQualifiers?: string[];  // Words that make the term right after them diet-safe, e.g. "vegan butter"
+}
+
+const PLANT_BASED = ['vegan', 'plant-based', 'plant based'];
+const MEATLESS = [...PLANT_BASED, 'vegetarian', 'meatless', 'meat-free'];
+
+const FOOD_GROUPS: FoodGroup[] = [
+  {
+    id: 'dairy',
+    isAllergen: true,
+    aliases: ['dairy', 'milk', 'lactose', 'casein', 'whey', 'cheese'],
+    terms: [
+      'milk', 'cheese', 'butter', 'cream', 'yogurt', 'yoghurt', 'whey', 'casein', 'caseinate', 'ghee',
+      'lactose', 'buttermilk', 'kefir', 'custard', 'parmesan', 'parmigiano', 'mozzarella', 'cheddar',
+      'feta', 'ricotta', 'mascarpone', 'halloumi', 'paneer', 'brie', 'gouda', 'gruyere', 'creme fraiche',
+      'crème fraîche', 'quark', 'labneh', 'tzatziki', 'bechamel', 'béchamel', 'alfredo'
+    ],
+    exceptions: [
+      'peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'sunflower seed butter', 'cocoa butter',
+      'apple butter', 'butter bean', 'butter lettuce', 'coconut milk', 'coconut cream', 'almond milk',
+      'oat milk', 'soy milk', 'rice milk', 'cashew milk', 'cream of tartar'
+    ],
+    safeQualifiers: PLANT_BASED
+  },
+  {
+    id: 'egg',
+    isAllergen: true,
+    aliases: ['egg'],
+    terms: ['egg', 'egg white', 'egg yolk', 'mayonnaise', 'mayo', 'aioli', 'meringue', 'albumen', 'albumin', 'hollandaise'],
+    safeQualifiers: PLANT_BASED
+  },
+  {
+    id: 'peanut',
+    isAllergen: true,
+    aliases: ['peanut', 'groundnut', 'nut'],
+    terms: ['peanut', 'groundnut', 'monkey nut', 'arachis oil', 'satay']
+  },
+  {
+    id: 'tree nut',
+    isAllergen: true,
+    aliases: ['tree nut', 'nut'],
+    terms: [
+      'almond', 'cashew', 'walnut', 'pecan', 'pistachio', 'hazelnut', 'macadamia', 'brazil nut', 'pine nut',
+      'chestnut', 'praline', 'marzipan', 'frangipane', 'nougat', 'gianduja', 'nutella', 'pesto', 'amaretto'
+    ]
+  },
+  {
+    id: 'soy',
+    isAllergen: true,
+    aliases: ['soy', 'soya', 'soybean'],
+    terms: ['soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari', 'natto', 'teriyaki', 'hoisin', 'shoyu']
+  },
+  {
+    id: 'gluten',
+    isAllergen: true,
+    aliases: ['gluten', 'wheat', 'celiac', 'coeliac'],
+    terms: [
+      'wheat', 'flour', 'bread', 'breadcrumb', 'panko', 'pasta', 'spaghetti', 'linguine', 'fettuccine', 'penne',
+      'macaroni', 'lasagna', 'orzo', 'couscous', 'noodle', 'udon', 'ramen', 'barley', 'rye', 'malt', 'semolina',
+      'bulgur', 'farro', 'spelt', 'seitan', 'durum', 'farina', 'cracker', 'crouton', 'pita', 'naan', 'beer',
+      'soy sauce', 'graham'
+    ],
+    exceptions: [
+      'almond flour', 'coconut flour', 'rice flour', 'chickpea flour', 'corn flour', 'tapioca flour', 'potato flour',
+      'cassava flour', 'rice noodle', 'rice pasta', 'chickpea pasta', 'lentil pasta', 'glass noodle', 'kelp noodle',
+      'zucchini noodle'
+    ]
+  },
+  {
+    id: 'fish',
+    isAllergen: true,
+    aliases: ['fish', 'seafood'],
+    terms: [
+      'fish', 'salmon', 'tuna', 'cod', 'halibut', 'tilapia', 'trout', 'sardine', 'anchovy', 'anchovies',
+      'mackerel', 'haddock', 'snapper', 'bass', 'swordfish', 'mahi mahi', 'pollock', 'herring', 'bonito',
+      'dashi', 'worcestershire', 'caesar dressing'
+    ],
+    exceptions: ['fish-free']
+  },
+  {
+    id: 'shellfish',
+    isAllergen: true,
+    aliases: ['shellfish', 'crustacean', 'mollusk', 'mollusc', 'seafood'],
+    terms: [
+      'shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'crawfish', 'langoustine', 'scallop', 'clam',
+      'mussel', 'oyster', 'squid', 'calamari', 'octopus'
+    ]
+  },
+  {
+    id: 'sesame',
+    isAllergen: true,
+    aliases: ['sesame'],
+    terms: ['sesame', 'tahini', 'benne', 'halva', 'halvah', 'gomasio', "za'atar", 'zaatar', 'hummus']
+  },
+  {
+    id: 'meat',
+    isAllergen: false,
+    aliases: ['meat', 'red meat', 'beef'],
+    terms: [
+      'meat', 'meatball', 'beef', 'steak', 'veal', 'lamb', 'mutton', 'venison', 'bison', 'goat', 'brisket',
+      'sirloin', 'ribeye', 'sausage', 'gelatin', 'gelatine'
+    ],
+    safeQualifiers: MEATLESS
+  },
+  {
+    id: 'poultry',
+    isAllergen: false,
+    aliases: ['poultry', 'chicken'],
+    terms: ['chicken', 'turkey', 'duck', 'goose', 'quail', 'hen'],
+    safeQualifiers: MEATLESS
+  },
+  {
+    id: 'pork',
+    isAllergen: false,
+    aliases: ['pork'],
+    terms: ['pork', 'bacon', 'ham', 'prosciutto', 'pancetta', 'chorizo', 'salami', 'pepperoni', 'lard', 'guanciale'],
+    safeQualifiers: MEATLESS
+  },
+  {
+    id: 'honey',
+    isAllergen: false,
+    aliases: ['honey'],
+    terms: ['honey']
+  }
+];
+
+// Dietary restrictions expressed as the food groups they exclude
+const DIETARY_RESTRICTIONS: Record<string, string[]> = {
+  'vegetarian': ['meat', 'poultry', 'pork', 'fish', 'shellfish'],
+  'vegan': ['meat', 'poultry', 'pork', 'fish', 'shellfish', 'dairy', 'egg', 'honey'],
+  'plant-based': ['meat', 'poultry', 'pork', 'fish', 'shellfish', 'dairy', 'egg', 'honey'],
+  'pescatarian': ['meat', 'poultry', 'pork'],
+  'pescetarian': ['meat', 'poultry', 'pork'],
+  'kosher': ['pork', 'shellfish'],
+  'halal': ['pork'],
+};
+
+export interface DietaryRules {
+  allergies?: string[];
+  dietaryRestrictions?: string[];
+}
+
+export interface AllergenCheckResult {
+  safe: boolean;
+  allergens: string[];             // Every allergen group found in the recipe
+  violations: AllergenViolation[]; // Ingredients that conflict with the rules
+}
+
+export class AllergenViolationError extends Error {
+  readonly violations: AllergenViolation[];
+
+  constructor(violations: AllergenViolation[]) {
+    super(`Recipe blocked: ${violations.map(describeViolation).join('; ')}`);
+    this.name = 'AllergenViolationError';
+    this.violations = violations;
+  }
+}
+
+export const describeViolation = (v: AllergenViolation): string =>
+  v.group === v.rule.toLowerCase()
+    ? `${v.ingredient} contains ${v.group}`
+    : `${v.ingredient} contains ${v.group} (${v.rule})`;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match that also accepts simple plurals ("egg" -> "eggs", "peach" -> "peaches")
+const termPattern = (term: string, flags = ''): RegExp =>
+  new RegExp(`(^|[^a-z])(${escapeRegExp(term)})(e?s)?(?![a-z])`, flags);
+
+const containsTerm = (text: string, term: string): boolean => termPattern(term).test(text);
+
+// Every alias, longest first, so "tree nut" is matched before the "nut" inside it
+const ALIASES = Array.from(new Set(FOOD_GROUPS.flatMap(g => g.aliases))).sort((a, b) => b.length - a.length);
+
+/**
+ * Strips phrasing like "allergy", "intolerant" or "-free" from a profile entry
+ */
+const normalizeRule = (rule: string): string =>
+  rule
+    .toLowerCase()
+    .replace(/\b(allergy|allergies|allergic to|intolerance|intolerant|sensitivity|no|avoid)\b/g, ' ')
+    .replace(/[-\s]free\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Groups whose aliases appear anywhere in a profile entry ("Sesame seeds" -> sesame,
+ * "Celiac disease" -> gluten). A matched alias is blanked out so "tree nuts" doesn't also read as "nuts".
+ */
+const resolveGroups = (rule: string): FoodGroup[] => {
+  let remaining = normalizeRule(rule);
+  const matched = new Set<string>();
+  ALIASES.forEach(alias => {
+    if (!containsTerm(remaining, alias)) return;
+    FOOD_GROUPS.filter(g => g.aliases.includes(alias)).forEach(g => matched.add(g.id));
+    remaining = remaining.replace(termPattern(alias, 'g'), '$1 ');
+  });
+  return FOOD_GROUPS.filter(g => matched.has(g.id));
+};
+
+// Qualifiers that make a term diet-safe when they come right before it: "vegan butter", "gluten-free flour"
+const getSafeQualifiers = (group: FoodGroup): string[] =>
+  [...(group.safeQualifiers || []), `${group.id}-free`, `${group.id} free`, `non-${group.id}`];
+
+const isQualified = (textBefore: string, qualifiers: string[]): boolean =>
+  qualifiers.some(q => new RegExp(`(^|[^a-z])${escapeRegExp(q)}[\\s-]+$`).test(textBefore));
+
+/**
+ * Finds the first term of a group present in an ingredient, honoring exceptions. With allowQualifiers
+ * (dietary restrictions only - never allergies), a term directly preceded by a safe qualifier doesn't count.
+ */
+const matchGroup = (text: string, group: FoodGroup, allowQualifiers = false): string | null => {
+  let remaining = text;
+  group.exceptions?.forEach(phrase => {
+    remaining = remaining.replace(new RegExp(`${escapeRegExp(phrase)}(e?s)?`, 'g'), ' ');
+  });
+  const qualifiers = allowQualifiers ? getSafeQualifiers(group) : [];
+
+  return group.terms.find(term =>
+    Array.from(remaining.matchAll(termPattern(term, 'g'))).some(match =>
+      !isQualified(remaining.slice(0, match.index! + match[1].length), qualifiers)
+    )
+  ) ?? null;
+};
+
+/**
+ * Collects every ingredient line: structured ingredient names plus the legacy text list
+ */
+const collectIngredients = (recipe: Recipe): string[] => {
+  const lines: string[] = [];
+  recipe.sections
+    .filter(s => s.type === 'Ingredients')
+    .forEach(section => {
+      section.ingredients?.forEach(ing => lines.push(ing.item));
+      section.items?.forEach(item => lines.push(item));
+    });
+  return lines.filter(line => line && line.trim());
+};
+
+/**
+ * Lists the allergen groups present in a recipe (for Recipe.allergens)
+ */
+export function detectAllergens(recipe: Recipe): string[] {
+  const ingredients = collectIngredients(recipe).map(i => i.toLowerCase());
+  return FOOD_GROUPS
+    .filter(g => g.isAllergen && ingredients.some(text => matchGroup(text, g)))
+    .map(g => g.id);
+}
+
+// Tags that follow from which food groups a recipe leaves out
+const DERIVED_DIETARY_TAGS: Record<string, string[]> = {
+  'gluten-free': ['gluten'],
+  'dairy-free': ['dairy'],
+  'egg-free': ['egg'],
+  'soy-free': ['soy'],
+  'nut-free': ['peanut', 'tree nut'],
+  'vegetarian': DIETARY_RESTRICTIONS['vegetarian'],
+  'vegan': DIETARY_RESTRICTIONS['vegan'],
+  'pescatarian': DIETARY_RESTRICTIONS['pescatarian']
+};
+
+const toTagKey = (tag: string): string => tag.toLowerCase().trim().replace(/[\s_]+/g, '-');
+
+/**
+ * Dietary tags the ingredients support ("gluten-free", "vegetarian"), as far as the food-group
+ * table can tell. Recipes without ingredients get none.
+ */
+export function deriveDietaryTags(recipe: Recipe): string[] {
+  const ingredients = collectIngredients(recipe).map(i => i.toLowerCase());
+  if (ingredients.length === 0) return [];
+  const findPresent = (allowQualifiers: boolean) => new Set(
+    FOOD_GROUPS.filter(g => ingredients.some(text => matchGroup(text, g, allowQualifiers))).map(g => g.id)
+  );
+  // Diet tags accept "vegan butter"; allergen tags ("dairy-free") don't
+  const presentForDiet = findPresent(true);
+  const presentForAllergens = findPresent(false);
+
+  return Object.entries(DERIVED_DIETARY_TAGS)
+    .filter(([tag, groups]) => {
+      const present = tag in DIETARY_RESTRICTIONS ? presentForDiet : presentForAllergens;
+      return !groups.some(id => present.has(id));
+    })
+    .map(([tag]) => tag);
+}
+
+/**
+ * The recipe's tags with the derivable ones replaced by what its ingredients support now, so a
+ * generated recipe gains "gluten-free" and an edit that adds cheese loses "dairy-free".
+ * Other tags ("high-protein", "keto") are kept as they are.
+ */
+export function mergeDerivedDietaryTags(recipe: Recipe): string[] {
+  const custom = (recipe.dietaryTags || []).filter(tag => tag.trim() && !(toTagKey(tag) in DERIVED_DIETARY_TAGS));
+  return Array.from(new Set([...custom, ...deriveDietaryTags(recipe)]));
+}
+
+/**
+ * Scans every ingredient against the user's allergies and dietary restrictions.
+ * Allergies the table doesn't know (e.g. "kiwi") fall back to a literal match;
+ * unrecognized restrictions (e.g. "keto") aren't ingredient rules and are skipped.
+ * Safe qualifiers ("vegan butter") only clear restrictions; allergies always match the term.
+ */
+export function checkRecipeAllergens(recipe: Recipe, rules: DietaryRules): AllergenCheckResult {
+  const checks: Array<{ rule: string; kind: AllergenViolation['kind']; groups: FoodGroup[] }> = [];
+
+  (rules.allergies || []).filter(a => a && a.trim()).forEach(rule => {
+    const groups = resolveGroups(rule);
+    const literal = normalizeRule(rule);
+    if (groups.length === 0 && literal) {
+      groups.push({ id: literal, isAllergen: true, aliases: [literal], terms: [literal] });
+    }
+    checks.push({ rule, kind: 'allergy', groups });
+  });
+
+  (rules.dietaryRestrictions || []).filter(r => r && r.trim()).forEach(rule => {
+    const restricted = DIETARY_RESTRICTIONS[normalizeRule(rule)];
+    const groups = restricted
+      ? FOOD_GROUPS.filter(g => restricted.includes(g.id))
+      : resolveGroups(rule);
+    if (groups.length > 0) checks.push({ rule, kind: 'restriction', groups });
+  });
+
+  const violations: AllergenViolation[] = [];
+  const seen = new Set<string>();
+
+  collectIngredients(recipe).forEach(ingredient => {
+    const text = ingredient.toLowerCase();
+    checks.forEach(({ rule, kind, groups }) => {
+      groups.forEach(group => {
+        const matchedTerm = matchGroup(text, group, kind === 'restriction');
+        if (!matchedTerm) return;
+        const key = `${text}|${group.id}|${rule}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        violations.push({ ingredient, rule, kind, group: group.id, matchedTerm });
+      });
+    });
+  });
+
+  return {
+    safe: violations.length === 0,
+    allergens: detectAllergens(recipe),
+    violations
+  };
+}
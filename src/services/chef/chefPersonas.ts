@@ -9,6 +9,7 @@ export interface ChefPersona {
   description: string;
   specialization: string;
   systemPrompt: string;
+  focusOptions: string[]; // Cuisine / style choices offered in the check-in form
 }
 
 export const CHEF_PERSONAS: ChefPersona[] = [
@@ -27,6 +28,7 @@ Focus on:
 - Performance optimization through nutrition
 
 Generate recipes that support athletic performance and recovery.`,
+    focusOptions: ['Balanced Macros', 'Post-Workout Recovery', 'Pre-Workout Fuel', 'Lean Bulk'],
   },
   {
     id: 'gemini-meal-prep',
@@ -43,6 +45,7 @@ Focus on:
 - Ingredient optimization to minimize waste
 
 Generate recipes that are perfect for meal prepping and can be stored for 3-5 days.`,
+    focusOptions: ['Meal Prep Batches', 'Freezer Friendly', 'Slow Cooker/Stews', 'Grain Bowls'],
   },
   {
     id: 'gemini-quick-meals',
@@ -59,6 +62,7 @@ Focus on:
 - Minimal cleanup
 
 Generate recipes that are quick, easy, and delicious without sacrificing nutrition.`,
+    focusOptions: ['One-Pan Meals', '5-Ingredient Recipes', 'Air Fryer', '15-Minute Dinners'],
   },
   {
     id: 'gemini-plant-based',
@@ -75,6 +79,7 @@ Focus on:
 - Vitamin B12 and iron considerations
 
 Generate creative, satisfying plant-based recipes that are nutritionally complete.`,
+    focusOptions: ['Vegan/Vegetarian', 'Raw Foods', 'Ayurvedic Inspired', 'Plant Protein Bowls'],
   },
   {
     id: 'gemini-keto',
@@ -91,6 +96,7 @@ Focus on:
 - Macro tracking
 
 Generate keto-compliant recipes with detailed macro breakdowns.`,
+    focusOptions: ['Keto Comfort Food', 'Low-Carb Swaps', 'High-Fat Breakfasts', 'Fat Bombs & Snacks'],
   },
   {
     id: 'gemini-bodybuilding',
@@ -107,6 +113,7 @@ Focus on:
 - Macro-optimized recipes
 
 Generate recipes optimized for muscle building and recovery.`,
+    focusOptions: ['High Protein/Low Fat', 'Steak & Potatoes', 'Clean Bulk', 'Post-Workout Anabolic'],
   },
   {
     id: 'gemini-mediterranean',
@@ -123,6 +130,7 @@ Focus on:
 - Anti-inflammatory ingredients
 
 Generate Mediterranean-inspired recipes that promote overall health and longevity.`,
+    focusOptions: ['Mediterranean Diet', 'Anti-Inflammatory', 'Seafood Suppers', 'Mezze & Small Plates'],
   },
 ];
 
@@ -6,6 +6,27 @@
 export { chefRegistry, ChefRegistry } from './ChefRegistry';
 export { CHEF_PERSONAS } from './chefPersonas';
 export type { ChefPersona } from './chefPersonas';
-export { generateRecipe, getDefaultChefId } from './recipeGenerator';
-export type { RecipeGenerationOptions } from './recipeGenerator';
+export { generateRecipe, streamRecipe, refineRecipe, buildGenerationOptions, buildProfileOptions, getDefaultChefId } from './recipeGenerator';
+export { recipeSchema, parseModelJson, parsePartialModelJson } from './recipeSchema';
+export { validateRecipe, assertValidRecipe, toPartialRecipe, RecipeValidationError } from './recipeValidator';
+export { checkRecipeAllergens, detectAllergens, deriveDietaryTags, mergeDerivedDietaryTags, describeViolation, AllergenViolationError } from './allergenGuard';
+export type { DietaryRules, AllergenCheckResult } from './allergenGuard';
+export { checkPantryConstraint, ingredientMatches } from './pantryGuard';
+export type { PantryCheckResult } from './pantryGuard';
+export type { RecipeFieldError, RecipeValidationResult } from './recipeValidator';
+export type { RecipeGenerationOptions, PartialRecipeHandler, RecipeRefinement } from './recipeGenerator';
+export { diffRecipes } from './recipeDiff';
+export type { RecipeDiff, IngredientChange, StepChange, ChangeType } from './recipeDiff';
+export { moveItem, createRecipeDraft, prepareEditedRecipe, validateEditedRecipe, readOverviewTimes } from './recipeEditor';
+export { toRevisionSnapshot, diffRecipeRevisions, restoreRevision } from './recipeRevisions';
+export type { RevisionDiff, FieldChange, SectionChange } from './recipeRevisions';
+export {
+  toSectionDoc,
+  fromSectionDoc,
+  fromLegacyContentDoc,
+  readSectionDocs,
+  getRecipeContentSchemaVersion,
+  RECIPE_CONTENT_SCHEMA_VERSION
+} from './recipeContentSchema';
+export type { SectionDoc } from './recipeContentSchema';
 
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { ingredientMatches, checkPantryConstraint, countPantryProblems } from './pantryGuard';
+import { FIXTURE_RECIPE } from '../../../services/llm/fixtures';
+import type { Recipe, PantryConstraint } from '../../../types';
+
+const fixture = { ...FIXTURE_RECIPE, chefPersona: '', cuisine: '' } as Recipe;
+
+const pantry = (overrides: Partial<PantryConstraint> = {}): PantryConstraint => ({
+  inventory: ['Boneless Chicken Thighs', 'Lemons', 'Spinach', 'Fresh Thyme'],
+  pinned: [],
+  staples: ['olive oil', 'garlic', 'salt'],
+  maxExtras: 0,
+  ...overrides
+});
+
+describe('ingredientMatches', () => {
+  it('matches when every word of the shorter name is in the longer one', () => {
+    expect(ingredientMatches('Chicken Thigh', 'boneless chicken thighs')).toBe(true);
+    expect(ingredientMatches('egg', 'Large Eggs')).toBe(true);
+  });
+
+  it('does not match on a single shared word', () => {
+    expect(ingredientMatches('Chicken Breast', 'Chicken Thigh')).toBe(false);
+    expect(ingredientMatches('', 'Lemon')).toBe(false);
+  });
+});
+
+describe('checkPantryConstraint', () => {
+  it('accepts a recipe made entirely from stock and staples', () => {
+    const result = checkPantryConstraint(fixture, pantry());
+    expect(result).toEqual({ ok: true, missing: [], unusedPinned: [], overAllowance: 0 });
+  });
+
+  it('lists missing ingredients beyond the allowed extras', () => {
+    const result = checkPantryConstraint(fixture, pantry({ inventory: ['Chicken Thighs', 'Lemons'] }));
+    expect(result.missing).toEqual(['Baby Spinach', 'Thyme']);
+    expect(result.overAllowance).toBe(2);
+    expect(result.ok).toBe(false);
+    expect(checkPantryConstraint(fixture, pantry({ inventory: ['Chicken Thighs', 'Lemons'], maxExtras: 2 })).ok).toBe(true);
+  });
+
+  it('flags pinned items the recipe left out', () => {
+    const result = checkPantryConstraint(fixture, pantry({ pinned: ['Lemons', 'Zucchini'], maxExtras: 3 }));
+    expect(result.unusedPinned).toEqual(['Zucchini']);
+    expect(result.ok).toBe(false);
+    expect(countPantryProblems(result)).toBe(1);
+  });
+});
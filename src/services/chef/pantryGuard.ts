@@ -0,0 +1,61 @@
+/**
+ * Pantry Guard
+ * Post-checks pantry-first recipes against what is actually in stock: every ingredient
+ * must come from the inventory or the staples, pinned items must be used, and only
+ * a limited number of other ingredients may need buying.
+ */
+
+import { canonicalIngredientName } from '../shopping';
+import type { Recipe, PantryConstraint } from '../../../types';
+
+export interface PantryCheckResult {
+  ok: boolean;
+  missing: string[];        // Recipe ingredients that are neither in stock nor staples
+  unusedPinned: string[];   // Pinned items the recipe left out
+  overAllowance: number;    // How many missing ingredients exceed maxExtras
+}
+
+const toWords = (name: string): string[] => canonicalIngredientName(name).split(' ').filter(Boolean);
+
+/**
+ * An ingredient matches a stock item when every word of the shorter name appears in the longer one
+ * ("boneless chicken thigh" matches "chicken thigh", "egg" matches "large eggs")
+ */
+export const ingredientMatches = (ingredientName: string, stockName: string): boolean => {
+  const a = toWords(ingredientName);
+  const b = toWords(stockName);
+  if (a.length === 0 || b.length === 0) return false;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.every(word => longer.includes(word));
+};
+
+const getIngredientNames = (recipe: Recipe): string[] => {
+  const names = new Map<string, string>();
+  (recipe.sections || []).forEach(section => {
+    section.ingredients?.forEach(ingredient => {
+      const key = canonicalIngredientName(ingredient.item);
+      if (key && !names.has(key)) names.set(key, ingredient.item.trim());
+    });
+  });
+  return Array.from(names.values());
+};
+
+/**
+ * Checks a recipe against the pantry constraint
+ */
+export function checkPantryConstraint(recipe: Recipe, pantry: PantryConstraint): PantryCheckResult {
+  const ingredients = getIngredientNames(recipe);
+  const available = [...pantry.inventory, ...pantry.staples];
+
+  const missing = ingredients.filter(name => !available.some(stock => ingredientMatches(name, stock)));
+  const unusedPinned = pantry.pinned.filter(pin => !ingredients.some(name => ingredientMatches(name, pin)));
+  const overAllowance = Math.max(0, missing.length - pantry.maxExtras);
+
+  return { ok: overAllowance === 0 && unusedPinned.length === 0, missing, unusedPinned, overAllowance };
+}
+
+/**
+ * Single number for comparing attempts - lower is closer to the pantry
+ */
+export const countPantryProblems = (result: PantryCheckResult): number =>
+  result.overAllowance + result.unusedPinned.length;
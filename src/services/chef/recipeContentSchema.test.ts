@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  toSectionDoc,
+  fromSectionDoc,
+  fromLegacyContentDoc,
+  readSectionDocs,
+  getRecipeContentSchemaVersion,
+  RECIPE_CONTENT_SCHEMA_VERSION
+} from './recipeContentSchema';
+import { FIXTURE_RECIPE } from '../../../services/llm/fixtures';
+
+const sections = FIXTURE_RECIPE.sections;
+
+// How the v1 writer stored sections: lossy section_type, everything else JSON-encoded
+const toLegacyDoc = (section: typeof sections[number], index: number) => ({
+  order_index: index,
+  section_type: section.type === 'Ingredients' ? 'notes' : section.type === 'Overview' ? 'tips' : 'instructions',
+  content: JSON.stringify({ title: section.title, items: section.items, ingredients: section.ingredients, metadata: section.metadata })
+});
+
+describe('recipe content schema', () => {
+  it('defaults documents without a version to v1', () => {
+    expect(getRecipeContentSchemaVersion({})).toBe(1);
+    expect(getRecipeContentSchemaVersion({ content_schema_version: RECIPE_CONTENT_SCHEMA_VERSION })).toBe(2);
+  });
+
+  it('round-trips sections through v2 documents', () => {
+    const docs = sections.map(toSectionDoc);
+    expect(docs.map(fromSectionDoc)).toEqual(sections.map(s => ({ ...s, ingredients: s.ingredients || [] })));
+  });
+
+  it('reads v1 documents into the same sections as v2', () => {
+    const legacy = sections.map(toLegacyDoc);
+    expect(readSectionDocs(legacy, 1)).toEqual(readSectionDocs(sections.map(toSectionDoc), 2));
+  });
+
+  it('orders sections by order_index whatever order the documents arrive in', () => {
+    const docs = sections.map(toSectionDoc).reverse();
+    expect(readSectionDocs(docs, 2).map(s => s.title)).toEqual(sections.map(s => s.title));
+  });
+
+  it('survives malformed legacy content', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const section = fromLegacyContentDoc({ section_type: 'instructions', content: '{not json' });
+    expect(section).toEqual({ type: 'Instructions', title: '', items: [], ingredients: [], metadata: {} });
+  });
+
+  it('drops unknown metadata keys and non-string items', () => {
+    const section = fromSectionDoc({ type: 'Instructions', title: 'Step', items: ['Stir', 3], metadata: { timer: '5 mins', colour: 'red' } });
+    expect(section.items).toEqual(['Stir']);
+    expect(section.metadata).toEqual({ timer: '5 mins' });
+  });
+});
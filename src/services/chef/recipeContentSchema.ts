@@ -0,0 +1,107 @@
+/**
+ * Recipe Content Schema
+ * Versioned mapping between RecipeSection and how a recipe's sections are stored.
+ *
+ * v1 (legacy): one `recipe_content` document per section, with a lossy `section_type`
+ *   (Ingredients -> "notes", Overview -> "tips") and everything else JSON-encoded in `content`
+ * v2: one document per section in the `recipes/{id}/sections` subcollection with native
+ *   fields; the recipe document is tagged with `content_schema_version`
+ */
+
+import type { RecipeSection, Ingredient, RecipeStepMeta } from '../../../types';
+
+export const RECIPE_CONTENT_SCHEMA_VERSION = 2;
+
+export interface SectionDoc {
+  order_index: number;
+  type: RecipeSection['type'];
+  title: string;
+  items: string[];
+  ingredients: Ingredient[];
+  metadata: RecipeStepMeta;
+}
+
+const SECTION_TYPES: RecipeSection['type'][] = ['Overview', 'Ingredients', 'Instructions'];
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+const toText = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const toIngredients = (value: unknown): Ingredient[] =>
+  Array.isArray(value)
+    ? value
+        .filter((i): i is Record<string, unknown> => !!i && typeof i === 'object')
+        .map(i => ({ item: toText(i.item), quantity: toText(i.quantity), unit: toText(i.unit), prep: toText(i.prep) }))
+    : [];
+
+const toMetadata = (value: unknown): RecipeStepMeta => {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  const metadata: RecipeStepMeta = {};
+  (['timer', 'technique', 'quantity'] as const).forEach(key => {
+    if (typeof raw[key] === 'string' && raw[key]) metadata[key] = raw[key] as string;
+  });
+  return metadata;
+};
+
+/**
+ * Which content schema a stored recipe document uses
+ */
+export const getRecipeContentSchemaVersion = (data: Record<string, any>): number =>
+  typeof data.content_schema_version === 'number' ? data.content_schema_version : 1;
+
+/**
+ * Section document for the v2 subcollection. Firestore rejects undefined, so every field is set.
+ */
+export const toSectionDoc = (section: RecipeSection, index: number): SectionDoc => ({
+  order_index: index,
+  type: section.type,
+  title: section.title || '',
+  items: section.items || [],
+  ingredients: toIngredients(section.ingredients),
+  metadata: toMetadata(section.metadata)
+});
+
+/**
+ * Section from a v2 subcollection document
+ */
+export const fromSectionDoc = (data: Record<string, any>): RecipeSection => ({
+  type: SECTION_TYPES.find(type => type === data.type) || 'Instructions',
+  title: toText(data.title),
+  items: toStringList(data.items),
+  ingredients: toIngredients(data.ingredients),
+  metadata: toMetadata(data.metadata)
+});
+
+/**
+ * Section from a v1 `recipe_content` document
+ */
+export const fromLegacyContentDoc = (data: Record<string, any>): RecipeSection => {
+  let parsedContent: Record<string, any> = {};
+  try {
+    parsedContent = JSON.parse(data.content || '{}');
+  } catch (e) {
+    console.warn('Failed to parse recipe content JSON:', e);
+  }
+
+  let type: RecipeSection['type'] = 'Instructions';
+  if (data.section_type === 'instructions') type = 'Instructions';
+  else if (data.section_type === 'notes') type = 'Ingredients';
+  else if (data.section_type === 'tips') type = 'Overview';
+
+  return {
+    type,
+    title: toText(parsedContent.title),
+    items: toStringList(parsedContent.items),
+    ingredients: toIngredients(parsedContent.ingredients),
+    metadata: toMetadata(parsedContent.metadata)
+  };
+};
+
+/**
+ * Sections in display order from either format's documents
+ */
+export const readSectionDocs = (docs: Record<string, any>[], version: number): RecipeSection[] =>
+  [...docs]
+    .sort((a, b) => (a.order_index || 0) - (b.order_index || 0))
+    .map(data => (version >= 2 ? fromSectionDoc(data) : fromLegacyContentDoc(data)));
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { diffRecipes } from './recipeDiff';
+import type { Recipe, Ingredient } from '../../../types';
+
+const recipe = (title: string, ingredients: Ingredient[], steps: string[]): Recipe => ({
+  title,
+  description: '',
+  difficulty: 'Easy',
+  chefNote: '',
+  totalTime: 20,
+  calories: 400,
+  cuisine: '',
+  chefPersona: '',
+  sections: [
+    { type: 'Ingredients', title: 'Ingredients', items: [], ingredients, metadata: {} },
+    ...steps.map((text, i) => ({ type: 'Instructions' as const, title: `Step ${i + 1}`, items: [text], metadata: {} }))
+  ]
+});
+
+const chicken: Ingredient = { item: 'Chicken Thigh', quantity: '4', unit: 'count', prep: '' };
+const rice: Ingredient = { item: 'Rice', quantity: '1', unit: 'cup', prep: '' };
+const steps = ['Season the chicken.', 'Sear the chicken.', 'Rest and serve.'];
+
+describe('diffRecipes', () => {
+  it('reports no changes for the same recipe', () => {
+    const diff = diffRecipes(recipe('Traybake', [chicken, rice], steps), recipe('Traybake', [chicken, rice], steps));
+    expect(diff).toEqual({ title: null, ingredients: [], steps: [], hasChanges: false });
+  });
+
+  it('lists added, removed and changed ingredients, matching names case-insensitively', () => {
+    const after = [{ ...chicken, item: 'chicken thigh', quantity: '6' }, { item: 'Lemon', quantity: '1', unit: '', prep: '' }];
+    const diff = diffRecipes(recipe('Traybake', [chicken, rice], steps), recipe('Traybake', after, steps));
+    expect(diff.ingredients.map(c => [c.type, c.item])).toEqual([
+      ['changed', 'chicken thigh'],
+      ['added', 'Lemon'],
+      ['removed', 'Rice']
+    ]);
+  });
+
+  it('marks only an inserted step as added', () => {
+    const inserted = [steps[0], 'Make the pan sauce.', ...steps.slice(1)];
+    const diff = diffRecipes(recipe('Traybake', [chicken], steps), recipe('Traybake', [chicken], inserted));
+    expect(diff.steps).toEqual([{ type: 'added', index: 1, title: 'Step 2', after: 'Make the pan sauce.' }]);
+  });
+
+  it('pairs a rewritten step as a change and reports a new title', () => {
+    const edited = [steps[0], 'Sear the tofu.', steps[2]];
+    const diff = diffRecipes(recipe('Traybake', [chicken], steps), recipe('Tofu Traybake', [chicken], edited));
+    expect(diff.title).toEqual({ before: 'Traybake', after: 'Tofu Traybake' });
+    expect(diff.steps).toEqual([{ type: 'changed', index: 1, title: 'Step 2', before: 'Sear the chicken.', after: 'Sear the tofu.' }]);
+    expect(diff.hasChanges).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Recipe Diff
+ * Compares two versions of a recipe and lists the ingredients and instruction steps that changed
+ */
+
+import type { Recipe, Ingredient } from '../../../types';
+
+export type ChangeType = 'added' | 'removed' | 'changed';
+
+export interface IngredientChange {
+  type: ChangeType;
+  item: string;
+  before?: Ingredient;
+  after?: Ingredient;
+}
+
+export interface StepChange {
+  type: ChangeType;
+  index: number; // Step position in the new recipe (old recipe for removals)
+  title: string;
+  before?: string;
+  after?: string;
+}
+
+export interface RecipeDiff {
+  title: { before: string; after: string } | null;
+  ingredients: IngredientChange[];
+  steps: StepChange[];
+  hasChanges: boolean;
+}
+
+interface StepSnapshot {
+  title: string;
+  text: string;
+  timer: string;
+}
+
+const normalize = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Structured ingredients, falling back to plain ingredient lines for older recipes
+ */
+const collectIngredients = (recipe: Recipe): Ingredient[] => {
+  const ingredients: Ingredient[] = [];
+  (recipe.sections || []).filter(s => s.type === 'Ingredients').forEach(s => {
+    if (s.ingredients?.length) ingredients.push(...s.ingredients);
+    else ingredients.push(...(s.items || []).map(line => ({ item: line, quantity: '', unit: '', prep: '' })));
+  });
+  return ingredients;
+};
+
+const collectSteps = (recipe: Recipe): StepSnapshot[] =>
+  (recipe.sections || [])
+    .filter(s => s.type === 'Instructions')
+    .map(s => ({ title: s.title, text: (s.items || []).join(' '), timer: s.metadata?.timer || '' }));
+
+const sameIngredient = (a: Ingredient, b: Ingredient): boolean =>
+  normalize(a.quantity) === normalize(b.quantity) &&
+  normalize(a.unit) === normalize(b.unit) &&
+  normalize(a.prep || '') === normalize(b.prep || '');
+
+const sameStep = (a: StepSnapshot, b: StepSnapshot): boolean =>
+  normalize(a.text) === normalize(b.text) && normalize(a.timer) === normalize(b.timer);
+
+const diffIngredients = (before: Ingredient[], after: Ingredient[]): IngredientChange[] => {
+  const changes: IngredientChange[] = [];
+  const remaining = new Map<string, Ingredient>();
+  before.forEach(i => remaining.set(normalize(i.item), i));
+
+  after.forEach(next => {
+    const key = normalize(next.item);
+    const previous = remaining.get(key);
+    if (!previous) {
+      changes.push({ type: 'added', item: next.item, after: next });
+      return;
+    }
+    remaining.delete(key);
+    if (!sameIngredient(previous, next)) {
+      changes.push({ type: 'changed', item: next.item, before: previous, after: next });
+    }
+  });
+
+  remaining.forEach(previous => changes.push({ type: 'removed', item: previous.item, before: previous }));
+  return changes;
+};
+
+/**
+ * Aligns steps on their longest common subsequence so an inserted step doesn't
+ * mark every later step as changed. Unmatched steps between the same anchors are
+ * paired up as edits; any extras are additions or removals.
+ */
+const diffSteps = (before: StepSnapshot[], after: StepSnapshot[]): StepChange[] => {
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = sameStep(before[i], after[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: StepChange[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      changes.push({ type: 'changed', index: added[k], title: after[added[k]].title, before: before[removed[k]].text, after: after[added[k]].text });
+    }
+    added.slice(paired).forEach(j => changes.push({ type: 'added', index: j, title: after[j].title, after: after[j].text }));
+    removed.slice(paired).forEach(i => changes.push({ type: 'removed', index: i, title: before[i].title, before: before[i].text }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && sameStep(before[i], after[j])) {
+      flush();
+      i++;
+      j++;
+    } else if (j < after.length && (i === before.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(j++);
+    } else {
+      removed.push(i++);
+    }
+  }
+  flush();
+
+  return changes;
+};
+
+/**
+ * Lists what changed between an original recipe and a revised one
+ */
+export function diffRecipes(before: Recipe, after: Recipe): RecipeDiff {
+  const ingredients = diffIngredients(collectIngredients(before), collectIngredients(after));
+  const steps = diffSteps(collectSteps(before), collectSteps(after));
+  const title = before.title !== after.title ? { before: before.title, after: after.title } : null;
+
+  return {
+    title,
+    ingredients,
+    steps,
+    hasChanges: !!title || ingredients.length > 0 || steps.length > 0
+  };
+}
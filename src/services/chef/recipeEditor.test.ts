@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { moveItem, createRecipeDraft, prepareEditedRecipe, validateEditedRecipe } from './recipeEditor';
+import { FIXTURE_RECIPE } from '../../../services/llm/fixtures';
+import type { Recipe } from '../../../types';
+
+const fixture = { ...FIXTURE_RECIPE, chefPersona: '', cuisine: '' } as Recipe;
+
+const overviewOf = (recipe: Recipe): string[] =>
+  recipe.sections.find(section => section.type === 'Overview')!.items;
+
+describe('moveItem', () => {
+  it('moves one entry to a new position', () => {
+    expect(moveItem(['a', 'b', 'c'], 0, 2)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('returns the same list for out-of-range moves', () => {
+    const list = ['a', 'b'];
+    expect(moveItem(list, 0, 5)).toBe(list);
+    expect(moveItem(list, 1, 1)).toBe(list);
+  });
+});
+
+describe('createRecipeDraft', () => {
+  it('leaves the original untouched while the draft is edited', () => {
+    const draft = createRecipeDraft(fixture);
+    draft.sections[1].ingredients![0].quantity = '8';
+    draft.sections[0].items.push('Extra line');
+    expect(fixture.sections[1].ingredients![0].quantity).toBe('4');
+    expect(fixture.sections[0].items).not.toContain('Extra line');
+  });
+});
+
+describe('prepareEditedRecipe', () => {
+  it('keeps the total time and Overview lines in step with edited fields', () => {
+    const edited = prepareEditedRecipe({ ...createRecipeDraft(fixture), prepTime: 15, cookTime: 30, servings: 3 });
+    expect(edited.totalTime).toBe(45);
+    expect(overviewOf(edited)).toEqual(['Prep: 15 min', 'Cook: 30 min', 'Serves: 3']);
+  });
+
+  it('rebuilds Overview values that span several numbers', () => {
+    const draft = createRecipeDraft(fixture);
+    draft.sections[0].items = ['Prep time: 1 hr 15 min', 'Cook: 1 hr', 'Serves 4-6', 'Serve with crusty bread'];
+    const edited = prepareEditedRecipe({ ...draft, prepTime: 75, cookTime: 20, servings: 2 });
+    expect(overviewOf(edited)).toEqual(['Prep time: 75 min', 'Cook: 20 min', 'Serves: 2', 'Serve with crusty bread']);
+  });
+
+  it('keeps the stored total time when no prep or cook time is set', () => {
+    expect(prepareEditedRecipe(createRecipeDraft(fixture)).totalTime).toBe(35);
+  });
+
+  it('trims text, drops blank rows and rebuilds ingredient lines from the rows', () => {
+    const draft = createRecipeDraft(fixture);
+    draft.title = '  Lemon Chicken  ';
+    draft.dietaryTags = [' Gluten-Free ', ''];
+    const ingredients = draft.sections[1];
+    ingredients.ingredients = [
+      { item: ' Olive Oil ', quantity: '2', unit: 'tbsp', prep: 'warmed ' },
+      { item: '', quantity: '1', unit: '', prep: '' }
+    ];
+    draft.sections[2].items = ['Heat the pan.', '   '];
+
+    const edited = prepareEditedRecipe(draft);
+    expect(edited.title).toBe('Lemon Chicken');
+    expect(edited.dietaryTags).toEqual(['Gluten-Free']);
+    expect(edited.sections[1].items).toEqual(['2 tbsp Olive Oil, warmed']);
+    expect(edited.sections[2].items).toEqual(['Heat the pan.']);
+  });
+});
+
+describe('validateEditedRecipe', () => {
+  it('accepts the fixture and rejects a blank title', () => {
+    expect(validateEditedRecipe(createRecipeDraft(fixture))).toEqual([]);
+    expect(validateEditedRecipe({ ...createRecipeDraft(fixture), title: '   ' }).map(e => e.path)).toContain('title');
+  });
+});
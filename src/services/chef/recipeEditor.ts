@@ -0,0 +1,154 @@
+/**
+ * Recipe Editor
+ * Helpers for hand-editing a saved recipe: reordering sections and tidying a draft
+ * (trimmed text, no blank rows, times and servings kept consistent) before it is validated and saved.
+ */
+
+import { validateRecipe } from './recipeValidator';
+import type { RecipeFieldError } from './recipeValidator';
+import type { Recipe, RecipeSection, Ingredient, RecipeStepMeta } from '../../../types';
+
+/**
+ * Copy of a list with one entry moved; out-of-range moves return the list unchanged
+ */
+export const moveItem = <T>(list: T[], from: number, to: number): T[] => {
+  if (from < 0 || from >= list.length || to < 0 || to >= list.length || from === to) return list;
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+/**
+ * Deep copy of a recipe for editing, so the original is untouched until the draft is saved
+ */
+export const createRecipeDraft = (recipe: Recipe): Recipe => ({
+  ...recipe,
+  dietaryTags: recipe.dietaryTags ? [...recipe.dietaryTags] : undefined,
+  sections: (recipe.sections || []).map(section => ({
+    ...section,
+    items: [...(section.items || [])],
+    ingredients: section.ingredients?.map(ingredient => ({ ...ingredient })),
+    metadata: { ...(section.metadata || {}) }
+  }))
+});
+
+const cleanIngredient = (ingredient: Ingredient): Ingredient => ({
+  item: ingredient.item.trim(),
+  quantity: ingredient.quantity.trim(),
+  unit: ingredient.unit.trim(),
+  prep: ingredient.prep.trim()
+});
+
+const cleanMetadata = (metadata: RecipeStepMeta): RecipeStepMeta => {
+  const cleaned: RecipeStepMeta = {};
+  (['timer', 'technique', 'quantity'] as const).forEach(key => {
+    const value = metadata?.[key]?.trim();
+    if (value) cleaned[key] = value;
+  });
+  return cleaned;
+};
+
+// Plain-text line for a structured ingredient, e.g. "2 tbsp olive oil, warmed"
+const formatIngredientLine = (ingredient: Ingredient): string =>
+  [ingredient.quantity, ingredient.unit, ingredient.item].filter(Boolean).join(' ') + (ingredient.prep ? `, ${ingredient.prep}` : '');
+
+// Overview lines that mirror a field ("Serves: 4", "Prep: 10 min") are rebuilt from the edited value,
+// keeping their own label: "Prep time: 1 hr 15 min" -> "Prep time: 20 min", "Serves 4-6" -> "Serves: 2"
+const syncOverviewLine = (line: string, recipe: Pick<Recipe, 'servings' | 'prepTime' | 'cookTime'>): string => {
+  const lower = line.toLowerCase();
+  const field = /^(serves|servings?|yield)\b/.test(lower) ? { value: recipe.servings, label: 'Serves', unit: '' }
+    : lower.startsWith('prep') ? { value: recipe.prepTime, label: 'Prep', unit: ' min' }
+    : lower.startsWith('cook') ? { value: recipe.cookTime, label: 'Cook', unit: ' min' }
+    : undefined;
+  if (!field || field.value === undefined || !/\d/.test(line)) return line;
+
+  const colon = line.indexOf(':');
+  const label = colon > 0 ? line.slice(0, colon).trim() : field.label;
+  return `${label}: ${field.value}${field.unit}`;
+};
+
+// Minutes in an Overview time ("10 min", "1 hr 15 min", "45"), or undefined when it has no number
+const parseMinutes = (text: string): number | undefined => {
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)\b/);
+  const minutes = text.match(/(\d+)\s*(?:m|mins?|minutes?)\b/);
+  if (!hours && !minutes) {
+    const plain = text.match(/\d+/);
+    return plain ? parseInt(plain[0], 10) : undefined;
+  }
+  return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0));
+};
+
+/**
+ * Prep and cook minutes read from the Overview lines ("Prep: 10 min", "Cook: 1 hr 5 min"),
+ * for model output that only states them there
+ */
+export const readOverviewTimes = (sections: RecipeSection[]): Pick<Recipe, 'prepTime' | 'cookTime'> => {
+  const times: Pick<Recipe, 'prepTime' | 'cookTime'> = {};
+  sections.filter(s => s.type === 'Overview').flatMap(s => s.items || []).forEach(line => {
+    const lower = line.toLowerCase().trim();
+    const field = lower.startsWith('prep') ? 'prepTime' : lower.startsWith('cook') ? 'cookTime' : null;
+    if (!field || times[field] !== undefined) return;
+    const minutes = parseMinutes(lower.slice(lower.indexOf(':') + 1));
+    if (minutes !== undefined) times[field] = minutes;
+  });
+  return times;
+};
+
+const cleanSection = (section: RecipeSection, fields: Pick<Recipe, 'servings' | 'prepTime' | 'cookTime'>): RecipeSection => {
+  let items = (section.items || []).map(line => line.trim()).filter(Boolean);
+  if (section.type === 'Overview') items = items.map(line => syncOverviewLine(line, fields));
+
+  const ingredients = section.ingredients
+    ?.map(cleanIngredient)
+    .filter(ingredient => ingredient.item);
+  // Structured rows are the source of truth; the legacy lines follow them
+  if (section.type === 'Ingredients' && ingredients && ingredients.length > 0) {
+    items = ingredients.map(formatIngredientLine);
+  }
+
+  return {
+    type: section.type,
+    title: section.title.trim(),
+    items,
+    ...(ingredients ? { ingredients } : {}),
+    metadata: cleanMetadata(section.metadata)
+  };
+};
+
+const toMinutes = (value: number | undefined): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+
+/**
+ * Tidies an edited draft: trims text, drops blank lines and ingredient rows, and keeps
+ * totalTime = prep + cook, the Overview lines and the ingredient lines in step with the edits
+ */
+export function prepareEditedRecipe(draft: Recipe): Recipe {
+  const servings = Math.max(1, Math.round(draft.servings || 1));
+  const prepTime = toMinutes(draft.prepTime);
+  const cookTime = toMinutes(draft.cookTime);
+  const totalTime = prepTime !== undefined || cookTime !== undefined
+    ? (prepTime || 0) + (cookTime || 0)
+    : draft.totalTime;
+
+  return {
+    ...draft,
+    title: draft.title.trim(),
+    description: (draft.description || '').trim(),
+    chefNote: (draft.chefNote || '').trim(),
+    cuisine: (draft.cuisine || '').trim(),
+    mealType: draft.mealType?.trim() || undefined,
+    dietaryTags: (draft.dietaryTags || []).map(tag => tag.trim()).filter(Boolean),
+    servings,
+    prepTime,
+    cookTime,
+    totalTime,
+    sections: (draft.sections || []).map(section => cleanSection(section, { servings, prepTime, cookTime }))
+  };
+}
+
+/**
+ * Validation problems with an edited draft, empty when it can be saved
+ */
+export const validateEditedRecipe = (draft: Recipe): RecipeFieldError[] =>
+  validateRecipe(prepareEditedRecipe(draft)).errors;
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import { chefRegistry } from './ChefRegistry';
+import { CHEF_PERSONAS } from './chefPersonas';
+import { generateRecipe, streamRecipe, refineRecipe, getDefaultChefId, buildProfileOptions, buildGenerationOptions } from './recipeGenerator';
+import { calculateNutritionTargets, getMealTargets } from '../nutrition';
+import { validateRecipe, RecipeValidationError } from './recipeValidator';
+import { AllergenViolationError } from './allergenGuard';
+import { setModelProvider, LocalFixtureProvider } from '../../../services/llm';
+import type { ModelRequest } from '../../../services/llm';
+import { FIXTURE_RECIPE } from '../../../services/llm/fixtures';
+import type { Recipe, UserProfile, CookingContext } from '../../../types';
+
+/**
+ * Local provider that answers with the given texts in order before falling back to the fixtures
+ */
+class ScriptedProvider extends LocalFixtureProvider {
+  readonly requests: ModelRequest[] = [];
+
+  constructor(private readonly responses: string[]) {
+    super();
+  }
+
+  async generateText(request: ModelRequest): Promise<string> {
+    this.requests.push(request);
+    return this.responses.shift() ?? super.generateText(request);
+  }
+}
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  CHEF_PERSONAS.forEach(chef => chefRegistry.register(chef));
+});
+
+afterEach(() => setModelProvider(null));
+
+describe('generation options', () => {
+  const profile: UserProfile = {
+    age: 30,
+    gender: 'Female',
+    weight: 65,
+    height: 168,
+    units: { system: 'metric', weight: 'kg', height: 'cm', distance: 'km' },
+    goals: [],
+    dietaryRestrictions: [],
+    allergies: ['Peanuts'],
+    dislikes: [],
+    cookingSkill: 'Intermediate'
+  };
+  const daily = calculateNutritionTargets(profile).daily;
+
+  it('enforces the same per-meal targets the recipe is shown with', () => {
+    const options = buildProfileOptions(profile, 'chef-1', 'Dinner');
+    expect(options.mealType).toBe('Dinner');
+    expect(options.macroTargets).toEqual(getMealTargets(daily, 'Dinner'));
+  });
+
+  it('takes the meal type from the check-in', () => {
+    const context: CookingContext = {
+      timeAvailable: 30,
+      hungerLevel: 5,
+      moodLevel: 5,
+      cravings: [],
+      ingredientsOnHand: [],
+      cuisine: 'Italian',
+      mealType: 'breakfast'
+    };
+    const options = buildGenerationOptions(profile, context, 'chef-1');
+    expect(options.mealType).toBe('breakfast');
+    expect(options.macroTargets).toEqual(getMealTargets(daily, 'breakfast'));
+    expect(options.allergies).toEqual(['Peanuts']);
+  });
+});
+
+describe('validateRecipe', () => {
+  it('accepts the fixture recipe', () => {
+    const { recipe, errors } = validateRecipe(FIXTURE_RECIPE);
+    expect(errors).toEqual([]);
+    expect(recipe?.title).toBe(FIXTURE_RECIPE.title);
+  });
+
+  it('reports every invalid field with its path', () => {
+    const { recipe, errors } = validateRecipe({ ...FIXTURE_RECIPE, title: '', totalTime: 'soon' });
+    expect(recipe).toBeNull();
+    expect(errors.map(e => e.path)).toEqual(['title', 'totalTime']);
+  });
+
+  it('builds the recipe only from checked fields', () => {
+    const { recipe, errors } = validateRecipe({ ...FIXTURE_RECIPE, servings: '2', id: 'model-id', isFavorite: true, notes: 'extra' });
+    expect(errors).toEqual([]);
+    expect(recipe?.servings).toBe(2);
+    expect(recipe).not.toHaveProperty('id');
+    expect(recipe).not.toHaveProperty('isFavorite');
+    expect(recipe).not.toHaveProperty('notes');
+  });
+
+  it('reports optional fields with the wrong type', () => {
+    const { errors } = validateRecipe({ ...FIXTURE_RECIPE, prepTime: 'a while', dietaryTags: ['vegan', 3] });
+    expect(errors.map(e => e.path)).toEqual(['prepTime', 'dietaryTags[1]']);
+  });
+});
+
+describe('generateRecipe with the local provider', () => {
+  it('generates a validated recipe hydrated with the chef and nutrition', async () => {
+    setModelProvider(new LocalFixtureProvider());
+    const recipe = await generateRecipe({ chefId: getDefaultChefId(), cuisinePreferences: ['French'] });
+
+    expect(validateRecipe(recipe).errors).toEqual([]);
+    expect(recipe.title).toBe(FIXTURE_RECIPE.title);
+    expect(recipe.chefPersona).toBe(chefRegistry.getChef(getDefaultChefId())!.name);
+    expect(recipe.cuisine).toBe('French');
+    expect(recipe.protein).toBeGreaterThan(0);
+  });
+
+  it('repairs an invalid response with a targeted re-prompt', async () => {
+    const provider = new ScriptedProvider([JSON.stringify({ ...FIXTURE_RECIPE, difficulty: 'Trivial' })]);
+    setModelProvider(provider);
+    const recipe = await generateRecipe({ chefId: getDefaultChefId() });
+
+    expect(recipe.difficulty).toBe('Easy');
+    expect(provider.requests.map(r => r.task)).toEqual(['recipe', 'recipe-repair']);
+    expect(provider.requests[1].prompt).toContain('difficulty');
+  });
+
+  it('gives up when the response never validates', async () => {
+    setModelProvider(new ScriptedProvider(['not json', 'still not json', '{}']));
+    await expect(generateRecipe({ chefId: getDefaultChefId() })).rejects.toBeInstanceOf(RecipeValidationError);
+  });
+
+  it('blocks a recipe that still contains an allergen after regenerating', async () => {
+    setModelProvider(new LocalFixtureProvider());
+    await expect(generateRecipe({ chefId: getDefaultChefId(), allergies: ['garlic'] })).rejects.toBeInstanceOf(AllergenViolationError);
+  });
+
+  it('re-checks the targets on a recipe regenerated for safety', async () => {
+    setModelProvider(new LocalFixtureProvider());
+    const onTarget = await generateRecipe({ chefId: getDefaultChefId() });
+    const macroTargets = { calories: onTarget.calories, protein: onTarget.protein!, carbs: 0, fat: 0 };
+
+    const withoutGarlic = (chickenThighs: string) => ({
+      ...FIXTURE_RECIPE,
+      sections: FIXTURE_RECIPE.sections.map(section => section.type !== 'Ingredients' ? section : {
+        ...section,
+        items: section.items.filter(item => !item.includes('garlic')),
+        ingredients: section.ingredients!
+          .filter(ing => ing.item !== 'Garlic')
+          .map(ing => ing.item === 'Chicken Thigh' ? { ...ing, quantity: chickenThighs } : ing)
+      })
+    });
+    // Garlic first, then a garlic-free recipe that is far off target, then one that passes both
+    const provider = new ScriptedProvider([
+      JSON.stringify(FIXTURE_RECIPE),
+      JSON.stringify(withoutGarlic('1')),
+      JSON.stringify(withoutGarlic('4'))
+    ]);
+    setModelProvider(provider);
+    const recipe = await generateRecipe({ chefId: getDefaultChefId(), allergies: ['garlic'], macroTargets });
+
+    expect(provider.requests).toHaveLength(3);
+    expect(provider.requests[2].prompt).toContain('per-serving targets');
+    expect(recipe.sections[1].ingredients![0].quantity).toBe('4');
+    expect(recipe.sections[1].ingredients!.some(ing => ing.item === 'Garlic')).toBe(false);
+  });
+
+  it('keeps the best recipe so far when a regeneration never validates', async () => {
+    const provider = new ScriptedProvider([JSON.stringify(FIXTURE_RECIPE), 'not json', 'still not json', '{}']);
+    setModelProvider(provider);
+    const macroTargets = { calories: 5000, protein: 400, carbs: 0, fat: 0 };
+    const recipe = await generateRecipe({ chefId: getDefaultChefId(), macroTargets });
+
+    expect(provider.requests.map(r => r.task)).toEqual(['recipe', 'recipe', 'recipe-repair', 'recipe-repair']);
+    expect(recipe.title).toBe(FIXTURE_RECIPE.title);
+  });
+
+  it('rescales to the requested servings', async () => {
+    setModelProvider(new LocalFixtureProvider());
+    const recipe = await generateRecipe({ chefId: getDefaultChefId(), servings: 4 });
+    const chicken = recipe.sections[1].ingredients![0];
+    expect(recipe.servings).toBe(4);
+    expect(chicken.quantity).toBe('8');
+  });
+});
+
+describe('streamRecipe with the local provider', () => {
+  it('reports partial recipes before resolving with the validated one', async () => {
+    setModelProvider(new LocalFixtureProvider());
+    const partials: Recipe[] = [];
+    const recipe = await streamRecipe({ chefId: getDefaultChefId() }, partial => partials.push(partial));
+
+    expect(partials.length).toBeGreaterThan(0);
+    expect(partials[0].title).toBe(FIXTURE_RECIPE.title);
+    expect(partials.every(p => p.sections.length < FIXTURE_RECIPE.sections.length)).toBe(true);
+    expect(validateRecipe(recipe).errors).toEqual([]);
+  });
+});
+
+describe('refineRecipe with the local provider', () => {
+  it('returns the revision with a diff against the original', async () => {
+    setModelProvider(new LocalFixtureProvider());
+    const original = await generateRecipe({ chefId: getDefaultChefId() });
+    const { recipe, diff } = await refineRecipe(original, 'swap chicken for tofu', { chefId: getDefaultChefId() });
+
+    expect(recipe.title).toContain('Tofu');
+    expect(recipe.remixInstruction).toBe('swap chicken for tofu');
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('re-derives the dietary tags the swap changed', async () => {
+    setModelProvider(new LocalFixtureProvider());
+    const original = await generateRecipe({ chefId: getDefaultChefId() });
+    const { recipe } = await refineRecipe(original, 'swap chicken for tofu', { chefId: getDefaultChefId() });
+
+    expect(original.dietaryTags).toContain('soy-free');
+    expect(original.dietaryTags).not.toContain('vegetarian');
+    expect(recipe.dietaryTags).toContain('vegetarian');
+    expect(recipe.dietaryTags).not.toContain('soy-free');
+  });
+
+  it('keeps an unsaved original so saving the revision can link to it', async () => {
+    setModelProvider(new LocalFixtureProvider());
+    const original = await generateRecipe({ chefId: getDefaultChefId() });
+    const { recipe } = await refineRecipe(original, 'swap chicken for tofu', { chefId: getDefaultChefId() });
+
+    expect(recipe.remixOf).toBeUndefined();
+    expect(recipe.remixSource).toBe(original);
+  });
+
+  it('links a saved original by its ID', async () => {
+    setModelProvider(new LocalFixtureProvider());
+    const original = { ...(await generateRecipe({ chefId: getDefaultChefId() })), id: 'recipe-1' };
+    const { recipe } = await refineRecipe(original, 'swap chicken for tofu', { chefId: getDefaultChefId() });
+
+    expect(recipe.remixOf).toBe('recipe-1');
+    expect(recipe.remixSource).toBeUndefined();
+  });
+});
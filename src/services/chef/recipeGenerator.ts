@@ -1,88 +1,556 @@
 /**
  * Recipe Generator
- * Uses Gemini AI with chef personas to generate recipes
+ * Single structured pipeline: chef persona + generation options -> validated Recipe
  */
 
 import { chefRegistry } from './ChefRegistry';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { ChefPersona } from './chefPersonas';
+import { recipeSchema, RECIPE_STRUCTURE_INSTRUCTIONS, parseModelJson, parsePartialModelJson } from './recipeSchema';
+import { validateRecipe, toPartialRecipe, RecipeValidationError } from './recipeValidator';
+import { checkRecipeAllergens, mergeDerivedDietaryTags, describeViolation, AllergenViolationError } from './allergenGuard';
+import type { DietaryRules, AllergenCheckResult } from './allergenGuard';
+import { checkPantryConstraint, countPantryProblems } from './pantryGuard';
+import type { PantryCheckResult } from './pantryGuard';
+import { diffRecipes } from './recipeDiff';
+import { readOverviewTimes } from './recipeEditor';
+import type { RecipeDiff } from './recipeDiff';
+import type { RecipeFieldError, RecipeValidationResult } from './recipeValidator';
+import { applyNutrition, calculateNutritionTargets, getMealTargets, checkMacroTargets } from '../nutrition';
+import type { TargetMiss } from '../nutrition';
+import { scaleRecipe, getRecipeServings } from '../units';
+import { getModelProvider } from '../../../services/llm';
+import type { RecipeModelProvider, ModelRequest } from '../../../services/llm';
+import type { Recipe, UserProfile, CookingContext, AllergenViolation, MacroTargets, WorkoutSummary, PantryConstraint } from '../../../types';
 
-// Initialize Gemini AI
-const getGenAI = () => {
-  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('VITE_GEMINI_API_KEY not configured');
-  }
-  return new GoogleGenerativeAI(apiKey);
-};
+// How many targeted re-prompts to attempt before giving up on a response
+const MAX_REPAIR_ATTEMPTS = 2;
+// How many fresh recipes to request when one conflicts with allergies or restrictions
+const MAX_SAFETY_ATTEMPTS = 2;
+// How many corrected recipes to request when one misses its calorie/protein targets
+const MAX_TARGET_ATTEMPTS = 1;
+// How many fresh recipes to request when a pantry-mode recipe strays outside the inventory
+const MAX_PANTRY_ATTEMPTS = 1;
 
 export interface RecipeGenerationOptions {
   chefId: string;
   dietaryRestrictions?: string[];
+  allergies?: string[];
+  dislikes?: string[];
+  goals?: string[];
+  skillLevel?: string;
+  units?: 'imperial' | 'metric';
   cuisinePreferences?: string[];
   cookingTime?: number;
   servings?: number;
-  workoutContext?: string;
+  recoveryWorkout?: WorkoutSummary; // Cook a recovery meal for this workout
   cravings?: string;
   availableIngredients?: string[];
   hungerLevel?: number;
   moodLevel?: number;
+  mealType?: string;
+  requestedDish?: string; // A specific dish to write, e.g. from a meal plan outline
+  macroTargets?: MacroTargets; // Per serving
+  pantry?: PantryConstraint; // Only cook from in-stock inventory plus staples
+  expiringIngredients?: string[]; // Use these first to cut food waste
 }
 
-export async function generateRecipe(options: RecipeGenerationOptions): Promise<string> {
-  // Get the selected chef
-  const chef = chefRegistry.getChef(options.chefId);
-  
-  if (!chef) {
-    throw new Error(`Chef not found: ${options.chefId}`);
-  }
+/**
+ * Maps the standing profile (allergies, restrictions, skill, units, per-meal targets) onto generation options.
+ * Pass the meal type so the enforced targets match the ones shown with the recipe.
+ */
+export function buildProfileOptions(profile: UserProfile, chefId: string, mealType?: string): RecipeGenerationOptions {
+  return {
+    chefId,
+    mealType,
+    dietaryRestrictions: profile.dietaryRestrictions,
+    allergies: profile.allergies,
+    dislikes: profile.dislikes,
+    goals: profile.goals,
+    skillLevel: profile.cookingSkill,
+    units: profile.units?.system,
+    macroTargets: getMealTargets(calculateNutritionTargets(profile).daily, mealType),
+  };
+}
 
-  console.log(`👨‍🍳 Using ${chef.name} to generate recipe...`);
+/**
+ * Maps the profile and check-in onto generation options
+ */
+export function buildGenerationOptions(
+  profile: UserProfile,
+  context: CookingContext,
+  chefId: string
+): RecipeGenerationOptions {
+  return {
+    ...buildProfileOptions(profile, chefId, context.mealType),
+    cuisinePreferences: context.cuisine ? [context.cuisine] : [],
+    cookingTime: context.timeAvailable,
+    recoveryWorkout: context.recoveryWorkout,
+    cravings: context.cravings.join(', '),
+    availableIngredients: context.ingredientsOnHand,
+    hungerLevel: context.hungerLevel,
+    moodLevel: context.moodLevel,
+    pantry: context.pantry,
+    expiringIngredients: context.expiringIngredients,
+  };
+}
 
-  // Build comprehensive prompt
-  const prompt = `
+const buildSystemInstruction = (chef: ChefPersona, options: RecipeGenerationOptions): string => `
 ${chef.systemPrompt}
 
+    Generate a delicious, healthy, tailored recipe.
+
+    RULES:
+    - Respect Allergies: ${options.allergies?.join(', ') || 'None'}.
+    - Use ${options.units || 'imperial'} measurements.
+    - Return valid JSON matching the schema.
+    ${RECIPE_STRUCTURE_INSTRUCTIONS}
+`;
+
+const describeWorkout = (workout: WorkoutSummary): string => {
+  const details = [
+    `${workout.durationMinutes} min`,
+    `${workout.caloriesEstimated ? '~' : ''}${workout.caloriesBurned} kcal burned`,
+    workout.intensity ? `${workout.intensity} intensity` : '',
+    workout.muscleGroups?.length ? `worked ${workout.muscleGroups.join(', ')}` : ''
+  ].filter(Boolean);
+  return `${workout.type} workout "${workout.title}" (${details.join(', ')})`;
+};
+
+const describePantry = (pantry: PantryConstraint): string => [
+  `PANTRY MODE: Cook ONLY with these in-stock ingredients: ${pantry.inventory.join(', ') || 'None'}.`,
+  `Staples you may assume: ${pantry.staples.join(', ') || 'None'}.`,
+  pantry.pinned.length ? `You MUST use: ${pantry.pinned.join(', ')}.` : '',
+  pantry.maxExtras > 0
+    ? `You may add at most ${pantry.maxExtras} other ingredient${pantry.maxExtras === 1 ? '' : 's'} the cook would need to buy.`
+    : 'Do not add anything else.'
+].filter(Boolean).join(' ');
+
+const buildPrompt = (options: RecipeGenerationOptions): string => `
 User Preferences:
+- Goals: ${options.goals?.join(', ') || 'Healthy Eating'}
+- Skill: ${options.skillLevel || 'Intermediate'}
+- Allergies: ${options.allergies?.join(', ') || 'None'}
 - Dietary restrictions: ${options.dietaryRestrictions?.join(', ') || 'None'}
+- Dislikes: ${options.dislikes?.join(', ') || 'None'}
 - Cuisine preferences: ${options.cuisinePreferences?.join(', ') || 'Any'}
 - Cooking time available: ${options.cookingTime || 30} minutes
 - Servings needed: ${options.servings || 1}
+${options.mealType ? `- Meal: ${options.mealType}` : ''}
+${options.requestedDish ? `- Dish to make: ${options.requestedDish}` : ''}
+${options.macroTargets ? `- HARD TARGETS per serving: ${options.macroTargets.calories} kcal (within 15%), at least ${options.macroTargets.protein}g protein, about ${options.macroTargets.carbs}g carbs, about ${options.macroTargets.fat}g fat. Size portions and pick ingredients to hit them.` : ''}
 ${options.cravings ? `- Cravings/Goals: ${options.cravings}` : ''}
 ${options.availableIngredients?.length ? `- Ingredients to use: ${options.availableIngredients.join(', ')}` : ''}
 ${options.hungerLevel ? `- Hunger level: ${options.hungerLevel}/10` : ''}
 ${options.moodLevel ? `- Energy/Mood: ${options.moodLevel}/10` : ''}
+${options.pantry ? `- ${describePantry(options.pantry)}` : ''}
+${options.expiringIngredients?.length ? `- USE IT UP (top priority): ${options.expiringIngredients.join(', ')} expire soon. Build the dish around as many of them as possible.` : ''}
+${options.recoveryWorkout ? `- SPECIAL REQUEST: Recovery meal after ${describeWorkout(options.recoveryWorkout)} - Ensure macronutrients (protein/carbs) are optimized for recovery from this specific activity.` : ''}
+
+Generate the FULL recipe JSON now.
+`.trim();
+
+const buildRepairPrompt = (previous: string, errors: RecipeFieldError[]): string => `
+The recipe JSON below failed validation.
+Fix ONLY these fields and keep every other field exactly as it is:
+${errors.map(e => `- ${e.path}: ${e.message}`).join('\n')}
+
+Previous JSON:
+${previous}
+
+Return the full corrected recipe JSON.
+`.trim();
+
+const describeSafetyProblems = (violations: AllergenViolation[]): string => `
+A previous recipe was rejected because of these conflicts:
+${violations.map(v => `- ${describeViolation(v)}`).join('\n')}
+Create a different recipe that contains none of these ingredients or anything derived from them.
+`.trim();
+
+const describeTargetProblems = (misses: TargetMiss[]): string => `
+A previous recipe missed the per-serving targets:
+${misses.map(m => `- ${m.field}: ${m.actual}${m.field === 'calories' ? ' kcal' : 'g'} (target ${m.target}${m.field === 'calories' ? ' kcal' : 'g'})`).join('\n')}
+Adjust portion sizes and ingredients so each serving lands on target.
+`.trim();
+
+const describePantryProblems = (check: PantryCheckResult, pantry: PantryConstraint): string => `
+A previous recipe did not stick to the pantry:
+${check.overAllowance > 0 ? `- Used ingredients that are not in stock: ${check.missing.join(', ')} (at most ${pantry.maxExtras} allowed)` : ''}
+${check.unusedPinned.length ? `- Left out required items: ${check.unusedPinned.join(', ')}` : ''}
+Create a recipe built from the in-stock ingredients.
+`.trim();
+
+/**
+ * Re-prompt listing every check the previous recipe failed, so fixing one doesn't break another
+ */
+const buildRetryPrompt = (prompt: string, checks: RecipeChecks, options: RecipeGenerationOptions): string => {
+  const problems = [
+    checks.safety.violations.length ? describeSafetyProblems(checks.safety.violations) : '',
+    checks.pantry && options.pantry && !checks.pantry.ok ? describePantryProblems(checks.pantry, options.pantry) : '',
+    checks.misses.length ? describeTargetProblems(checks.misses) : ''
+  ].filter(Boolean);
+  return `${prompt}\n\nIMPORTANT:\n${problems.join('\n\n')}`;
+};
+
+const buildRefineSystemInstruction = (chef: ChefPersona, options: RecipeGenerationOptions): string => `
+${chef.systemPrompt}
 
-${options.workoutContext ? `Recent Workout Context: ${options.workoutContext}` : ''}
+    You are revising one of your existing recipes at the cook's request.
 
-Generate a detailed recipe including:
-1. Recipe name (creative and descriptive)
-2. Prep time and cook time
-3. Complete ingredients list with measurements
-4. Step-by-step cooking instructions
-5. Macronutrient breakdown (protein, carbs, fats, calories per serving)
-6. Storage and reheating instructions
-7. Pro tips for best results
+    RULES:
+    - Apply the requested change and adjust anything it affects (quantities, timings, steps, title).
+    - Keep every ingredient and step the request does not touch exactly as it is.
+    - Respect Allergies: ${options.allergies?.join(', ') || 'None'}.
+    - Use ${options.units || 'imperial'} measurements.
+    - Return valid JSON matching the schema.
+    ${RECIPE_STRUCTURE_INSTRUCTIONS}
+`;
 
-Format the recipe in clear, easy-to-follow sections.
-  `.trim();
+const buildRefinePrompt = (recipe: Recipe, instruction: string, options: RecipeGenerationOptions): string => `
+Requested change: "${instruction}"
 
+Dietary restrictions: ${options.dietaryRestrictions?.join(', ') || 'None'}
+Dislikes: ${options.dislikes?.join(', ') || 'None'}
+
+Current recipe JSON:
+${JSON.stringify(recipe)}
+
+Return the FULL revised recipe JSON now.
+`.trim();
+
+/**
+ * Strips saved/local-only fields so the model sees the recipe in the shape it is asked to return
+ */
+const toModelRecipe = (recipe: Recipe): Recipe => {
+  const { id, createdAt, imageUrl, isFavorite, isPublic, variantOf, remixOf, remixInstruction, remixSource, safetyFlags, missingIngredients, ingredientNames, isSummary, ...rest } = recipe;
+  return rest as Recipe;
+};
+
+/**
+ * Parses and validates raw model text, reporting unparseable output as a root-level error
+ */
+const readRecipe = (text: string): RecipeValidationResult => {
   try {
-    // Call Gemini
-    const genAI = getGenAI();
-    const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-    
-    console.log('🤖 Generating recipe with Gemini AI...');
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const recipeText = response.text();
-    
-    console.log(`✅ Recipe generated successfully by ${chef.name}`);
-    
-    return recipeText;
-  } catch (error) {
-    console.error('❌ Error generating recipe:', error);
-    throw new Error(`Failed to generate recipe: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return validateRecipe(parseModelJson(text));
+  } catch {
+    return { recipe: null, errors: [{ path: '$', message: 'is not valid JSON' }] };
+  }
+};
+
+const getDietaryRules = (options: RecipeGenerationOptions): DietaryRules => ({
+  allergies: options.allergies,
+  dietaryRestrictions: options.dietaryRestrictions
+});
+
+/**
+ * Receives progressively more complete recipes while a response streams in
+ */
+export type PartialRecipeHandler = (partial: Recipe) => void;
+
+const resolveChef = (options: RecipeGenerationOptions): ChefPersona => {
+  const chef = chefRegistry.getChef(options.chefId);
+  if (!chef) {
+    throw new Error(`Chef not found: ${options.chefId}`);
   }
+  return chef;
+};
+
+const resolveProvider = (): RecipeModelProvider => {
+  const provider = getModelProvider();
+  if (!provider.isConfigured()) {
+    throw new Error(`Model provider "${provider.id}" is not configured`);
+  }
+  return provider;
+};
+
+const buildRecipeRequest = (chef: ChefPersona, options: RecipeGenerationOptions): ModelRequest => ({
+  task: 'recipe',
+  prompt: buildPrompt(options),
+  systemInstruction: buildSystemInstruction(chef, options),
+  responseMimeType: "application/json",
+  responseSchema: recipeSchema,
+  temperature: 0.2, // Lower temp for valid JSON
+  variables: { options }
+});
+
+/**
+ * Validates the first response and runs targeted re-prompts (listing only the invalid fields) until it passes
+ */
+const finalizeRecipe = async (
+  provider: RecipeModelProvider,
+  request: ModelRequest,
+  chef: ChefPersona,
+  options: RecipeGenerationOptions,
+  firstText: string
+): Promise<Recipe> => {
+  let text = firstText;
+  let { recipe, errors } = readRecipe(text);
+
+  for (let attempt = 1; !recipe && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    console.warn(`⚠️ Recipe failed validation (attempt ${attempt}/${MAX_REPAIR_ATTEMPTS}), requesting repair:`, errors);
+    text = await provider.generateText({
+      ...request,
+      task: 'recipe-repair',
+      prompt: buildRepairPrompt(text, errors),
+      temperature: 0,
+      variables: { options, errors }
+    });
+    ({ recipe, errors } = readRecipe(text));
+  }
+
+  if (!recipe) {
+    console.error('❌ Recipe still invalid after repair attempts:', errors);
+    throw new RecipeValidationError(errors);
+  }
+
+  // Hydrate local fields
+  recipe.chefPersona = chef.name;
+  recipe.cuisine = options.cuisinePreferences?.[0] || '';
+  if (options.mealType) recipe.mealType = options.mealType;
+  // Models usually state prep and cook time only in the Overview lines
+  const times = readOverviewTimes(recipe.sections);
+  if (recipe.prepTime === undefined && times.prepTime !== undefined) recipe.prepTime = times.prepTime;
+  if (recipe.cookTime === undefined && times.cookTime !== undefined) recipe.cookTime = times.cookTime;
+
+  console.log(`✅ Recipe generated successfully by ${chef.name}`);
+  // Rescale if the model wrote the recipe for a different number of servings
+  return applyNutrition(options.servings ? scaleRecipe(recipe, options.servings) : recipe);
+};
+
+interface RecipeChecks {
+  safety: AllergenCheckResult;
+  pantry: PantryCheckResult | null; // null outside pantry mode
+  misses: TargetMiss[];             // Empty without macro targets
+}
+
+const runRecipeChecks = (recipe: Recipe, options: RecipeGenerationOptions): RecipeChecks => ({
+  safety: checkRecipeAllergens(recipe, getDietaryRules(options)),
+  pantry: options.pantry ? checkPantryConstraint(recipe, options.pantry) : null,
+  misses: options.macroTargets ? checkMacroTargets(recipe, options.macroTargets) : []
+});
+
+/**
+ * Problem counts in priority order: allergy conflicts, restriction conflicts, pantry, targets
+ */
+const rankRecipeChecks = (checks: RecipeChecks): number[] => [
+  checks.safety.violations.filter(v => v.kind === 'allergy').length,
+  checks.safety.violations.filter(v => v.kind !== 'allergy').length,
+  checks.pantry ? countPantryProblems(checks.pantry) : 0,
+  checks.misses.length
+];
+
+// Negative when a has fewer problems than b, comparing the most important kind first
+const compareRecipeChecks = (a: RecipeChecks, b: RecipeChecks): number => {
+  const rankA = rankRecipeChecks(a);
+  const rankB = rankRecipeChecks(b);
+  const i = rankA.findIndex((count, j) => count !== rankB[j]);
+  return i === -1 ? 0 : rankA[i] - rankB[i];
+};
+
+type RecipeCheckKind = 'safety' | 'pantry' | 'targets';
+
+const RETRY_LIMITS: Record<RecipeCheckKind, number> = {
+  safety: MAX_SAFETY_ATTEMPTS,
+  pantry: MAX_PANTRY_ATTEMPTS,
+  targets: MAX_TARGET_ATTEMPTS
+};
+
+const getFailedChecks = (checks: RecipeChecks): RecipeCheckKind[] => {
+  const failed: RecipeCheckKind[] = [];
+  if (!checks.safety.safe) failed.push('safety');
+  if (checks.pantry && !checks.pantry.ok) failed.push('pantry');
+  if (checks.misses.length > 0) failed.push('targets');
+  return failed;
+};
+
+/**
+ * Post-checks the recipe against allergies and restrictions, the pantry and the per-serving targets,
+ * requesting a fresh recipe that fixes every failed check. Every candidate is re-checked against all
+ * three and the one with the fewest problems is kept, so a regeneration can't undo an earlier pass.
+ * Allergy conflicts that survive block the recipe; restriction conflicts are flagged on it; pantry and
+ * target misses are returned rather than failed. A regenerated recipe that never validates is skipped.
+ */
+const enforceRecipeChecks = async (
+  provider: RecipeModelProvider,
+  request: ModelRequest,
+  chef: ChefPersona,
+  options: RecipeGenerationOptions,
+  firstRecipe: Recipe
+): Promise<Recipe> => {
+  let recipe = firstRecipe;
+  let checks = runRecipeChecks(recipe, options);
+  // Each retry counts against the budget of every check failing at the time
+  const retries: Record<RecipeCheckKind, number> = { safety: 0, pantry: 0, targets: 0 };
+
+  for (
+    let failed = getFailedChecks(checks);
+    failed.some(kind => retries[kind] < RETRY_LIMITS[kind]);
+    failed = getFailedChecks(checks)
+  ) {
+    failed.forEach(kind => retries[kind]++);
+    console.warn(`⚠️ Recipe failed its ${failed.join(', ')} checks, regenerating:`, checks);
+    const text = await provider.generateText({
+      ...request,
+      prompt: buildRetryPrompt(request.prompt, checks, options),
+      variables: { options, violations: checks.safety.violations, pantryCheck: checks.pantry, misses: checks.misses }
+    });
+    let candidate: Recipe;
+    try {
+      candidate = await finalizeRecipe(provider, request, chef, options, text);
+    } catch (error) {
+      // A retry that never validates is skipped; the best recipe so far still stands
+      if (!(error instanceof RecipeValidationError)) throw error;
+      console.warn('⚠️ Regenerated recipe failed validation, keeping the previous one');
+      continue;
+    }
+    const candidateChecks = runRecipeChecks(candidate, options);
+    if (compareRecipeChecks(candidateChecks, checks) <= 0) {
+      recipe = candidate;
+      checks = candidateChecks;
+    }
+  }
+
+  recipe.allergens = checks.safety.allergens;
+  recipe.dietaryTags = mergeDerivedDietaryTags(recipe);
+
+  const allergyViolations = checks.safety.violations.filter(v => v.kind === 'allergy');
+  if (allergyViolations.length > 0) {
+    console.error('🚫 Recipe blocked - still contains allergens:', allergyViolations);
+    throw new AllergenViolationError(allergyViolations);
+  }
+  if (checks.safety.violations.length > 0) {
+    recipe.safetyFlags = checks.safety.violations;
+  }
+  if (checks.pantry && !checks.pantry.ok) console.warn('⚠️ Recipe still strays outside the pantry:', checks.pantry);
+  if (checks.misses.length > 0) console.warn('⚠️ Recipe still misses its targets:', checks.misses);
+  return recipe;
+};
+
+/**
+ * Records which ingredients of a pantry-mode recipe still need buying (checked last, after any regeneration)
+ */
+const withPantryReport = (recipe: Recipe, options: RecipeGenerationOptions): Recipe => {
+  if (!options.pantry) return recipe;
+  const { missing } = checkPantryConstraint(recipe, options.pantry);
+  console.log(`🥫 Pantry recipe needs ${missing.length} ingredient(s) from the store`);
+  return { ...recipe, missingIngredients: missing };
+};
+
+export async function generateRecipe(options: RecipeGenerationOptions): Promise<Recipe> {
+  const chef = resolveChef(options);
+  const provider = resolveProvider();
+  console.log(`👨‍🍳 Using ${chef.name} to generate recipe...`);
+
+  const request = buildRecipeRequest(chef, options);
+  console.log(`🤖 Generating recipe with ${provider.id} provider...`);
+  const text = await provider.generateText(request);
+
+  const recipe = await finalizeRecipe(provider, request, chef, options, text);
+  const checked = await enforceRecipeChecks(provider, request, chef, options, recipe);
+  return withPantryReport(checked, options);
+}
+
+/**
+ * Streaming mode: calls onPartial as the title/overview, ingredients and each
+ * instruction step arrive, then resolves with the fully validated recipe.
+ */
+export async function streamRecipe(
+  options: RecipeGenerationOptions,
+  onPartial: PartialRecipeHandler
+): Promise<Recipe> {
+  const chef = resolveChef(options);
+  const provider = resolveProvider();
+  console.log(`👨‍🍳 Using ${chef.name} to stream recipe...`);
+
+  const request = buildRecipeRequest(chef, options);
+  let text = '';
+  let lastSignature = '';
+  const rules = getDietaryRules(options);
+  let conflictDetected = false;
+
+  for await (const chunk of provider.streamText(request)) {
+    text += chunk;
+    const parsed = parsePartialModelJson(text);
+    if (!parsed) continue;
+
+    const partial = toPartialRecipe(parsed);
+    // The last section may still be growing - hold it back until the next one starts
+    partial.sections = partial.sections.slice(0, -1);
+    if (!partial.title || conflictDetected) continue;
+
+    // Never show a conflicting ingredient - stop previewing and let the final check regenerate
+    if (!checkRecipeAllergens(partial, rules).safe) {
+      conflictDetected = true;
+      continue;
+    }
+
+    // Only notify when something visible changed
+    const signature = `${partial.title}|${partial.description}|${partial.totalTime}|${partial.calories}|${partial.sections.length}`;
+    if (signature === lastSignature) continue;
+    lastSignature = signature;
+
+    onPartial({ ...partial, chefPersona: chef.name, cuisine: options.cuisinePreferences?.[0] || '' });
+  }
+
+  const recipe = await finalizeRecipe(provider, request, chef, options, text);
+  const checked = await enforceRecipeChecks(provider, request, chef, options, recipe);
+  return withPantryReport(checked, options);
+}
+
+export interface RecipeRefinement {
+  recipe: Recipe;
+  diff: RecipeDiff;
+}
+
+/**
+ * Conversational refinement ("make it dairy-free", "swap chicken for tofu"): asks the chef who
+ * wrote the recipe for a revised version, runs the same validation and dietary checks as a new
+ * recipe, and returns it with a diff against the original. The revision is unsaved and linked to
+ * the original through remixOf, or through remixSource while the original isn't saved yet.
+ */
+export async function refineRecipe(
+  original: Recipe,
+  instruction: string,
+  options: RecipeGenerationOptions
+): Promise<RecipeRefinement> {
+  // Prefer the chef who wrote the recipe so the revision keeps its voice
+  const authorChef = chefRegistry.getAllChefs().find(c => c.name === original.chefPersona);
+  const chef = authorChef ?? resolveChef(options);
+  const provider = resolveProvider();
+
+  // Keep the original's servings and cuisine; the model may rewrite them while editing
+  const refineOptions: RecipeGenerationOptions = {
+    ...options,
+    chefId: chef.id,
+    servings: getRecipeServings(original),
+    cuisinePreferences: original.cuisine ? [original.cuisine] : options.cuisinePreferences
+  };
+
+  const modelRecipe = toModelRecipe(original);
+  const request: ModelRequest = {
+    task: 'recipe-refine',
+    prompt: buildRefinePrompt(modelRecipe, instruction, refineOptions),
+    systemInstruction: buildRefineSystemInstruction(chef, refineOptions),
+    responseMimeType: "application/json",
+    responseSchema: recipeSchema,
+    temperature: 0.2,
+    variables: { options: refineOptions, recipe: modelRecipe, instruction }
+  };
+
+  console.log(`🔁 ${chef.name} is refining "${original.title}": ${instruction}`);
+  const text = await provider.generateText(request);
+  const first = await finalizeRecipe(provider, request, chef, refineOptions, text);
+  // The cook's instruction decides portions and ingredients here; only the dietary checks apply
+  const refined = await enforceRecipeChecks(provider, request, chef, { ...refineOptions, macroTargets: undefined, pantry: undefined }, first);
+
+  const recipe: Recipe = {
+    ...refined,
+    isFavorite: false,
+    remixOf: original.id,
+    remixInstruction: instruction
+  };
+  // The original usually hasn't been saved; keep it so saving the revision can save it and link both
+  if (!original.id) recipe.remixSource = original;
+  return { recipe, diff: diffRecipes(original, recipe) };
 }
 
 /**
@@ -93,13 +561,12 @@ export function getDefaultChefId(): string {
   if (defaultChef) {
     return defaultChef.id;
   }
-  
+
   // Fallback to first available chef
   const allChefs = chefRegistry.getAllChefs();
   if (allChefs.length > 0) {
     return allChefs[0].id;
   }
-  
+
   throw new Error('No chefs registered');
 }
-
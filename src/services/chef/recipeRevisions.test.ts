@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { toRevisionSnapshot, diffRecipeRevisions, restoreRevision } from './recipeRevisions';
+import { FIXTURE_RECIPE } from '../../../services/llm/fixtures';
+import type { Recipe } from '../../../types';
+
+const fixture = { ...FIXTURE_RECIPE, chefPersona: '', cuisine: '' } as Recipe;
+
+const saved: Recipe = {
+  ...toRevisionSnapshot(fixture),
+  id: 'recipe-1',
+  userId: 'user-1',
+  imageUrl: 'https://example.com/chicken.png',
+  isFavorite: true,
+  isPublic: false,
+  createdAt: '2026-01-01T00:00:00.000Z'
+};
+
+describe('toRevisionSnapshot', () => {
+  it('keeps the content and drops cookbook state', () => {
+    const snapshot = toRevisionSnapshot(saved);
+    expect(snapshot.title).toBe(fixture.title);
+    expect(snapshot.sections).toEqual(toRevisionSnapshot(fixture).sections);
+    expect(snapshot).not.toHaveProperty('id');
+    expect(snapshot).not.toHaveProperty('imageUrl');
+    expect(snapshot).not.toHaveProperty('isFavorite');
+  });
+});
+
+describe('diffRecipeRevisions', () => {
+  it('reports no changes between identical revisions', () => {
+    const diff = diffRecipeRevisions(toRevisionSnapshot(fixture), toRevisionSnapshot(fixture));
+    expect(diff.hasChanges).toBe(false);
+    expect(diff.fields).toEqual([]);
+    expect(diff.sections).toEqual([]);
+  });
+
+  it('lists changed fields with display labels, ignoring case and spacing', () => {
+    const before = { ...toRevisionSnapshot(fixture), servings: 2, difficulty: 'Easy', mealType: 'Dinner' };
+    const after = { ...before, servings: 4, difficulty: 'easy', mealType: 'dinner', chefNote: 'Rest the chicken.' };
+    const diff = diffRecipeRevisions(before, after);
+    expect(diff.fields).toEqual([
+      { field: 'Notes', before: fixture.chefNote, after: 'Rest the chicken.' },
+      { field: 'Servings', before: '2', after: '4' }
+    ]);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('matches sections on type and title', () => {
+    const before = toRevisionSnapshot(fixture);
+    const after = toRevisionSnapshot(fixture);
+    after.sections[0] = { ...after.sections[0], items: ['Prep: 20 min'] };
+    after.sections.push({ type: 'Instructions', title: 'To Serve', items: ['Plate and serve.'], metadata: {} });
+    after.sections.splice(1, 1);
+
+    const changes = diffRecipeRevisions(before, after).sections.map(s => [s.type, s.title]);
+    expect(changes).toEqual([
+      ['changed', fixture.sections[0].title],
+      ['added', 'To Serve'],
+      ['removed', fixture.sections[1].title]
+    ]);
+  });
+});
+
+describe('restoreRevision', () => {
+  it('puts the old content back while keeping the cookbook state', () => {
+    const older = { ...toRevisionSnapshot(fixture), title: 'Lemon Chicken', servings: 2 };
+    const current = { ...saved, title: 'Lemon Chicken, Extra Garlic', servings: 4, isFavorite: false };
+    const restored = restoreRevision(current, older);
+    expect(restored.title).toBe('Lemon Chicken');
+    expect(restored.servings).toBe(2);
+    expect(restored).toMatchObject({ id: 'recipe-1', userId: 'user-1', imageUrl: saved.imageUrl, isFavorite: false });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Recipe Revisions
+ * Snapshots written on every cookbook save, comparisons between two of them
+ * (fields, sections and ingredients) and restoring an older one over the current recipe.
+ */
+
+import { diffRecipes } from './recipeDiff';
+import type { RecipeDiff, ChangeType } from './recipeDiff';
+import type { Recipe, RecipeSection } from '../../../types';
+
+export interface FieldChange {
+  field: string;   // Display label, e.g. "Servings"
+  before: string;
+  after: string;
+}
+
+export interface SectionChange {
+  type: ChangeType;
+  index: number; // Position in the newer revision (older one for removals)
+  sectionType: RecipeSection['type'];
+  title: string;
+  before?: RecipeSection;
+  after?: RecipeSection;
+}
+
+export interface RevisionDiff extends RecipeDiff {
+  fields: FieldChange[];
+  sections: SectionChange[];
+}
+
+// Fields compared between revisions, in display order
+const COMPARED_FIELDS: Array<{ field: string; read: (recipe: Recipe) => string }> = [
+  { field: 'Description', read: r => r.description || '' },
+  { field: 'Notes', read: r => r.chefNote || '' },
+  { field: 'Servings', read: r => String(r.servings || '') },
+  { field: 'Prep time', read: r => (r.prepTime ? `${r.prepTime} min` : '') },
+  { field: 'Cook time', read: r => (r.cookTime ? `${r.cookTime} min` : '') },
+  { field: 'Difficulty', read: r => (r.difficulty || '').toLowerCase() },
+  { field: 'Meal type', read: r => (r.mealType || '').toLowerCase().replace(/\s+/g, '_') },
+  { field: 'Cuisine', read: r => r.cuisine || '' },
+  { field: 'Tags', read: r => (r.dietaryTags || []).join(', ') }
+];
+
+const normalize = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const sectionKey = (section: RecipeSection): string => `${section.type}:${normalize(section.title)}`;
+
+const sectionContent = (section: RecipeSection): string =>
+  JSON.stringify({
+    items: (section.items || []).map(normalize),
+    ingredients: (section.ingredients || []).map(i => [i.quantity, i.unit, i.item, i.prep].map(v => normalize(v || ''))),
+    metadata: [section.metadata?.timer, section.metadata?.technique, section.metadata?.quantity].map(v => normalize(v || ''))
+  });
+
+/**
+ * Copy of a recipe holding only what a revision keeps: the content, not the
+ * cookbook state (image, favourite, sharing) or generation-time flags
+ */
+export const toRevisionSnapshot = (recipe: Recipe): Recipe => ({
+  title: recipe.title,
+  description: recipe.description || '',
+  difficulty: recipe.difficulty || '',
+  chefNote: recipe.chefNote || '',
+  totalTime: recipe.totalTime || 0,
+  prepTime: recipe.prepTime,
+  cookTime: recipe.cookTime,
+  calories: recipe.calories || 0,
+  protein: recipe.protein,
+  carbs: recipe.carbs,
+  fat: recipe.fat,
+  mealType: recipe.mealType,
+  servings: recipe.servings,
+  cuisine: recipe.cuisine || '',
+  dietaryTags: [...(recipe.dietaryTags || [])],
+  allergens: [...(recipe.allergens || [])],
+  chefPersona: recipe.chefPersona || '',
+  sections: (recipe.sections || []).map(section => ({
+    type: section.type,
+    title: section.title,
+    items: [...(section.items || [])],
+    ingredients: (section.ingredients || []).map(ingredient => ({ ...ingredient })),
+    metadata: { ...(section.metadata || {}) }
+  }))
+});
+
+/**
+ * Sections matched on type and title; same-titled sections pair up in order
+ */
+const diffSections = (before: RecipeSection[], after: RecipeSection[]): SectionChange[] => {
+  const unmatched = new Map<string, number[]>();
+  before.forEach((section, i) => {
+    const key = sectionKey(section);
+    unmatched.set(key, [...(unmatched.get(key) || []), i]);
+  });
+
+  const changes: SectionChange[] = [];
+  after.forEach((section, index) => {
+    const candidates = unmatched.get(sectionKey(section));
+    const previousIndex = candidates?.shift();
+    if (previousIndex === undefined) {
+      changes.push({ type: 'added', index, sectionType: section.type, title: section.title, after: section });
+      return;
+    }
+    const previous = before[previousIndex];
+    if (sectionContent(previous) !== sectionContent(section)) {
+      changes.push({ type: 'changed', index, sectionType: section.type, title: section.title, before: previous, after: section });
+    }
+  });
+
+  unmatched.forEach(indexes => indexes.forEach(i => {
+    changes.push({ type: 'removed', index: i, sectionType: before[i].type, title: before[i].title, before: before[i] });
+  }));
+  return changes;
+};
+
+/**
+ * Everything that changed from one revision to a later one
+ */
+export function diffRecipeRevisions(before: Recipe, after: Recipe): RevisionDiff {
+  const base = diffRecipes(before, after);
+  const fields = COMPARED_FIELDS
+    .map(({ field, read }) => ({ field, before: read(before), after: read(after) }))
+    .filter(change => normalize(change.before) !== normalize(change.after));
+  const sections = diffSections(before.sections || [], after.sections || []);
+
+  return {
+    ...base,
+    fields,
+    sections,
+    hasChanges: base.hasChanges || fields.length > 0 || sections.length > 0
+  };
+}
+
+/**
+ * The current recipe with an older revision's content put back. Cookbook state
+ * (id, image, favourite, sharing, lineage) stays as it is now.
+ */
+export const restoreRevision = (current: Recipe, snapshot: Recipe): Recipe => ({
+  ...toRevisionSnapshot(snapshot),
+  id: current.id,
+  userId: current.userId,
+  imageUrl: current.imageUrl,
+  isFavorite: current.isFavorite,
+  isPublic: current.isPublic,
+  variantOf: current.variantOf,
+  remixOf: current.remixOf,
+  remixInstruction: current.remixInstruction,
+  createdAt: current.createdAt
+});
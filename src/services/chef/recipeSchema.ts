@@ -0,0 +1,178 @@
+/**
+ * Recipe Schema
+ * Structured output contract sent to the model and the JSON parsing that reads it back
+ */
+
+import { Type, Schema } from '@google/genai';
+import JSON5 from 'json5';
+
+// Clean Recipe Schema for Gemini
+export const recipeSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "Name of the Dish" },
+    description: { type: Type.STRING, description: "Appetizing description" },
+    difficulty: { type: Type.STRING, enum: ["Easy", "Medium", "Hard"] },
+    chefNote: { type: Type.STRING, description: "Personal tip from the chef" },
+    totalTime: { type: Type.NUMBER, description: "Total minutes" },
+    calories: { type: Type.NUMBER, description: "Calories per serving" },
+    sections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ["Overview", "Ingredients", "Instructions"] },
+          title: { type: Type.STRING },
+          items: { type: Type.ARRAY, items: { type: Type.STRING } },
+          ingredients: {
+              type: Type.ARRAY,
+              items: {
+                  type: Type.OBJECT,
+                  properties: {
+                      item: { type: Type.STRING },
+                      quantity: { type: Type.STRING },
+                      unit: { type: Type.STRING },
+                      prep: { type: Type.STRING }
+                  },
+                  required: ["item", "quantity", "unit", "prep"]
+              }
+          },
+          metadata: {
+              type: Type.OBJECT,
+              properties: {
+                  timer: { type: Type.STRING },
+                  technique: { type: Type.STRING },
+                  quantity: { type: Type.STRING }
+              }
+          }
+        },
+        required: ["type", "title", "items"]
+      }
+    }
+  },
+  // Same required fields as validateRecipe, so schema-valid output also passes validation
+  required: ["title", "difficulty", "sections", "totalTime", "calories"]
+};
+
+// Shared instructions describing the section layout the carousel expects
+export const RECIPE_STRUCTURE_INSTRUCTIONS = `
+    STRUCTURE:
+    1. Section 1 (Overview): items=["Prep: X min", "Cook: Y min", "Serves: Z"]
+    2. Section 2 (Ingredients): title="Mise en Place", items=[Legacy list...], ingredients=[{item:"Chicken", quantity:"2", unit:"lbs", prep:"diced"}]
+    3. Section 3+ (Instructions): title="Step 1:...", items=[Detailed instruction], metadata={timer:"X mins"}
+
+    EXAMPLE JSON:
+    {
+      "title": "Lemon Chicken",
+      "description": "Zesty and fresh.",
+      "difficulty": "Easy",
+      "chefNote": "Don't overcook!",
+      "totalTime": 30,
+      "calories": 400,
+      "sections": [
+        { "type": "Overview", "title": "Info", "items": ["Prep: 10m", "Cook: 20m", "Serves: 2"] },
+        {
+            "type": "Ingredients",
+            "title": "Mise en Place",
+            "items": ["2 Chicken Breasts", "1 Lemon"],
+            "ingredients": [
+                { "item": "Chicken Breast", "quantity": "2", "unit": "count", "prep": "boneless" },
+                { "item": "Lemon", "quantity": "1", "unit": "whole", "prep": "sliced" }
+            ]
+        },
+        { "type": "Instructions", "title": "Step 1: Sear", "items": ["Sear chicken in pan."], "metadata": { "timer": "5 mins", "technique": "High Heat" } }
+      ]
+    }
+`;
+
+/**
+ * Parses model output into a plain object.
+ * Strips code fences, repairs the missing commas LLMs commonly emit, then tries JSON5 and JSON.
+ */
+export const parseModelJson = (raw: string): unknown => {
+  let text = raw.replace(/```json/g, '').replace(/```/g, '').trim();
+
+  // Aggressive JSON Repair: Fix missing commas often caused by LLM output
+  // 1. Strings in arrays: "item1" "item2" -> "item1", "item2"
+  text = text.replace(/"\s+(?=")/g, '", "');
+  // 2. Objects in arrays: } { -> }, {
+  text = text.replace(/}\s+(?={)/g, '}, {');
+  // 3. Property start after object end: } "key" -> }, "key"
+  text = text.replace(/}\s+(?=")/g, '}, "');
+  // 4. Property start after array end: ] "key" -> ], "key"
+  text = text.replace(/]\s+(?=")/g, '], "');
+  // 5. Value followed by key (missing comma): 123 "key" or true "key"
+  text = text.replace(/(\d+|true|false|null)\s+(?=")/g, '$1, "');
+  // 6. Primitives in arrays (missing comma): 1 2 -> 1, 2
+  text = text.replace(/(\d+|true|false|null)\s+(?=\d+|true|false|null)/g, '$1, ');
+
+  const startIndex = text.indexOf('{');
+  const endIndex = text.lastIndexOf('}');
+  if (startIndex !== -1 && endIndex !== -1) text = text.substring(startIndex, endIndex + 1);
+
+  try {
+    return JSON5.parse(text);
+  } catch (e) {
+    console.warn("JSON5 failed, trying standard JSON", e);
+    try {
+      return JSON.parse(text);
+    } catch (jsonError) {
+      console.error("JSON parse failed. Raw text:", text);
+      throw jsonError;
+    }
+  }
+};
+
+/**
+ * Parses a truncated JSON prefix (e.g. a response still streaming in).
+ * Cuts the text back to the last value boundary and closes every open object/array,
+ * so only fully received values appear. Returns null if nothing parseable arrived yet.
+ */
+export const parsePartialModelJson = (raw: string): unknown | null => {
+  const start = raw.indexOf('{');
+  if (start === -1) return null;
+  const text = raw.substring(start);
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Last position where the prefix ends on a value boundary, with the containers open there
+  let safeIndex = -1;
+  let safeStack = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch === '{' ? '}' : ']');
+      safeIndex = i + 1;
+      safeStack = stack.join('');
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+      safeIndex = i + 1;
+      safeStack = stack.join('');
+      if (stack.length === 0) break; // Top-level object complete
+    } else if (ch === ',') {
+      safeIndex = i;
+      safeStack = stack.join('');
+    }
+  }
+
+  if (safeIndex === -1) return null;
+
+  const closers = safeStack.split('').reverse().join('');
+  try {
+    return JSON.parse(text.substring(0, safeIndex) + closers);
+  } catch {
+    return null;
+  }
+};
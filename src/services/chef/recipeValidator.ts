@@ -0,0 +1,313 @@
+/**
+ * Recipe Validator
+ * Runtime schema checks for Recipe, RecipeSection and Ingredient.
+ * Coerces safe cases (numeric strings, casing, missing optional fields) and
+ * reports every remaining problem with the exact field path. The returned recipe
+ * is built only from checked fields; anything else in the input is dropped.
+ */
+
+import type { Recipe, RecipeSection, Ingredient, RecipeStepMeta } from '../../../types';
+
+export interface RecipeFieldError {
+  path: string;    // e.g. "sections[2].ingredients[0].quantity"
+  message: string;
+}
+
+export interface RecipeValidationResult {
+  recipe: Recipe | null; // Coerced recipe, only set when there are no errors
+  errors: RecipeFieldError[];
+}
+
+export class RecipeValidationError extends Error {
+  readonly errors: RecipeFieldError[];
+
+  constructor(errors: RecipeFieldError[]) {
+    super(`Generated recipe failed validation: ${errors.map(e => `${e.path} ${e.message}`).join('; ')}`);
+    this.name = 'RecipeValidationError';
+    this.errors = errors;
+  }
+}
+
+const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const;
+const SECTION_TYPES: RecipeSection['type'][] = ['Overview', 'Ingredients', 'Instructions'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Accepts numbers and numeric strings such as "30", "30 mins" or "450 kcal"
+ */
+const coerceNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(?:min(?:ute)?s?|m|kcal|cal(?:ories)?)?$/i);
+    if (match) return parseFloat(match[1]);
+  }
+  return null;
+};
+
+/**
+ * Accepts strings, and numbers (which models sometimes emit for quantities)
+ */
+const coerceString = (value: unknown): string | null => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return null;
+};
+
+/**
+ * Optional non-negative number: undefined when absent, an error when present but invalid
+ */
+const optionalNumber = (raw: Record<string, unknown>, key: string, errors: RecipeFieldError[]): number | undefined => {
+  if (raw[key] === undefined || raw[key] === null) return undefined;
+  const value = coerceNumber(raw[key]);
+  if (value === null || value < 0) {
+    errors.push({ path: key, message: 'must be a non-negative number' });
+    return undefined;
+  }
+  return value;
+};
+
+/**
+ * Optional string: undefined when absent, an error when present but not a string
+ */
+const optionalString = (raw: Record<string, unknown>, key: string, errors: RecipeFieldError[]): string | undefined => {
+  if (raw[key] === undefined || raw[key] === null) return undefined;
+  const value = coerceString(raw[key]);
+  if (value === null) errors.push({ path: key, message: 'must be a string' });
+  return value ?? undefined;
+};
+
+/**
+ * Optional list of strings: undefined when absent, an error for each entry that isn't a string
+ */
+const optionalStringList = (raw: Record<string, unknown>, key: string, errors: RecipeFieldError[]): string[] | undefined => {
+  if (raw[key] === undefined || raw[key] === null) return undefined;
+  if (!Array.isArray(raw[key])) {
+    errors.push({ path: key, message: 'must be an array of strings' });
+    return undefined;
+  }
+  const values: string[] = [];
+  (raw[key] as unknown[]).forEach((entry, i) => {
+    if (typeof entry === 'string') values.push(entry);
+    else errors.push({ path: `${key}[${i}]`, message: 'must be a string' });
+  });
+  return values;
+};
+
+const matchEnum = <T extends string>(value: unknown, options: readonly T[]): T | null => {
+  if (typeof value !== 'string') return null;
+  return options.find(o => o.toLowerCase() === value.trim().toLowerCase()) ?? null;
+};
+
+const validateIngredient = (raw: unknown, path: string, errors: RecipeFieldError[]): Ingredient | null => {
+  if (!isRecord(raw)) {
+    errors.push({ path, message: 'must be an object' });
+    return null;
+  }
+
+  const item = coerceString(raw.item)?.trim();
+  if (!item) errors.push({ path: `${path}.item`, message: 'must be a non-empty string' });
+
+  const quantity = coerceString(raw.quantity);
+  if (quantity === null) errors.push({ path: `${path}.quantity`, message: 'must be a string such as "2" or "1 1/2"' });
+
+  const unit = raw.unit === undefined || raw.unit === null ? '' : coerceString(raw.unit);
+  if (unit === null) errors.push({ path: `${path}.unit`, message: 'must be a string' });
+
+  const prep = raw.prep === undefined || raw.prep === null ? '' : coerceString(raw.prep);
+  if (prep === null) errors.push({ path: `${path}.prep`, message: 'must be a string' });
+
+  if (!item || quantity === null || unit === null || prep === null) return null;
+  return { item, quantity, unit, prep };
+};
+
+const validateMetadata = (raw: unknown, path: string, errors: RecipeFieldError[]): RecipeStepMeta => {
+  if (raw === undefined || raw === null) return {};
+  if (!isRecord(raw)) {
+    errors.push({ path, message: 'must be an object' });
+    return {};
+  }
+
+  const metadata: RecipeStepMeta = {};
+  (['timer', 'technique', 'quantity'] as const).forEach(key => {
+    if (raw[key] === undefined || raw[key] === null) return;
+    const value = coerceString(raw[key]);
+    if (value === null) errors.push({ path: `${path}.${key}`, message: 'must be a string' });
+    else metadata[key] = value;
+  });
+  return metadata;
+};
+
+const validateSection = (raw: unknown, path: string, errors: RecipeFieldError[]): RecipeSection | null => {
+  if (!isRecord(raw)) {
+    errors.push({ path, message: 'must be an object' });
+    return null;
+  }
+  const startErrors = errors.length;
+
+  const type = matchEnum(raw.type, SECTION_TYPES);
+  if (!type) errors.push({ path: `${path}.type`, message: `must be one of ${SECTION_TYPES.join(', ')}` });
+
+  const title = coerceString(raw.title);
+  if (title === null) errors.push({ path: `${path}.title`, message: 'must be a string' });
+
+  let items: string[] = [];
+  if (raw.items === undefined || raw.items === null) {
+    items = [];
+  } else if (!Array.isArray(raw.items)) {
+    errors.push({ path: `${path}.items`, message: 'must be an array of strings' });
+  } else {
+    raw.items.forEach((entry, i) => {
+      const value = coerceString(entry);
+      if (value === null) errors.push({ path: `${path}.items[${i}]`, message: 'must be a string' });
+      else items.push(value);
+    });
+  }
+
+  let ingredients: Ingredient[] | undefined;
+  if (raw.ingredients !== undefined && raw.ingredients !== null) {
+    if (!Array.isArray(raw.ingredients)) {
+      errors.push({ path: `${path}.ingredients`, message: 'must be an array' });
+    } else {
+      ingredients = [];
+      raw.ingredients.forEach((entry, i) => {
+        const ingredient = validateIngredient(entry, `${path}.ingredients[${i}]`, errors);
+        if (ingredient) ingredients!.push(ingredient);
+      });
+    }
+  }
+
+  const metadata = validateMetadata(raw.metadata, `${path}.metadata`, errors);
+
+  // Content rules the carousel depends on
+  if (type === 'Ingredients' && !ingredients?.length && items.length === 0) {
+    errors.push({ path: `${path}.ingredients`, message: 'must list at least one ingredient' });
+  }
+  if (type === 'Instructions' && items.length === 0) {
+    errors.push({ path: `${path}.items`, message: 'must contain the instruction text' });
+  }
+
+  if (errors.length > startErrors || !type || title === null) return null;
+  return { type, title, items, ...(ingredients ? { ingredients } : {}), metadata };
+};
+
+/**
+ * Validates (and safely coerces) an unknown value into a Recipe
+ */
+export function validateRecipe(raw: unknown): RecipeValidationResult {
+  const errors: RecipeFieldError[] = [];
+
+  if (!isRecord(raw)) {
+    return { recipe: null, errors: [{ path: '$', message: 'must be a JSON object' }] };
+  }
+
+  const title = coerceString(raw.title)?.trim();
+  if (!title) errors.push({ path: 'title', message: 'must be a non-empty string' });
+
+  const description = raw.description === undefined || raw.description === null ? '' : coerceString(raw.description);
+  if (description === null) errors.push({ path: 'description', message: 'must be a string' });
+
+  const difficulty = matchEnum(raw.difficulty, DIFFICULTIES);
+  if (!difficulty) errors.push({ path: 'difficulty', message: `must be one of ${DIFFICULTIES.join(', ')}` });
+
+  const chefNote = raw.chefNote === undefined || raw.chefNote === null ? '' : coerceString(raw.chefNote);
+  if (chefNote === null) errors.push({ path: 'chefNote', message: 'must be a string' });
+
+  const totalTime = coerceNumber(raw.totalTime);
+  if (totalTime === null || totalTime <= 0) errors.push({ path: 'totalTime', message: 'must be a positive number of minutes' });
+
+  const calories = coerceNumber(raw.calories);
+  if (calories === null || calories < 0) errors.push({ path: 'calories', message: 'must be a non-negative number' });
+
+  // Optional fields (refinement sends them back; the editor sets them)
+  const prepTime = optionalNumber(raw, 'prepTime', errors);
+  const cookTime = optionalNumber(raw, 'cookTime', errors);
+  const protein = optionalNumber(raw, 'protein', errors);
+  const carbs = optionalNumber(raw, 'carbs', errors);
+  const fat = optionalNumber(raw, 'fat', errors);
+  const servings = optionalNumber(raw, 'servings', errors);
+  if (servings !== undefined && servings < 1) errors.push({ path: 'servings', message: 'must be at least 1' });
+  const mealType = optionalString(raw, 'mealType', errors);
+  const cuisine = optionalString(raw, 'cuisine', errors);
+  const chefPersona = optionalString(raw, 'chefPersona', errors);
+  const dietaryTags = optionalStringList(raw, 'dietaryTags', errors);
+
+  const sections: RecipeSection[] = [];
+  if (!Array.isArray(raw.sections)) {
+    errors.push({ path: 'sections', message: 'must be an array' });
+  } else {
+    raw.sections.forEach((entry, i) => {
+      const section = validateSection(entry, `sections[${i}]`, errors);
+      if (section) sections.push(section);
+    });
+    if (!raw.sections.some(s => isRecord(s) && matchEnum(s.type, SECTION_TYPES) === 'Ingredients')) {
+      errors.push({ path: 'sections', message: 'must include an Ingredients section' });
+    }
+    if (!raw.sections.some(s => isRecord(s) && matchEnum(s.type, SECTION_TYPES) === 'Instructions')) {
+      errors.push({ path: 'sections', message: 'must include at least one Instructions section' });
+    }
+  }
+
+  if (errors.length > 0) return { recipe: null, errors };
+
+  const recipe: Recipe = {
+    title: title!,
+    description: description!,
+    difficulty: difficulty!,
+    chefNote: chefNote!,
+    totalTime: totalTime!,
+    calories: calories!,
+    cuisine: cuisine || '',
+    chefPersona: chefPersona || '',
+    sections
+  };
+  // Only set optional fields the input had, so callers can tell "absent" from "zero"
+  if (prepTime !== undefined) recipe.prepTime = prepTime;
+  if (cookTime !== undefined) recipe.cookTime = cookTime;
+  if (protein !== undefined) recipe.protein = protein;
+  if (carbs !== undefined) recipe.carbs = carbs;
+  if (fat !== undefined) recipe.fat = fat;
+  if (servings !== undefined) recipe.servings = Math.round(servings);
+  if (mealType) recipe.mealType = mealType;
+  if (dietaryTags) recipe.dietaryTags = dietaryTags;
+
+  return { recipe, errors };
+}
+
+/**
+ * Validates and throws RecipeValidationError on failure
+ */
+export function assertValidRecipe(raw: unknown): Recipe {
+  const { recipe, errors } = validateRecipe(raw);
+  if (!recipe) throw new RecipeValidationError(errors);
+  return recipe;
+}
+
+/**
+ * Builds a display-safe Recipe from a partially streamed response.
+ * Top-level fields fall back to empty defaults; only sections that already pass
+ * validation are kept, so the carousel never sees a half-formed card.
+ */
+export function toPartialRecipe(raw: unknown): Recipe {
+  const data = isRecord(raw) ? raw : {};
+  const sections: RecipeSection[] = [];
+  if (Array.isArray(data.sections)) {
+    data.sections.forEach((entry, i) => {
+      const section = validateSection(entry, `sections[${i}]`, []);
+      if (section) sections.push(section);
+    });
+  }
+
+  return {
+    title: coerceString(data.title) || '',
+    description: coerceString(data.description) || '',
+    difficulty: matchEnum(data.difficulty, DIFFICULTIES) || '',
+    chefNote: coerceString(data.chefNote) || '',
+    totalTime: coerceNumber(data.totalTime) || 0,
+    calories: coerceNumber(data.calories) || 0,
+    cuisine: '',
+    chefPersona: '',
+    sections
+  };
+}
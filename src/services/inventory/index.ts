@@ -0,0 +1,17 @@
+/**
+ * Inventory Services
+ * Central export for inventory quantity and shelf-life tracking
+ */
+
+export { convertStockAmount, isLowStock, planInventoryDepletion } from './inventoryStock';
+export type { StockChange, DepletionPlan } from './inventoryStock';
+export {
+  inferFoodCategory,
+  getStorageKind,
+  estimateShelfLifeDays,
+  estimateExpiryDate,
+  getDaysUntilExpiry,
+  getExpiringItems,
+  EXPIRING_SOON_DAYS
+} from './shelfLife';
+export type { StorageKind, FoodCategory } from './shelfLife';
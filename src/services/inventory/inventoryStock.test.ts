@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { convertStockAmount, isLowStock, planInventoryDepletion } from './inventoryStock';
+import { FIXTURE_RECIPE } from '../../../services/llm/fixtures';
+import type { Recipe, InventoryItem } from '../../../types';
+
+const fixture = { ...FIXTURE_RECIPE, chefPersona: '', cuisine: '' } as Recipe;
+
+const stock = (id: string, name: string, quantity?: number, unit?: string, extra: Partial<InventoryItem> = {}): InventoryItem => ({
+  id,
+  ingredientId: name,
+  name,
+  quantity,
+  unit,
+  inStock: true,
+  ...extra
+});
+
+describe('convertStockAmount', () => {
+  it('converts within weight and volume directly', () => {
+    expect(convertStockAmount('Olive Oil', 2, 'tbsp', 'ml')).toBeCloseTo(29.57, 2);
+    expect(convertStockAmount('Rice', 1, 'kg', 'lb')).toBeCloseTo(2.2, 2);
+  });
+
+  it('treats count-style units as the same unit', () => {
+    expect(convertStockAmount('Chicken Thigh', 4, 'count', '')).toBe(4);
+  });
+
+  it('goes through the nutrient table between counts, weights and volumes', () => {
+    expect(convertStockAmount('Garlic', 3, 'cloves', 'g')).toBeCloseTo(9, 5);
+    expect(convertStockAmount('Baby Spinach', 6, 'cups', 'lb')).toBeCloseTo(0.41, 2);
+  });
+
+  it('returns null when the units cannot be related', () => {
+    expect(convertStockAmount('Mystery Sauce', 1, 'cup', 'lb')).toBeNull();
+  });
+});
+
+describe('isLowStock', () => {
+  it('flags used-up items and items below their threshold', () => {
+    expect(isLowStock({ quantity: 0 })).toBe(true);
+    expect(isLowStock({ quantity: 2, lowStockThreshold: 3 })).toBe(true);
+    expect(isLowStock({ quantity: 3, lowStockThreshold: 3 })).toBe(false);
+  });
+
+  it('never flags untracked amounts', () => {
+    expect(isLowStock({ quantity: undefined, lowStockThreshold: 3 })).toBe(false);
+  });
+});
+
+describe('planInventoryDepletion', () => {
+  it('subtracts the recipe amounts in each item unit', () => {
+    const inventory = [
+      stock('chicken', 'Chicken Thighs', 6),
+      stock('garlic', 'Garlic', 20, 'g', { lowStockThreshold: 15 }),
+      stock('spinach', 'Baby Spinach', 1, 'lb'),
+      stock('lemon', 'Lemon'),
+      stock('thyme', 'Thyme', 5, 'tsp', { inStock: false })
+    ];
+    const plan = planInventoryDepletion(fixture, inventory);
+
+    expect(plan.unconverted).toEqual([]);
+    expect(plan.changes.map(c => [c.item.id, c.used, c.remaining, c.lowStock])).toEqual([
+      ['chicken', 4, 2, false],
+      ['garlic', 9, 11, true],
+      ['spinach', 0.41, 0.59, false]
+    ]);
+  });
+
+  it('never goes below zero and reports amounts it cannot convert', () => {
+    const plan = planInventoryDepletion(fixture, [
+      stock('chicken', 'Chicken Thigh', 2),
+      stock('oil', 'Olive Oil', 1, 'bottle')
+    ]);
+    expect(plan.changes[0]).toMatchObject({ used: 4, remaining: 0, lowStock: true });
+    expect(plan.unconverted).toEqual(['Olive Oil']);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Inventory Stock
+ * Quantity bookkeeping for the kitchen inventory: purchases add stock, cooking a recipe
+ * subtracts its ingredient amounts (converted into each item's own unit), and items that
+ * drop below their threshold are reported so they can flip out of stock.
+ */
+
+import { getUnitDefinition, parseQuantity } from '../units';
+import { lookupNutrients, ingredientToGrams } from '../nutrition';
+import { canonicalIngredientName, normalizeCountUnit } from '../shopping';
+import type { Recipe, InventoryItem } from '../../../types';
+
+export interface StockChange {
+  item: InventoryItem;
+  used: number;        // Amount the recipe took, in the item's unit
+  remaining: number;   // New quantity, never below zero
+  lowStock: boolean;   // Remaining amount is at or below the item's threshold
+}
+
+export interface DepletionPlan {
+  changes: StockChange[];
+  unconverted: string[]; // Ingredients found in stock whose amounts couldn't be converted to the stock's unit
+}
+
+const round = (value: number): number => Number(value.toFixed(2));
+
+/**
+ * Converts an amount of an ingredient between units: directly within weight/volume/counts,
+ * otherwise through its weight in the nutrient table (e.g. cups of rice -> lb, cloves -> g).
+ * Returns null when the units can't be related.
+ */
+export const convertStockAmount = (name: string, quantity: number, fromUnit: string, toUnit: string): number | null => {
+  const from = getUnitDefinition(fromUnit);
+  const to = getUnitDefinition(toUnit);
+  if (from && to && from.kind === to.kind) return (quantity * from.toBase) / to.toBase;
+  if (!from && !to && normalizeCountUnit(fromUnit) === normalizeCountUnit(toUnit)) return quantity;
+
+  const nutrients = lookupNutrients(name);
+  if (!nutrients) return null;
+  const grams = ingredientToGrams({ item: name, quantity: String(quantity), unit: fromUnit, prep: '' }, nutrients);
+  const gramsPerUnit = ingredientToGrams({ item: name, quantity: '1', unit: toUnit, prep: '' }, nutrients);
+  return grams !== null && gramsPerUnit ? grams / gramsPerUnit : null;
+};
+
+/**
+ * Whether an item should be restocked: used up, or below its own threshold
+ */
+export const isLowStock = (item: Pick<InventoryItem, 'quantity' | 'lowStockThreshold'>): boolean => {
+  if (item.quantity === undefined || item.quantity === null) return false; // Untracked amounts never run low
+  return item.quantity <= 0 || (item.lowStockThreshold !== undefined && item.quantity < item.lowStockThreshold);
+};
+
+/**
+ * Works out what cooking a recipe (already scaled to the servings cooked) takes out of the inventory.
+ * Only in-stock items with a tracked quantity are touched; ingredients without a measurable amount are skipped.
+ */
+export function planInventoryDepletion(recipe: Recipe, inventory: InventoryItem[]): DepletionPlan {
+  const stockByKey = new Map<string, InventoryItem>();
+  inventory
+    .filter(item => item.inStock && typeof item.quantity === 'number')
+    .forEach(item => {
+      const key = canonicalIngredientName(item.name);
+      if (!stockByKey.has(key)) stockByKey.set(key, item);
+    });
+
+  const used = new Map<string, number>();
+  const unconverted: string[] = [];
+
+  (recipe.sections || []).forEach(section => {
+    section.ingredients?.forEach(ingredient => {
+      const item = stockByKey.get(canonicalIngredientName(ingredient.item));
+      const amount = parseQuantity(ingredient.quantity);
+      if (!item || amount === null) return;
+
+      const converted = convertStockAmount(ingredient.item, amount, ingredient.unit || '', item.unit || '');
+      if (converted === null) {
+        unconverted.push(ingredient.item);
+        return;
+      }
+      used.set(item.id, (used.get(item.id) || 0) + converted);
+    });
+  });
+
+  const changes = inventory
+    .filter(item => used.has(item.id))
+    .map(item => {
+      const remaining = round(Math.max(0, (item.quantity as number) - used.get(item.id)!));
+      return {
+        item,
+        used: round(used.get(item.id)!),
+        remaining,
+        lowStock: isLowStock({ quantity: remaining, lowStockThreshold: item.lowStockThreshold })
+      };
+    });
+
+  return { changes, unconverted };
+}
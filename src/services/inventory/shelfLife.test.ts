@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { inferFoodCategory, getStorageKind, estimateShelfLifeDays, getDaysUntilExpiry, getExpiringItems } from './shelfLife';
+import type { InventoryItem } from '../../../types';
+
+describe('inferFoodCategory', () => {
+  it('prefers specific terms over broad ones', () => {
+    expect(inferFoodCategory('Ground Beef')).toBe('ground-meat');
+    expect(inferFoodCategory('Eggplant')).toBe('vegetables');
+    expect(inferFoodCategory('Peanut Butter')).toBe('condiments');
+    expect(inferFoodCategory('Eggs')).toBe('eggs');
+  });
+
+  it('treats ground spices as spices and only ground meat as ground meat', () => {
+    expect(inferFoodCategory('Ground Cumin')).toBe('spices');
+    expect(inferFoodCategory('ground cinnamon')).toBe('spices');
+    expect(inferFoodCategory('Ground Ginger')).toBe('spices');
+    expect(inferFoodCategory('Ground Black Pepper')).toBe('spices');
+    expect(inferFoodCategory('Ground Turkey')).toBe('ground-meat');
+    expect(inferFoodCategory('Beef Mince')).toBe('ground-meat');
+    expect(inferFoodCategory('Minced Garlic')).toBe('root-vegetables');
+  });
+
+  it('keeps stock and broth apart from the meat they are made from', () => {
+    expect(inferFoodCategory('Chicken stock')).toBe('stock');
+    expect(inferFoodCategory('Beef Broth')).toBe('stock');
+  });
+
+  it('falls back to the category label, then other', () => {
+    expect(inferFoodCategory('Romanesco', 'Produce')).toBe('vegetables');
+    expect(inferFoodCategory('Romanesco')).toBe('other');
+  });
+});
+
+describe('shelf life', () => {
+  it('reads the storage kind from the location name', () => {
+    expect(getStorageKind('Chest Freezer')).toBe('freezer');
+    expect(getStorageKind('Fridge')).toBe('fridge');
+    expect(getStorageKind('Spice Rack')).toBe('pantry');
+    expect(getStorageKind('Garage')).toBeNull();
+  });
+
+  it('depends on where the item is stored', () => {
+    expect(estimateShelfLifeDays('Chicken Breast', 'Fridge')).toBe(2);
+    expect(estimateShelfLifeDays('Chicken Breast', 'Freezer')).toBe(270);
+    expect(estimateShelfLifeDays('Chicken Breast')).toBe(2); // Usually kept in the fridge
+  });
+
+  it('keeps ground spices and stock well past a day in the pantry', () => {
+    ['Ground Cumin', 'ground cinnamon', 'Ground Ginger', 'Ground Black Pepper'].forEach(name => {
+      expect(estimateShelfLifeDays(name, 'Pantry')).toBe(730);
+    });
+    expect(estimateShelfLifeDays('Chicken stock', 'Pantry')).toBe(365);
+    expect(estimateShelfLifeDays('Chicken stock', 'Fridge')).toBe(4);
+  });
+});
+
+describe('expiry', () => {
+  const now = new Date(2026, 4, 10, 9, 0);
+
+  it('counts whole calendar days', () => {
+    expect(getDaysUntilExpiry(new Date(2026, 4, 10, 23, 0).toISOString(), now)).toBe(0);
+    expect(getDaysUntilExpiry(new Date(2026, 4, 12, 1, 0).toISOString(), now)).toBe(2);
+    expect(getDaysUntilExpiry(new Date(2026, 4, 8).toISOString(), now)).toBe(-2);
+  });
+
+  it('lists in-stock items expiring soon, soonest first', () => {
+    const item = (name: string, day: number, inStock = true): InventoryItem => ({
+      id: name, ingredientId: name, name, inStock, expiresAt: new Date(2026, 4, day).toISOString()
+    });
+    const items = [item('milk', 12), item('rice', 30), item('spinach', 9), item('cream', 11, false)];
+    expect(getExpiringItems(items, 3, now).map(i => i.name)).toEqual(['spinach', 'milk']);
+  });
+});
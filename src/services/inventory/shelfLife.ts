@@ -0,0 +1,149 @@
+/**
+ * Shelf Life
+ * Estimates when inventory items expire from their food category and where they are
+ * stored (Pantry vs Fridge vs Freezer), and picks out what needs using up first.
+ */
+
+import type { InventoryItem } from '../../../types';
+
+export type StorageKind = 'pantry' | 'fridge' | 'freezer';
+
+export type FoodCategory =
+  | 'leafy-greens' | 'berries' | 'fruit' | 'vegetables' | 'root-vegetables' | 'herbs'
+  | 'dairy' | 'cheese' | 'eggs' | 'poultry' | 'ground-meat' | 'meat' | 'seafood' | 'tofu'
+  | 'bread' | 'grains' | 'canned' | 'stock' | 'condiments' | 'spices' | 'other';
+
+interface ShelfLife {
+  pantry: number;   // Days until it should be used
+  fridge: number;
+  freezer: number;
+  usual: StorageKind; // Where it goes when no location is set
+}
+
+// Conservative home-storage guidelines
+const SHELF_LIFE: Record<FoodCategory, ShelfLife> = {
+  'leafy-greens': { pantry: 1, fridge: 5, freezer: 60, usual: 'fridge' },
+  berries: { pantry: 1, fridge: 4, freezer: 240, usual: 'fridge' },
+  fruit: { pantry: 5, fridge: 14, freezer: 240, usual: 'pantry' },
+  vegetables: { pantry: 4, fridge: 7, freezer: 240, usual: 'fridge' },
+  'root-vegetables': { pantry: 30, fridge: 30, freezer: 240, usual: 'pantry' },
+  herbs: { pantry: 2, fridge: 7, freezer: 180, usual: 'fridge' },
+  dairy: { pantry: 0, fridge: 7, freezer: 90, usual: 'fridge' },
+  cheese: { pantry: 1, fridge: 28, freezer: 180, usual: 'fridge' },
+  eggs: { pantry: 7, fridge: 35, freezer: 365, usual: 'fridge' },
+  poultry: { pantry: 0, fridge: 2, freezer: 270, usual: 'fridge' },
+  'ground-meat': { pantry: 0, fridge: 2, freezer: 120, usual: 'fridge' },
+  meat: { pantry: 0, fridge: 4, freezer: 240, usual: 'fridge' },
+  seafood: { pantry: 0, fridge: 2, freezer: 180, usual: 'fridge' },
+  tofu: { pantry: 1, fridge: 7, freezer: 150, usual: 'fridge' },
+  bread: { pantry: 5, fridge: 10, freezer: 90, usual: 'pantry' },
+  grains: { pantry: 365, fridge: 365, freezer: 365, usual: 'pantry' },
+  canned: { pantry: 730, fridge: 730, freezer: 730, usual: 'pantry' },
+  stock: { pantry: 365, fridge: 4, freezer: 180, usual: 'pantry' }, // Sealed carton in the pantry, opened or homemade in the fridge
+  condiments: { pantry: 180, fridge: 180, freezer: 365, usual: 'fridge' },
+  spices: { pantry: 730, fridge: 730, freezer: 730, usual: 'pantry' },
+  other: { pantry: 30, fridge: 7, freezer: 180, usual: 'pantry' }
+};
+
+// Terms match at the start of a word; first match wins, so specific words ("ground beef",
+// "eggplant", "chicken stock") come before broad ones ("beef", "egg", "chicken"). "Ground" on
+// its own means a spice, so ground meat is only matched together with a meat word.
+const CATEGORY_TERMS: Array<{ category: FoodCategory; terms: string[] }> = [
+  { category: 'canned', terms: ['canned', 'tinned', 'can of'] },
+  { category: 'vegetables', terms: ['eggplant', 'green bean', 'bell pepper'] },
+  { category: 'condiments', terms: ['peanut butter', 'almond butter', 'nut butter'] },
+  { category: 'stock', terms: ['stock', 'broth', 'bouillon'] },
+  { category: 'ground-meat', terms: ['ground beef', 'ground turkey', 'ground pork', 'ground chicken', 'ground lamb', 'ground veal', 'ground meat', 'beef mince', 'pork mince', 'lamb mince', 'turkey mince', 'chicken mince', 'sausage'] },
+  { category: 'spices', terms: ['ground', 'cumin', 'paprika', 'oregano', 'cinnamon', 'turmeric', 'chili powder', 'chilli flakes', 'dried', 'peppercorn', 'black pepper', 'white pepper', 'nutmeg', 'seasoning'] },
+  { category: 'herbs', terms: ['basil', 'cilantro', 'coriander', 'parsley', 'dill', 'mint', 'thyme', 'rosemary', 'chive', 'sage', 'tarragon'] },
+  { category: 'leafy-greens', terms: ['spinach', 'lettuce', 'kale', 'arugula', 'rocket', 'chard', 'greens', 'cabbage', 'bok choy'] },
+  { category: 'berries', terms: ['strawberr', 'blueberr', 'raspberr', 'blackberr', 'berries', 'cherr', 'grape'] },
+  { category: 'root-vegetables', terms: ['potato', 'sweet potato', 'onion', 'garlic', 'shallot', 'carrot', 'beet', 'turnip', 'parsnip', 'squash', 'ginger'] },
+  { category: 'poultry', terms: ['chicken', 'turkey', 'duck'] },
+  { category: 'seafood', terms: ['salmon', 'tuna', 'cod', 'shrimp', 'prawn', 'fish', 'tilapia', 'scallop', 'crab', 'mussel'] },
+  { category: 'meat', terms: ['beef', 'steak', 'pork', 'lamb', 'bacon', 'ham', 'veal', 'chorizo'] },
+  { category: 'eggs', terms: ['egg'] },
+  { category: 'cheese', terms: ['cheese', 'parmesan', 'cheddar', 'mozzarella', 'feta', 'halloumi', 'ricotta', 'brie'] },
+  { category: 'dairy', terms: ['milk', 'cream', 'yogurt', 'yoghurt', 'butter', 'kefir', 'creme fraiche'] },
+  { category: 'tofu', terms: ['tofu', 'tempeh'] },
+  { category: 'bread', terms: ['bread', 'bagel', 'tortilla', 'pita', 'bun', 'roll', 'naan', 'wrap'] },
+  { category: 'grains', terms: ['rice', 'pasta', 'flour', 'oat', 'quinoa', 'lentil', 'bean', 'chickpea', 'couscous', 'noodle', 'sugar', 'cereal', 'peanut', 'almond', 'walnut', 'cashew'] },
+  { category: 'condiments', terms: ['sauce', 'ketchup', 'mustard', 'mayo', 'vinegar', 'oil', 'honey', 'syrup', 'jam', 'salsa', 'dressing', 'paste'] },
+  { category: 'fruit', terms: ['apple', 'banana', 'orange', 'lemon', 'lime', 'pear', 'peach', 'mango', 'pineapple', 'avocado', 'melon', 'kiwi'] },
+  { category: 'vegetables', terms: ['tomato', 'pepper', 'broccoli', 'cauliflower', 'zucchini', 'courgette', 'cucumber', 'mushroom', 'asparagus', 'celery', 'pea', 'corn', 'leek'] }
+];
+
+// How users label categories ("Produce", "Meat & Poultry") when the name alone isn't recognised
+const CATEGORY_LABELS: Array<{ pattern: RegExp; category: FoodCategory }> = [
+  { pattern: /produce|vegetable|veg/i, category: 'vegetables' },
+  { pattern: /fruit/i, category: 'fruit' },
+  { pattern: /dairy/i, category: 'dairy' },
+  { pattern: /poultry/i, category: 'poultry' },
+  { pattern: /meat|butcher|deli/i, category: 'meat' },
+  { pattern: /seafood|fish/i, category: 'seafood' },
+  { pattern: /bakery|bread/i, category: 'bread' },
+  { pattern: /grain|dry|pantry|baking/i, category: 'grains' },
+  { pattern: /can/i, category: 'canned' },
+  { pattern: /condiment|sauce/i, category: 'condiments' },
+  { pattern: /spice|herb/i, category: 'spices' }
+];
+
+export const EXPIRING_SOON_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Food category for an item, from its name first and its category label second
+ */
+export const inferFoodCategory = (name: string, categoryLabel?: string): FoodCategory => {
+  const lower = ` ${name.toLowerCase()}`;
+  const match = CATEGORY_TERMS.find(({ terms }) => terms.some(term => lower.includes(` ${term}`)));
+  if (match) return match.category;
+  return CATEGORY_LABELS.find(({ pattern }) => categoryLabel && pattern.test(categoryLabel))?.category || 'other';
+};
+
+/**
+ * Storage kind for a location name ("Fridge", "Chest Freezer", "Spice Rack"), or null when unknown
+ */
+export const getStorageKind = (locationName?: string): StorageKind | null => {
+  if (!locationName) return null;
+  if (/freez/i.test(locationName)) return 'freezer';
+  if (/fridge|refrig|chill/i.test(locationName)) return 'fridge';
+  if (/pantry|cupboard|cabinet|shelf|rack|counter|spice/i.test(locationName)) return 'pantry';
+  return null;
+};
+
+/**
+ * Days an item keeps in the given location (or where it would usually be stored)
+ */
+export const estimateShelfLifeDays = (name: string, locationName?: string, categoryLabel?: string): number => {
+  const shelfLife = SHELF_LIFE[inferFoodCategory(name, categoryLabel)];
+  return shelfLife[getStorageKind(locationName) || shelfLife.usual];
+};
+
+/**
+ * Estimated expiry (ISO) for an item bought at purchasedAt
+ */
+export const estimateExpiryDate = (purchasedAt: Date, name: string, locationName?: string, categoryLabel?: string): string =>
+  new Date(purchasedAt.getTime() + estimateShelfLifeDays(name, locationName, categoryLabel) * DAY_MS).toISOString();
+
+/**
+ * Whole calendar days until an expiry date; 0 is today, negative has already passed
+ */
+export const getDaysUntilExpiry = (expiresAt: string, now: Date = new Date()): number => {
+  const expiry = new Date(expiresAt);
+  const expiryDay = new Date(expiry.getFullYear(), expiry.getMonth(), expiry.getDate()).getTime();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  return Math.round((expiryDay - today) / DAY_MS);
+};
+
+/**
+ * In-stock items expiring within the window (including anything already past), soonest first
+ */
+export const getExpiringItems = (
+  items: InventoryItem[],
+  withinDays: number = EXPIRING_SOON_DAYS,
+  now: Date = new Date()
+): InventoryItem[] =>
+  items
+    .filter(item => item.inStock && item.expiresAt && getDaysUntilExpiry(item.expiresAt, now) <= withinDays)
+    .sort((a, b) => new Date(a.expiresAt!).getTime() - new Date(b.expiresAt!).getTime());
@@ -0,0 +1,16 @@
+/**
+ * Meal Plan Services
+ * Central export for weekly meal planning
+ */
+
+export {
+  generateMealPlan,
+  getDayTotals,
+  findSharedIngredients,
+  toMealPlanMeal,
+  addDays
+} from './mealPlanGenerator';
+export type { MealPlanOptions, MealPlanProgressHandler } from './mealPlanGenerator';
+export { getSlotTargets } from '../nutrition';
+export { MEAL_SLOTS, MEAL_SLOT_LABELS, mealPlanOutlineSchema, toMealPlanOutline } from './mealPlanSchema';
+export type { MealPlanOutline, MealPlanOutlineMeal } from './mealPlanSchema';
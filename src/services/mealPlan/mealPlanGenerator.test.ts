@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest';
+import { generateMealPlan, getDayTotals, findSharedIngredients, addDays } from './mealPlanGenerator';
+import { chefRegistry, CHEF_PERSONAS, getDefaultChefId } from '../chef';
+import { setModelProvider, LocalFixtureProvider } from '../../../services/llm';
+import type { Recipe, MealPlanDay } from '../../../types';
+
+const targets = { calories: 2000, protein: 150, carbs: 200, fat: 70 };
+
+const withIngredients = (title: string, items: string[]): Recipe => ({
+  title,
+  description: '',
+  difficulty: 'Easy',
+  chefNote: '',
+  totalTime: 20,
+  calories: 400,
+  cuisine: '',
+  chefPersona: '',
+  sections: [{
+    type: 'Ingredients',
+    title: 'Ingredients',
+    items: [],
+    ingredients: items.map(item => ({ item, quantity: '1', unit: '', prep: '' })),
+    metadata: {}
+  }]
+});
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  CHEF_PERSONAS.forEach(chef => chefRegistry.register(chef));
+});
+
+afterEach(() => setModelProvider(null));
+
+describe('meal plan helpers', () => {
+  it('adds days across month ends', () => {
+    expect(addDays('2026-01-30', 3)).toBe('2026-02-02');
+  });
+
+  it('sums a day of meals', () => {
+    const day: MealPlanDay = {
+      date: '2026-01-01',
+      meals: [
+        { mealType: 'lunch', title: 'A', calories: 500, protein: 30, carbs: 50, fat: 20 },
+        { mealType: 'dinner', title: 'B', calories: 700, protein: 45, carbs: 60, fat: 25 }
+      ]
+    };
+    expect(getDayTotals(day)).toEqual({ calories: 1200, protein: 75, carbs: 110, fat: 45 });
+  });
+
+  it('lists ingredients used by two or more recipes, most reused first', () => {
+    const recipes = [
+      withIngredients('A', ['Lemon', 'Spinach', 'Rice']),
+      withIngredients('B', ['lemon', 'Spinach']),
+      withIngredients('C', ['Lemon', 'Tofu'])
+    ];
+    expect(findSharedIngredients(recipes)).toEqual(['Lemon', 'Spinach']);
+  });
+});
+
+describe('generateMealPlan with the local provider', () => {
+  it('fills every slot in eating order and reports progress', async () => {
+    setModelProvider(new LocalFixtureProvider());
+    const progress: number[] = [];
+    const plan = await generateMealPlan(
+      { base: { chefId: getDefaultChefId() }, weekStart: '2026-03-02', days: 2, mealTypes: ['dinner', 'breakfast'], targets },
+      completed => progress.push(completed)
+    );
+
+    expect(plan.days.map(d => d.date)).toEqual(['2026-03-02', '2026-03-03']);
+    expect(plan.days[0].meals.map(m => m.mealType)).toEqual(['breakfast', 'dinner']);
+    expect(plan.sharedIngredients).toContain('Chicken Thigh');
+    expect(progress).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('fails only when no slot could be filled', async () => {
+    setModelProvider(new LocalFixtureProvider());
+    await expect(generateMealPlan({
+      base: { chefId: getDefaultChefId(), allergies: ['garlic'] },
+      weekStart: '2026-03-02',
+      days: 1,
+      mealTypes: ['dinner'],
+      targets
+    })).rejects.toThrow('No recipes could be generated');
+  });
+});
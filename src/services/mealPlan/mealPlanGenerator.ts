@@ -0,0 +1,206 @@
+/**
+ * Meal Plan Generator
+ * Two-stage weekly planning: one outline request picks every dish around a shared
+ * ingredient list, then each dish is generated through the regular recipe pipeline
+ * (validation, allergen checks, local nutrition) with its slice of the daily targets.
+ */
+
+import { chefRegistry, generateRecipe, parseModelJson } from '../chef';
+import type { ChefPersona, RecipeGenerationOptions } from '../chef';
+import { mealPlanOutlineSchema, toMealPlanOutline, MEAL_SLOTS, MEAL_SLOT_LABELS } from './mealPlanSchema';
+import type { MealPlanOutline, MealPlanOutlineMeal } from './mealPlanSchema';
+import { getSlotTargets } from '../nutrition';
+import { getModelProvider } from '../../../services/llm';
+import type { Recipe, MealPlan, MealPlanDay, MealPlanMeal, MealSlot, MacroTargets } from '../../../types';
+
+export interface MealPlanOptions {
+  base: RecipeGenerationOptions; // Profile constraints and chef, applied to every recipe
+  weekStart: string;             // YYYY-MM-DD
+  days?: number;
+  mealTypes: MealSlot[];
+  targets: MacroTargets;         // Per day
+}
+
+/**
+ * Reports progress while recipes are generated one slot at a time
+ */
+export type MealPlanProgressHandler = (completed: number, total: number, current: string) => void;
+
+const DEFAULT_DAYS = 7;
+
+/**
+ * Adds days to a YYYY-MM-DD date without local-timezone drift
+ */
+export const addDays = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Sums per-serving calories and macros for one day of the plan
+ */
+export const getDayTotals = (day: MealPlanDay): MacroTargets =>
+  day.meals.reduce(
+    (totals, meal) => ({
+      calories: totals.calories + meal.calories,
+      protein: totals.protein + meal.protein,
+      carbs: totals.carbs + meal.carbs,
+      fat: totals.fat + meal.fat
+    }),
+    { calories: 0, protein: 0, carbs: 0, fat: 0 }
+  );
+
+/**
+ * Ingredients (by name) that appear in two or more of the recipes, most reused first
+ */
+export const findSharedIngredients = (recipes: Recipe[]): string[] => {
+  const counts = new Map<string, { name: string; count: number }>();
+  recipes.forEach(recipe => {
+    const names = new Set<string>();
+    recipe.sections.forEach(s => s.ingredients?.forEach(i => names.add(i.item.trim())));
+    names.forEach(name => {
+      const key = name.toLowerCase();
+      const entry = counts.get(key) || { name, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    });
+  });
+
+  return Array.from(counts.values())
+    .filter(e => e.count >= 2)
+    .sort((a, b) => b.count - a.count)
+    .map(e => e.name);
+};
+
+export const toMealPlanMeal = (recipe: Recipe, mealType: MealSlot): MealPlanMeal => ({
+  mealType,
+  recipeId: recipe.id,
+  title: recipe.title,
+  calories: recipe.calories || 0,
+  protein: recipe.protein || 0,
+  carbs: recipe.carbs || 0,
+  fat: recipe.fat || 0,
+  recipe
+});
+
+const buildOutlineSystemInstruction = (chef: ChefPersona): string => `
+${chef.systemPrompt}
+
+    Plan a coordinated week of meals.
+
+    RULES:
+    - Build the week around a short list of shared ingredients that several meals reuse, so little goes to waste.
+    - Vary flavors and techniques so no two consecutive days feel the same.
+    - Leftover-friendly dishes are welcome; avoid ingredients that only appear once when a shared one would do.
+    - Return valid JSON matching the schema.
+`;
+
+const buildOutlinePrompt = (options: MealPlanOptions, days: number): string => `
+Plan ${days} days starting ${options.weekStart}.
+Meals each day: ${options.mealTypes.map(s => MEAL_SLOT_LABELS[s]).join(', ')}
+Daily targets: ${options.targets.calories} kcal, ${options.targets.protein}g protein, ${options.targets.carbs}g carbs, ${options.targets.fat}g fat
+
+User Preferences:
+- Goals: ${options.base.goals?.join(', ') || 'Healthy Eating'}
+- Skill: ${options.base.skillLevel || 'Intermediate'}
+- Allergies: ${options.base.allergies?.join(', ') || 'None'}
+- Dietary restrictions: ${options.base.dietaryRestrictions?.join(', ') || 'None'}
+- Dislikes: ${options.base.dislikes?.join(', ') || 'None'}
+- Cuisine preferences: ${options.base.cuisinePreferences?.join(', ') || 'Any'}
+
+Return one entry per day and meal (day is 0-based), each with the dish title and the ingredients it takes from the shared list.
+`.trim();
+
+const requestOutline = async (chef: ChefPersona, options: MealPlanOptions, days: number): Promise<MealPlanOutline> => {
+  const provider = getModelProvider();
+  if (!provider.isConfigured()) {
+    throw new Error(`Model provider "${provider.id}" is not configured`);
+  }
+
+  const text = await provider.generateText({
+    task: 'meal-plan-outline',
+    prompt: buildOutlinePrompt(options, days),
+    systemInstruction: buildOutlineSystemInstruction(chef),
+    responseMimeType: "application/json",
+    responseSchema: mealPlanOutlineSchema,
+    temperature: 0.4,
+    variables: { days, mealTypes: options.mealTypes, options: options.base }
+  });
+
+  let outline: MealPlanOutline | null = null;
+  try {
+    outline = toMealPlanOutline(parseModelJson(text), days);
+  } catch (error) {
+    console.error('❌ Meal plan outline was not valid JSON:', error);
+  }
+  if (!outline) throw new Error('The chef could not outline a meal plan. Please try again.');
+  return outline;
+};
+
+/**
+ * Generates a week of recipes that share ingredients and fit the daily targets.
+ * Slots whose recipe fails (e.g. blocked by the allergen check) are left empty
+ * rather than failing the whole week.
+ */
+export async function generateMealPlan(
+  options: MealPlanOptions,
+  onProgress?: MealPlanProgressHandler
+): Promise<MealPlan> {
+  const chef = chefRegistry.getChef(options.base.chefId);
+  if (!chef) throw new Error(`Chef not found: ${options.base.chefId}`);
+
+  const days = options.days || DEFAULT_DAYS;
+  // Keep slots in the order they're eaten regardless of how they were picked
+  const selected = MEAL_SLOTS.filter(s => options.mealTypes.includes(s));
+  const mealTypes = selected.length > 0 ? selected : (['lunch', 'dinner'] as MealSlot[]);
+  console.log(`🗓️ ${chef.name} is planning ${days} days of ${mealTypes.join('/')}...`);
+
+  const outline = await requestOutline(chef, { ...options, mealTypes }, days);
+
+  const slots: Array<{ day: number; mealType: MealSlot; planned?: MealPlanOutlineMeal }> = [];
+  for (let day = 0; day < days; day++) {
+    mealTypes.forEach(mealType => {
+      slots.push({ day, mealType, planned: outline.meals.find(m => m.day === day && m.mealType === mealType) });
+    });
+  }
+
+  const planDays: MealPlanDay[] = Array.from({ length: days }, (_, day) => ({
+    date: addDays(options.weekStart, day),
+    meals: []
+  }));
+  const recipes: Recipe[] = [];
+
+  for (let i = 0; i < slots.length; i++) {
+    const { day, mealType, planned } = slots[i];
+    const label = `Day ${day + 1} ${MEAL_SLOT_LABELS[mealType]}${planned ? `: ${planned.title}` : ''}`;
+    onProgress?.(i, slots.length, label);
+
+    try {
+      const recipe = await generateRecipe({
+        ...options.base,
+        mealType: MEAL_SLOT_LABELS[mealType],
+        requestedDish: planned?.title,
+        availableIngredients: planned?.keyIngredients.length ? planned.keyIngredients : outline.sharedIngredients,
+        macroTargets: getSlotTargets(options.targets, mealType, mealTypes)
+      });
+      recipes.push(recipe);
+      planDays[day].meals.push(toMealPlanMeal(recipe, mealType));
+    } catch (error) {
+      console.warn(`⚠️ Skipping ${label} - recipe generation failed:`, error);
+    }
+  }
+  onProgress?.(slots.length, slots.length, 'Done');
+
+  if (recipes.length === 0) throw new Error('No recipes could be generated for this plan.');
+  console.log(`✅ Meal plan ready: ${recipes.length}/${slots.length} meals`);
+
+  return {
+    title: outline.title,
+    weekStart: options.weekStart,
+    days: planDays,
+    targetMacros: options.targets,
+    sharedIngredients: findSharedIngredients(recipes),
+    chefPersona: chef.name
+  };
+}
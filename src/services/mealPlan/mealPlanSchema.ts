@@ -0,0 +1,87 @@
+/**
+ * Meal Plan Schema
+ * Structured output contract for the weekly outline (dish names + shared ingredients)
+ * that individual recipes are then generated from
+ */
+
+import { Type, Schema } from '@google/genai';
+import type { MealSlot } from '../../../types';
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+export const MEAL_SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snack'
+};
+
+export interface MealPlanOutlineMeal {
+  day: number; // 0-based day of the week
+  mealType: MealSlot;
+  title: string;
+  keyIngredients: string[];
+}
+
+export interface MealPlanOutline {
+  title: string;
+  sharedIngredients: string[];
+  meals: MealPlanOutlineMeal[];
+}
+
+export const mealPlanOutlineSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "Short name for the week, e.g. 'Mediterranean Prep Week'" },
+    sharedIngredients: {
+      type: Type.ARRAY,
+      description: "Core ingredients bought once and reused across several meals",
+      items: { type: Type.STRING }
+    },
+    meals: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          day: { type: Type.NUMBER, description: "0-based day index" },
+          mealType: { type: Type.STRING, enum: MEAL_SLOTS },
+          title: { type: Type.STRING, description: "Dish name" },
+          keyIngredients: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ["day", "mealType", "title", "keyIngredients"]
+      }
+    }
+  },
+  required: ["title", "sharedIngredients", "meals"]
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : [];
+
+/**
+ * Coerces parsed model output into an outline, dropping malformed meals.
+ * Returns null when nothing usable came back.
+ */
+export const toMealPlanOutline = (raw: unknown, days: number): MealPlanOutline | null => {
+  if (!isRecord(raw) || !Array.isArray(raw.meals)) return null;
+
+  const meals: MealPlanOutlineMeal[] = [];
+  raw.meals.forEach(entry => {
+    if (!isRecord(entry)) return;
+    const day = typeof entry.day === 'number' ? entry.day : parseInt(String(entry.day), 10);
+    const mealType = MEAL_SLOTS.find(s => s === String(entry.mealType).trim().toLowerCase());
+    const title = typeof entry.title === 'string' ? entry.title.trim() : '';
+    if (!Number.isInteger(day) || day < 0 || day >= days || !mealType || !title) return;
+    meals.push({ day, mealType, title, keyIngredients: toStringList(entry.keyIngredients) });
+  });
+
+  if (meals.length === 0) return null;
+  return {
+    title: typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim() : 'Weekly Meal Plan',
+    sharedIngredients: toStringList(raw.sharedIngredients),
+    meals
+  };
+};
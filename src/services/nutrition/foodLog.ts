@@ -0,0 +1,83 @@
+/**
+ * Food Log
+ * Builds diary entries from recipes and sums them per day against the targets
+ */
+
+import type { Recipe, FoodLogEntry, MacroTargets, MealSlot } from '../../../types';
+
+export interface DailyIntake {
+  date: string;          // YYYY-MM-DD (local)
+  totals: MacroTargets;
+  entries: FoodLogEntry[];
+}
+
+const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+const EMPTY_TOTALS: MacroTargets = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+
+/**
+ * Local calendar date (YYYY-MM-DD) of a timestamp
+ */
+export const toLocalDate = (date: Date): string => date.toLocaleDateString('en-CA');
+
+/**
+ * Meal slot for an entry: the recipe's own meal type if it has one, otherwise by time of day
+ */
+export const guessMealSlot = (recipe: Recipe, at: Date): MealSlot => {
+  const fromRecipe = MEAL_SLOTS.find(s => s === recipe.mealType?.trim().toLowerCase());
+  if (fromRecipe) return fromRecipe;
+  const hour = at.getHours();
+  if (hour < 11) return 'breakfast';
+  if (hour < 15) return 'lunch';
+  if (hour < 17) return 'snack';
+  return 'dinner';
+};
+
+/**
+ * Freezes the recipe's per-serving nutrition into an entry for the servings eaten,
+ * so later edits to the recipe don't rewrite the diary
+ */
+export const createFoodLogEntry = (
+  recipe: Recipe,
+  servings: number,
+  options: { mealType?: MealSlot; cooked?: boolean; loggedAt?: Date } = {}
+): FoodLogEntry => {
+  const at = options.loggedAt || new Date();
+  return {
+    recipeId: recipe.id,
+    title: recipe.title,
+    mealType: options.mealType || guessMealSlot(recipe, at),
+    servings,
+    calories: Math.round((recipe.calories || 0) * servings),
+    protein: Math.round((recipe.protein || 0) * servings),
+    carbs: Math.round((recipe.carbs || 0) * servings),
+    fat: Math.round((recipe.fat || 0) * servings),
+    cooked: options.cooked ?? true,
+    loggedAt: at.toISOString()
+  };
+};
+
+/**
+ * Sums calories and macros across entries
+ */
+export const sumFoodLog = (entries: FoodLogEntry[]): MacroTargets =>
+  entries.reduce(
+    (totals, e) => ({
+      calories: totals.calories + e.calories,
+      protein: totals.protein + e.protein,
+      carbs: totals.carbs + e.carbs,
+      fat: totals.fat + e.fat
+    }),
+    { ...EMPTY_TOTALS }
+  );
+
+/**
+ * Groups entries into consecutive local days starting at `startDate`, including empty days
+ */
+export const summarizeFoodLogByDay = (entries: FoodLogEntry[], startDate: Date, days: number): DailyIntake[] =>
+  Array.from({ length: days }, (_, i) => {
+    const day = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + i);
+    const date = toLocalDate(day);
+    const dayEntries = entries.filter(e => toLocalDate(new Date(e.loggedAt)) === date);
+    return { date, totals: sumFoodLog(dayEntries), entries: dayEntries };
+  });
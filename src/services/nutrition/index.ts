@@ -0,0 +1,32 @@
+/**
+ * Nutrition Services
+ * Central export for local nutrition calculation
+ */
+
+export { NUTRIENT_TABLE } from './nutrientTable';
+export type { NutrientEntry } from './nutrientTable';
+export {
+  calculateRecipeNutrition,
+  applyNutrition,
+  lookupNutrients,
+  ingredientToGrams
+} from './nutritionCalculator';
+export type { RecipeNutrition } from './nutritionCalculator';
+export {
+  calculateNutritionTargets,
+  calculateBmr,
+  calculateTdee,
+  getTargetGoal,
+  getSlotTargets,
+  getMealTargets,
+  checkMacroTargets
+} from './nutritionTargets';
+export type { NutritionTargets, TargetGoal, TargetMiss } from './nutritionTargets';
+export {
+  createFoodLogEntry,
+  sumFoodLog,
+  summarizeFoodLogByDay,
+  guessMealSlot,
+  toLocalDate
+} from './foodLog';
+export type { DailyIntake } from './foodLog';
@@ -0,0 +1,151 @@
+/**
+ * Nutrient Table
+ * Bundled per-100g nutrient values keyed on lowercase canonical_ingredients names.
+ * density (g/ml) converts volume measures; gramsPer converts counted units ("each", "clove", "slice").
+ */
+
+export interface NutrientEntry {
+  calories: number; // kcal per 100g
+  protein: number;  // g per 100g
+  carbs: number;    // g per 100g
+  fat: number;      // g per 100g
+  density?: number; // g per ml (defaults to water)
+  gramsPer?: Record<string, number>; // Weight of one counted unit, e.g. { each: 50 } for an egg
+}
+
+export const NUTRIENT_TABLE: Record<string, NutrientEntry> = {
+  // Poultry, meat & seafood
+  'chicken breast': { calories: 120, protein: 22.5, carbs: 0, fat: 2.6, gramsPer: { each: 174 } },
+  'chicken thigh': { calories: 177, protein: 24, carbs: 0, fat: 8.2, gramsPer: { each: 110 } },
+  'ground chicken': { calories: 143, protein: 17.4, carbs: 0, fat: 8.1 },
+  'ground turkey': { calories: 150, protein: 19.7, carbs: 0, fat: 8.3 },
+  'turkey breast': { calories: 114, protein: 23.7, carbs: 0, fat: 1.5 },
+  'ground beef': { calories: 215, protein: 18.6, carbs: 0, fat: 15 },
+  'steak': { calories: 160, protein: 21, carbs: 0, fat: 8, gramsPer: { each: 225 } },
+  'pork tenderloin': { calories: 120, protein: 21, carbs: 0, fat: 3.5 },
+  'pork chop': { calories: 172, protein: 21, carbs: 0, fat: 9.5, gramsPer: { each: 170 } },
+  'bacon': { calories: 417, protein: 13, carbs: 1.4, fat: 40, gramsPer: { slice: 28, each: 28 } },
+  'lamb': { calories: 282, protein: 16.6, carbs: 0, fat: 23.4 },
+  'salmon': { calories: 208, protein: 20, carbs: 0, fat: 13, gramsPer: { fillet: 170, each: 170 } },
+  'cod': { calories: 82, protein: 18, carbs: 0, fat: 0.7, gramsPer: { fillet: 170, each: 170 } },
+  'tilapia': { calories: 96, protein: 20, carbs: 0, fat: 1.7, gramsPer: { fillet: 115, each: 115 } },
+  'tuna': { calories: 116, protein: 25.5, carbs: 0, fat: 0.8, gramsPer: { can: 142 } },
+  'shrimp': { calories: 85, protein: 20, carbs: 0, fat: 0.5, gramsPer: { each: 12 } },
+  'tofu': { calories: 144, protein: 15.8, carbs: 2.8, fat: 8.7, gramsPer: { block: 400 } },
+  'tempeh': { calories: 192, protein: 20.3, carbs: 7.6, fat: 10.8 },
+
+  // Eggs & dairy
+  'egg': { calories: 143, protein: 12.6, carbs: 0.7, fat: 9.5, gramsPer: { each: 50 } },
+  'egg white': { calories: 52, protein: 10.9, carbs: 0.7, fat: 0.2, density: 1.03, gramsPer: { each: 33 } },
+  'milk': { calories: 61, protein: 3.2, carbs: 4.8, fat: 3.3, density: 1.03 },
+  'almond milk': { calories: 15, protein: 0.6, carbs: 0.3, fat: 1.2, density: 1.01 },
+  'greek yogurt': { calories: 73, protein: 9.9, carbs: 3.9, fat: 1.9, density: 1.05 },
+  'yogurt': { calories: 61, protein: 3.5, carbs: 4.7, fat: 3.3, density: 1.05 },
+  'cottage cheese': { calories: 98, protein: 11.1, carbs: 3.4, fat: 4.3, density: 0.95 },
+  'butter': { calories: 717, protein: 0.9, carbs: 0.1, fat: 81, density: 0.96 },
+  'heavy cream': { calories: 340, protein: 2.8, carbs: 2.7, fat: 36, density: 1.0 },
+  'sour cream': { calories: 198, protein: 2.4, carbs: 4.6, fat: 19, density: 1.0 },
+  'cheddar cheese': { calories: 403, protein: 24.9, carbs: 1.3, fat: 33, density: 0.48 },
+  'parmesan': { calories: 431, protein: 38, carbs: 4.1, fat: 29, density: 0.42 },
+  'mozzarella': { calories: 280, protein: 27.5, carbs: 3.1, fat: 17.1, density: 0.47 },
+  'feta': { calories: 264, protein: 14.2, carbs: 4.1, fat: 21.3, density: 0.63 },
+
+  // Grains, breads & starches
+  'white rice': { calories: 365, protein: 7.1, carbs: 80, fat: 0.7, density: 0.85 },
+  'rice': { calories: 365, protein: 7.1, carbs: 80, fat: 0.7, density: 0.85 },
+  'brown rice': { calories: 370, protein: 7.9, carbs: 77, fat: 2.9, density: 0.85 },
+  'quinoa': { calories: 368, protein: 14.1, carbs: 64, fat: 6.1, density: 0.72 },
+  'rolled oats': { calories: 379, protein: 13.2, carbs: 67.7, fat: 6.5, density: 0.34 },
+  'oats': { calories: 379, protein: 13.2, carbs: 67.7, fat: 6.5, density: 0.34 },
+  'pasta': { calories: 371, protein: 13, carbs: 75, fat: 1.5, density: 0.42 },
+  'spaghetti': { calories: 371, protein: 13, carbs: 75, fat: 1.5 },
+  'bread': { calories: 265, protein: 9, carbs: 49, fat: 3.2, gramsPer: { slice: 30, each: 30 } },
+  'flour tortilla': { calories: 312, protein: 8.3, carbs: 51, fat: 8, gramsPer: { each: 45 } },
+  'corn tortilla': { calories: 218, protein: 5.7, carbs: 44.6, fat: 2.9, gramsPer: { each: 26 } },
+  'all-purpose flour': { calories: 364, protein: 10.3, carbs: 76.3, fat: 1, density: 0.53 },
+  'flour': { calories: 364, protein: 10.3, carbs: 76.3, fat: 1, density: 0.53 },
+  'cornstarch': { calories: 381, protein: 0.3, carbs: 91.3, fat: 0.1, density: 0.54 },
+  'potato': { calories: 77, protein: 2, carbs: 17.5, fat: 0.1, density: 0.65, gramsPer: { each: 213 } },
+  'sweet potato': { calories: 86, protein: 1.6, carbs: 20.1, fat: 0.1, density: 0.56, gramsPer: { each: 130 } },
+
+  // Legumes, nuts & seeds
+  'black beans': { calories: 132, protein: 8.9, carbs: 23.7, fat: 0.5, density: 0.72, gramsPer: { can: 240 } },
+  'chickpeas': { calories: 164, protein: 8.9, carbs: 27.4, fat: 2.6, density: 0.7, gramsPer: { can: 240 } },
+  'lentils': { calories: 352, protein: 24.6, carbs: 63.4, fat: 1.1, density: 0.8 },
+  'edamame': { calories: 121, protein: 11.9, carbs: 8.9, fat: 5.2, density: 0.6 },
+  'almonds': { calories: 579, protein: 21.2, carbs: 21.6, fat: 49.9, density: 0.6, gramsPer: { each: 1.2 } },
+  'walnuts': { calories: 654, protein: 15.2, carbs: 13.7, fat: 65.2, density: 0.42 },
+  'peanut butter': { calories: 588, protein: 25, carbs: 20, fat: 50, density: 1.08 },
+  'chia seeds': { calories: 486, protein: 16.5, carbs: 42.1, fat: 30.7, density: 0.7 },
+  'hummus': { calories: 166, protein: 7.9, carbs: 14.3, fat: 9.6, density: 1.0 },
+
+  // Vegetables
+  'onion': { calories: 40, protein: 1.1, carbs: 9.3, fat: 0.1, density: 0.6, gramsPer: { each: 110 } },
+  'red onion': { calories: 40, protein: 1.1, carbs: 9.3, fat: 0.1, density: 0.6, gramsPer: { each: 110 } },
+  'green onion': { calories: 32, protein: 1.8, carbs: 7.3, fat: 0.2, density: 0.42, gramsPer: { each: 15, stalk: 15 } },
+  'garlic': { calories: 149, protein: 6.4, carbs: 33.1, fat: 0.5, density: 0.57, gramsPer: { clove: 3, head: 40, each: 3 } },
+  'ginger': { calories: 80, protein: 1.8, carbs: 17.8, fat: 0.8, density: 0.4, gramsPer: { inch: 6 } },
+  'tomato': { calories: 18, protein: 0.9, carbs: 3.9, fat: 0.2, density: 0.6, gramsPer: { each: 123 } },
+  'cherry tomatoes': { calories: 18, protein: 0.9, carbs: 3.9, fat: 0.2, density: 0.63, gramsPer: { each: 17 } },
+  'canned tomatoes': { calories: 32, protein: 1.6, carbs: 7.3, fat: 0.3, density: 1.03, gramsPer: { can: 411 } },
+  'spinach': { calories: 23, protein: 2.9, carbs: 3.6, fat: 0.4, density: 0.13 },
+  'baby spinach': { calories: 23, protein: 2.9, carbs: 3.6, fat: 0.4, density: 0.13 },
+  'kale': { calories: 49, protein: 4.3, carbs: 8.8, fat: 0.9, density: 0.28 },
+  'broccoli': { calories: 34, protein: 2.8, carbs: 6.6, fat: 0.4, density: 0.38, gramsPer: { head: 600, each: 600 } },
+  'cauliflower': { calories: 25, protein: 1.9, carbs: 5, fat: 0.3, density: 0.45, gramsPer: { head: 575, each: 575 } },
+  'bell pepper': { calories: 31, protein: 1, carbs: 6, fat: 0.3, density: 0.63, gramsPer: { each: 120 } },
+  'carrot': { calories: 41, protein: 0.9, carbs: 9.6, fat: 0.2, density: 0.54, gramsPer: { each: 61 } },
+  'celery': { calories: 16, protein: 0.7, carbs: 3, fat: 0.2, density: 0.5, gramsPer: { stalk: 40, each: 40 } },
+  'zucchini': { calories: 17, protein: 1.2, carbs: 3.1, fat: 0.3, density: 0.53, gramsPer: { each: 200 } },
+  'mushrooms': { calories: 22, protein: 3.1, carbs: 3.3, fat: 0.3, density: 0.3, gramsPer: { each: 18 } },
+  'cucumber': { calories: 15, protein: 0.7, carbs: 3.6, fat: 0.1, density: 0.55, gramsPer: { each: 300 } },
+  'asparagus': { calories: 20, protein: 2.2, carbs: 3.9, fat: 0.1, density: 0.57, gramsPer: { spear: 16, each: 16 } },
+  'green beans': { calories: 31, protein: 1.8, carbs: 7, fat: 0.2, density: 0.46 },
+  'peas': { calories: 81, protein: 5.4, carbs: 14.5, fat: 0.4, density: 0.6 },
+  'corn': { calories: 86, protein: 3.3, carbs: 19, fat: 1.4, density: 0.6, gramsPer: { ear: 90, each: 90 } },
+  'cabbage': { calories: 25, protein: 1.3, carbs: 5.8, fat: 0.1, density: 0.38, gramsPer: { head: 900 } },
+  'avocado': { calories: 160, protein: 2, carbs: 8.5, fat: 14.7, density: 0.63, gramsPer: { each: 150 } },
+
+  // Fruit
+  'lemon': { calories: 29, protein: 1.1, carbs: 9.3, fat: 0.3, gramsPer: { each: 84 } },
+  'lemon juice': { calories: 22, protein: 0.4, carbs: 6.9, fat: 0.2, density: 1.03 },
+  'lime': { calories: 30, protein: 0.7, carbs: 10.5, fat: 0.2, gramsPer: { each: 67 } },
+  'lime juice': { calories: 25, protein: 0.4, carbs: 8.4, fat: 0.1, density: 1.03 },
+  'banana': { calories: 89, protein: 1.1, carbs: 22.8, fat: 0.3, gramsPer: { each: 118 } },
+  'apple': { calories: 52, protein: 0.3, carbs: 13.8, fat: 0.2, gramsPer: { each: 182 } },
+  'blueberries': { calories: 57, protein: 0.7, carbs: 14.5, fat: 0.3, density: 0.62 },
+  'strawberries': { calories: 32, protein: 0.7, carbs: 7.7, fat: 0.3, density: 0.64, gramsPer: { each: 12 } },
+
+  // Oils, sauces & sweeteners
+  'olive oil': { calories: 884, protein: 0, carbs: 0, fat: 100, density: 0.91 },
+  'vegetable oil': { calories: 884, protein: 0, carbs: 0, fat: 100, density: 0.92 },
+  'coconut oil': { calories: 892, protein: 0, carbs: 0, fat: 99, density: 0.92 },
+  'sesame oil': { calories: 884, protein: 0, carbs: 0, fat: 100, density: 0.92 },
+  'coconut milk': { calories: 197, protein: 2, carbs: 2.8, fat: 21.3, density: 0.97, gramsPer: { can: 400 } },
+  'soy sauce': { calories: 53, protein: 8.1, carbs: 4.9, fat: 0.6, density: 1.15 },
+  'balsamic vinegar': { calories: 88, protein: 0.5, carbs: 17, fat: 0, density: 1.06 },
+  'vinegar': { calories: 18, protein: 0, carbs: 0, fat: 0, density: 1.0 },
+  'dijon mustard': { calories: 66, protein: 4, carbs: 5.3, fat: 4, density: 1.05 },
+  'mayonnaise': { calories: 680, protein: 1, carbs: 0.6, fat: 75, density: 0.91 },
+  'chicken broth': { calories: 6, protein: 0.6, carbs: 0.4, fat: 0.2, density: 1.0 },
+  'vegetable broth': { calories: 6, protein: 0.2, carbs: 1.2, fat: 0.1, density: 1.0 },
+  'honey': { calories: 304, protein: 0.3, carbs: 82.4, fat: 0, density: 1.42 },
+  'maple syrup': { calories: 260, protein: 0, carbs: 67, fat: 0.1, density: 1.32 },
+  'sugar': { calories: 387, protein: 0, carbs: 100, fat: 0, density: 0.85 },
+  'brown sugar': { calories: 380, protein: 0.1, carbs: 98, fat: 0, density: 0.93 },
+  'protein powder': { calories: 400, protein: 80, carbs: 8, fat: 6, density: 0.4, gramsPer: { scoop: 30 } },
+
+  // Herbs, spices & zero-calorie basics
+  'thyme': { calories: 101, protein: 5.6, carbs: 24.5, fat: 1.7, density: 0.17, gramsPer: { sprig: 0.8 } },
+  'basil': { calories: 23, protein: 3.2, carbs: 2.6, fat: 0.6, density: 0.09, gramsPer: { leaf: 0.5 } },
+  'parsley': { calories: 36, protein: 3, carbs: 6.3, fat: 0.8, density: 0.07, gramsPer: { bunch: 60 } },
+  'cilantro': { calories: 23, protein: 2.1, carbs: 3.7, fat: 0.5, density: 0.07, gramsPer: { bunch: 60 } },
+  'rosemary': { calories: 131, protein: 3.3, carbs: 20.7, fat: 5.9, density: 0.15, gramsPer: { sprig: 1 } },
+  'black pepper': { calories: 251, protein: 10.4, carbs: 64, fat: 3.3, density: 0.46 },
+  'cumin': { calories: 375, protein: 17.8, carbs: 44.2, fat: 22.3, density: 0.4 },
+  'paprika': { calories: 282, protein: 14.1, carbs: 54, fat: 13, density: 0.46 },
+  'chili powder': { calories: 282, protein: 13.5, carbs: 49.7, fat: 14.3, density: 0.45 },
+  'cinnamon': { calories: 247, protein: 4, carbs: 80.6, fat: 1.2, density: 0.56 },
+  'salt': { calories: 0, protein: 0, carbs: 0, fat: 0, density: 1.2 },
+  'water': { calories: 0, protein: 0, carbs: 0, fat: 0, density: 1.0 },
+};
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { lookupNutrients, ingredientToGrams, calculateRecipeNutrition, applyNutrition } from './nutritionCalculator';
+import { FIXTURE_RECIPE } from '../../../services/llm/fixtures';
+import type { Recipe } from '../../../types';
+
+const fixture = { ...FIXTURE_RECIPE, chefPersona: '', cuisine: '' } as Recipe;
+
+const withIngredients = (ingredients: Recipe['sections'][number]['ingredients'], servings = 1): Recipe => ({
+  ...fixture,
+  servings,
+  calories: 999,
+  sections: [{ type: 'Ingredients', title: 'Ingredients', items: [], ingredients, metadata: {} }]
+});
+
+describe('lookupNutrients', () => {
+  it('matches plurals, descriptors and parentheticals to table entries', () => {
+    expect(lookupNutrients('Chicken Thighs')).toBe(lookupNutrients('chicken thigh'));
+    expect(lookupNutrients('Extra Virgin Olive Oil')).toBe(lookupNutrients('olive oil'));
+    expect(lookupNutrients('Garlic (minced)')).toBe(lookupNutrients('garlic'));
+  });
+
+  it('returns null for unknown ingredients', () => {
+    expect(lookupNutrients('dragon fruit essence')).toBeNull();
+  });
+});
+
+describe('ingredientToGrams', () => {
+  const garlic = lookupNutrients('garlic')!;
+
+  it('converts weights, volumes and counted units', () => {
+    expect(ingredientToGrams({ item: 'garlic', quantity: '10', unit: 'g', prep: '' }, garlic)).toBe(10);
+    expect(ingredientToGrams({ item: 'garlic', quantity: '3', unit: 'cloves', prep: '' }, garlic)).toBe(9);
+    expect(ingredientToGrams({ item: 'garlic', quantity: '100', unit: 'ml', prep: '' }, garlic)).toBeCloseTo(57);
+  });
+
+  it('returns null when the amount cannot be resolved', () => {
+    expect(ingredientToGrams({ item: 'garlic', quantity: 'to taste', unit: '', prep: '' }, garlic)).toBeNull();
+    expect(ingredientToGrams({ item: 'garlic', quantity: '1', unit: 'handful', prep: '' }, garlic)).toBeNull();
+  });
+});
+
+describe('recipe nutrition', () => {
+  it('sums per-serving calories and macros from the ingredients', () => {
+    const recipe = withIngredients([{ item: 'Chicken Thigh', quantity: '200', unit: 'g', prep: '' }], 2);
+    expect(calculateRecipeNutrition(recipe)).toEqual({
+      calories: 177,
+      protein: 24,
+      carbs: 0,
+      fat: 8,
+      matchedIngredients: 1,
+      totalIngredients: 1
+    });
+  });
+
+  it('keeps the model calorie count when too few ingredients are recognized', () => {
+    const recipe = withIngredients([
+      { item: 'Chicken Thigh', quantity: '100', unit: 'g', prep: '' },
+      { item: 'mystery spice blend', quantity: '1', unit: 'tbsp', prep: '' },
+      { item: 'secret sauce', quantity: '2', unit: 'tbsp', prep: '' }
+    ]);
+    const result = applyNutrition(recipe);
+    expect(result.calories).toBe(999);
+    expect(result.protein).toBe(24);
+  });
+
+  it('leaves recipes with no recognized ingredients unchanged', () => {
+    const recipe = withIngredients([{ item: 'mystery spice blend', quantity: '1', unit: 'tbsp', prep: '' }]);
+    expect(applyNutrition(recipe)).toBe(recipe);
+  });
+});
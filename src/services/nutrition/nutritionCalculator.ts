@@ -0,0 +1,119 @@
+/**
+ * Nutrition Calculator
+ * Converts structured ingredients to grams and sums per-serving calories and macros
+ */
+
+import { NUTRIENT_TABLE } from './nutrientTable';
+import type { NutrientEntry } from './nutrientTable';
+import { parseQuantity, normalizeUnit, getUnitDefinition, getRecipeServings, singularize } from '../units';
+import type { Recipe, Ingredient } from '../../../types';
+
+export interface RecipeNutrition {
+  calories: number; // kcal per serving
+  protein: number;  // g per serving
+  carbs: number;    // g per serving
+  fat: number;      // g per serving
+  matchedIngredients: number;
+  totalIngredients: number;
+}
+
+// Below this share of recognized ingredients, a model-provided calorie count is kept
+const MIN_CALORIE_COVERAGE = 0.5;
+
+// Unit words that mean "one of the thing itself"
+const GENERIC_COUNT_UNITS = ['', 'each', 'count', 'whole', 'piece', 'large', 'medium', 'small', 'item'];
+
+/**
+ * Finds the table entry for a canonical ingredient name.
+ * Tries the exact name, its singular form, then the longest table name contained in it
+ * ("Extra Virgin Olive Oil" -> "olive oil", "boneless chicken thighs" -> "chicken thigh").
+ */
+export const lookupNutrients = (name: string): NutrientEntry | null => {
+  const lower = name.toLowerCase().replace(/\(.*?\)/g, ' ').replace(/[^a-z\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!lower) return null;
+  if (NUTRIENT_TABLE[lower]) return NUTRIENT_TABLE[lower];
+
+  const singular = lower.split(' ').map(singularize).join(' ');
+  if (NUTRIENT_TABLE[singular]) return NUTRIENT_TABLE[singular];
+
+  const padded = ` ${lower} `;
+  const paddedSingular = ` ${singular} `;
+  const candidates = Object.keys(NUTRIENT_TABLE)
+    .filter(key => padded.includes(` ${key} `) || paddedSingular.includes(` ${key} `))
+    .sort((a, b) => b.length - a.length);
+  return candidates.length > 0 ? NUTRIENT_TABLE[candidates[0]] : null;
+};
+
+/**
+ * Converts an ingredient's quantity and unit into grams, or null when it can't be resolved
+ */
+export const ingredientToGrams = (ingredient: Ingredient, entry: NutrientEntry): number | null => {
+  const amount = parseQuantity(ingredient.quantity);
+  if (amount === null) return null;
+  const unit = normalizeUnit(ingredient.unit);
+
+  const definition = getUnitDefinition(unit);
+  if (definition?.kind === 'weight') return amount * definition.toBase;
+  if (definition?.kind === 'volume') return amount * definition.toBase * (entry.density ?? 1);
+
+  const perUnit = entry.gramsPer?.[unit] ?? (GENERIC_COUNT_UNITS.includes(unit) ? entry.gramsPer?.each : undefined);
+  return perUnit !== undefined ? amount * perUnit : null;
+};
+
+/**
+ * Sums nutrients across all structured ingredients and divides by servings
+ */
+export function calculateRecipeNutrition(recipe: Recipe): RecipeNutrition {
+  const ingredients: Ingredient[] = [];
+  (recipe.sections || []).forEach(s => {
+    if (s.ingredients) ingredients.push(...s.ingredients);
+  });
+
+  const totals = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+  let matchedIngredients = 0;
+
+  ingredients.forEach(ingredient => {
+    const entry = lookupNutrients(ingredient.item);
+    if (!entry) return;
+    const grams = ingredientToGrams(ingredient, entry);
+    if (grams === null) return;
+
+    matchedIngredients++;
+    const factor = grams / 100;
+    totals.calories += entry.calories * factor;
+    totals.protein += entry.protein * factor;
+    totals.carbs += entry.carbs * factor;
+    totals.fat += entry.fat * factor;
+  });
+
+  const servings = getRecipeServings(recipe);
+  return {
+    calories: Math.round(totals.calories / servings),
+    protein: Math.round(totals.protein / servings),
+    carbs: Math.round(totals.carbs / servings),
+    fat: Math.round(totals.fat / servings),
+    matchedIngredients,
+    totalIngredients: ingredients.length
+  };
+}
+
+/**
+ * Returns the recipe with per-serving calories and macros computed from its ingredients.
+ * Recipes with no recognized ingredients are returned unchanged; when too few are recognized,
+ * macros are still filled in but an existing calorie count is kept.
+ */
+export function applyNutrition(recipe: Recipe): Recipe {
+  const nutrition = calculateRecipeNutrition(recipe);
+  if (nutrition.matchedIngredients === 0) return recipe;
+
+  const coverage = nutrition.matchedIngredients / nutrition.totalIngredients;
+  const keepCalories = coverage < MIN_CALORIE_COVERAGE && recipe.calories > 0;
+
+  return {
+    ...recipe,
+    calories: keepCalories ? recipe.calories : nutrition.calories,
+    protein: nutrition.protein,
+    carbs: nutrition.carbs,
+    fat: nutrition.fat
+  };
+}
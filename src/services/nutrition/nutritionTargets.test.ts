@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBmr,
+  calculateTdee,
+  calculateNutritionTargets,
+  getTargetGoal,
+  getSlotTargets,
+  getMealTargets,
+  checkMacroTargets
+} from './nutritionTargets';
+import type { UserProfile } from '../../../types';
+
+const profile: UserProfile = {
+  age: 30,
+  gender: 'Male',
+  weight: 80,
+  height: 180,
+  units: { system: 'metric', weight: 'kg', height: 'cm', distance: 'km' },
+  goals: [],
+  dietaryRestrictions: [],
+  allergies: [],
+  dislikes: [],
+  cookingSkill: 'Intermediate'
+};
+
+const daily = { calories: 2000, protein: 150, carbs: 200, fat: 70 };
+
+describe('calculateBmr', () => {
+  it('applies Mifflin-St Jeor with the gender offset', () => {
+    expect(calculateBmr(profile)).toBe(1780);
+    expect(calculateBmr({ ...profile, gender: 'Female' })).toBe(1614);
+    expect(calculateBmr({ ...profile, gender: 'Other' })).toBe(1697);
+  });
+
+  it('converts imperial weight and height first', () => {
+    const imperial: UserProfile = {
+      ...profile,
+      weight: 176.4,
+      height: 70.87,
+      units: { system: 'imperial', weight: 'lbs', height: 'inches', distance: 'miles' }
+    };
+    expect(Math.abs(calculateBmr(imperial) - 1780)).toBeLessThanOrEqual(2);
+  });
+});
+
+describe('calculateNutritionTargets', () => {
+  it('defaults to a moderate activity level', () => {
+    expect(calculateTdee(profile)).toBe(2759);
+    expect(calculateTdee({ ...profile, activityLevel: 'sedentary' })).toBe(2136);
+  });
+
+  it('sets protein per kg, fat as a share of calories and carbs from the rest', () => {
+    const targets = calculateNutritionTargets(profile);
+    expect(targets.goal).toBe('maintain');
+    expect(targets.daily).toEqual({ calories: 2759, protein: 128, carbs: 355, fat: 92 });
+  });
+
+  it('never goes below the calorie floor', () => {
+    const small: UserProfile = { ...profile, age: 80, gender: 'Female', weight: 40, height: 150, goals: ['Lose weight'], activityLevel: 'sedentary' };
+    expect(calculateNutritionTargets(small).daily.calories).toBe(1200);
+  });
+});
+
+describe('getTargetGoal', () => {
+  it('reads goal labels, checking lean bulk before bulk', () => {
+    expect(getTargetGoal(['Lean Bulk'])).toBe('lean-bulk');
+    expect(getTargetGoal(['Build muscle'])).toBe('bulk');
+    expect(getTargetGoal(['Lose fat'])).toBe('cut');
+    expect(getTargetGoal(['Healthy Eating'])).toBe('maintain');
+  });
+});
+
+describe('meal targets', () => {
+  it('splits the daily targets over the selected slots only', () => {
+    expect(getSlotTargets(daily, 'lunch', ['lunch', 'dinner'])).toEqual({ calories: 933, protein: 70, carbs: 93, fat: 33 });
+    expect(getSlotTargets(daily, 'dinner', ['breakfast', 'lunch', 'dinner']).calories).toBe(800);
+  });
+
+  it('accepts a slot or display label and gives an even third otherwise', () => {
+    expect(getMealTargets(daily, 'Dinner').calories).toBe(800);
+    expect(getMealTargets(daily, 'snack').calories).toBe(182);
+    expect(getMealTargets(daily).calories).toBe(667);
+    expect(getMealTargets(daily, 'Brunch').protein).toBe(50);
+  });
+});
+
+describe('checkMacroTargets', () => {
+  const targets = { calories: 800, protein: 50, carbs: 80, fat: 30 };
+
+  it('accepts calories within 15% and protein above 85%', () => {
+    expect(checkMacroTargets({ calories: 900, protein: 43 }, targets)).toEqual([]);
+  });
+
+  it('reports calorie and protein misses', () => {
+    expect(checkMacroTargets({ calories: 950, protein: 40 }, targets)).toEqual([
+      { field: 'calories', target: 800, actual: 950 },
+      { field: 'protein', target: 50, actual: 40 }
+    ]);
+  });
+});
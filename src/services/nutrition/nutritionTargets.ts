@@ -0,0 +1,160 @@
+/**
+ * Nutrition Targets
+ * Derives daily and per-meal calorie/macro targets from the profile:
+ * Mifflin-St Jeor BMR -> TDEE (activity multiplier) -> goal adjustment -> macro split
+ */
+
+import type { UserProfile, MacroTargets, MealSlot, ActivityLevel } from '../../../types';
+
+export type TargetGoal = 'cut' | 'maintain' | 'lean-bulk' | 'bulk';
+
+export interface NutritionTargets {
+  bmr: number;          // kcal/day at rest
+  tdee: number;         // kcal/day including activity
+  goal: TargetGoal;
+  daily: MacroTargets;
+}
+
+const ACTIVITY_MULTIPLIER: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  'very-active': 1.9
+};
+const DEFAULT_ACTIVITY: ActivityLevel = 'moderate';
+
+// Calorie adjustment vs TDEE and protein per kg of body weight for each goal
+const GOAL_SETTINGS: Record<TargetGoal, { calorieFactor: number; proteinPerKg: number; fatShare: number }> = {
+  cut: { calorieFactor: 0.8, proteinPerKg: 2.2, fatShare: 0.25 },
+  maintain: { calorieFactor: 1, proteinPerKg: 1.6, fatShare: 0.3 },
+  'lean-bulk': { calorieFactor: 1.1, proteinPerKg: 2, fatShare: 0.25 },
+  bulk: { calorieFactor: 1.2, proteinPerKg: 1.8, fatShare: 0.25 }
+};
+
+// First match wins, so "Lean Bulk" is checked before "Bulk"
+const GOAL_PATTERNS: Array<{ pattern: RegExp; goal: TargetGoal }> = [
+  { pattern: /lean\s*bulk|recomp/i, goal: 'lean-bulk' },
+  { pattern: /bulk|gain|mass|muscle/i, goal: 'bulk' },
+  { pattern: /cut|lose|loss|lean|shred|fat/i, goal: 'cut' }
+];
+
+// Share of the daily targets each slot should carry, normalized over the selected slots
+const SLOT_SHARE: Record<MealSlot, number> = {
+  breakfast: 0.25,
+  lunch: 0.35,
+  dinner: 0.4,
+  snack: 0.1
+};
+const DEFAULT_MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+const MIN_CALORIES = 1200;
+
+/**
+ * Reads the goals list ("Lean Bulk", "Healthy Eating") as a calorie goal
+ */
+export const getTargetGoal = (goals: string[] = []): TargetGoal => {
+  for (const { pattern, goal } of GOAL_PATTERNS) {
+    if (goals.some(g => pattern.test(g))) return goal;
+  }
+  return 'maintain';
+};
+
+const toKg = (profile: UserProfile): number =>
+  profile.units?.weight === 'kg' ? profile.weight : profile.weight * 0.453592;
+
+const toCm = (profile: UserProfile): number =>
+  profile.units?.height === 'cm' ? profile.height : profile.height * 2.54;
+
+/**
+ * Mifflin-St Jeor resting energy expenditure; averages the two formulas when gender isn't male/female
+ */
+export const calculateBmr = (profile: UserProfile): number => {
+  const base = 10 * toKg(profile) + 6.25 * toCm(profile) - 5 * profile.age;
+  const gender = (profile.gender || '').toLowerCase();
+  const offset = gender.startsWith('m') ? 5 : gender.startsWith('f') ? -161 : -78;
+  return Math.round(base + offset);
+};
+
+/**
+ * BMR scaled by activity level
+ */
+export const calculateTdee = (profile: UserProfile): number =>
+  Math.round(calculateBmr(profile) * ACTIVITY_MULTIPLIER[profile.activityLevel || DEFAULT_ACTIVITY]);
+
+/**
+ * Daily calorie and macro targets for the profile.
+ * Protein is set per kg of body weight, fat as a share of calories, carbs fill the rest.
+ */
+export function calculateNutritionTargets(profile: UserProfile): NutritionTargets {
+  const bmr = calculateBmr(profile);
+  const tdee = calculateTdee(profile);
+  const goal = getTargetGoal(profile.goals);
+  const settings = GOAL_SETTINGS[goal];
+
+  const calories = Math.max(MIN_CALORIES, Math.round(tdee * settings.calorieFactor));
+  const protein = Math.round(toKg(profile) * settings.proteinPerKg);
+  const fat = Math.round((calories * settings.fatShare) / KCAL_PER_GRAM.fat);
+  const remaining = calories - protein * KCAL_PER_GRAM.protein - fat * KCAL_PER_GRAM.fat;
+  const carbs = Math.max(0, Math.round(remaining / KCAL_PER_GRAM.carbs));
+
+  return { bmr, tdee, goal, daily: { calories, protein, carbs, fat } };
+}
+
+/**
+ * Splits daily targets across the selected meal slots
+ */
+export const getSlotTargets = (targets: MacroTargets, slot: MealSlot, mealTypes: MealSlot[]): MacroTargets => {
+  const total = mealTypes.reduce((sum, s) => sum + SLOT_SHARE[s], 0) || 1;
+  const share = SLOT_SHARE[slot] / total;
+  return {
+    calories: Math.round(targets.calories * share),
+    protein: Math.round(targets.protein * share),
+    carbs: Math.round(targets.carbs * share),
+    fat: Math.round(targets.fat * share)
+  };
+};
+
+/**
+ * Targets for a single meal on a three-meal day. Accepts a slot or a display label
+ * ("Dinner"); anything else (or no meal type) gets an even third.
+ */
+export const getMealTargets = (daily: MacroTargets, mealType?: string): MacroTargets => {
+  const slot = DEFAULT_MEAL_SLOTS.concat('snack').find(s => s === mealType?.trim().toLowerCase());
+  if (slot) return getSlotTargets(daily, slot, slot === 'snack' ? [...DEFAULT_MEAL_SLOTS, 'snack'] : DEFAULT_MEAL_SLOTS);
+  return {
+    calories: Math.round(daily.calories / 3),
+    protein: Math.round(daily.protein / 3),
+    carbs: Math.round(daily.carbs / 3),
+    fat: Math.round(daily.fat / 3)
+  };
+};
+
+// How far a recipe may drift from its targets before it's sent back
+const CALORIE_TOLERANCE = 0.15;
+const PROTEIN_FLOOR = 0.85;
+
+export interface TargetMiss {
+  field: keyof MacroTargets;
+  target: number;
+  actual: number;
+}
+
+/**
+ * Lists where a recipe's per-serving nutrition misses its targets:
+ * calories outside +/-15%, or protein below 85% of the goal
+ */
+export const checkMacroTargets = (
+  nutrition: { calories: number; protein?: number },
+  targets: MacroTargets
+): TargetMiss[] => {
+  const misses: TargetMiss[] = [];
+  if (targets.calories > 0 && Math.abs(nutrition.calories - targets.calories) > targets.calories * CALORIE_TOLERANCE) {
+    misses.push({ field: 'calories', target: targets.calories, actual: nutrition.calories });
+  }
+  if (targets.protein > 0 && (nutrition.protein ?? 0) < targets.protein * PROTEIN_FLOOR) {
+    misses.push({ field: 'protein', target: targets.protein, actual: nutrition.protein ?? 0 });
+  }
+  return misses;
+};
@@ -0,0 +1,12 @@
+/**
+ * Profile Services
+ * Central export for the versioned user profile schema
+ */
+
+export {
+  PROFILE_SCHEMA_VERSION,
+  fromProfileDoc,
+  toProfileDoc,
+  getProfileSchemaVersion,
+  toCookingSkill
+} from './profileSchema';
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { fromProfileDoc, toProfileDoc, getProfileSchemaVersion, toCookingSkill, PROFILE_SCHEMA_VERSION } from './profileSchema';
+import type { UserProfile } from '../../../types';
+
+const profile: UserProfile = {
+  age: 41,
+  gender: 'Female',
+  weight: 62,
+  height: 168,
+  units: { system: 'metric', weight: 'kg', height: 'cm', distance: 'km' },
+  goals: ['Eat more greens'],
+  dietaryRestrictions: ['Vegetarian'],
+  allergies: ['Peanuts'],
+  dislikes: ['Olives'],
+  cookingSkill: 'Advanced'
+};
+
+describe('toCookingSkill', () => {
+  it('reads the full option labels older forms saved', () => {
+    expect(toCookingSkill('Beginner (Toast is hard)')).toBe('Beginner');
+    expect(toCookingSkill('elite')).toBe('Elite');
+  });
+
+  it('falls back to the default skill', () => {
+    expect(toCookingSkill(undefined)).toBe('Intermediate');
+    expect(toCookingSkill('Wizard')).toBe('Intermediate');
+  });
+});
+
+describe('profile documents', () => {
+  it('treats documents without a version as v1', () => {
+    expect(getProfileSchemaVersion({})).toBe(1);
+    expect(getProfileSchemaVersion({ chef_schema_version: 2 })).toBe(2);
+  });
+
+  it('reads v1 chef settings from the legacy fitness_goals map', () => {
+    const read = fromProfileDoc({
+      age: 35,
+      fitness_goals: { goals: ['Batch cook', ''], allergies: ['Shellfish', 4], cooking_skill: 'Beginner (Toast is hard)' }
+    });
+    expect(read.goals).toEqual(['Batch cook']);
+    expect(read.allergies).toEqual(['Shellfish']);
+    expect(read.dietaryRestrictions).toEqual([]);
+    expect(read.cookingSkill).toBe('Beginner');
+    expect(read.units.system).toBe('imperial');
+  });
+
+  it('ignores fitness_goals once the document is v2', () => {
+    const read = fromProfileDoc({
+      chef_schema_version: 2,
+      fitness_goals: { allergies: ['Shellfish'] },
+      chef_preferences: { allergies: ['Peanuts'] }
+    });
+    expect(read.allergies).toEqual(['Peanuts']);
+  });
+
+  it('round-trips a profile through the current schema', () => {
+    const doc = toProfileDoc('user-1', profile);
+    expect(doc.id).toBe('user-1');
+    expect(doc.chef_schema_version).toBe(PROFILE_SCHEMA_VERSION);
+    expect(doc).not.toHaveProperty('fitness_goals');
+    expect(fromProfileDoc(doc)).toEqual(profile);
+  });
+});
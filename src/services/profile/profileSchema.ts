@@ -0,0 +1,104 @@
+/**
+ * Profile Schema
+ * Versioned mapping between UserProfile and the shared `profiles` document.
+ *
+ * v1 (legacy): chef settings live in the Hub's `fitness_goals` map
+ *   { goals, dietary_restrictions, allergies, dislikes, cooking_skill }
+ * v2: chef settings live in their own `chef_preferences` map, tagged with
+ *   `chef_schema_version`, so they no longer share a field with fitness data
+ */
+
+import { DEFAULT_UNITS, DEFAULT_PROFILE_VALUES } from '../../../constants/defaults';
+import type { UserProfile, CookingSkill, UnitSystem, ActivityLevel } from '../../../types';
+
+export const PROFILE_SCHEMA_VERSION = 2;
+
+const COOKING_SKILLS: CookingSkill[] = ['Beginner', 'Intermediate', 'Advanced', 'Elite'];
+const ACTIVITY_LEVELS: ActivityLevel[] = ['sedentary', 'light', 'moderate', 'active', 'very-active'];
+
+interface ChefPreferencesDoc {
+  goals: string[];
+  dietary_restrictions: string[];
+  allergies: string[];
+  dislikes: string[];
+  cooking_skill: CookingSkill;
+  activity_level?: ActivityLevel;
+}
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+
+/**
+ * Reads a stored skill, including the full option labels older forms saved
+ * ("Beginner (Toast is hard)" -> "Beginner")
+ */
+export const toCookingSkill = (value: unknown): CookingSkill =>
+  COOKING_SKILLS.find(skill => String(value || '').trim().toLowerCase().startsWith(skill.toLowerCase())) ||
+  DEFAULT_PROFILE_VALUES.cookingSkill;
+
+/**
+ * Which schema version a stored profile document uses
+ */
+export const getProfileSchemaVersion = (data: Record<string, any>): number =>
+  typeof data.chef_schema_version === 'number' ? data.chef_schema_version : 1;
+
+const readChefPreferences = (data: Record<string, any>): Record<string, any> =>
+  getProfileSchemaVersion(data) >= 2 ? data.chef_preferences || {} : data.fitness_goals || {};
+
+/**
+ * Builds a UserProfile from a stored profile document of any version
+ */
+export const fromProfileDoc = (data: Record<string, any>): UserProfile => {
+  const prefs = readChefPreferences(data);
+  const preferredUnits = (data.preferred_units || {}) as Record<string, string>;
+
+  return {
+    age: data.age ?? DEFAULT_PROFILE_VALUES.age,
+    gender: data.gender ?? DEFAULT_PROFILE_VALUES.gender,
+    weight: Number(data.weight ?? DEFAULT_PROFILE_VALUES.weight),
+    height: Number(data.height ?? DEFAULT_PROFILE_VALUES.height),
+    units: {
+      system: (preferredUnits.system || DEFAULT_UNITS.system) as UnitSystem['system'],
+      weight: (preferredUnits.weight || DEFAULT_UNITS.weight) as UnitSystem['weight'],
+      height: (preferredUnits.height || DEFAULT_UNITS.height) as UnitSystem['height'],
+      distance: (preferredUnits.distance || DEFAULT_UNITS.distance) as UnitSystem['distance']
+    },
+    goals: toStringList(prefs.goals),
+    dietaryRestrictions: toStringList(prefs.dietary_restrictions),
+    allergies: toStringList(prefs.allergies),
+    dislikes: toStringList(prefs.dislikes),
+    cookingSkill: toCookingSkill(prefs.cooking_skill),
+    activityLevel: ACTIVITY_LEVELS.find(level => level === prefs.activity_level)
+  };
+};
+
+/**
+ * Builds the current-version document fields for a profile (merged into the stored document).
+ * The legacy `fitness_goals` map is left alone since the Hub owns it.
+ */
+export const toProfileDoc = (userId: string, profile: UserProfile): Record<string, any> => {
+  const chefPreferences: ChefPreferencesDoc = {
+    goals: profile.goals || [],
+    dietary_restrictions: profile.dietaryRestrictions || [],
+    allergies: profile.allergies || [],
+    dislikes: profile.dislikes || [],
+    cooking_skill: profile.cookingSkill || DEFAULT_PROFILE_VALUES.cookingSkill,
+    ...(profile.activityLevel ? { activity_level: profile.activityLevel } : {})
+  };
+
+  return {
+    id: userId,
+    age: profile.age,
+    gender: profile.gender,
+    weight: profile.weight,
+    height: profile.height,
+    preferred_units: {
+      system: profile.units?.system || DEFAULT_UNITS.system,
+      weight: profile.units?.weight || DEFAULT_UNITS.weight,
+      height: profile.units?.height || DEFAULT_UNITS.height,
+      distance: profile.units?.distance || DEFAULT_UNITS.distance
+    },
+    chef_preferences: chefPreferences,
+    chef_schema_version: PROFILE_SCHEMA_VERSION
+  };
+};
@@ -0,0 +1,26 @@
+/**
+ * Search Services
+ * Central export for cookbook search: the recipe index, query parsing and facets
+ */
+
+export {
+  buildRecipeIndex,
+  searchRecipes,
+  parseSearchQuery,
+  mergeSearchFilters,
+  hasActiveFilters,
+  getSearchFacets,
+  getIngredientNames,
+  normalizeTag,
+  EMPTY_SEARCH_FILTERS,
+  MEAL_TYPE_FACETS,
+  DIFFICULTY_FACETS
+} from './recipeSearch';
+export type {
+  RecipeSearchIndex,
+  RecipeSearchFilters,
+  RecipeSearchResult,
+  RecipeSearchFacets,
+  ParsedSearchQuery,
+  FacetCount
+} from './recipeSearch';
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { buildRecipeIndex, searchRecipes, parseSearchQuery, getSearchFacets, getIngredientNames, normalizeTag, EMPTY_SEARCH_FILTERS } from './recipeSearch';
+import { chefRegistry, CHEF_PERSONAS, generateRecipe, getDefaultChefId } from '../chef';
+import { setModelProvider, LocalFixtureProvider } from '../../../services/llm';
+import type { ModelRequest } from '../../../services/llm';
+import { FIXTURE_RECIPE } from '../../../services/llm/fixtures';
+import type { Recipe } from '../../../types';
+
+const recipe = (overrides: Partial<Recipe>): Recipe => ({
+  title: '',
+  description: '',
+  difficulty: 'easy',
+  chefNote: '',
+  totalTime: 0,
+  calories: 0,
+  cuisine: '',
+  chefPersona: '',
+  sections: [],
+  ...overrides
+});
+
+const cookbook = [
+  recipe({ id: 'traybake', title: 'Lemon Chicken Traybake', totalTime: 25, calories: 450, dietaryTags: ['Gluten-Free'], ingredientNames: ['chicken thighs', 'lemons'], mealType: 'dinner', createdAt: '2026-01-01' }),
+  recipe({ id: 'pasta', title: 'Chicken Pasta', totalTime: 20, calories: 700, ingredientNames: ['chicken breast', 'pasta'], mealType: 'dinner', difficulty: 'medium', createdAt: '2026-02-01' }),
+  recipe({ id: 'roast', title: 'Slow Roast Chicken', totalTime: 120, calories: 500, dietaryTags: ['gluten free'], mealType: 'dinner', createdAt: '2026-03-01' }),
+  recipe({
+    id: 'salad',
+    title: 'Tomato Salad',
+    description: 'Topped with grilled chicken',
+    totalTime: 10,
+    calories: 300,
+    dietaryTags: ['gluten-free', 'vegan'],
+    mealType: 'lunch',
+    isFavorite: true,
+    sections: [{ type: 'Ingredients', title: 'Ingredients', items: [], ingredients: [{ item: 'Tomatoes', quantity: '2', unit: '', prep: '' }], metadata: {} }]
+  })
+];
+const index = buildRecipeIndex(cookbook);
+const ids = (query: string, filters = EMPTY_SEARCH_FILTERS) => searchRecipes(index, query, filters).map(r => r.recipe.id);
+
+describe('parseSearchQuery', () => {
+  it('splits the headline query into a term and filters', () => {
+    const parsed = parseSearchQuery('chicken under 30 minutes, gluten-free');
+    expect(parsed.terms).toEqual(['chicken']);
+    expect(parsed.filters).toMatchObject({ maxTotalTime: 30, dietaryTags: ['gluten-free'] });
+  });
+
+  it('reads calories before time', () => {
+    const { filters } = parseSearchQuery('under 500 calories');
+    expect(filters.maxCalories).toBe(500);
+    expect(filters.maxTotalTime).toBeUndefined();
+    expect(parseSearchQuery('200-600 kcal').filters).toMatchObject({ minCalories: 200, maxCalories: 600 });
+  });
+
+  it('reads hours, meal types, difficulty, favorites and exclusions', () => {
+    const parsed = parseSearchQuery('easy pre-workout favourites within an hour without nuts');
+    expect(parsed.filters).toMatchObject({ maxTotalTime: 60, mealTypes: ['pre_workout'], difficulties: ['easy'], favoritesOnly: true });
+    expect(parsed.excludedTerms).toEqual(['nut']);
+    expect(parsed.terms).toEqual([]);
+  });
+
+  it('recognizes custom tags from the index', () => {
+    expect(parseSearchQuery('batch cook friendly', ['batch-cook']).filters.dietaryTags).toEqual(['batch-cook']);
+  });
+});
+
+describe('searchRecipes', () => {
+  it('answers the headline query', () => {
+    expect(ids('chicken under 30 minutes, gluten-free')).toEqual(['traybake', 'salad']);
+  });
+
+  it('ranks title matches above description matches', () => {
+    expect(ids('chicken')).toEqual(['roast', 'pasta', 'traybake', 'salad']);
+  });
+
+  it('boosts recipes whose title contains the whole phrase', () => {
+    expect(ids('lemon chicken')).toEqual(['traybake']);
+  });
+
+  it('matches plurals and word prefixes', () => {
+    expect(ids('tomato')).toEqual(['salad']);
+    expect(ids('chick')).toHaveLength(4);
+  });
+
+  it('applies facet filters and exclusions', () => {
+    expect(ids('', { ...EMPTY_SEARCH_FILTERS, mealTypes: ['lunch'] })).toEqual(['salad']);
+    expect(ids('', { ...EMPTY_SEARCH_FILTERS, difficulties: ['medium'] })).toEqual(['pasta']);
+    expect(ids('', { ...EMPTY_SEARCH_FILTERS, favoritesOnly: true })).toEqual(['salad']);
+    expect(ids('dinner under 600 calories')).toEqual(['roast', 'traybake']);
+    expect(ids('chicken without pasta')).not.toContain('pasta');
+  });
+});
+
+describe('facets and helpers', () => {
+  it('counts meal types, difficulties and normalized tags', () => {
+    const facets = getSearchFacets(index);
+    expect(facets.mealTypes).toEqual([{ value: 'dinner', count: 3 }, { value: 'lunch', count: 1 }]);
+    expect(facets.dietaryTags).toEqual([{ value: 'gluten-free', count: 3 }, { value: 'vegan', count: 1 }]);
+  });
+
+  it('normalizes tags and falls back to ingredient lines', () => {
+    expect(normalizeTag(' Gluten Free ')).toBe('gluten-free');
+    expect(getIngredientNames([{ type: 'Ingredients', title: '', items: ['2 eggs', ' '], metadata: {} }])).toEqual(['2 eggs']);
+  });
+});
+
+/**
+ * Fixture provider whose recipe only states prep and cook time in its Overview lines, like real model output
+ */
+class QuickRecipeProvider extends LocalFixtureProvider {
+  async generateText(request: ModelRequest): Promise<string> {
+    if (request.task !== 'recipe') return super.generateText(request);
+    return JSON.stringify({
+      ...FIXTURE_RECIPE,
+      totalTime: 25,
+      sections: FIXTURE_RECIPE.sections.map(section =>
+        section.type === 'Overview' ? { ...section, items: ['Prep: 10 min', 'Cook: 15 min', 'Serves: 2'] } : section
+      )
+    });
+  }
+}
+
+describe('searching generated recipes', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    CHEF_PERSONAS.forEach(chef => chefRegistry.register(chef));
+  });
+
+  afterAll(() => {
+    setModelProvider(null);
+    vi.restoreAllMocks();
+  });
+
+  it('finds a generated recipe with the headline query, in full and as a cookbook summary', async () => {
+    setModelProvider(new QuickRecipeProvider());
+    const generated = await generateRecipe({ chefId: getDefaultChefId() });
+    expect(generated).toMatchObject({ prepTime: 10, cookTime: 15, totalTime: 25 });
+    expect(generated.dietaryTags).toEqual(expect.arrayContaining(['gluten-free', 'dairy-free', 'nut-free']));
+    expect(generated.dietaryTags).not.toContain('vegetarian');
+
+    const full = { ...generated, id: 'generated' };
+    const summary: Recipe = { ...full, id: 'summary', sections: [], isSummary: true, ingredientNames: getIngredientNames(generated.sections) };
+    const results = searchRecipes(buildRecipeIndex([full, summary]), 'chicken under 30 minutes, gluten-free');
+    expect(results.map(r => r.recipe.id).sort()).toEqual(['generated', 'summary']);
+  });
+});
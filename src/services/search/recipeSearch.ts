@@ -0,0 +1,335 @@
+/**
+ * Recipe Search
+ * Client-side full-text index over cookbook recipes (title, description, ingredient names,
+ * tags, cuisine, chef and notes) with facet filters and relevance ranking.
+ * Free-text queries can carry filters too: "chicken under 30 minutes, gluten-free".
+ */
+
+import type { Recipe, RecipeSection } from '../../../types';
+
+export interface RecipeSearchFilters {
+  mealTypes: string[];     // Stored meal types ("dinner", "pre_workout"); any of them matches
+  difficulties: string[];  // "easy" | "medium" | "hard"; any of them matches
+  dietaryTags: string[];   // Normalized tags ("gluten-free"); every one must be present
+  maxTotalTime?: number;   // Minutes
+  minCalories?: number;    // Per serving
+  maxCalories?: number;    // Per serving
+  favoritesOnly: boolean;
+}
+
+export interface ParsedSearchQuery {
+  terms: string[];          // Normalized words every result must contain
+  excludedTerms: string[];  // From "without X" / "no X"
+  filters: RecipeSearchFilters; // Filters written into the query text
+}
+
+export interface RecipeSearchResult {
+  recipe: Recipe;
+  score: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface RecipeSearchFacets {
+  mealTypes: FacetCount[];
+  difficulties: FacetCount[];
+  dietaryTags: FacetCount[];
+}
+
+interface IndexedField {
+  tokens: Set<string>;
+  weight: number;
+}
+
+interface IndexedRecipe {
+  recipe: Recipe;
+  fields: IndexedField[];
+  title: string;
+  mealType: string;
+  difficulty: string;
+  tags: Set<string>;
+}
+
+export interface RecipeSearchIndex {
+  entries: IndexedRecipe[];
+  tags: string[]; // Every tag in the indexed recipes, so queries can mention custom ones
+}
+
+export const EMPTY_SEARCH_FILTERS: RecipeSearchFilters = {
+  mealTypes: [],
+  difficulties: [],
+  dietaryTags: [],
+  favoritesOnly: false
+};
+
+export const MEAL_TYPE_FACETS = ['breakfast', 'lunch', 'dinner', 'snack', 'pre_workout', 'post_workout'];
+export const DIFFICULTY_FACETS = ['easy', 'medium', 'hard'];
+
+// Tags recognized in queries even before any recipe carries them
+const KNOWN_DIETARY_TAGS = [
+  'gluten-free', 'dairy-free', 'nut-free', 'egg-free', 'soy-free', 'vegan', 'vegetarian',
+  'pescatarian', 'keto', 'paleo', 'low-carb', 'high-protein', 'low-fat', 'low-calorie', 'halal', 'kosher'
+];
+
+// Relative weight of a match in each field
+const FIELD_WEIGHTS = {
+  title: 5,
+  ingredients: 3,
+  tags: 3,
+  cuisine: 2,
+  chef: 1,
+  description: 1,
+  notes: 1
+};
+
+const FAVORITE_BOOST = 0.5;
+const TITLE_PHRASE_BOOST = 5;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'or', 'the', 'with', 'for', 'of', 'to', 'in', 'on', 'me', 'my', 'some', 'any',
+  'that', 'is', 'are', 'recipe', 'dish', 'meal', 'something', 'show', 'find', 'want', 'under', 'less', 'than'
+]);
+
+/**
+ * Lowercase, accent-free tag with dashes between words ("Gluten Free" -> "gluten-free")
+ */
+export const normalizeTag = (tag: string): string =>
+  tag.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().replace(/[\s_]+/g, '-');
+
+// Crude plural folding so "tomatoes" finds "tomato" and "berries" finds "berry"
+const stem = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 4 && /(oes|ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1)
+    .map(stem);
+
+/**
+ * Ingredient names of a recipe: the structured rows, or the plain lines of
+ * Ingredients sections for recipes that never had rows
+ */
+export const getIngredientNames = (sections: RecipeSection[]): string[] => {
+  const structured = sections.flatMap(s => s.ingredients || []).map(i => i.item.trim()).filter(Boolean);
+  const names = structured.length > 0
+    ? structured
+    : sections.filter(s => s.type === 'Ingredients').flatMap(s => s.items || []).map(line => line.trim()).filter(Boolean);
+  return Array.from(new Set(names));
+};
+
+const toMealType = (value: string): string => value.toLowerCase().trim().replace(/[\s-]+/g, '_');
+
+/**
+ * Search index over recipes; summaries use their stored ingredient names, full recipes their sections
+ */
+export function buildRecipeIndex(recipes: Recipe[]): RecipeSearchIndex {
+  const allTags = new Set<string>();
+  const entries = recipes.map(recipe => {
+    const tags = new Set((recipe.dietaryTags || []).map(normalizeTag).filter(Boolean));
+    tags.forEach(tag => allTags.add(tag));
+    const ingredientNames = recipe.sections?.length ? getIngredientNames(recipe.sections) : recipe.ingredientNames || [];
+
+    const fields: IndexedField[] = [
+      { text: recipe.title, weight: FIELD_WEIGHTS.title },
+      { text: ingredientNames.join(' '), weight: FIELD_WEIGHTS.ingredients },
+      { text: (recipe.dietaryTags || []).join(' '), weight: FIELD_WEIGHTS.tags },
+      { text: recipe.cuisine || '', weight: FIELD_WEIGHTS.cuisine },
+      { text: recipe.chefPersona || '', weight: FIELD_WEIGHTS.chef },
+      { text: recipe.description || '', weight: FIELD_WEIGHTS.description },
+      { text: recipe.chefNote || '', weight: FIELD_WEIGHTS.notes }
+    ].map(({ text, weight }) => ({ tokens: new Set(tokenize(text)), weight }));
+
+    return {
+      recipe,
+      fields,
+      title: tokenize(recipe.title).join(' '),
+      mealType: toMealType(recipe.mealType || ''),
+      difficulty: (recipe.difficulty || '').toLowerCase(),
+      tags
+    };
+  });
+
+  return { entries, tags: Array.from(allTags).sort() };
+}
+
+// Every word of a tag, with spaces or dashes between them ("gluten free", "gluten-free")
+const tagPattern = (tag: string): RegExp =>
+  new RegExp(`\\b${tag.split('-').map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[\\s-]*')}\\b`, 'g');
+
+const TIME_UNIT = '(minutes?|mins?|m|hours?|hrs?|h)';
+const CALORIE_UNIT = '(kcals?|cals?|calories)';
+
+/**
+ * Splits free text into search terms and the filters it spells out.
+ * Pass known tags (e.g. the index's) so custom tags are recognized too.
+ */
+export function parseSearchQuery(text: string, knownTags: string[] = []): ParsedSearchQuery {
+  const filters: RecipeSearchFilters = { ...EMPTY_SEARCH_FILTERS, mealTypes: [], difficulties: [], dietaryTags: [] };
+  let rest = ` ${text.toLowerCase()} `;
+  const take = (pattern: RegExp, onMatch: (match: string[]) => void) => {
+    rest = rest.replace(pattern, (...args) => {
+      onMatch(args.slice(0, -2)); // Drop offset and input
+      return ' ';
+    });
+  };
+
+  // Calories before time, so "under 500 calories" isn't read as minutes
+  take(new RegExp(`\\b(\\d+)\\s*(?:-|to)\\s*(\\d+)\\s*${CALORIE_UNIT}\\b`, 'g'), m => {
+    filters.minCalories = Number(m[1]);
+    filters.maxCalories = Number(m[2]);
+  });
+  take(new RegExp(`(?:\\b(?:under|below|less than|fewer than|at most|max)|<)\\s*(\\d+)\\s*${CALORIE_UNIT}\\b`, 'g'), m => {
+    filters.maxCalories = Number(m[1]);
+  });
+  take(new RegExp(`(?:\\b(?:over|above|more than|at least|min)|>)\\s*(\\d+)\\s*${CALORIE_UNIT}\\b`, 'g'), m => {
+    filters.minCalories = Number(m[1]);
+  });
+
+  // "under 30 minutes", "within an hour", "in 45 min", "< 1 hr"
+  take(new RegExp(`(?:\\b(?:under|below|less than|within|in|at most|max)|<)\\s*(\\d+|an?)\\s*${TIME_UNIT}\\b`, 'g'), m => {
+    const amount = /^\d+$/.test(m[1]) ? Number(m[1]) : 1;
+    filters.maxTotalTime = m[2].startsWith('h') ? amount * 60 : amount;
+  });
+  take(/\b(?:under|below|less than|within|at most|max)\s*(\d+)\b/g, m => {
+    filters.maxTotalTime = Number(m[1]); // Bare number: minutes
+  });
+
+  take(/\bfavou?rites?\b/g, () => { filters.favoritesOnly = true; });
+
+  Array.from(new Set([...KNOWN_DIETARY_TAGS, ...knownTags.map(normalizeTag)]))
+    .sort((a, b) => b.length - a.length) // "low-carb" before "carb"
+    .forEach(tag => take(tagPattern(tag), () => {
+      if (!filters.dietaryTags.includes(tag)) filters.dietaryTags.push(tag);
+    }));
+
+  take(/\b(breakfast|lunch|dinner|snacks?|pre[\s_-]?workout|post[\s_-]?workout)\b/g, m => {
+    const mealType = toMealType(m[1].replace(/^(pre|post)(?=workout)/, '$1_')).replace(/^snacks$/, 'snack');
+    if (!filters.mealTypes.includes(mealType)) filters.mealTypes.push(mealType);
+  });
+
+  take(/\b(easy|medium|hard)\b/g, m => {
+    if (!filters.difficulties.includes(m[1])) filters.difficulties.push(m[1]);
+  });
+
+  const excludedTerms: string[] = [];
+  take(/\b(?:without|no)\s+([a-z]+)/g, m => { excludedTerms.push(...tokenize(m[1])); });
+
+  const terms = tokenize(rest).filter(term => !STOPWORDS.has(term));
+  return { terms: Array.from(new Set(terms)), excludedTerms, filters };
+}
+
+/**
+ * Explicit facet choices combined with the filters read from a query; the stricter limit wins
+ */
+export const mergeSearchFilters = (a: RecipeSearchFilters, b: RecipeSearchFilters): RecipeSearchFilters => {
+  const union = (x: string[], y: string[]) => Array.from(new Set([...x, ...y]));
+  const lowest = (x?: number, y?: number) => (x === undefined ? y : y === undefined ? x : Math.min(x, y));
+  const highest = (x?: number, y?: number) => (x === undefined ? y : y === undefined ? x : Math.max(x, y));
+  return {
+    mealTypes: union(a.mealTypes, b.mealTypes),
+    difficulties: union(a.difficulties, b.difficulties),
+    dietaryTags: union(a.dietaryTags, b.dietaryTags),
+    maxTotalTime: lowest(a.maxTotalTime, b.maxTotalTime),
+    minCalories: highest(a.minCalories, b.minCalories),
+    maxCalories: lowest(a.maxCalories, b.maxCalories),
+    favoritesOnly: a.favoritesOnly || b.favoritesOnly
+  };
+};
+
+/**
+ * Whether any filter narrows the results
+ */
+export const hasActiveFilters = (filters: RecipeSearchFilters): boolean =>
+  filters.mealTypes.length > 0 ||
+  filters.difficulties.length > 0 ||
+  filters.dietaryTags.length > 0 ||
+  filters.maxTotalTime !== undefined ||
+  filters.minCalories !== undefined ||
+  filters.maxCalories !== undefined ||
+  filters.favoritesOnly;
+
+const matchesFilters = (entry: IndexedRecipe, filters: RecipeSearchFilters): boolean => {
+  const { recipe } = entry;
+  if (filters.mealTypes.length > 0 && !filters.mealTypes.includes(entry.mealType)) return false;
+  if (filters.difficulties.length > 0 && !filters.difficulties.includes(entry.difficulty)) return false;
+  if (!filters.dietaryTags.every(tag => entry.tags.has(tag))) return false;
+  // Recipes without a recorded time can't be shown to fit a time limit
+  if (filters.maxTotalTime !== undefined && (!recipe.totalTime || recipe.totalTime > filters.maxTotalTime)) return false;
+  if (filters.minCalories !== undefined && (recipe.calories || 0) < filters.minCalories) return false;
+  if (filters.maxCalories !== undefined && (!recipe.calories || recipe.calories > filters.maxCalories)) return false;
+  if (filters.favoritesOnly && !recipe.isFavorite) return false;
+  return true;
+};
+
+// Best field match for one term: whole word scores the field weight, a word prefix half of it
+const scoreTerm = (entry: IndexedRecipe, term: string): number => {
+  let best = 0;
+  entry.fields.forEach(field => {
+    if (field.tokens.has(term)) {
+      best = Math.max(best, field.weight);
+    } else if (term.length >= 3 && Array.from(field.tokens).some(token => token.startsWith(term))) {
+      best = Math.max(best, field.weight / 2);
+    }
+  });
+  return best;
+};
+
+/**
+ * Recipes matching every term and filter, most relevant first (newest first when tied).
+ * `filters` are the facet selections; filters spelled out in the query apply as well.
+ */
+export function searchRecipes(
+  index: RecipeSearchIndex,
+  queryText: string,
+  filters: RecipeSearchFilters = EMPTY_SEARCH_FILTERS
+): RecipeSearchResult[] {
+  const parsed = parseSearchQuery(queryText, index.tags);
+  const activeFilters = mergeSearchFilters(filters, parsed.filters);
+  const phrase = parsed.terms.join(' ');
+
+  const results: RecipeSearchResult[] = [];
+  index.entries.forEach(entry => {
+    if (!matchesFilters(entry, activeFilters)) return;
+    if (parsed.excludedTerms.some(term => entry.fields.some(field => field.tokens.has(term)))) return;
+
+    let score = 0;
+    for (const term of parsed.terms) {
+      const termScore = scoreTerm(entry, term);
+      if (termScore === 0) return; // Every term has to match somewhere
+      score += termScore;
+    }
+    if (parsed.terms.length > 1 && entry.title.includes(phrase)) score += TITLE_PHRASE_BOOST;
+    if (entry.recipe.isFavorite) score += FAVORITE_BOOST;
+    results.push({ recipe: entry.recipe, score });
+  });
+
+  return results.sort((a, b) =>
+    b.score - a.score || (b.recipe.createdAt || '').localeCompare(a.recipe.createdAt || '')
+  );
+}
+
+const countValues = (values: string[]): FacetCount[] => {
+  const counts = new Map<string, number>();
+  values.filter(Boolean).forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+/**
+ * How many indexed recipes carry each meal type, difficulty and tag
+ */
+export const getSearchFacets = (index: RecipeSearchIndex): RecipeSearchFacets => ({
+  mealTypes: countValues(index.entries.map(e => e.mealType)),
+  difficulties: countValues(index.entries.map(e => e.difficulty)),
+  dietaryTags: countValues(index.entries.flatMap(e => Array.from(e.tags)))
+});
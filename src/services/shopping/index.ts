@@ -0,0 +1,7 @@
+/**
+ * Shopping Services
+ * Central export for building aggregated shopping lists
+ */
+
+export { buildShoppingList, addShoppingQuantities, canonicalIngredientName, normalizeCountUnit } from './shoppingListBuilder';
+export type { ShoppingNeed, ShoppingListBuild, ShoppingListBuildOptions } from './shoppingListBuilder';
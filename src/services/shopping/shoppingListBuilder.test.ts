@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { buildShoppingList, canonicalIngredientName, normalizeCountUnit, addShoppingQuantities } from './shoppingListBuilder';
+import type { Recipe, Ingredient, InventoryItem } from '../../../types';
+
+const recipe = (title: string, ingredients: Ingredient[]): Recipe => ({
+  title,
+  description: '',
+  difficulty: 'Easy',
+  chefNote: '',
+  totalTime: 30,
+  calories: 0,
+  cuisine: '',
+  chefPersona: '',
+  sections: [{ type: 'Ingredients', title: 'Ingredients', items: [], ingredients, metadata: {} }]
+});
+
+const stock = (name: string, quantity?: number, unit?: string): InventoryItem => ({
+  id: name,
+  ingredientId: name,
+  name,
+  quantity,
+  unit,
+  inStock: true
+});
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('ingredient names and units', () => {
+  it('reduces names to a canonical key', () => {
+    expect(canonicalIngredientName('Cherry Tomatoes (halved)')).toBe('cherry tomato');
+    expect(canonicalIngredientName('  Baby SPINACH ')).toBe('baby spinach');
+  });
+
+  it('treats "each"-style units as plain counts', () => {
+    expect(normalizeCountUnit('whole')).toBe('');
+    expect(normalizeCountUnit('Cloves')).toBe('clove');
+  });
+
+  it('adds compatible quantities and refuses incompatible ones', () => {
+    const sum = addShoppingQuantities({ quantity: 1, unit: 'cup' }, { quantity: 8, unit: 'tbsp' });
+    expect(sum?.unit).toBe('cup');
+    expect(sum?.quantity).toBeCloseTo(1.5, 3);
+    expect(addShoppingQuantities({ quantity: 1, unit: 'cup' }, { quantity: 100, unit: 'g' })).toBeNull();
+  });
+});
+
+describe('buildShoppingList', () => {
+  it('sums the same ingredient across recipes in one unit', () => {
+    const { toBuy } = buildShoppingList([
+      recipe('Soup', [{ item: 'Olive Oil', quantity: '2', unit: 'tbsp', prep: '' }]),
+      recipe('Salad', [{ item: 'olive oil', quantity: '1', unit: 'tbsp', prep: '' }])
+    ], { system: 'metric' });
+
+    expect(toBuy).toHaveLength(1);
+    expect(toBuy[0]).toMatchObject({ key: 'olive oil', quantity: 45, unit: 'ml', recipes: ['Soup', 'Salad'] });
+  });
+
+  it('keeps unmeasured ingredients with no quantity', () => {
+    const { toBuy } = buildShoppingList([recipe('Soup', [{ item: 'Salt', quantity: 'to taste', unit: '', prep: '' }])]);
+    expect(toBuy).toEqual([{ key: 'salt', name: 'Salt', quantity: null, unit: '', recipes: ['Soup'] }]);
+  });
+
+  it('subtracts inventory and moves fully stocked items to inStock', () => {
+    const { toBuy, inStock } = buildShoppingList([
+      recipe('Stir Fry', [
+        { item: 'Garlic', quantity: '6', unit: 'cloves', prep: '' },
+        { item: 'Lemon', quantity: '1', unit: '', prep: '' }
+      ])
+    ], { inventory: [stock('garlic', 4, 'cloves'), stock('Lemons')] });
+
+    expect(toBuy).toEqual([expect.objectContaining({ key: 'garlic', quantity: 2, unit: 'clove' })]);
+    expect(inStock).toEqual([expect.objectContaining({ key: 'lemon' })]);
+  });
+});
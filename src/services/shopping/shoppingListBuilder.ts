@@ -0,0 +1,261 @@
+/**
+ * Shopping List Builder
+ * Aggregates ingredients across several recipes into one list: units are normalized
+ * through the conversion table, quantities are summed per canonical ingredient and
+ * whatever the inventory already holds is subtracted.
+ */
+
+import { normalizeUnit, getUnitDefinition, parseQuantity, fromBaseUnits, singularize } from '../units';
+import type { MeasurementSystem } from '../units';
+import { lookupNutrients, ingredientToGrams } from '../nutrition';
+import type { Recipe, Ingredient, InventoryItem } from '../../../types';
+
+export interface ShoppingNeed {
+  key: string;             // Canonical ingredient name
+  name: string;            // Display name (first spelling seen)
+  quantity: number | null; // null when no recipe gave a measurable amount ("to taste")
+  unit: string;            // Canonical unit, '' for plain counts
+  recipes: string[];       // Titles of the recipes that need it
+  onHand?: string;         // Stock the inventory reports but that couldn't be subtracted (different units)
+}
+
+export interface ShoppingListBuild {
+  toBuy: ShoppingNeed[];
+  inStock: ShoppingNeed[]; // Fully covered by the inventory
+}
+
+export interface ShoppingListBuildOptions {
+  system?: MeasurementSystem; // Units to express weights and volumes in
+  inventory?: InventoryItem[];
+}
+
+interface Accumulator {
+  name: string;
+  grams: number;
+  millilitres: number;
+  counts: Map<string, number>; // Counted units ("clove", "") -> amount
+  unmeasured: boolean;
+  recipes: Set<string>;
+}
+
+// Unit words that just mean "one of the thing"
+const COUNT_ALIASES = ['each', 'count', 'whole', 'piece', 'item', 'large', 'medium', 'small'];
+
+/**
+ * Canonical key for an ingredient name: lowercase, no parentheticals or punctuation, singular words
+ * ("Cherry Tomatoes (halved)" -> "cherry tomato")
+ */
+export const canonicalIngredientName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(' ');
+
+/**
+ * Normalized unit for counted items; words that just mean "one of the thing" become ''
+ */
+export const normalizeCountUnit = (unit: string): string => {
+  const normalized = normalizeUnit(unit);
+  return COUNT_ALIASES.includes(normalized) ? '' : normalized;
+};
+
+/**
+ * Adds two quantities when their units are compatible, returning the sum in the first unit.
+ * Returns null for incompatible units (e.g. cups and cloves).
+ */
+export const addShoppingQuantities = (
+  a: { quantity: number | null; unit: string },
+  b: { quantity: number | null; unit: string }
+): { quantity: number | null; unit: string } | null => {
+  const defA = getUnitDefinition(a.unit);
+  const defB = getUnitDefinition(b.unit);
+  const compatible = defA && defB ? defA.kind === defB.kind : !defA && !defB && normalizeCountUnit(a.unit) === normalizeCountUnit(b.unit);
+  if (!compatible) return null;
+  if (a.quantity === null) return { quantity: b.quantity, unit: b.unit };
+  if (b.quantity === null) return a;
+
+  const converted = defA && defB ? (b.quantity * defB.toBase) / defA.toBase : b.quantity;
+  return { quantity: a.quantity + converted, unit: a.unit };
+};
+
+/**
+ * Rounds up to an amount you can actually buy (whole items, 1/4 cups, 5 g steps)
+ */
+const roundUpForPurchase = (amount: number, unit: string): number => {
+  const definition = getUnitDefinition(unit);
+  let step = 1;
+  if (definition) {
+    if (definition.unit === 'g' || definition.unit === 'ml') step = amount >= 100 ? 5 : 1;
+    else if (definition.unit === 'kg' || definition.unit === 'l') step = 0.05;
+    else if (definition.system !== 'metric') step = 0.25;
+  }
+  return Number((Math.ceil(amount / step - 1e-9) * step).toFixed(2));
+};
+
+const accumulate = (acc: Map<string, Accumulator>, ingredient: Ingredient, recipeTitle: string) => {
+  const key = canonicalIngredientName(ingredient.item);
+  if (!key) return;
+  const entry = acc.get(key) || {
+    name: ingredient.item.trim(),
+    grams: 0,
+    millilitres: 0,
+    counts: new Map<string, number>(),
+    unmeasured: false,
+    recipes: new Set<string>()
+  };
+  entry.recipes.add(recipeTitle);
+
+  const amount = parseQuantity(ingredient.quantity);
+  const definition = getUnitDefinition(ingredient.unit);
+  if (amount === null) {
+    entry.unmeasured = true;
+  } else if (definition?.kind === 'weight') {
+    entry.grams += amount * definition.toBase;
+  } else if (definition?.kind === 'volume') {
+    entry.millilitres += amount * definition.toBase;
+  } else {
+    const unit = normalizeCountUnit(ingredient.unit);
+    entry.counts.set(unit, (entry.counts.get(unit) || 0) + amount);
+  }
+  acc.set(key, entry);
+};
+
+/**
+ * Folds volumes and counts into weight where the nutrient table knows the density or
+ * per-item weight, so "1 cup rice" and "200 g rice" become a single line
+ */
+const consolidate = (entry: Accumulator) => {
+  const nutrients = lookupNutrients(entry.name);
+  if (!nutrients) return;
+
+  if (entry.grams > 0 && entry.millilitres > 0 && nutrients.density) {
+    entry.grams += entry.millilitres * nutrients.density;
+    entry.millilitres = 0;
+  }
+  if (entry.grams > 0) {
+    entry.counts.forEach((amount, unit) => {
+      const grams = ingredientToGrams({ item: entry.name, quantity: String(amount), unit, prep: '' }, nutrients);
+      if (grams === null) return;
+      entry.grams += grams;
+      entry.counts.delete(unit);
+    });
+  }
+};
+
+/**
+ * Subtracts what the inventory holds from the matching need, in place.
+ * Stock without a quantity counts as "enough", matching the kitchen audit.
+ * Returns the stock amounts that couldn't be compared with what the recipes need.
+ */
+const subtractStock = (entry: Accumulator, stock: InventoryItem[]): string[] => {
+  const nutrients = lookupNutrients(entry.name);
+  const unmatched: string[] = [];
+
+  stock.forEach(item => {
+    if (item.quantity === undefined || item.quantity === null || item.quantity <= 0) {
+      entry.grams = 0;
+      entry.millilitres = 0;
+      entry.counts.clear();
+      entry.unmeasured = false;
+      return;
+    }
+
+    const unit = item.unit || '';
+    const definition = getUnitDefinition(unit);
+    const countUnit = normalizeCountUnit(unit);
+    let grams = definition?.kind === 'weight' ? item.quantity * definition.toBase : null;
+    const millilitres = definition?.kind === 'volume' ? item.quantity * definition.toBase : null;
+
+    if (millilitres !== null && entry.millilitres > 0) {
+      entry.millilitres = Math.max(0, entry.millilitres - millilitres);
+    } else if (!definition && entry.counts.has(countUnit)) {
+      entry.counts.set(countUnit, Math.max(0, entry.counts.get(countUnit)! - item.quantity));
+    } else {
+      // Compare by weight when the nutrient table can convert the stock and the need
+      if (grams === null && nutrients) {
+        grams = ingredientToGrams({ item: entry.name, quantity: String(item.quantity), unit, prep: '' }, nutrients);
+      }
+      if (grams !== null && entry.grams > 0) {
+        entry.grams = Math.max(0, entry.grams - grams);
+      } else if (grams !== null && entry.millilitres > 0 && nutrients?.density) {
+        entry.millilitres = Math.max(0, entry.millilitres - grams / nutrients.density);
+      } else {
+        unmatched.push(`${item.quantity} ${unit}`.trim());
+      }
+    }
+  });
+  return unmatched;
+};
+
+const toNeeds = (key: string, entry: Accumulator, system: MeasurementSystem): ShoppingNeed[] => {
+  const base = { key, name: entry.name, recipes: Array.from(entry.recipes) };
+  const needs: ShoppingNeed[] = [];
+
+  if (entry.grams > 0) {
+    const { amount, unit } = fromBaseUnits(entry.grams, 'weight', system);
+    needs.push({ ...base, quantity: roundUpForPurchase(amount, unit), unit });
+  }
+  if (entry.millilitres > 0) {
+    const { amount, unit } = fromBaseUnits(entry.millilitres, 'volume', system);
+    needs.push({ ...base, quantity: roundUpForPurchase(amount, unit), unit });
+  }
+  entry.counts.forEach((amount, unit) => {
+    if (amount > 0) needs.push({ ...base, quantity: roundUpForPurchase(amount, unit), unit });
+  });
+  if (needs.length === 0 && entry.unmeasured) {
+    needs.push({ ...base, quantity: null, unit: '' });
+  }
+  return needs;
+};
+
+/**
+ * Builds one aggregated shopping list for the given recipes.
+ * A recipe listed twice (e.g. planned for two days) is counted twice.
+ */
+export function buildShoppingList(recipes: Recipe[], options: ShoppingListBuildOptions = {}): ShoppingListBuild {
+  const system = options.system || 'imperial';
+  const acc = new Map<string, Accumulator>();
+
+  recipes.forEach(recipe => {
+    (recipe.sections || []).forEach(section => {
+      section.ingredients?.forEach(ingredient => accumulate(acc, ingredient, recipe.title));
+    });
+  });
+
+  const stockByKey = new Map<string, InventoryItem[]>();
+  (options.inventory || []).filter(i => i.inStock).forEach(item => {
+    const key = canonicalIngredientName(item.name);
+    stockByKey.set(key, [...(stockByKey.get(key) || []), item]);
+  });
+
+  const toBuy: ShoppingNeed[] = [];
+  const inStock: ShoppingNeed[] = [];
+
+  Array.from(acc.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([key, entry]) => {
+      consolidate(entry);
+      const needed = toNeeds(key, entry, system);
+      const stock = stockByKey.get(key);
+      if (!stock) {
+        toBuy.push(...needed);
+        return;
+      }
+
+      const unmatched = subtractStock(entry, stock);
+      const remaining = toNeeds(key, entry, system);
+      if (remaining.length === 0) {
+        inStock.push(...needed);
+        return;
+      }
+      const onHand = unmatched.length > 0 ? unmatched.join(', ') : undefined;
+      toBuy.push(...remaining.map(need => (onHand ? { ...need, onHand } : need)));
+    });
+
+  console.log(`🛒 Built shopping list from ${recipes.length} recipes: ${toBuy.length} to buy, ${inStock.length} in stock`);
+  return { toBuy, inStock };
+}
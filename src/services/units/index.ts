@@ -0,0 +1,21 @@
+/**
+ * Unit Services
+ * Central export for quantity parsing and imperial/metric conversion
+ */
+
+export {
+  normalizeUnit,
+  singularize,
+  getUnitDefinition,
+  parseQuantity,
+  parseQuantityRange,
+  formatFraction,
+  fromBaseUnits,
+  convertQuantity,
+  convertIngredient,
+  convertTemperatureText,
+  convertMeasurementText,
+  convertRecipeUnits
+} from './unitConversion';
+export { scaleRecipe, scaleIngredient, scaleQuantity, getRecipeServings } from './recipeScaler';
+export type { MeasurementSystem, UnitDefinition, QuantityRange } from './unitConversion';
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { scaleQuantity, scaleRecipe, getRecipeServings } from './recipeScaler';
+import { FIXTURE_RECIPE } from '../../../services/llm/fixtures';
+import type { Recipe } from '../../../types';
+
+const fixture = { ...FIXTURE_RECIPE, chefPersona: '', cuisine: '' } as Recipe;
+
+describe('scaleQuantity', () => {
+  it('rounds scaled amounts the way a cook would', () => {
+    expect(scaleQuantity('3', 0.5, 'cloves', 'garlic')).toBe('2');
+    expect(scaleQuantity('1', 1.5, 'tsp')).toBe('1 1/2');
+    expect(scaleQuantity('2-3', 2, 'tbsp')).toBe('4-6');
+    expect(scaleQuantity('to taste', 2, '')).toBe('to taste');
+  });
+
+  it('keeps eggs whole and rounds metric weights to sensible steps', () => {
+    expect(scaleQuantity('1', 0.5, '', 'egg')).toBe('1');
+    expect(scaleQuantity('100', 1.33, 'g')).toBe('135');
+    expect(scaleQuantity('1', 1.5, 'kg')).toBe('1.5');
+  });
+});
+
+describe('scaleRecipe', () => {
+  it('rescales ingredients and the Serves line', () => {
+    expect(getRecipeServings(fixture)).toBe(2);
+    const scaled = scaleRecipe(fixture, 6);
+    expect(scaled.servings).toBe(6);
+    expect(scaled.sections[0].items).toContain('Serves: 6');
+    expect(scaled.sections[1].ingredients![0].quantity).toBe('12');
+  });
+
+  it('scales plain ingredient lines and adds a Serves line when there is none', () => {
+    const recipe: Recipe = {
+      ...fixture,
+      servings: 2,
+      sections: [
+        { type: 'Overview', title: 'Info', items: ['Prep: 5 min'], metadata: {} },
+        { type: 'Ingredients', title: 'Ingredients', items: ['2 cups rice', 'salt to taste'], metadata: {} }
+      ]
+    };
+    const scaled = scaleRecipe(recipe, 4);
+    expect(scaled.sections[0].items).toEqual(['Prep: 5 min', 'Serves: 4']);
+    expect(scaled.sections[1].items).toEqual(['4 cups rice', 'salt to taste']);
+  });
+
+  it('leaves the sections alone when the servings do not change', () => {
+    const scaled = scaleRecipe(fixture, 2);
+    expect(scaled.sections).toBe(fixture.sections);
+  });
+});
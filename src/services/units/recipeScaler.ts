@@ -0,0 +1,127 @@
+/**
+ * Recipe Scaler
+ * Rescales a recipe to a new number of servings, rounding each quantity the way a cook would
+ * (eggs stay whole, spoons go to the nearest 1/8, grams to the nearest 5).
+ */
+
+import { getUnitDefinition, normalizeUnit, parseQuantityRange, formatFraction } from './unitConversion';
+import type { Recipe, RecipeSection, Ingredient } from '../../../types';
+
+// Counted things that can't be split
+const WHOLE_UNITS = ['egg', 'clove', 'slice', 'sprig', 'leaf', 'stalk', 'spear', 'ear'];
+
+const isEgg = (item: string): boolean => /\beggs?\b/i.test(item);
+
+/**
+ * Reads servings from the recipe, falling back to the Overview "Serves: N" line
+ */
+export const getRecipeServings = (recipe: Recipe): number => {
+  if (recipe.servings && recipe.servings > 0) return recipe.servings;
+  const overview = recipe.sections?.find(s => s.type === 'Overview');
+  const servesLine = overview?.items?.find(i => i.toLowerCase().includes('serve'));
+  const match = servesLine?.match(/(\d+)/);
+  return match ? Math.max(1, parseInt(match[1], 10)) : 1;
+};
+
+const roundTo = (value: number, step: number): number => Math.max(step, Math.round(value / step) * step);
+
+const formatMetric = (value: number): string => String(Number(value.toFixed(2)));
+
+/**
+ * Rounds one scaled amount for its unit and formats it for display
+ */
+const roundAmount = (value: number, unit: string, item: string): string => {
+  const normalized = normalizeUnit(unit);
+  const definition = getUnitDefinition(normalized);
+
+  if (definition) {
+    switch (definition.unit) {
+      case 'g':
+      case 'ml':
+        return formatMetric(roundTo(value, value >= 100 ? 5 : value >= 10 ? 1 : 0.5));
+      case 'mg':
+        return formatMetric(roundTo(value, 1));
+      case 'kg':
+      case 'l':
+        return formatMetric(roundTo(value, 0.05));
+      case 'tsp':
+      case 'tbsp':
+      case 'pinch':
+      case 'dash':
+        return formatFraction(roundTo(value, 1 / 8));
+      default:
+        return formatFraction(roundTo(value, 1 / 4)); // cups, fl oz, oz, lb
+    }
+  }
+
+  if (isEgg(item) || WHOLE_UNITS.includes(normalized)) return String(roundTo(value, 1));
+  return formatFraction(roundTo(value, 1 / 2)); // Other counted items: lemons, cans, fillets
+};
+
+/**
+ * Multiplies a quantity string (including ranges like "2-3") by factor, or returns it unchanged
+ * when it isn't numeric ("to taste")
+ */
+export const scaleQuantity = (quantity: string, factor: number, unit: string, item = ''): string => {
+  const range = parseQuantityRange(quantity);
+  if (!range) return quantity;
+  const min = roundAmount(range.min * factor, unit, item);
+  const max = roundAmount(range.max * factor, unit, item);
+  return min === max ? min : `${min}-${max}`;
+};
+
+export const scaleIngredient = (ingredient: Ingredient, factor: number): Ingredient => ({
+  ...ingredient,
+  quantity: scaleQuantity(ingredient.quantity, factor, ingredient.unit, ingredient.item)
+});
+
+const LEADING_QUANTITY = /^\s*((?:\d+(?:\.\d+)?\s+)?\d+\/\d+|\d+(?:\.\d+)?|[½¼¾⅓⅔⅛])(\s*(?:-|–)\s*(?:(?:\d+\s+)?\d+\/\d+|\d+(?:\.\d+)?))?/;
+
+/**
+ * Scales the leading amount of a plain-text ingredient line ("2 cups rice" -> "4 cups rice")
+ */
+const scaleIngredientLine = (line: string, factor: number): string => {
+  const match = line.match(LEADING_QUANTITY);
+  if (!match) return line;
+  const rest = line.slice(match[0].length);
+  const unit = rest.trim().split(/\s+/)[0] || '';
+  return `${scaleQuantity(match[0].trim(), factor, unit, rest)}${rest}`;
+};
+
+const scaleSection = (section: RecipeSection, factor: number, servings: number): RecipeSection => {
+  if (section.type === 'Ingredients') {
+    return {
+      ...section,
+      items: (section.items || []).map(line => scaleIngredientLine(line, factor)),
+      ...(section.ingredients ? { ingredients: section.ingredients.map(i => scaleIngredient(i, factor)) } : {})
+    };
+  }
+  if (section.type === 'Overview') {
+    const items = section.items || [];
+    const hasServes = items.some(i => i.toLowerCase().includes('serve'));
+    return {
+      ...section,
+      items: hasServes
+        ? items.map(i => i.toLowerCase().includes('serve') ? i.replace(/\d+/, String(servings)) : i)
+        : [...items, `Serves: ${servings}`]
+    };
+  }
+  return section;
+};
+
+/**
+ * Returns a copy of the recipe rescaled to the target servings.
+ * Per-serving nutrition is unchanged; the Overview "Serves" line and Recipe.servings are updated.
+ */
+export function scaleRecipe(recipe: Recipe, targetServings: number): Recipe {
+  const servings = Math.max(1, Math.round(targetServings));
+  const baseServings = getRecipeServings(recipe);
+  if (servings === baseServings) return { ...recipe, servings };
+
+  const factor = servings / baseServings;
+  return {
+    ...recipe,
+    servings,
+    sections: (recipe.sections || []).map(s => scaleSection(s, factor, servings))
+  };
+}
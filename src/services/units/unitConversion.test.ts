@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeUnit, singularize, parseQuantity, parseQuantityRange, formatFraction, convertQuantity, convertMeasurementText } from './unitConversion';
+
+describe('quantity parsing', () => {
+  it('reads whole numbers, decimals, mixed and unicode fractions', () => {
+    expect(parseQuantity('2')).toBe(2);
+    expect(parseQuantity('1.5')).toBe(1.5);
+    expect(parseQuantity('1 1/2')).toBe(1.5);
+    expect(parseQuantity('½')).toBe(0.5);
+    expect(parseQuantity('1½')).toBe(1.5);
+  });
+
+  it('reads ranges and uses their midpoint as a single number', () => {
+    expect(parseQuantityRange('2-3')).toEqual({ min: 2, max: 3 });
+    expect(parseQuantityRange('2 to 3')).toEqual({ min: 2, max: 3 });
+    expect(parseQuantity('2-3')).toBe(2.5);
+  });
+
+  it('returns null for text that is not a quantity', () => {
+    expect(parseQuantity('to taste')).toBeNull();
+    expect(parseQuantity('')).toBeNull();
+  });
+
+  it('rejects a zero denominator', () => {
+    expect(parseQuantityRange('1/0')).toBeNull();
+    expect(parseQuantityRange('1 1/0')).toBeNull();
+    expect(parseQuantityRange('1-1/0')).toBeNull();
+  });
+});
+
+describe('unit normalization and conversion', () => {
+  it('maps spellings to canonical units', () => {
+    expect(normalizeUnit('Tablespoons')).toBe('tbsp');
+    expect(normalizeUnit('T')).toBe('tbsp');
+    expect(normalizeUnit('lbs')).toBe('lb');
+    expect(normalizeUnit('cloves')).toBe('clove');
+  });
+
+  it('singularizes plural words', () => {
+    expect(singularize('berries')).toBe('berry');
+    expect(singularize('pinches')).toBe('pinch');
+    expect(singularize('tomatoes')).toBe('tomato');
+    expect(singularize('cloves')).toBe('clove');
+    expect(singularize('glass')).toBe('glass');
+  });
+
+  it('formats kitchen fractions', () => {
+    expect(formatFraction(1.5)).toBe('1 1/2');
+    expect(formatFraction(0.33)).toBe('1/3');
+    expect(formatFraction(1.97)).toBe('2');
+  });
+
+  it('converts between systems and leaves neutral units alone', () => {
+    expect(convertQuantity('1', 'cup', 'metric')).toEqual({ quantity: '235', unit: 'ml' });
+    expect(convertQuantity('500', 'g', 'imperial')).toEqual({ quantity: '1 1/8', unit: 'lb' });
+    expect(convertQuantity('1', 'tsp', 'metric')).toBeNull();
+    expect(convertQuantity('3', 'cloves', 'metric')).toBeNull();
+  });
+
+  it('rewrites measurements and temperatures in free text', () => {
+    expect(convertMeasurementText('Bake at 350°F with 2 cups stock', 'metric')).toBe('Bake at 175°C with 475 ml stock');
+  });
+});
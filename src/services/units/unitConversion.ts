@@ -0,0 +1,256 @@
+/**
+ * Unit Conversion
+ * Parses recipe quantities (fractions, ranges) and converts volume, weight and
+ * temperature between imperial and metric for display.
+ */
+
+import type { UnitSystem, Ingredient, Recipe, RecipeSection } from '../../../types';
+
+export type MeasurementSystem = UnitSystem['system'];
+
+export interface UnitDefinition {
+  unit: string;                      // Canonical short name, e.g. "cup", "g"
+  kind: 'weight' | 'volume';
+  system: MeasurementSystem | 'any'; // 'any' units (tsp, tbsp, pinch) read fine in both systems
+  toBase: number;                    // Grams for weight, millilitres for volume
+}
+
+export interface QuantityRange {
+  min: number;
+  max: number; // Equal to min for single quantities
+}
+
+const UNIT_DEFINITIONS: UnitDefinition[] = [
+  { unit: 'mg', kind: 'weight', system: 'metric', toBase: 0.001 },
+  { unit: 'g', kind: 'weight', system: 'metric', toBase: 1 },
+  { unit: 'kg', kind: 'weight', system: 'metric', toBase: 1000 },
+  { unit: 'oz', kind: 'weight', system: 'imperial', toBase: 28.3495 },
+  { unit: 'lb', kind: 'weight', system: 'imperial', toBase: 453.592 },
+  { unit: 'ml', kind: 'volume', system: 'metric', toBase: 1 },
+  { unit: 'l', kind: 'volume', system: 'metric', toBase: 1000 },
+  { unit: 'pinch', kind: 'volume', system: 'any', toBase: 0.3 },
+  { unit: 'dash', kind: 'volume', system: 'any', toBase: 0.6 },
+  { unit: 'tsp', kind: 'volume', system: 'any', toBase: 4.929 },
+  { unit: 'tbsp', kind: 'volume', system: 'any', toBase: 14.787 },
+  { unit: 'fl oz', kind: 'volume', system: 'imperial', toBase: 29.574 },
+  { unit: 'cup', kind: 'volume', system: 'imperial', toBase: 236.588 },
+  { unit: 'pint', kind: 'volume', system: 'imperial', toBase: 473.176 },
+  { unit: 'quart', kind: 'volume', system: 'imperial', toBase: 946.353 },
+  { unit: 'gallon', kind: 'volume', system: 'imperial', toBase: 3785.41 },
+];
+
+// Spellings the model uses for each canonical unit
+const UNIT_ALIASES: Record<string, string> = {
+  milligram: 'mg', gram: 'g', gr: 'g', kilogram: 'kg', kilo: 'kg',
+  ounce: 'oz', pound: 'lb', lbs: 'lb',
+  milliliter: 'ml', millilitre: 'ml', liter: 'l', litre: 'l',
+  teaspoon: 'tsp', tsps: 'tsp', t: 'tsp',
+  tablespoon: 'tbsp', tbs: 'tbsp', tbsps: 'tbsp', tbl: 'tbsp', tbls: 'tbsp',
+  c: 'cup', 'fluid ounce': 'fl oz', 'fl. oz': 'fl oz', floz: 'fl oz',
+  pt: 'pint', qt: 'quart', gal: 'gallon',
+};
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': ' 1/2', '⅓': ' 1/3', '⅔': ' 2/3', '¼': ' 1/4', '¾': ' 3/4', '⅛': ' 1/8', '⅜': ' 3/8', '⅝': ' 5/8', '⅞': ' 7/8',
+};
+
+/**
+ * Singular form of a plural word ("cloves" -> "clove", "berries" -> "berry", "pinches" -> "pinch")
+ */
+export const singularize = (word: string): string => {
+  if (/ies$/.test(word)) return word.replace(/ies$/, 'y');
+  if (/(ches|shes|xes|oes)$/.test(word)) return word.replace(/es$/, '');
+  if (/[^s]s$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Normalizes unit spellings ("Tablespoons", "tbs.", "lbs") to a canonical short name
+ */
+export const normalizeUnit = (unit: string): string => {
+  const trimmed = (unit || '').trim().replace(/\./g, '');
+  if (trimmed === 'T') return 'tbsp'; // Capital T is the cookbook shorthand for tablespoon
+  const lower = trimmed.toLowerCase().replace(/\s+/g, ' ');
+  if (UNIT_ALIASES[lower]) return UNIT_ALIASES[lower];
+  const singular = singularize(lower);
+  return UNIT_ALIASES[singular] ?? singular;
+};
+
+export const getUnitDefinition = (unit: string): UnitDefinition | null => {
+  const normalized = normalizeUnit(unit);
+  return UNIT_DEFINITIONS.find(d => d.unit === normalized) ?? null;
+};
+
+const parseSingleQuantity = (part: string): number | null => {
+  const match = part.trim().match(/^(\d+(?:\.\d+)?)?\s*(?:(\d+)\/(\d+))?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  const denominator = match[3] ? parseInt(match[3], 10) : 1;
+  if (denominator === 0) return null; // "1/0" is a typo, not an infinite amount
+  const whole = match[1] ? parseFloat(match[1]) : 0;
+  const fraction = match[2] ? parseInt(match[2], 10) / denominator : 0;
+  return whole + fraction;
+};
+
+/**
+ * Parses "2", "1.5", "1 1/2", "½" or a range such as "2-3" / "2 to 3"
+ */
+export const parseQuantityRange = (quantity: string): QuantityRange | null => {
+  if (!quantity) return null;
+  let text = quantity.trim().toLowerCase();
+  Object.entries(UNICODE_FRACTIONS).forEach(([glyph, ascii]) => { text = text.split(glyph).join(ascii); });
+
+  const parts = text.split(/\s*(?:-|–|\bto\b)\s*/);
+  if (parts.length === 2) {
+    const min = parseSingleQuantity(parts[0]);
+    const max = parseSingleQuantity(parts[1]);
+    if (min !== null && max !== null) return { min, max };
+  }
+  const single = parseSingleQuantity(text);
+  return single === null ? null : { min: single, max: single };
+};
+
+/**
+ * Parses a quantity to a single number (ranges use the midpoint)
+ */
+export const parseQuantity = (quantity: string): number | null => {
+  const range = parseQuantityRange(quantity);
+  return range ? (range.min + range.max) / 2 : null;
+};
+
+const FRACTION_STEPS: Array<[number, string]> = [
+  [0, ''], [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [3 / 8, '3/8'], [1 / 2, '1/2'],
+  [5 / 8, '5/8'], [2 / 3, '2/3'], [3 / 4, '3/4'], [7 / 8, '7/8'], [1, ''],
+];
+
+/**
+ * Formats a number as a kitchen fraction ("1 1/2", "3/4"), snapping to the nearest eighth or third
+ */
+export const formatFraction = (value: number): string => {
+  let whole = Math.floor(value);
+  const remainder = value - whole;
+  const [step, label] = FRACTION_STEPS.reduce((best, candidate) =>
+    Math.abs(candidate[0] - remainder) < Math.abs(best[0] - remainder) ? candidate : best
+  );
+  if (step === 1) whole += 1;
+  if (!label) return String(whole);
+  return whole > 0 ? `${whole} ${label}` : label;
+};
+
+const formatDecimal = (value: number): string =>
+  value >= 100 ? String(Math.round(value / 5) * 5) : value >= 10 ? String(Math.round(value)) : String(Math.round(value * 10) / 10);
+
+/**
+ * Picks a sensible display unit for a base amount (grams or millilitres) in the target system
+ */
+const chooseUnit = (base: number, kind: UnitDefinition['kind'], target: MeasurementSystem): UnitDefinition => {
+  const pick = (unit: string) => UNIT_DEFINITIONS.find(d => d.unit === unit)!;
+  if (kind === 'weight') {
+    if (target === 'metric') return base >= 1000 ? pick('kg') : pick('g');
+    return base >= pick('lb').toBase ? pick('lb') : pick('oz');
+  }
+  if (target === 'metric') return base >= 1000 ? pick('l') : pick('ml');
+  if (base >= pick('cup').toBase / 4) return pick('cup');
+  if (base >= pick('tbsp').toBase) return pick('tbsp');
+  return pick('tsp');
+};
+
+/**
+ * Expresses a base amount (grams or millilitres) in the most readable unit of the target system
+ */
+export const fromBaseUnits = (
+  base: number,
+  kind: UnitDefinition['kind'],
+  target: MeasurementSystem
+): { amount: number; unit: string } => {
+  const unit = chooseUnit(base, kind, target);
+  return { amount: base / unit.toBase, unit: unit.unit };
+};
+
+const PLURAL_UNITS = ['cup', 'pint', 'quart', 'gallon'];
+
+const formatAmount = (value: number, unit: UnitDefinition): string =>
+  unit.system === 'metric' ? formatDecimal(value) : formatFraction(value);
+
+/**
+ * Converts a quantity/unit pair into the target system.
+ * Returns null when nothing needs converting (already in the target system, a neutral unit
+ * like tsp, a counted unit like "cloves", or an unparseable quantity).
+ */
+export const convertQuantity = (
+  quantity: string,
+  unit: string,
+  target: MeasurementSystem
+): { quantity: string; unit: string } | null => {
+  const definition = getUnitDefinition(unit);
+  if (!definition || definition.system === 'any' || definition.system === target) return null;
+
+  const range = parseQuantityRange(quantity);
+  if (!range) return null;
+
+  const displayUnit = chooseUnit(range.max * definition.toBase, definition.kind, target);
+  const convert = (value: number) => formatAmount((value * definition.toBase) / displayUnit.toBase, displayUnit);
+  const min = convert(range.min);
+  const max = convert(range.max);
+
+  // Word units read as plurals above one ("2 cups"); abbreviations stay as-is
+  const plural = PLURAL_UNITS.includes(displayUnit.unit) && (parseQuantity(max) ?? 0) > 1;
+  return { quantity: min === max ? min : `${min}-${max}`, unit: plural ? `${displayUnit.unit}s` : displayUnit.unit };
+};
+
+export const convertIngredient = (ingredient: Ingredient, target: MeasurementSystem): Ingredient => {
+  const converted = convertQuantity(ingredient.quantity, ingredient.unit, target);
+  return converted ? { ...ingredient, ...converted } : ingredient;
+};
+
+const fahrenheitToCelsius = (f: number) => Math.round(((f - 32) * 5) / 9 / 5) * 5;
+const celsiusToFahrenheit = (c: number) => Math.round(((c * 9) / 5 + 32) / 5) * 5;
+
+const TEMPERATURE_PATTERN = /(\d{2,3})\s*(?:°|º|degrees?)\s*(F|C|Fahrenheit|Celsius)\b/gi;
+
+/**
+ * Rewrites temperature mentions ("350°F", "180 degrees C") in the target system
+ */
+export const convertTemperatureText = (text: string, target: MeasurementSystem): string =>
+  text.replace(TEMPERATURE_PATTERN, (match, degrees, scale) => {
+    const value = parseInt(degrees, 10);
+    const isFahrenheit = scale.toLowerCase().startsWith('f');
+    if (isFahrenheit && target === 'metric') return `${fahrenheitToCelsius(value)}°C`;
+    if (!isFahrenheit && target === 'imperial') return `${celsiusToFahrenheit(value)}°F`;
+    return match;
+  });
+
+const QUANTITY_TEXT = '(\\d+(?:\\.\\d+)?(?:\\s+\\d+\\/\\d+)?|\\d+\\/\\d+)(?:\\s*(?:-|–|to)\\s*(\\d+(?:\\.\\d+)?(?:\\s+\\d+\\/\\d+)?|\\d+\\/\\d+))?';
+const UNIT_TEXT = '(fl\\.?\\s?oz|fluid ounces?|ounces?|oz|pounds?|lbs?|grams?|g|kilograms?|kg|milliliters?|millilitres?|ml|liters?|litres?|l|cups?|pints?|quarts?|gallons?)';
+const MEASUREMENT_PATTERN = new RegExp(`${QUANTITY_TEXT}\\s*${UNIT_TEXT}(?![a-z])`, 'gi');
+
+/**
+ * Rewrites measurements and temperatures inside free text such as instruction steps
+ */
+export const convertMeasurementText = (text: string, target: MeasurementSystem): string =>
+  convertTemperatureText(text, target).replace(MEASUREMENT_PATTERN, (match, min, max, unit) => {
+    const converted = convertQuantity(max ? `${min}-${max}` : min, unit, target);
+    return converted ? `${converted.quantity} ${converted.unit}` : match;
+  });
+
+const convertSection = (section: RecipeSection, target: MeasurementSystem): RecipeSection => ({
+  ...section,
+  items: (section.items || []).map(item => convertMeasurementText(item, target)),
+  ...(section.ingredients ? { ingredients: section.ingredients.map(i => convertIngredient(i, target)) } : {}),
+  metadata: {
+    ...section.metadata,
+    ...(section.metadata?.quantity ? { quantity: convertMeasurementText(section.metadata.quantity, target) } : {}),
+    ...(section.metadata?.technique ? { technique: convertTemperatureText(section.metadata.technique, target) } : {})
+  }
+});
+
+/**
+ * Returns a display copy of the recipe with every ingredient and temperature in the target system
+ */
+export function convertRecipeUnits(recipe: Recipe, target: MeasurementSystem): Recipe {
+  return {
+    ...recipe,
+    description: convertTemperatureText(recipe.description || '', target),
+    chefNote: convertMeasurementText(recipe.chefNote || '', target),
+    sections: (recipe.sections || []).map(s => convertSection(s, target))
+  };
+}
@@ -7,6 +7,10 @@ export interface UnitSystem {
   distance: 'miles' | 'km';
 }
 
+export type CookingSkill = 'Beginner' | 'Intermediate' | 'Advanced' | 'Elite';
+
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very-active';
+
 export interface UserProfile {
   age: number;
   gender: string;
@@ -14,54 +18,49 @@ export interface UserProfile {
   height: number;
   units: UnitSystem;
   goals: string[];
-  medicalConditions: string[]; // Dietary Restrictions
-  injuries: string[]; // Allergies
-  preferences: string[]; // Dislikes/Equipment
-  fitnessLevel: 'Beginner' | 'Intermediate' | 'Advanced' | 'Elite'; // Cooking Skill
-}
-
-// Daily Context
-export interface DailyContext {
-  duration: number; // minutes
-  sleepQuality: number; // Hunger Level 1-10
-  energyLevel: number; // Mood 1-10
-  soreness: string[]; // Cravings
-  targetMuscleGroups: string[]; // Ingredients on Hand
-  equipmentAvailable: string[];
-  workoutType: string;
-  selectedFocus: string;
-}
-
-// Chef Persona
-export enum TrainerType {
-  FUNCTIONAL = 'The Balanced Nutritionist',
-  HYPERTROPHY = 'The High-Protein Chef',
-  POWERLIFTING = 'The Hearty Home Cook',
-  YOGA = 'The Plant-Forward Alchemist',
-  HIIT = 'The 15-Minute Gourmet',
-  REHAB = 'The Gut Health Specialist'
-}
-
-export const TRAINER_FOCUS_OPTIONS: Record<TrainerType, string[]> = {
-  [TrainerType.FUNCTIONAL]: [
-    "Mediterranean Diet", "Balanced Macros", "Whole Foods", "Family Favorites"
-  ],
-  [TrainerType.HYPERTROPHY]: [
-    "Post-Workout Anabolic", "Lean Bulk", "High Protein/Low Fat", "Steak & Potatoes"
-  ],
-  [TrainerType.POWERLIFTING]: [
-    "Calorie Dense", "Comfort Food", "Slow Cooker/Stews", "Game Day Snacks"
-  ],
-  [TrainerType.YOGA]: [
-    "Vegan/Vegetarian", "Raw Foods", "Ayurvedic Inspired", "Grain Bowls"
-  ],
-  [TrainerType.HIIT]: [
-    "One-Pan Meals", "5-Ingredient Recipes", "Meal Prep Batches", "Air Fryer"
-  ],
-  [TrainerType.REHAB]: [
-    "Anti-Inflammatory", "Low FODMAP", "Bone Broths", "Gluten-Free"
-  ]
-};
+  dietaryRestrictions: string[]; // e.g. "Vegan", "Gluten-Free"
+  allergies: string[];
+  dislikes: string[];
+  cookingSkill: CookingSkill;
+  activityLevel?: ActivityLevel; // Drives calorie targets; 'moderate' when unset
+}
+
+// What the user asks for at check-in
+export interface CookingContext {
+  timeAvailable: number; // minutes
+  hungerLevel: number; // 1-10
+  moodLevel: number; // Mood / energy 1-10
+  cravings: string[];
+  ingredientsOnHand: string[];
+  cuisine: string; // Chef focus option, e.g. "Mediterranean"
+  mealType?: MealSlot; // Meal being cooked - picks the per-meal targets
+  recoveryWorkout?: WorkoutSummary; // Workout imported from the Hub to cook a recovery meal for
+  pantry?: PantryConstraint; // Cook-from-my-kitchen mode: only use what's in stock
+  expiringIngredients?: string[]; // Inventory items close to expiry - the recipe should use them first
+}
+
+// Pantry-first generation: the recipe is limited to in-stock inventory plus staples
+export interface PantryConstraint {
+  inventory: string[];      // Names of in-stock inventory items
+  pinned: string[];         // Items the recipe must use
+  staples: string[];        // Basics assumed on hand even if not tracked (salt, oil...)
+  maxExtras: number;        // How many other ingredients the chef may ask the user to buy
+}
+
+// Completed workout as reported by the Hub (Trainer app)
+export type WorkoutIntensity = 'low' | 'moderate' | 'high';
+
+export interface WorkoutSummary {
+  id: string;
+  title: string;            // e.g. "Upper Body Push"
+  type: string;             // e.g. "Strength", "Running", "HIIT"
+  completedAt: string;      // ISO timestamp
+  durationMinutes: number;
+  caloriesBurned: number;   // kcal expended
+  caloriesEstimated: boolean; // true when the Hub had no reading and caloriesBurned was estimated
+  intensity?: WorkoutIntensity;
+  muscleGroups?: string[];
+}
 
 // --- NEW RECIPE SCHEMA ---
 
@@ -86,6 +85,15 @@ export interface RecipeSection {
     metadata: RecipeStepMeta; 
 }
 
+// A recipe ingredient that conflicts with a profile allergy or dietary restriction
+export interface AllergenViolation {
+    ingredient: string;   // Ingredient as written in the recipe
+    rule: string;         // Profile entry it conflicts with, e.g. "Peanuts" or "Vegan"
+    kind: 'allergy' | 'restriction';
+    group: string;        // Food group, e.g. "dairy"
+    matchedTerm: string;  // Word that triggered the match, e.g. "whey"
+}
+
 export interface Recipe {
     id?: string;
     userId?: string;
@@ -93,26 +101,47 @@ export interface Recipe {
     description: string; // Database: description
     difficulty: string; // Database: difficulty_level
     chefNote: string; // Not in database
-    totalTime: number; // Calculated: prep_time + cook_time
+    totalTime: number; // Database: total_time_minutes (older recipes: prep_time + cook_time)
     prepTime?: number; // Database: prep_time_minutes
     cookTime?: number; // Database: cook_time_minutes
-    calories: number; // Not in database - calculated from ingredients
-    protein?: number; // Not in database - calculated from ingredients
-    carbs?: number; // Not in database - calculated from ingredients
-    fat?: number; // Not in database - calculated from ingredients
+    calories: number; // Database: calories (per serving, calculated from ingredients)
+    protein?: number; // Database: protein (g per serving, calculated from ingredients)
+    carbs?: number; // Database: carbs (g per serving, calculated from ingredients)
+    fat?: number; // Database: fat (g per serving, calculated from ingredients)
     mealType?: string; // Database: meal_type
     servings?: number; // Database: servings
     cuisine: string; // Database: cuisine_type
     dietaryTags?: string[]; // Database: dietary_tags (JSONB array)
     allergens?: string[]; // Database: allergens (JSONB array)
+    ingredientNames?: string[]; // Database: ingredient_names (lets summaries be searched without their sections)
     chefPersona: string; // Not in database - UI only
     imageUrl?: string; // Database: image_url
     isFavorite?: boolean; // Database: is_favorite
     isPublic?: boolean; // Database: is_public
+    variantOf?: string; // Database: variant_of (recipe this one was rescaled from)
+    remixOf?: string; // Database: remix_of (recipe this one was refined from)
+    remixInstruction?: string; // Database: remix_instruction (the change the user asked for)
+    remixSource?: Recipe; // Not in database - unsaved original of a refinement, saved first so remixOf can point at it
     createdAt?: string;
+    revision?: number; // Database: current_revision (latest saved revision number)
+    safetyFlags?: AllergenViolation[]; // Not in database - dietary restriction conflicts left after regeneration
+    missingIngredients?: string[]; // Not in database - pantry mode: ingredients that still need buying
+    isSummary?: boolean; // Not in database - list views: sections not loaded yet (see getRecipeById)
     sections: RecipeSection[];
 }
 
+// Immutable copy of a recipe as it was at one save
+export interface RecipeRevision {
+    id: string;
+    recipeId: string; // Database: recipe_id
+    revision: number; // Database: revision (1 = first save)
+    authorId: string; // Database: user_id
+    authorName?: string; // Database: author_name
+    createdAt: string; // Database: created_at
+    restoredFrom?: number; // Database: restored_from (revision this save brought back)
+    recipe: Recipe; // Database: snapshot (JSON) - fields, sections and ingredients as saved
+}
+
 // --- INVENTORY & SHOPPING SCHEMA ---
 
 export interface Location {
@@ -132,6 +161,10 @@ export interface InventoryItem {
   locationName?: string; // For display
   category?: string; // Produce, Dairy, etc.
   inStock: boolean;
+  lowStockThreshold?: number; // Database: low_stock_threshold (in the item's unit) - below this it goes on the shopping list
+  purchasedAt?: string; // Database: purchased_at
+  expiresAt?: string; // Database: expires_at (estimated from category and location unless overridden)
+  expiryOverridden?: boolean; // Database: expiry_overridden (expiry was set by hand)
 }
 
 export interface ShoppingListItem {
@@ -140,6 +173,8 @@ export interface ShoppingListItem {
                           // Kept for backward compatibility with existing code
                           // In practice, 'name' field should be used instead
     name: string; // Ingredient name - use this field for display and logic
+    quantity?: number; // Database: quantity
+    unit?: string; // Database: unit
     isChecked: boolean;
 }
 
@@ -150,4 +185,59 @@ export interface AuditItem {
   unit: string;
   inStock: boolean; // The toggle state
   inventoryId?: string; // If exists in DB
-}
\ No newline at end of file
+}
+
+// --- MEAL PLANNING SCHEMA ---
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export interface MacroTargets {
+  calories: number; // kcal
+  protein: number;  // g
+  carbs: number;    // g
+  fat: number;      // g
+}
+
+export interface MealPlanMeal {
+  mealType: MealSlot; // Database: meal_type
+  recipeId?: string;  // Database: recipe_id (set once the recipe is saved to the cookbook)
+  title: string;
+  calories: number;   // Per serving, copied from the recipe for the week overview
+  protein: number;
+  carbs: number;
+  fat: number;
+  recipe?: Recipe;    // Not in database - full recipe while the plan is unsaved
+}
+
+export interface MealPlanDay {
+  date: string; // YYYY-MM-DD
+  meals: MealPlanMeal[];
+}
+
+export interface MealPlan {
+  id?: string;
+  userId?: string;              // Database: user_id
+  title: string;
+  weekStart: string;            // Database: week_start (YYYY-MM-DD)
+  days: MealPlanDay[];
+  targetMacros: MacroTargets;   // Database: target_macros (per day)
+  sharedIngredients: string[];  // Database: shared_ingredients (used by two or more meals)
+  chefPersona?: string;         // Database: chef_persona
+  createdAt?: string;
+}
+
+// One meal the user actually ate
+export interface FoodLogEntry {
+  id?: string;
+  userId?: string;
+  recipeId?: string;
+  title: string;
+  mealType?: MealSlot;
+  servings: number;   // Servings eaten
+  calories: number;   // Totals for the servings eaten
+  protein: number;    // g
+  carbs: number;      // g
+  fat: number;        // g
+  cooked: boolean;    // Cooked from the recipe now (false for leftovers)
+  loggedAt: string;   // ISO timestamp
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseTimerDuration, formatCountdown } from './timerParser';
+
+describe('parseTimerDuration', () => {
+  it('sums every number and unit pair', () => {
+    expect(parseTimerDuration('10 mins')).toBe(600);
+    expect(parseTimerDuration('1 hr 15 min')).toBe(4500);
+    expect(parseTimerDuration('1.5 hours')).toBe(5400);
+    expect(parseTimerDuration('45 seconds')).toBe(45);
+  });
+
+  it('uses the lower bound of a range', () => {
+    expect(parseTimerDuration('5-7 minutes')).toBe(300);
+    expect(parseTimerDuration('20 to 25 min')).toBe(1200);
+  });
+
+  it('reads unicode fractions, alone or after a whole number', () => {
+    expect(parseTimerDuration('½ hour')).toBe(1800);
+    expect(parseTimerDuration('1½ hours')).toBe(5400);
+    expect(parseTimerDuration('1 ¼ hours')).toBe(4500);
+    expect(parseTimerDuration('¾ hr')).toBe(2700);
+  });
+
+  it('reads slash fractions', () => {
+    expect(parseTimerDuration('1/2 hour')).toBe(1800);
+    expect(parseTimerDuration('1 1/2 hours')).toBe(5400);
+  });
+
+  it('reads clock formats and bare minutes', () => {
+    expect(parseTimerDuration('1:30')).toBe(90);
+    expect(parseTimerDuration('1:05:00')).toBe(3900);
+    expect(parseTimerDuration('10')).toBe(600);
+  });
+
+  it('returns null without a duration', () => {
+    expect(parseTimerDuration('until golden')).toBeNull();
+    expect(parseTimerDuration('')).toBeNull();
+    expect(parseTimerDuration(undefined)).toBeNull();
+  });
+});
+
+describe('formatCountdown', () => {
+  it('formats minutes and hours', () => {
+    expect(formatCountdown(245)).toBe('4:05');
+    expect(formatCountdown(3750)).toBe('1:02:30');
+    expect(formatCountdown(-3)).toBe('0:00');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Timer Parser Utility - Turns free-text step timers ("10 mins", "1 hr 15 min", "5-7 minutes") into seconds
+ */
+
+const UNIT_SECONDS: Array<{ pattern: RegExp; seconds: number }> = [
+  { pattern: /^(h|hr|hrs|hour|hours)$/, seconds: 3600 },
+  { pattern: /^(m|min|mins|minute|minutes)$/, seconds: 60 },
+  { pattern: /^(s|sec|secs|second|seconds)$/, seconds: 1 },
+];
+
+const unitToSeconds = (unit: string): number | null =>
+  UNIT_SECONDS.find(u => u.pattern.test(unit.toLowerCase()))?.seconds ?? null;
+
+const VULGAR_FRACTIONS: Record<string, number> = { '¼': 0.25, '½': 0.5, '¾': 0.75 };
+
+/**
+ * Rewrites fractions as decimals, folding in a preceding whole number:
+ * "½ hour" -> "0.5 hour", "1½ hours" -> "1.5 hours", "1 1/2 hours" -> "1.5 hours"
+ */
+const normalizeFractions = (text: string): string =>
+  text
+    .replace(/(\d+)?\s*([¼½¾])/g, (_, whole, fraction) =>
+      ` ${(whole ? parseInt(whole, 10) : 0) + VULGAR_FRACTIONS[fraction]}`)
+    .replace(/(?:(\d+)\s+)?(\d+)\/(\d+)/g, (match, whole, numerator, denominator) =>
+      parseInt(denominator, 10) === 0
+        ? match
+        : ` ${(whole ? parseInt(whole, 10) : 0) + parseInt(numerator, 10) / parseInt(denominator, 10)}`);
+
+/**
+ * Parses a timer label into a duration in seconds.
+ * Ranges use the lower bound so the alert fires at the first check point.
+ * Returns null for labels without a duration (e.g. "until golden").
+ */
+export function parseTimerDuration(timer: string | undefined): number | null {
+  if (!timer) return null;
+  const text = normalizeFractions(timer.toLowerCase()).trim();
+
+  // Clock format: "1:30" (minutes:seconds) or "1:05:00"
+  const clock = text.match(/\b(\d{1,2}):(\d{2})(?::(\d{2}))?\b/);
+  if (clock) {
+    const [, a, b, c] = clock;
+    return c !== undefined
+      ? parseInt(a, 10) * 3600 + parseInt(b, 10) * 60 + parseInt(c, 10)
+      : parseInt(a, 10) * 60 + parseInt(b, 10);
+  }
+
+  // Sum every "<number|range> <unit>" pair: "1 hr 15 min", "5-7 minutes", "1.5 hours"
+  const pairs = text.matchAll(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*\d+(?:\.\d+)?)?\s*([a-z]+)/g);
+  let total = 0;
+  for (const [, amount, unit] of pairs) {
+    const seconds = unitToSeconds(unit);
+    if (seconds !== null) total += parseFloat(amount) * seconds;
+  }
+  if (total > 0) return Math.round(total);
+
+  // Bare number: assume minutes ("10")
+  const bare = text.match(/^(\d+(?:\.\d+)?)$/);
+  return bare ? Math.round(parseFloat(bare[1]) * 60) : null;
+}
+
+/**
+ * Formats seconds as a countdown ("4:05", "1:02:30")
+ */
+export function formatCountdown(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
@@ -4,6 +4,8 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
   readonly VITE_GEMINI_API_KEY: string;
+  readonly VITE_MODEL_PROVIDER?: 'gemini' | 'local';
+  readonly VITE_WORKOUT_SOURCE?: 'firestore' | 'local';
   readonly VITE_DEBUG?: string;
   readonly VITE_LOG_LEVEL?: string;
 }
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -23,6 +24,11 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // Unit tests run offline: generation goes through the local fixture provider
+        environment: 'node',
+        include: ['src/**/*.test.ts', 'services/**/*.test.ts', 'utils/**/*.test.ts']
       }
     };
 });